@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { generateAIResponse, Message } from '@/lib/ai-utils';
 
 const prisma = new PrismaClient();
 
@@ -63,12 +64,13 @@ function sanitizeGeneratedContent(content: string): string {
 /**
  * 从故事中提取关键元素（角色、地点、情节点等）
  * @param content 故事内容
+ * @param provider AI服务提供方
  * @returns 提取的关键元素
  */
-async function extractKeyElements(content: string): Promise<Record<string, any>> {
+async function extractKeyElements(content: string, provider?: string | null): Promise<Record<string, any>> {
   try {
     // 构建提取关键元素的系统提示
-    const messages: Array<{ role: string, content: string }> = [
+    const messages: Message[] = [
       {
         role: 'system',
         content: '你是一个小说分析助手，请从提供的故事内容中提取关键元素，包括：主要角色（及其特征）、故事发生的地点、重要的情节点、故事中的关键物品或概念、时间背景等。以JSON格式返回这些元素。'
@@ -76,27 +78,14 @@ async function extractKeyElements(content: string): Promise<Record<string, any>>
       { role: 'user', content: `故事内容：${content}` }
     ];
 
-    // 调用 OpenAI 兼容服务
-    const response = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gemini-2.5-flash-preview-04-17',
-        messages,
-        temperature: 0.3,
-        max_tokens: 1000,
-        response_format: { type: "json_object" }
-      }),
+    // 调用 AI 服务
+    const response = await generateAIResponse(messages, {
+      temperature: 0.3,
+      maxTokens: 1000,
+      responseFormat: { type: "json_object" },
+      provider
     });
 
-    if (!response.ok) {
-      console.error('提取关键元素失败:', response.statusText);
-      return {};
-    }
-
     const data = await response.json();
     const responseContent = data.choices?.[0]?.message?.content;
 
@@ -148,12 +137,13 @@ interface CoherenceAnalysis {
  * 分析章节间连贯性
  * @param previousChapter 前一章节内容
  * @param currentChapter 当前章节内容
+ * @param provider AI服务提供方
  * @returns 连贯性分析结果
  */
-async function analyzeCoherence(previousChapter: string, currentChapter: string): Promise<CoherenceAnalysis> {
+async function analyzeCoherence(previousChapter: string, currentChapter: string, provider?: string | null): Promise<CoherenceAnalysis> {
   try {
     // 构建分析连贯性的系统提示
-    const messages: Array<{ role: string, content: string }> = [
+    const messages: Message[] = [
       {
         role: 'system',
         content: '你是一个小说分析助手，负责评估两个连续章节之间的内容连贯性。请分析以下两个章节，并指出任何不连贯之处，包括人物描写不一致、情节发展冲突、设定矛盾等问题。以JSON格式返回分析结果。'
@@ -164,27 +154,14 @@ async function analyzeCoherence(previousChapter: string, currentChapter: string)
       }
     ];
 
-    // 调用 OpenAI 兼容服务
-    const response = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gemini-2.5-flash-preview-04-17',
-        messages,
-        temperature: 0.3,
-        max_tokens: 1000,
-        response_format: { type: "json_object" }
-      }),
+    // 调用 AI 服务
+    const response = await generateAIResponse(messages, {
+      temperature: 0.3,
+      maxTokens: 1000,
+      responseFormat: { type: "json_object" },
+      provider
     });
 
-    if (!response.ok) {
-      console.error('分析连贯性失败:', response.statusText);
-      return { coherent: true, issues: [] };
-    }
-
     const data = await response.json();
     const responseContent = data.choices?.[0]?.message?.content;
 
@@ -304,29 +281,18 @@ ${chapterPrompt}
 
 请直接返回章节内容，不要添加额外的说明或标记。`;
 
-    // 调用 OpenAI 兼容服务
-    const response = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gemini-2.5-flash-preview-04-17',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: '请开始创作新章节内容' }
-        ],
-        temperature: 0.7,
-        max_tokens: 2000,
-      }),
+    // 调用 AI 服务
+    const response = await generateAIResponse([
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: '请开始创作新章节内容' }
+    ], {
+      temperature: 0.7,
+      maxTokens: 2000,
+      timeoutMs: 90000,
+      maxRetries: 1,
+      provider: story.aiProvider
     });
 
-    if (!response.ok) {
-      console.error('生成连贯章节失败:', response.statusText);
-      throw new Error('生成连贯章节失败');
-    }
-
     const data = await response.json();
     const responseContent = data.choices?.[0]?.message?.content;
 
@@ -344,12 +310,13 @@ ${chapterPrompt}
 /**
  * 从故事内容中提取角色信息
  * @param content 故事内容
+ * @param provider AI服务提供方
  * @returns 提取的角色信息数组
  */
-async function extractCharactersFromContent(content: string): Promise<Array<{ name: string, description: string, attributes?: any }>> {
+async function extractCharactersFromContent(content: string, provider?: string | null): Promise<Array<{ name: string, description: string, attributes?: any }>> {
   try {
     // 构建提取角色的系统提示
-    const messages: Array<{ role: string, content: string }> = [
+    const messages: Message[] = [
       {
         role: 'system',
         content: `你是一个故事分析助手，专门识别和分析小说中的角色。
@@ -385,27 +352,15 @@ async function extractCharactersFromContent(content: string): Promise<Array<{ na
       { role: 'user', content: `故事内容：${content}` }
     ];
 
-    // 调用 OpenAI 兼容服务
-    const response = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gemini-2.5-flash-preview-04-17',
-        messages,
-        temperature: 0.3,
-        max_tokens: 1500,
-        response_format: { type: "json_object" }
-      }),
+    // 调用 AI 服务
+    const response = await generateAIResponse(messages, {
+      temperature: 0.3,
+      maxTokens: 1500,
+      responseFormat: { type: "json_object" },
+      timeoutMs: 60000,
+      provider
     });
 
-    if (!response.ok) {
-      console.error('提取角色信息失败:', response.statusText);
-      return [];
-    }
-
     const data = await response.json();
     const responseContent = data.choices?.[0]?.message?.content;
 
@@ -427,6 +382,24 @@ async function extractCharactersFromContent(content: string): Promise<Array<{ na
   }
 }
 
+/**
+ * 获取故事设置的AI服务提供方
+ * @param storyId 故事ID
+ * @returns 提供方名称，未设置时返回null
+ */
+async function getStoryAIProvider(storyId: string): Promise<string | null> {
+  try {
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { aiProvider: true }
+    });
+    return story?.aiProvider || null;
+  } catch (error) {
+    console.warn('获取故事AI服务设置失败:', error);
+    return null;
+  }
+}
+
 export async function POST(req: Request) {
   try {
     const { story, prompt, task, storyId, previousChapterId, checkCharacterConsistency } = await req.json();
@@ -435,10 +408,13 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: '请求体中缺少 task 字段' }, { status: 400 });
     }
 
-    let messages: Array<{ role: string, content: string }> = [];
+    let messages: Message[] = [];
     let output;
 
-    // 构建发送给 OpenAI 兼容服务的 messages 数组
+    // 有故事ID时使用故事级的AI服务提供方设置
+    const provider = storyId ? await getStoryAIProvider(storyId) : null;
+
+    // 构建发送给 AI 服务的 messages 数组
     if (task === 'generate_prompts') {
       if (!story) {
         return NextResponse.json({ error: '请求体中缺少 story 字段' }, { status: 400 });
@@ -454,7 +430,7 @@ export async function POST(req: Request) {
       }
 
       // 从故事中提取关键元素
-      const keyElements = await extractKeyElements(story);
+      const keyElements = await extractKeyElements(story, provider);
       const keyElementsJson = JSON.stringify(keyElements);
 
       // 如果有storyId，获取已存在的角色信息
@@ -545,7 +521,7 @@ export async function POST(req: Request) {
 
       try {
         // 分析章节间连贯性
-        const coherenceAnalysis = await analyzeCoherence(story, prompt);
+        const coherenceAnalysis = await analyzeCoherence(story, prompt, provider);
 
         return NextResponse.json({
           analysis: coherenceAnalysis,
@@ -595,19 +571,11 @@ export async function POST(req: Request) {
           return info;
         }).join('\n');
 
-        // 调用 OpenAI 兼容服务检查一致性
-        const response = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-          },
-          body: JSON.stringify({
-            model: 'gemini-2.5-flash-preview-04-17',
-            messages: [
-              {
-                role: 'system',
-                content: `你是一个小说分析助手，负责评估内容与已有角色设定的一致性。请根据以下角色信息，分析提供的内容是否与角色设定相符，并指出任何不一致之处：
+        // 调用 AI 服务检查一致性
+        const response = await generateAIResponse([
+          {
+            role: 'system',
+            content: `你是一个小说分析助手，负责评估内容与已有角色设定的一致性。请根据以下角色信息，分析提供的内容是否与角色设定相符，并指出任何不一致之处：
 
 角色设定：
 ${characterInfo}
@@ -624,23 +592,15 @@ ${characterInfo}
   ],
   "summary": "简要总结分析结果"
 }`
-              },
-              { role: 'user', content: `待分析内容：${prompt}` }
-            ],
-            temperature: 0.3,
-            max_tokens: 1000,
-            response_format: { type: "json_object" }
-          }),
+          },
+          { role: 'user', content: `待分析内容：${prompt}` }
+        ], {
+          temperature: 0.3,
+          maxTokens: 1000,
+          responseFormat: { type: "json_object" },
+          provider
         });
 
-        if (!response.ok) {
-          return NextResponse.json({
-            error: '角色一致性检查失败',
-            details: response.statusText,
-            success: false
-          }, { status: 500 });
-        }
-
         const data = await response.json();
         const analysisResult = data.choices?.[0]?.message?.content;
 
@@ -677,31 +637,24 @@ ${characterInfo}
       return NextResponse.json({ error: '无效的任务类型' }, { status: 400 });
     }
 
-    // 调用 OpenAI 兼容服务
-    const openaiResponse = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gemini-2.5-flash-preview-04-17',
-        messages,
+    // 调用 AI 服务
+    let aiResponse: Response;
+    try {
+      aiResponse = await generateAIResponse(messages, {
         temperature: 0.7,
-        max_tokens: 1000,
-      }),
-    });
-
-    if (!openaiResponse.ok) {
-      console.error('OpenAI API 错误:', openaiResponse.statusText);
-      return NextResponse.json({ error: 'AI 服务错误', details: openaiResponse.statusText }, { status: 500 });
+        maxTokens: 1000,
+        provider
+      });
+    } catch (error) {
+      console.error('AI 服务错误:', error);
+      return NextResponse.json({ error: 'AI 服务错误', details: error instanceof Error ? error.message : '未知错误' }, { status: 500 });
     }
 
-    const openaiData = await openaiResponse.json();
-    const responseContent = openaiData.choices?.[0]?.message?.content;
+    const aiData = await aiResponse.json();
+    const responseContent = aiData.choices?.[0]?.message?.content;
 
     if (typeof responseContent !== 'string') {
-      console.error('AI API 响应格式错误:', openaiData);
+      console.error('AI API 响应格式错误:', aiData);
       return NextResponse.json({ error: 'AI 服务响应格式错误' }, { status: 500 });
     }
 
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
+import { generateAIResponse, Message } from "@/lib/ai-utils";
 
 export async function POST(
   request: Request,
@@ -71,32 +72,20 @@ export async function POST(
     }
 
     // 准备消息
-    const messages = [
+    const messages: Message[] = [
       { role: "system", content: systemPrompt },
       { role: "user", content: userPrompt }
     ];
 
-    // 调用 OpenAI 兼容服务
-    const response = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gemini-2.5-flash-preview-04-17',
-        messages,
-        temperature: 0.7,
-        max_tokens: 1500,
-        response_format: { type: "json_object" }
-      }),
+    // 调用 AI 服务
+    const response = await generateAIResponse(messages, {
+      temperature: 0.7,
+      maxTokens: 1500,
+      responseFormat: { type: "json_object" },
+      timeoutMs: 60000,
+      provider: story.aiProvider
     });
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(`AI服务错误: ${errorData.error?.message || response.statusText}`);
-    }
-
     // 解析响应
     const data = await response.json();
     const generatedOutline = data.choices?.[0]?.message?.content || "";
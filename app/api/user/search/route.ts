@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { searchUserContent } from '@/lib/search';
+import { SearchDocumentType } from '@/lib/search-index';
+
+const SEARCH_TYPES: SearchDocumentType[] = ['chapter', 'character', 'outline', 'story'];
+const MAX_QUERY_LENGTH = 100;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * 全文搜索当前用户的章节正文、摘要、笔记、角色描述和大纲
+ * GET /api/user/search?q=关键词&storyId=&types=chapter,character&limit=
+ * 多个关键词以空格分隔，需同时命中；用英文双引号包裹的短语按整体匹配
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const query = (searchParams.get('q') || '').trim();
+
+    if (!query) {
+      return apiError('无效的请求', '缺少搜索关键词', 400);
+    }
+
+    if (query.length > MAX_QUERY_LENGTH) {
+      return apiError('无效的请求', `搜索关键词不能超过 ${MAX_QUERY_LENGTH} 个字符`, 400);
+    }
+
+    const types = (searchParams.get('types') || '')
+      .split(',')
+      .filter((type): type is SearchDocumentType => SEARCH_TYPES.includes(type as SearchDocumentType));
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    const results = await searchUserContent(auth.dbUser.id, query, {
+      storyId: searchParams.get('storyId') || undefined,
+      types,
+      limit
+    });
+
+    return apiSuccess(results);
+  }, '搜索失败');
+}
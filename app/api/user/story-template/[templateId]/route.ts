@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import prisma from '@/lib/prisma';
+import {
+  findBuiltInTemplate,
+  isBuiltInTemplateId,
+  normalizeTemplateStructure,
+  toStoryTemplate
+} from '@/lib/story-templates';
+
+type StoryTemplateParams = { params: { templateId: string } };
+
+/**
+ * 验证用户对自定义模板的访问权限，成功时返回模板，否则返回错误响应
+ */
+async function findOwnedTemplate(req: NextRequest, { params }: StoryTemplateParams) {
+  const { templateId } = params;
+
+  if (!templateId) {
+    return apiError('无效的请求', '缺少模板ID', 400);
+  }
+
+  // 验证用户身份
+  const auth = await authenticateUser(req);
+
+  if (!auth.isAuthenticated) {
+    return auth.response as NextResponse;
+  }
+
+  if (isBuiltInTemplateId(templateId)) {
+    return apiError('访问被拒绝', '内置模板不能修改或删除', 403);
+  }
+
+  const template = await prisma.storyTemplate.findUnique({
+    where: { id: templateId }
+  });
+
+  if (!template) {
+    return apiError('未找到模板', '请求的模板不存在', 404);
+  }
+
+  if (template.userId !== auth.dbUser.id) {
+    return apiError('访问被拒绝', '您无权访问此模板', 403);
+  }
+
+  return template;
+}
+
+/**
+ * 获取单个故事模板（内置或自定义）
+ * GET /api/user/story-template/[templateId]
+ */
+export async function GET(req: NextRequest, context: StoryTemplateParams): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const builtIn = findBuiltInTemplate(context.params.templateId);
+
+    if (builtIn) {
+      return apiSuccess(builtIn);
+    }
+
+    const result = await findOwnedTemplate(req, context);
+    if (result instanceof NextResponse) return result;
+
+    return apiSuccess(toStoryTemplate(result));
+  }, '获取故事模板失败');
+}
+
+/**
+ * 更新自定义故事模板
+ * PUT /api/user/story-template/[templateId]
+ */
+export async function PUT(req: NextRequest, context: StoryTemplateParams): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedTemplate(req, context);
+    if (result instanceof NextResponse) return result;
+
+    // 解析请求体
+    const body = await req.json();
+    const { name, description, structure } = body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return apiError('无效的请求数据', '模板名称不能为空', 400);
+    }
+
+    const template = await prisma.storyTemplate.update({
+      where: { id: result.id },
+      data: {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(description !== undefined && { description: description || null }),
+        ...(structure !== undefined && { structure: JSON.stringify(normalizeTemplateStructure(structure)) })
+      }
+    });
+
+    return apiSuccess(toStoryTemplate(template));
+  }, '更新故事模板失败');
+}
+
+/**
+ * 删除自定义故事模板，已用该模板创建的故事不受影响
+ * DELETE /api/user/story-template/[templateId]
+ */
+export async function DELETE(req: NextRequest, context: StoryTemplateParams): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedTemplate(req, context);
+    if (result instanceof NextResponse) return result;
+
+    await prisma.storyTemplate.delete({
+      where: { id: result.id }
+    });
+
+    return apiSuccess({ message: '模板已删除' });
+  }, '删除故事模板失败');
+}
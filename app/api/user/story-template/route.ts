@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import prisma from '@/lib/prisma';
+import { BUILT_IN_STORY_TEMPLATES, normalizeTemplateStructure, toStoryTemplate } from '@/lib/story-templates';
+import { extractTemplateStructure } from '@/lib/story-template-seed';
+
+/**
+ * 获取可用的故事模板：内置模板在前，之后是用户自定义模板
+ * GET /api/user/story-template
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    const templates = await prisma.storyTemplate.findMany({
+      where: { userId: auth.dbUser.id },
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    return apiSuccess([...BUILT_IN_STORY_TEMPLATES, ...templates.map(toStoryTemplate)]);
+  }, '获取故事模板失败');
+}
+
+/**
+ * 创建自定义故事模板
+ * POST /api/user/story-template
+ * 请求体：{ name, description?, structure? , storyId? }，提供 storyId 时从该故事提取结构
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 解析请求体
+    const body = await req.json();
+    const { name, description, structure, storyId } = body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return apiError('无效的请求数据', '模板名称是必需的', 400);
+    }
+
+    let templateStructure;
+
+    if (storyId) {
+      // 验证故事归属
+      const story = await prisma.story.findUnique({
+        where: { id: storyId },
+        select: { userId: true }
+      });
+
+      if (!story) {
+        return apiError('未找到故事', '请求的故事不存在', 404);
+      }
+
+      if (story.userId !== auth.dbUser.id) {
+        return apiError('访问被拒绝', '您无权访问此故事', 403);
+      }
+
+      templateStructure = await extractTemplateStructure(storyId);
+    } else {
+      templateStructure = normalizeTemplateStructure(structure);
+    }
+
+    if (templateStructure.acts.length === 0 && templateStructure.characterRoles.length === 0) {
+      return apiError('无效的请求数据', '模板至少需要包含一个幕或一个角色定位', 400);
+    }
+
+    const template = await prisma.storyTemplate.create({
+      data: {
+        name: name.trim(),
+        description: description || null,
+        structure: JSON.stringify(templateStructure),
+        userId: auth.dbUser.id
+      }
+    });
+
+    return apiSuccess(toStoryTemplate(template), 201);
+  }, '创建故事模板失败');
+}
@@ -6,7 +6,8 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import prisma from '@/lib/prisma';
-import { Message } from 'ai';
+import { generateAIResponse, Message } from '@/lib/ai-utils';
+import { formatCodexForPrompt, selectRelevantCodexEntries } from '@/lib/codex-utils';
 
 /**
  * 提供AI辅助功能
@@ -86,6 +87,17 @@ export async function POST(
       }
     }
 
+    // 附带提示中提及的世界设定条目；拓展世界设定时附带全部条目
+    const codexEntries = await prisma.codexEntry.findMany({
+      where: { storyId },
+      include: { links: { select: { id: true, name: true } } },
+      orderBy: { name: 'asc' }
+    });
+    const relevantCodexEntries = assistanceType === 'setting_development'
+      ? codexEntries.slice(0, 30)
+      : selectRelevantCodexEntries(codexEntries, `${prompt}\n${characterInfo}`);
+    const codexInfo = formatCodexForPrompt(relevantCodexEntries);
+
     // 根据辅助类型设置系统提示
     switch (assistanceType) {
       case 'plot_idea':
@@ -163,30 +175,18 @@ export async function POST(
     try {
       // 准备消息数组
       const messages: Message[] = [
-        { role: 'system', content: systemPrompt, id: 'system-' + Date.now().toString() },
-        { role: 'user', content: `${promptText}\n\n${characterInfo ? `角色信息：\n${characterInfo}` : ''}`, id: 'user-' + Date.now().toString() }
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `${promptText}\n\n${characterInfo ? `角色信息：\n${characterInfo}\n\n` : ''}${codexInfo ? `相关设定：\n${codexInfo}` : ''}` }
       ];
 
-      // 调用AI服务 - 修改为不使用流式响应
-      const response = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify({
-          model: 'gemini-2.5-flash-preview-04-17',
-          messages: messages.map(m => ({ role: m.role, content: m.content })),
-          temperature,
-          max_tokens: maxTokens,
-          stream: false // 禁用流式响应
-        }),
+      // 调用AI服务 - 不使用流式响应
+      const response = await generateAIResponse(messages, {
+        temperature,
+        maxTokens,
+        timeoutMs: 60000,
+        provider: story.aiProvider
       });
 
-      if (!response.ok) {
-        throw new Error('调用AI服务时出错: ' + response.statusText);
-      }
-
       // 解析完整响应
       const data = await response.json();
       const result = data.choices?.[0]?.message?.content || '';
@@ -6,13 +6,7 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import prisma from '@/lib/prisma';
-
-// 定义消息类型
-interface Message {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-  id: string;
-}
+import { generateAIResponse, Message } from '@/lib/ai-utils';
 
 /**
  * 获取AI故事总结反馈
@@ -77,30 +71,18 @@ export async function POST(
     try {
       // 准备消息数组
       const messages: Message[] = [
-        { role: 'system', content: systemPrompt, id: 'system-' + Date.now().toString() },
-        { role: 'user', content: `${promptText}\n\n${charactersInfo ? `角色信息：\n${charactersInfo}` : ''}`, id: 'user-' + Date.now().toString() }
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `${promptText}\n\n${charactersInfo ? `角色信息：\n${charactersInfo}` : ''}` }
       ];
 
-      // 调用AI服务 - 修改为不使用流式响应
-      const response = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify({
-          model: process.env.AI_MODEL || 'gemini-2.5-flash-preview-04-17',
-          messages: messages.map(m => ({ role: m.role, content: m.content })),
-          temperature,
-          max_tokens: maxTokens,
-          stream: false // 禁用流式响应
-        }),
+      // 调用AI服务 - 不使用流式响应
+      const response = await generateAIResponse(messages, {
+        temperature,
+        maxTokens,
+        timeoutMs: 60000,
+        provider: story.aiProvider
       });
 
-      if (!response.ok) {
-        throw new Error('调用AI服务时出错: ' + response.statusText);
-      }
-
       // 解析完整响应
       const data = await response.json();
       const feedback = data.choices?.[0]?.message?.content || '';
@@ -6,6 +6,8 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import { PrismaClient } from '@prisma/client';
+import { generateAIResponse } from '@/lib/ai-utils';
+import { formatRelationshipsForPrompt } from '@/lib/character-relationships';
 
 const prisma = new PrismaClient();
 
@@ -36,6 +38,7 @@ export async function POST(
       where: { id: storyId },
       include: {
         characters: true,
+        characterRelationships: true,
         chapters: {
           orderBy: { order: 'asc' }
         }
@@ -87,6 +90,15 @@ export async function POST(
       }
     }
 
+    // 准备角色关系信息，指定章节时只包含在该章节及之前已建立的关系
+    const currentChapter = chapterId ? story.chapters.find(ch => ch.id === chapterId) : undefined;
+    const establishedRelationships = story.characterRelationships.filter(rel => {
+      if (!currentChapter || !rel.chapterId) return true;
+      const startChapter = story.chapters.find(ch => ch.id === rel.chapterId);
+      return !startChapter || startChapter.order <= currentChapter.order;
+    });
+    const relationshipInfo = formatRelationshipsForPrompt(establishedRelationships, story.characters, story.chapters);
+
     // 准备大纲信息（如果有）
     const outlineInfo = story.outline || '';
 
@@ -99,7 +111,7 @@ export async function POST(
 1. 角色行为是否符合其性格设定
 2. 角色对话风格是否与其背景和特点相符
 3. 角色决策是否符合其动机和目标
-4. 角色关系互动是否合理
+4. 角色关系互动是否合理，对话或互动是否与已建立的角色关系相矛盾
 5. 角色情感反应是否自然
 
 请以JSON格式返回分析结果：
@@ -169,7 +181,7 @@ export async function POST(
       systemPrompt = `你是一位专业的文学编辑助手，擅长分析小说内容的各方面一致性。请对提供的内容进行全面分析，评估其在角色、情节和世界设定三个维度的一致性。
 
 请分析以下三个主要方面：
-1. 角色一致性：角色行为、对话和情感是否与其设定相符
+1. 角色一致性：角色行为、对话和情感是否与其设定及已建立的角色关系相符
 2. 情节一致性：情节发展是否合理，与大纲和前后章节的连贯性
 3. 设定一致性：世界规则、环境描述和背景设定的一致性
 
@@ -200,36 +212,31 @@ export async function POST(
     }
 
     // 调用 AI 服务分析一致性
-    const response = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gemini-2.5-flash-preview-04-17',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          {
-            role: 'user',
-            content: `请分析以下内容的一致性：
+    let response: Response;
+    try {
+      response = await generateAIResponse([
+        { role: 'system', content: systemPrompt },
+        {
+          role: 'user',
+          content: `请分析以下内容的一致性：
 
 待分析内容：
 ${content}
 
 ${characterInfo ? `角色信息：\n${characterInfo}\n\n` : ''}
+${relationshipInfo ? `已建立的角色关系：\n${relationshipInfo}\n\n` : ''}
 ${outlineInfo ? `故事大纲：\n${outlineInfo}\n\n` : ''}
 ${contextChapters ? `相关章节上下文：\n${contextChapters}\n\n` : ''}`
-          }
-        ],
+        }
+      ], {
         temperature: 0.3,
-        max_tokens: 2000,
-        response_format: { type: "json_object" }
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('分析内容一致性失败:', response.statusText);
+        maxTokens: 2000,
+        responseFormat: { type: "json_object" },
+        timeoutMs: 60000,
+        provider: story.aiProvider
+      });
+    } catch (error) {
+      console.error('分析内容一致性失败:', error);
       return apiError('分析失败', '调用AI服务时出错', 500);
     }
 
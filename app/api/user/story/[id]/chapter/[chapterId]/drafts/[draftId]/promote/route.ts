@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import { createChapterVersion, writeContentToScenes } from '@/lib/chapter-versions';
+import { getReplacedCanonicalName } from '@/lib/chapter-drafts';
+
+const prisma = new PrismaClient();
+
+/**
+ * 将草稿采用为定稿：草稿内容写入章节正文，原正文保存到该草稿中
+ * POST /api/user/story/[id]/chapter/[chapterId]/drafts/[draftId]/promote
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; chapterId: string; draftId: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const { id: storyId, chapterId, draftId } = params;
+
+    if (!storyId || !chapterId || !draftId) {
+      return apiError('无效的请求', '缺少故事ID、章节ID或草稿ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 验证草稿存在并属于该故事的章节
+    const draft = await prisma.chapterDraft.findUnique({
+      where: { id: draftId },
+      include: { chapter: true }
+    });
+
+    if (!draft) {
+      return apiError('未找到草稿', '请求的章节草稿不存在', 404);
+    }
+
+    if (draft.chapterId !== chapterId || draft.chapter.storyId !== storyId) {
+      return apiError('访问被拒绝', '此草稿不属于指定的章节', 403);
+    }
+
+    const chapter = draft.chapter;
+
+    // 采用前先记录正文版本，便于从版本历史中找回
+    await createChapterVersion(chapter, {
+      changeType: 'auto-backup',
+      description: `采用草稿「${draft.name}」前自动备份`,
+      createdBy: auth.dbUser.name || auth.dbUser.email || '用户'
+    });
+
+    // 草稿与正文互换：正文、场景和草稿在同一事务中写入，中途失败时保持原样
+    const { updatedChapter, replacedDraft } = await prisma.$transaction(async (tx) => {
+      const updatedChapter = await tx.chapter.update({
+        where: { id: chapter.id },
+        data: {
+          content: draft.content,
+          activeDraftId: null,
+          updatedAt: new Date()
+        }
+      });
+
+      await writeContentToScenes(chapter.id, draft.content, tx);
+
+      // 原正文保存到该草稿中
+      const replacedDraft = await tx.chapterDraft.update({
+        where: { id: draft.id },
+        data: {
+          name: getReplacedCanonicalName(),
+          content: chapter.content
+        }
+      });
+
+      return { updatedChapter, replacedDraft };
+    });
+
+    return apiSuccess({
+      message: `已将草稿「${draft.name}」采用为定稿`,
+      chapter: updatedChapter,
+      draft: replacedDraft
+    });
+  }, '采用章节草稿失败');
+}
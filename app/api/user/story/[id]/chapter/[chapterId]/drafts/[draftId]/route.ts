@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+type ChapterDraftParams = { params: { id: string; chapterId: string; draftId: string } };
+
+/**
+ * 验证用户对章节草稿的访问权限，成功时返回章节和草稿，否则返回错误响应
+ */
+async function findOwnedDraft(req: NextRequest, { params }: ChapterDraftParams) {
+  const { id: storyId, chapterId, draftId } = params;
+
+  if (!storyId || !chapterId || !draftId) {
+    return apiError('无效的请求', '缺少故事ID、章节ID或草稿ID', 400);
+  }
+
+  // 验证用户身份
+  const auth = await authenticateUser(req);
+
+  if (!auth.isAuthenticated) {
+    return auth.response as NextResponse;
+  }
+
+  // 验证故事归属
+  const story = await prisma.story.findUnique({
+    where: { id: storyId }
+  });
+
+  if (!story) {
+    return apiError('未找到故事', '请求的故事不存在', 404);
+  }
+
+  if (story.userId !== auth.dbUser.id) {
+    return apiError('访问被拒绝', '您无权访问此故事', 403);
+  }
+
+  // 验证草稿存在并属于该故事的章节
+  const draft = await prisma.chapterDraft.findUnique({
+    where: { id: draftId },
+    include: { chapter: true }
+  });
+
+  if (!draft) {
+    return apiError('未找到草稿', '请求的章节草稿不存在', 404);
+  }
+
+  if (draft.chapterId !== chapterId || draft.chapter.storyId !== storyId) {
+    return apiError('访问被拒绝', '此草稿不属于指定的章节', 403);
+  }
+
+  return draft;
+}
+
+/**
+ * 获取章节草稿
+ * GET /api/user/story/[id]/chapter/[chapterId]/drafts/[draftId]
+ */
+export async function GET(
+  req: NextRequest,
+  context: ChapterDraftParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedDraft(req, context);
+    if (result instanceof NextResponse) return result;
+
+    const { chapter, ...draft } = result;
+    return apiSuccess(draft);
+  }, '获取章节草稿失败');
+}
+
+/**
+ * 更新章节草稿的名称或内容
+ * PUT /api/user/story/[id]/chapter/[chapterId]/drafts/[draftId]
+ */
+export async function PUT(
+  req: NextRequest,
+  context: ChapterDraftParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedDraft(req, context);
+    if (result instanceof NextResponse) return result;
+
+    // 解析请求体
+    const body = await req.json();
+    const { name, content } = body;
+
+    if (name !== undefined && !String(name).trim()) {
+      return apiError('无效的请求数据', '草稿名称不能为空', 400);
+    }
+
+    const updatedDraft = await prisma.chapterDraft.update({
+      where: { id: result.id },
+      data: {
+        name: name !== undefined ? String(name).trim() : result.name,
+        content: content !== undefined ? content : result.content
+      }
+    });
+
+    return apiSuccess(updatedDraft);
+  }, '更新章节草稿失败');
+}
+
+/**
+ * 删除章节草稿，删除正在编辑的草稿时切回正文
+ * DELETE /api/user/story/[id]/chapter/[chapterId]/drafts/[draftId]
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: ChapterDraftParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedDraft(req, context);
+    if (result instanceof NextResponse) return result;
+
+    if (result.chapter.activeDraftId === result.id) {
+      await prisma.chapter.update({
+        where: { id: result.chapterId },
+        data: { activeDraftId: null }
+      });
+    }
+
+    await prisma.chapterDraft.delete({
+      where: { id: result.id }
+    });
+
+    return apiSuccess({ message: '草稿已删除' });
+  }, '删除章节草稿失败');
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import { CANONICAL_DRAFT } from '@/lib/chapter-drafts';
+import { computeTextDiff } from '@/lib/text-diff';
+
+const prisma = new PrismaClient();
+
+/**
+ * 比较两个草稿，或比较草稿与正文（定稿）
+ * GET /api/user/story/[id]/chapter/[chapterId]/drafts/compare?from=<草稿ID|canonical>&to=<草稿ID|canonical>
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string; chapterId: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const { id: storyId, chapterId } = params;
+    const from = req.nextUrl.searchParams.get('from') || CANONICAL_DRAFT;
+    const to = req.nextUrl.searchParams.get('to');
+
+    if (!storyId || !chapterId || !to) {
+      return apiError('无效的请求', '缺少故事ID、章节ID或对比草稿', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 验证章节存在并属于该故事
+    const chapter = await prisma.chapter.findUnique({
+      where: { id: chapterId },
+      include: { drafts: true }
+    });
+
+    if (!chapter) {
+      return apiError('未找到章节', '请求的章节不存在', 404);
+    }
+
+    if (chapter.storyId !== storyId) {
+      return apiError('访问被拒绝', '此章节不属于指定的故事', 403);
+    }
+
+    const getContent = (draftId: string): string | null => {
+      if (draftId === CANONICAL_DRAFT) return chapter.content;
+      const draft = chapter.drafts.find((item: { id: string }) => item.id === draftId);
+      return draft ? draft.content : null;
+    };
+
+    const fromContent = getContent(from);
+    const toContent = getContent(to);
+
+    if (fromContent === null || toContent === null) {
+      return apiError('未找到草稿', '请求对比的草稿不存在', 404);
+    }
+
+    return apiSuccess({
+      from,
+      to,
+      ...computeTextDiff(fromContent, toContent)
+    });
+  }, '比较章节草稿失败');
+}
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import { CANONICAL_DRAFT } from '@/lib/chapter-drafts';
+
+const prisma = new PrismaClient();
+
+type ChapterDraftListParams = { params: { id: string; chapterId: string } };
+
+/**
+ * 验证用户对章节的访问权限，成功时返回章节，否则返回错误响应
+ */
+async function findOwnedChapter(req: NextRequest, { params }: ChapterDraftListParams) {
+  const { id: storyId, chapterId } = params;
+
+  if (!storyId || !chapterId) {
+    return apiError('无效的请求', '缺少故事ID或章节ID', 400);
+  }
+
+  // 验证用户身份
+  const auth = await authenticateUser(req);
+
+  if (!auth.isAuthenticated) {
+    return auth.response as NextResponse;
+  }
+
+  // 验证故事归属
+  const story = await prisma.story.findUnique({
+    where: { id: storyId }
+  });
+
+  if (!story) {
+    return apiError('未找到故事', '请求的故事不存在', 404);
+  }
+
+  if (story.userId !== auth.dbUser.id) {
+    return apiError('访问被拒绝', '您无权访问此故事', 403);
+  }
+
+  // 验证章节存在并属于该故事
+  const chapter = await prisma.chapter.findUnique({
+    where: { id: chapterId }
+  });
+
+  if (!chapter) {
+    return apiError('未找到章节', '请求的章节不存在', 404);
+  }
+
+  if (chapter.storyId !== storyId) {
+    return apiError('访问被拒绝', '此章节不属于指定的故事', 403);
+  }
+
+  return chapter;
+}
+
+/**
+ * 获取章节的备选草稿列表（不含内容）和当前编辑的草稿
+ * GET /api/user/story/[id]/chapter/[chapterId]/drafts
+ */
+export async function GET(
+  req: NextRequest,
+  context: ChapterDraftListParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedChapter(req, context);
+    if (result instanceof NextResponse) return result;
+
+    const drafts = await prisma.chapterDraft.findMany({
+      where: { chapterId: result.id },
+      select: { id: true, name: true, createdAt: true, updatedAt: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return apiSuccess({
+      activeDraftId: result.activeDraftId,
+      drafts
+    });
+  }, '获取章节草稿失败');
+}
+
+/**
+ * 创建备选草稿
+ * POST /api/user/story/[id]/chapter/[chapterId]/drafts
+ * 请求体：{ name: string, source?: 'canonical' | 'blank' | 草稿ID }，默认从正文复制
+ */
+export async function POST(
+  req: NextRequest,
+  context: ChapterDraftListParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedChapter(req, context);
+    if (result instanceof NextResponse) return result;
+    const chapter = result;
+
+    // 解析请求体
+    const body = await req.json();
+    const { name, source = CANONICAL_DRAFT } = body;
+
+    if (!name || !String(name).trim()) {
+      return apiError('无效的请求数据', '草稿名称不能为空', 400);
+    }
+
+    let content = chapter.content;
+
+    if (source === 'blank') {
+      content = '';
+    } else if (source !== CANONICAL_DRAFT) {
+      const sourceDraft = await prisma.chapterDraft.findUnique({
+        where: { id: source }
+      });
+
+      if (!sourceDraft || sourceDraft.chapterId !== chapter.id) {
+        return apiError('无效的请求数据', '复制来源草稿不存在或不属于该章节', 400);
+      }
+
+      content = sourceDraft.content;
+    }
+
+    const draft = await prisma.chapterDraft.create({
+      data: {
+        name: String(name).trim(),
+        content,
+        chapterId: chapter.id
+      }
+    });
+
+    return apiSuccess(draft, 201);
+  }, '创建章节草稿失败');
+}
+
+/**
+ * 切换当前编辑的草稿
+ * PUT /api/user/story/[id]/chapter/[chapterId]/drafts
+ * 请求体：{ activeDraftId: string | null }，null 表示编辑正文（定稿）
+ */
+export async function PUT(
+  req: NextRequest,
+  context: ChapterDraftListParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedChapter(req, context);
+    if (result instanceof NextResponse) return result;
+    const chapter = result;
+
+    // 解析请求体
+    const body = await req.json();
+    const activeDraftId = body.activeDraftId || null;
+
+    if (activeDraftId) {
+      const draft = await prisma.chapterDraft.findUnique({
+        where: { id: activeDraftId }
+      });
+
+      if (!draft || draft.chapterId !== chapter.id) {
+        return apiError('无效的请求数据', '指定的草稿不存在或不属于该章节', 400);
+      }
+    }
+
+    await prisma.chapter.update({
+      where: { id: chapter.id },
+      data: { activeDraftId }
+    });
+
+    return apiSuccess({ activeDraftId });
+  }, '切换章节草稿失败');
+}
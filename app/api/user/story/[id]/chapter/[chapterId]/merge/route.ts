@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import { mergeChapters } from '@/lib/chapter-operations';
+
+const prisma = new PrismaClient();
+
+/**
+ * 将紧随其后的下一章合并到本章末尾
+ * POST /api/user/story/[id]/chapter/[chapterId]/merge
+ * 请求体：{ nextChapterId: string }，用于确认合并的是客户端看到的下一章
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; chapterId: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const { id: storyId, chapterId } = params;
+
+    if (!storyId || !chapterId) {
+      return apiError('无效的请求', '缺少故事ID或章节ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 验证章节存在并属于该故事
+    const chapter = await prisma.chapter.findUnique({
+      where: { id: chapterId }
+    });
+
+    if (!chapter) {
+      return apiError('未找到章节', '请求的章节不存在', 404);
+    }
+
+    if (chapter.storyId !== storyId) {
+      return apiError('访问被拒绝', '此章节不属于指定的故事', 403);
+    }
+
+    // 解析请求体
+    const body = await req.json();
+    const { nextChapterId } = body;
+
+    if (!nextChapterId) {
+      return apiError('无效的请求数据', '缺少要合并的章节ID', 400);
+    }
+
+    // 只能合并相邻的下一章
+    const nextChapter = await prisma.chapter.findFirst({
+      where: { storyId, order: { gt: chapter.order } },
+      orderBy: { order: 'asc' }
+    });
+
+    if (!nextChapter || nextChapter.id !== nextChapterId) {
+      return apiError('章节已变化', '要合并的章节不是本章的下一章，请刷新后重试', 409);
+    }
+
+    const merged = await mergeChapters(chapter, nextChapter, auth.dbUser.name || auth.dbUser.email || '用户');
+
+    return apiSuccess(merged);
+  }, '合并章节失败');
+}
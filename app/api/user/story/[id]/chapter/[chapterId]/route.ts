@@ -6,6 +6,8 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import { PrismaClient } from '@prisma/client';
+import { createChapterVersion, hasChapterChanges, writeContentToScenes } from '@/lib/chapter-versions';
+import { moveChapter } from '@/lib/chapter-operations';
 
 const prisma = new PrismaClient();
 
@@ -111,42 +113,31 @@ export async function PUT(
 
     // 解析请求体
     const body = await req.json();
-    const { title, content, summary, notes, order } = body;
+    const { title, content, summary, notes, order, volumeId } = body;
 
     // 验证必要字段
     if (!title) {
       return apiError('无效的请求数据', '章节标题是必需的', 400);
     }
 
-    // 如果修改了顺序，可能需要调整其他章节的顺序
-    if (order !== undefined && order !== existingChapter.order) {
-      // 这里简单处理：如果指定了新顺序，我们直接更新，不调整其他章节
-      // 在实际应用中，可能需要更复杂的逻辑来维护章节顺序的连续性
-    }
+    // 验证分卷属于该故事（null 表示移出分卷）
+    if (volumeId) {
+      const volume = await prisma.volume.findUnique({
+        where: { id: volumeId }
+      });
 
-    // 保存章节历史版本
-    let versionHistory = [];
-    try {
-      if (existingChapter.versionHistory) {
-        versionHistory = JSON.parse(existingChapter.versionHistory);
+      if (!volume || volume.storyId !== storyId) {
+        return apiError('无效的请求数据', '指定的分卷不存在或不属于该故事', 400);
       }
-    } catch (e) {
-      console.error('解析版本历史失败:', e);
-      versionHistory = [];
-    }
-
-    // 添加当前版本到历史记录
-    versionHistory.push({
-      timestamp: new Date().toISOString(),
-      title: existingChapter.title,
-      content: existingChapter.content,
-      summary: existingChapter.summary,
-      notes: existingChapter.notes
-    });
+    }
 
-    // 只保留最近的5个版本
-    if (versionHistory.length > 5) {
-      versionHistory = versionHistory.slice(-5);
+    // 内容有变化时，将当前状态保存为章节历史版本
+    if (hasChapterChanges(existingChapter, { title, content, summary, notes })) {
+      await createChapterVersion(existingChapter, {
+        changeType: 'auto',
+        description: '保存前自动记录',
+        createdBy: auth.dbUser.name || auth.dbUser.email || '用户'
+      });
     }
 
     // 更新章节
@@ -157,12 +148,23 @@ export async function PUT(
         content: content !== undefined ? content : existingChapter.content,
         summary: summary !== undefined ? summary : existingChapter.summary,
         notes: notes !== undefined ? notes : existingChapter.notes,
-        order: order !== undefined ? order : existingChapter.order,
-        versionHistory: JSON.stringify(versionHistory),
+        volumeId: volumeId !== undefined ? volumeId : existingChapter.volumeId,
         updatedAt: new Date()
       }
     });
 
+    // 章节已拆分为场景时，将新正文写回场景，避免导出和之后编辑场景时丢失本次修改
+    if (content !== undefined && content !== existingChapter.content) {
+      await writeContentToScenes(chapterId, content);
+    }
+
+    // 修改了顺序时移动章节，其他章节依次顺延，保持顺序连续
+    if (order !== undefined && order !== existingChapter.order) {
+      const chapters = await moveChapter(storyId, chapterId, order);
+      const moved = chapters.find((chapter: { id: string }) => chapter.id === chapterId);
+      return apiSuccess({ ...updatedChapter, order: moved ? moved.order : updatedChapter.order });
+    }
+
     return apiSuccess(updatedChapter);
   }, '更新章节失败');
 }
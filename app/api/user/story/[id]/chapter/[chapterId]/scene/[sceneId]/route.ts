@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import { composeChapterContent } from '@/lib/scene-utils';
+
+const prisma = new PrismaClient();
+
+type SceneParams = { params: { id: string; chapterId: string; sceneId: string } };
+
+/**
+ * 验证用户对场景的访问权限，成功时返回场景（含所属章节），否则返回错误响应
+ */
+async function findOwnedScene(req: NextRequest, { params }: SceneParams) {
+  const { id: storyId, chapterId, sceneId } = params;
+
+  if (!storyId || !chapterId || !sceneId) {
+    return apiError('无效的请求', '缺少故事ID、章节ID或场景ID', 400);
+  }
+
+  // 验证用户身份
+  const auth = await authenticateUser(req);
+
+  if (!auth.isAuthenticated) {
+    return auth.response as NextResponse;
+  }
+
+  // 验证故事归属
+  const story = await prisma.story.findUnique({
+    where: { id: storyId }
+  });
+
+  if (!story) {
+    return apiError('未找到故事', '请求的故事不存在', 404);
+  }
+
+  if (story.userId !== auth.dbUser.id) {
+    return apiError('访问被拒绝', '您无权访问此故事', 403);
+  }
+
+  // 验证场景存在并属于该章节和故事
+  const scene = await prisma.scene.findUnique({
+    where: { id: sceneId },
+    include: { chapter: true }
+  });
+
+  if (!scene) {
+    return apiError('未找到场景', '请求的场景不存在', 404);
+  }
+
+  if (scene.chapterId !== chapterId || scene.chapter.storyId !== storyId) {
+    return apiError('访问被拒绝', '此场景不属于指定的章节', 403);
+  }
+
+  return scene;
+}
+
+/**
+ * 按场景重新拼接章节正文
+ */
+async function syncChapterContent(chapterId: string) {
+  const scenes = await prisma.scene.findMany({
+    where: { chapterId }
+  });
+
+  await prisma.chapter.update({
+    where: { id: chapterId },
+    data: { content: composeChapterContent(scenes) }
+  });
+}
+
+/**
+ * 获取指定场景
+ * GET /api/user/story/[id]/chapter/[chapterId]/scene/[sceneId]
+ */
+export async function GET(
+  req: NextRequest,
+  context: SceneParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedScene(req, context);
+    if (result instanceof NextResponse) return result;
+    const scene = result;
+
+    const { chapter, ...sceneData } = scene;
+    return apiSuccess(sceneData);
+  }, '获取场景失败');
+}
+
+/**
+ * 更新指定场景，并同步章节正文
+ * PUT /api/user/story/[id]/chapter/[chapterId]/scene/[sceneId]
+ */
+export async function PUT(
+  req: NextRequest,
+  context: SceneParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedScene(req, context);
+    if (result instanceof NextResponse) return result;
+    const existingScene = result;
+
+    // 解析请求体
+    const body = await req.json();
+    const { title, content, summary, location, goal, conflict, outcome, povCharacterId, order } = body;
+
+    // 验证视角角色属于该故事（null 表示清除视角角色）
+    if (povCharacterId) {
+      const character = await prisma.character.findUnique({
+        where: { id: povCharacterId }
+      });
+
+      if (!character || character.storyId !== context.params.id) {
+        return apiError('无效的请求数据', '指定的视角角色不存在或不属于该故事', 400);
+      }
+    }
+
+    // 更新场景，未提供的字段保持不变
+    const updatedScene = await prisma.scene.update({
+      where: { id: existingScene.id },
+      data: {
+        title: title !== undefined ? title : existingScene.title,
+        content: content !== undefined ? content : existingScene.content,
+        summary: summary !== undefined ? summary : existingScene.summary,
+        location: location !== undefined ? location : existingScene.location,
+        goal: goal !== undefined ? goal : existingScene.goal,
+        conflict: conflict !== undefined ? conflict : existingScene.conflict,
+        outcome: outcome !== undefined ? outcome : existingScene.outcome,
+        povCharacterId: povCharacterId !== undefined ? povCharacterId : existingScene.povCharacterId,
+        order: order !== undefined ? order : existingScene.order
+      }
+    });
+
+    if (content !== undefined || order !== undefined) {
+      await syncChapterContent(existingScene.chapterId);
+    }
+
+    return apiSuccess(updatedScene);
+  }, '更新场景失败');
+}
+
+/**
+ * 删除指定场景，并同步章节正文
+ * DELETE /api/user/story/[id]/chapter/[chapterId]/scene/[sceneId]
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: SceneParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedScene(req, context);
+    if (result instanceof NextResponse) return result;
+    const scene = result;
+
+    // 删除场景
+    await prisma.scene.delete({
+      where: { id: scene.id }
+    });
+
+    // 重新排序剩余场景
+    const remainingScenes = await prisma.scene.findMany({
+      where: { chapterId: scene.chapterId },
+      orderBy: { order: 'asc' }
+    });
+
+    for (let i = 0; i < remainingScenes.length; i++) {
+      await prisma.scene.update({
+        where: { id: remainingScenes[i].id },
+        data: { order: i + 1 }
+      });
+    }
+
+    await syncChapterContent(scene.chapterId);
+
+    return apiSuccess({ message: '场景已删除' });
+  }, '删除场景失败');
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import { composeChapterContent } from '@/lib/scene-utils';
+
+const prisma = new PrismaClient();
+
+/**
+ * 获取指定章节的所有场景
+ * GET /api/user/story/[id]/chapter/[chapterId]/scene
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string; chapterId: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const { id: storyId, chapterId } = params;
+
+    if (!storyId || !chapterId) {
+      return apiError('无效的请求', '缺少故事ID或章节ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 验证章节存在并属于该故事
+    const chapter = await prisma.chapter.findUnique({
+      where: { id: chapterId }
+    });
+
+    if (!chapter) {
+      return apiError('未找到章节', '请求的章节不存在', 404);
+    }
+
+    if (chapter.storyId !== storyId) {
+      return apiError('访问被拒绝', '此章节不属于指定的故事', 403);
+    }
+
+    // 获取所有场景，按顺序排序
+    const scenes = await prisma.scene.findMany({
+      where: { chapterId },
+      orderBy: { order: 'asc' }
+    });
+
+    return apiSuccess(scenes);
+  }, '获取场景失败');
+}
+
+/**
+ * 创建新场景，并同步章节正文
+ * POST /api/user/story/[id]/chapter/[chapterId]/scene
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; chapterId: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const { id: storyId, chapterId } = params;
+
+    if (!storyId || !chapterId) {
+      return apiError('无效的请求', '缺少故事ID或章节ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 验证章节存在并属于该故事
+    const chapter = await prisma.chapter.findUnique({
+      where: { id: chapterId }
+    });
+
+    if (!chapter) {
+      return apiError('未找到章节', '请求的章节不存在', 404);
+    }
+
+    if (chapter.storyId !== storyId) {
+      return apiError('访问被拒绝', '此章节不属于指定的故事', 403);
+    }
+
+    // 解析请求体
+    const body = await req.json();
+    const { title, content, summary, location, goal, conflict, outcome, povCharacterId } = body;
+
+    // 验证视角角色属于该故事
+    if (povCharacterId) {
+      const character = await prisma.character.findUnique({
+        where: { id: povCharacterId }
+      });
+
+      if (!character || character.storyId !== storyId) {
+        return apiError('无效的请求数据', '指定的视角角色不存在或不属于该故事', 400);
+      }
+    }
+
+    // 获取当前最大场景顺序
+    const maxOrderScene = await prisma.scene.findFirst({
+      where: { chapterId },
+      orderBy: { order: 'desc' }
+    });
+
+    const nextOrder = maxOrderScene ? maxOrderScene.order + 1 : 1;
+
+    // 创建新场景
+    const scene = await prisma.scene.create({
+      data: {
+        title,
+        content: content || '',
+        summary,
+        location,
+        goal,
+        conflict,
+        outcome,
+        povCharacterId: povCharacterId || null,
+        order: nextOrder,
+        chapterId
+      }
+    });
+
+    // 同步章节正文
+    const scenes = await prisma.scene.findMany({
+      where: { chapterId }
+    });
+
+    await prisma.chapter.update({
+      where: { id: chapterId },
+      data: { content: composeChapterContent(scenes) }
+    });
+
+    return apiSuccess(scene, 201);
+  }, '创建场景失败');
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import { splitChapter } from '@/lib/chapter-operations';
+
+const prisma = new PrismaClient();
+
+/**
+ * 在光标处拆分章节：原章节保留光标前的内容，光标后的内容成为紧随其后的新章节
+ * POST /api/user/story/[id]/chapter/[chapterId]/split
+ * 请求体：{ before: string, after: string, title?: string }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; chapterId: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const { id: storyId, chapterId } = params;
+
+    if (!storyId || !chapterId) {
+      return apiError('无效的请求', '缺少故事ID或章节ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 验证章节存在并属于该故事
+    const chapter = await prisma.chapter.findUnique({
+      where: { id: chapterId }
+    });
+
+    if (!chapter) {
+      return apiError('未找到章节', '请求的章节不存在', 404);
+    }
+
+    if (chapter.storyId !== storyId) {
+      return apiError('访问被拒绝', '此章节不属于指定的故事', 403);
+    }
+
+    // 解析请求体
+    const body = await req.json();
+    const { before, after, title } = body;
+
+    if (typeof before !== 'string' || typeof after !== 'string') {
+      return apiError('无效的请求数据', '缺少拆分后的章节内容', 400);
+    }
+
+    if (!after.trim()) {
+      return apiError('无效的请求数据', '光标后没有内容，无法拆分', 400);
+    }
+
+    const result = await splitChapter(chapter, {
+      before,
+      after,
+      title: typeof title === 'string' && title.trim() ? title.trim() : `${chapter.title}（下）`,
+      createdBy: auth.dbUser.name || auth.dbUser.email || '用户'
+    });
+
+    return apiSuccess(result, 201);
+  }, '拆分章节失败');
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import prisma from '@/lib/prisma';
+import { createChapterVersion, writeContentToScenes } from '@/lib/chapter-versions';
+
+type ChapterVersionParams = { params: { id: string; chapterId: string; versionId: string } };
+
+/**
+ * 验证用户对章节版本的访问权限，成功时返回章节、版本和用户，否则返回错误响应
+ */
+async function findOwnedVersion(req: NextRequest, { params }: ChapterVersionParams) {
+  const { id: storyId, chapterId, versionId } = params;
+
+  if (!storyId || !chapterId || !versionId) {
+    return apiError('无效的请求', '缺少故事ID、章节ID或版本ID', 400);
+  }
+
+  // 验证用户身份
+  const auth = await authenticateUser(req);
+  if (!auth.isAuthenticated) {
+    return auth.response as NextResponse;
+  }
+
+  // 验证故事归属
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { userId: true }
+  });
+
+  if (!story) {
+    return apiError('未找到故事', '请求的故事不存在', 404);
+  }
+
+  if (story.userId !== auth.dbUser.id) {
+    return apiError('访问被拒绝', '您无权访问此故事的版本', 403);
+  }
+
+  // 验证章节存在并属于该故事
+  const chapter = await prisma.chapter.findUnique({
+    where: { id: chapterId }
+  });
+
+  if (!chapter) {
+    return apiError('未找到章节', '请求的章节不存在', 404);
+  }
+
+  if (chapter.storyId !== storyId) {
+    return apiError('访问被拒绝', '此章节不属于指定的故事', 403);
+  }
+
+  const version = await prisma.chapterVersion.findFirst({
+    where: {
+      chapterId,
+      versionId
+    }
+  });
+
+  if (!version) {
+    return apiError('未找到版本', '请求的版本不存在', 404);
+  }
+
+  return { chapter, version, user: auth.dbUser };
+}
+
+/**
+ * 获取章节版本详情
+ * GET /api/user/story/[id]/chapter/[chapterId]/version-history/[versionId]
+ */
+export async function GET(
+  req: NextRequest,
+  context: ChapterVersionParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedVersion(req, context);
+    if (result instanceof NextResponse) return result;
+
+    return apiSuccess(result.version);
+  }, '获取章节版本详情失败');
+}
+
+/**
+ * 将章节恢复到特定版本
+ * POST /api/user/story/[id]/chapter/[chapterId]/version-history/[versionId]
+ */
+export async function POST(
+  req: NextRequest,
+  context: ChapterVersionParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedVersion(req, context);
+    if (result instanceof NextResponse) return result;
+    const { chapter, version: versionToRestore, user } = result;
+    const createdBy = user.name || user.email || '用户';
+
+    // 在恢复之前，先创建当前版本的备份
+    await createChapterVersion(chapter, {
+      changeType: 'auto-backup',
+      description: '恢复前自动备份',
+      createdBy
+    });
+
+    // 更新章节为所选版本的内容
+    const updatedChapter = await prisma.chapter.update({
+      where: { id: chapter.id },
+      data: {
+        title: versionToRestore.title,
+        content: versionToRestore.content,
+        summary: versionToRestore.summary,
+        notes: versionToRestore.notes,
+        updatedAt: new Date()
+      }
+    });
+
+    await writeContentToScenes(chapter.id, versionToRestore.content);
+
+    // 创建恢复操作的记录
+    await createChapterVersion(updatedChapter, {
+      changeType: 'restore',
+      description: `从版本 ${versionToRestore.versionId} 恢复`,
+      createdBy
+    });
+
+    return apiSuccess({
+      message: '已成功恢复到所选版本',
+      chapter: updatedChapter
+    });
+  }, '恢复章节版本失败');
+}
+
+/**
+ * 删除章节的特定版本
+ * DELETE /api/user/story/[id]/chapter/[chapterId]/version-history/[versionId]
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: ChapterVersionParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedVersion(req, context);
+    if (result instanceof NextResponse) return result;
+
+    await prisma.chapterVersion.delete({
+      where: { id: result.version.id }
+    });
+
+    return apiSuccess({ message: '版本已成功删除' });
+  }, '删除章节版本失败');
+}
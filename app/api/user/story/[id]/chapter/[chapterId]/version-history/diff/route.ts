@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import prisma from '@/lib/prisma';
+import { createChapterVersion, writeContentToScenes } from '@/lib/chapter-versions';
+import { computeTextDiff, restoreHunk } from '@/lib/text-diff';
+
+type ChapterDiffParams = { params: { id: string; chapterId: string } };
+
+// 用作对比目标时表示章节当前内容
+const CURRENT_CONTENT = 'current';
+
+/**
+ * 验证用户对章节的访问权限，成功时返回章节和用户，否则返回错误响应
+ */
+async function findOwnedChapter(req: NextRequest, { params }: ChapterDiffParams) {
+  const { id: storyId, chapterId } = params;
+
+  if (!storyId || !chapterId) {
+    return apiError('无效的请求', '缺少故事ID或章节ID', 400);
+  }
+
+  // 验证用户身份
+  const auth = await authenticateUser(req);
+  if (!auth.isAuthenticated) {
+    return auth.response as NextResponse;
+  }
+
+  // 验证故事归属
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { userId: true }
+  });
+
+  if (!story) {
+    return apiError('未找到故事', '请求的故事不存在', 404);
+  }
+
+  if (story.userId !== auth.dbUser.id) {
+    return apiError('访问被拒绝', '您无权访问此故事的版本', 403);
+  }
+
+  // 验证章节存在并属于该故事
+  const chapter = await prisma.chapter.findUnique({
+    where: { id: chapterId }
+  });
+
+  if (!chapter) {
+    return apiError('未找到章节', '请求的章节不存在', 404);
+  }
+
+  if (chapter.storyId !== storyId) {
+    return apiError('访问被拒绝', '此章节不属于指定的故事', 403);
+  }
+
+  return { chapter, user: auth.dbUser };
+}
+
+/**
+ * 比较两个章节版本，或比较版本与章节当前内容
+ * GET /api/user/story/[id]/chapter/[chapterId]/version-history/diff?from=<versionId>&to=<versionId|current>
+ */
+export async function GET(
+  req: NextRequest,
+  context: ChapterDiffParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const from = req.nextUrl.searchParams.get('from');
+    const to = req.nextUrl.searchParams.get('to') || CURRENT_CONTENT;
+
+    if (!from) {
+      return apiError('无效的请求', '缺少对比版本', 400);
+    }
+
+    const result = await findOwnedChapter(req, context);
+    if (result instanceof NextResponse) return result;
+    const { chapter } = result;
+
+    const versionIds = to === CURRENT_CONTENT ? [from] : [from, to];
+    const versions = await prisma.chapterVersion.findMany({
+      where: { chapterId: chapter.id, versionId: { in: versionIds } }
+    });
+    const fromVersion = versions.find((version: { versionId: string }) => version.versionId === from);
+    const toVersion = versions.find((version: { versionId: string }) => version.versionId === to);
+
+    if (!fromVersion || (to !== CURRENT_CONTENT && !toVersion)) {
+      return apiError('未找到版本', '请求对比的版本不存在', 404);
+    }
+
+    const diff = computeTextDiff(
+      fromVersion.content,
+      toVersion ? toVersion.content : chapter.content
+    );
+
+    return apiSuccess({
+      from: fromVersion.versionId,
+      to,
+      ...diff
+    });
+  }, '比较章节版本失败');
+}
+
+/**
+ * 将版本中的某个差异块恢复到章节当前内容，其余内容保持不变
+ * POST /api/user/story/[id]/chapter/[chapterId]/version-history/diff
+ * 请求体：{ from: string, hunkIndex: number, expected: string }
+ * expected 为客户端看到的当前段落内容，与服务端不一致时说明内容已变化，需要重新对比
+ */
+export async function POST(
+  req: NextRequest,
+  context: ChapterDiffParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedChapter(req, context);
+    if (result instanceof NextResponse) return result;
+    const { chapter, user } = result;
+
+    const body = await req.json();
+    const { from, hunkIndex, expected } = body;
+
+    if (!from || !Number.isInteger(hunkIndex)) {
+      return apiError('无效的请求', '缺少对比版本或差异块', 400);
+    }
+
+    const fromVersion = await prisma.chapterVersion.findFirst({
+      where: { chapterId: chapter.id, versionId: from }
+    });
+
+    if (!fromVersion) {
+      return apiError('未找到版本', '请求的版本不存在', 404);
+    }
+
+    const { hunks } = computeTextDiff(fromVersion.content, chapter.content);
+    const hunk = hunks[hunkIndex];
+
+    if (!hunk || hunk.type !== 'change' || hunk.newParagraphs.join('') !== (expected ?? '')) {
+      return apiError('内容已变化', '当前内容已被修改，请重新对比后再恢复', 409);
+    }
+
+    const restoredContent = restoreHunk(hunks, hunkIndex);
+
+    // 在恢复之前，先创建当前版本的备份
+    await createChapterVersion(chapter, {
+      changeType: 'auto-backup',
+      description: '恢复段落前自动备份',
+      createdBy: user.name || user.email || '用户'
+    });
+
+    const updatedChapter = await prisma.chapter.update({
+      where: { id: chapter.id },
+      data: {
+        content: restoredContent,
+        updatedAt: new Date()
+      }
+    });
+
+    await writeContentToScenes(chapter.id, restoredContent);
+
+    return apiSuccess({
+      message: '已恢复所选段落',
+      content: restoredContent,
+      chapter: updatedChapter
+    });
+  }, '恢复段落失败');
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import prisma from '@/lib/prisma';
+import { createChapterVersion } from '@/lib/chapter-versions';
+
+type ChapterVersionListParams = { params: { id: string; chapterId: string } };
+
+/**
+ * 验证用户对章节的访问权限，成功时返回章节和用户，否则返回错误响应
+ */
+async function findOwnedChapter(req: NextRequest, { params }: ChapterVersionListParams) {
+  const { id: storyId, chapterId } = params;
+
+  if (!storyId || !chapterId) {
+    return apiError('无效的请求', '缺少故事ID或章节ID', 400);
+  }
+
+  // 验证用户身份
+  const auth = await authenticateUser(req);
+  if (!auth.isAuthenticated) {
+    return auth.response as NextResponse;
+  }
+
+  // 验证故事归属
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { userId: true }
+  });
+
+  if (!story) {
+    return apiError('未找到故事', '请求的故事不存在', 404);
+  }
+
+  if (story.userId !== auth.dbUser.id) {
+    return apiError('访问被拒绝', '您无权访问此故事的版本历史', 403);
+  }
+
+  // 验证章节存在并属于该故事
+  const chapter = await prisma.chapter.findUnique({
+    where: { id: chapterId }
+  });
+
+  if (!chapter) {
+    return apiError('未找到章节', '请求的章节不存在', 404);
+  }
+
+  if (chapter.storyId !== storyId) {
+    return apiError('访问被拒绝', '此章节不属于指定的故事', 403);
+  }
+
+  return { chapter, user: auth.dbUser };
+}
+
+/**
+ * 获取章节版本历史
+ * GET /api/user/story/[id]/chapter/[chapterId]/version-history
+ */
+export async function GET(
+  req: NextRequest,
+  context: ChapterVersionListParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedChapter(req, context);
+    if (result instanceof NextResponse) return result;
+
+    // 列表不返回正文以减少响应大小
+    const versions = await prisma.chapterVersion.findMany({
+      where: { chapterId: result.chapter.id },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        versionId: true,
+        title: true,
+        description: true,
+        createdAt: true,
+        createdBy: true,
+        changeType: true,
+        size: true
+      }
+    });
+
+    return apiSuccess(versions);
+  }, '获取章节版本历史失败');
+}
+
+/**
+ * 将章节当前状态保存为新版本
+ * POST /api/user/story/[id]/chapter/[chapterId]/version-history
+ * 请求体：{ description?: string }
+ */
+export async function POST(
+  req: NextRequest,
+  context: ChapterVersionListParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedChapter(req, context);
+    if (result instanceof NextResponse) return result;
+    const { chapter, user } = result;
+
+    const body = await req.json().catch(() => ({}));
+    const { description = '手动保存版本' } = body;
+
+    const newVersion = await createChapterVersion(chapter, {
+      changeType: 'manual',
+      description,
+      createdBy: user.name || user.email || '用户'
+    });
+
+    // 返回创建的版本信息（不包含内容以减少响应大小）
+    return apiSuccess({
+      id: newVersion.id,
+      versionId: newVersion.versionId,
+      title: newVersion.title,
+      description: newVersion.description,
+      createdAt: newVersion.createdAt,
+      createdBy: newVersion.createdBy,
+      changeType: newVersion.changeType,
+      size: newVersion.size
+    }, 201);
+  }, '创建章节版本失败');
+}
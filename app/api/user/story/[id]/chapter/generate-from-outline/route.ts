@@ -6,9 +6,12 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import prisma from '@/lib/prisma';
+import { generateAIResponse } from '@/lib/ai-utils';
+import { formatCodexForPrompt, selectRelevantCodexEntries } from '@/lib/codex-utils';
 
 /**
  * 根据大纲生成章节内容
+ * 提供 chapterId 和 sceneId（重新生成已有场景）或 scene（生成新场景）时，只生成单个场景
  * POST /api/user/story/[id]/chapter/generate-from-outline
  */
 export async function POST(
@@ -34,6 +37,9 @@ export async function POST(
       where: { id: storyId },
       include: {
         characters: true,
+        codexEntries: {
+          include: { links: { select: { id: true, name: true } } }
+        },
         chapters: {
           orderBy: { order: 'asc' }
         }
@@ -50,9 +56,10 @@ export async function POST(
 
     // 解析请求体
     const body = await req.json();
-    const { outlineSection, chapterTitle } = body;
+    const { outlineSection, chapterTitle, chapterId, sceneId, scene } = body;
+    const isSceneMode = Boolean(chapterId && (sceneId || scene));
 
-    if (!outlineSection || !chapterTitle) {
+    if (!isSceneMode && (!outlineSection || !chapterTitle)) {
       return apiError('无效的请求数据', '请提供大纲内容和章节标题', 400);
     }
 
@@ -80,6 +87,86 @@ export async function POST(
     const storySummary = story.summary || '';
     const worldSetting = story.worldSetting || '';
 
+    // 单场景生成
+    if (isSceneMode) {
+      const chapter = await prisma.chapter.findUnique({
+        where: { id: chapterId },
+        include: { scenes: { orderBy: { order: 'asc' } } }
+      });
+
+      if (!chapter || chapter.storyId !== storyId) {
+        return apiError('未找到章节', '请求的章节不存在或不属于该故事', 404);
+      }
+
+      // 已有场景的设定可被请求中的 scene 字段覆盖
+      const existingScene = sceneId ? chapter.scenes.find(item => item.id === sceneId) : undefined;
+      if (sceneId && !existingScene) {
+        return apiError('未找到场景', '请求的场景不存在或不属于该章节', 404);
+      }
+
+      const sceneInfo = { ...(existingScene || {}), ...(scene || {}) };
+      const sceneIndex = existingScene ? chapter.scenes.indexOf(existingScene) : chapter.scenes.length;
+      const previousScene = sceneIndex > 0 ? chapter.scenes[sceneIndex - 1] : undefined;
+      const nextScene = chapter.scenes[existingScene ? sceneIndex + 1 : sceneIndex];
+      const povCharacter = sceneInfo.povCharacterId
+        ? story.characters.find(char => char.id === sceneInfo.povCharacterId)
+        : undefined;
+
+      const sceneSystemPrompt = `你是一位专业的小说创作助手，擅长按场景创作小说内容。请根据场景设定创作单个场景的正文。
+
+请特别注意以下几点：
+1. 场景必须围绕设定的目标、冲突和结果展开
+2. 如果指定了视角角色，全程保持该角色的视角
+3. 内容应与前一场景自然衔接，并为后一场景（如果有）做好铺垫
+4. 角色的言行举止应与其设定保持一致
+5. 场景长度适中（约500-1000字），包含适当的对话、描述和心理活动
+
+请直接返回创作的场景正文，不要添加标题、注释或其他说明。`;
+
+      // 只附带场景设定、大纲和章节摘要中提及的设定条目
+      const sceneCodexInfo = formatCodexForPrompt(selectRelevantCodexEntries(
+        story.codexEntries,
+        [sceneInfo.title, sceneInfo.summary, sceneInfo.location, sceneInfo.goal, sceneInfo.conflict, sceneInfo.outcome, outlineSection, chapter.summary]
+          .filter(Boolean)
+          .join('\n')
+      ));
+
+      const sceneUserPrompt = `请为章节"${chapter.title}"创作第${sceneIndex + 1}个场景：
+
+${sceneInfo.title ? `场景标题：${sceneInfo.title}\n` : ''}${sceneInfo.summary ? `场景摘要：${sceneInfo.summary}\n` : ''}${povCharacter ? `视角角色：${povCharacter.name}\n` : ''}${sceneInfo.location ? `地点：${sceneInfo.location}\n` : ''}${sceneInfo.goal ? `目标：${sceneInfo.goal}\n` : ''}${sceneInfo.conflict ? `冲突：${sceneInfo.conflict}\n` : ''}${sceneInfo.outcome ? `结果：${sceneInfo.outcome}\n` : ''}
+${outlineSection ? `故事大纲部分：\n${outlineSection}\n\n` : ''}${chapter.summary ? `章节摘要：\n${chapter.summary}\n\n` : ''}${storySummary ? `故事概要：\n${storySummary}\n\n` : ''}${worldSetting ? `世界设定：\n${worldSetting}\n\n` : ''}${sceneCodexInfo ? `相关设定：\n${sceneCodexInfo}\n\n` : ''}${characterInfo ? `角色信息：\n${characterInfo}\n\n` : ''}${previousScene?.content ? `前一场景内容：\n${previousScene.content}\n\n` : ''}${nextScene ? `后一场景摘要：\n${nextScene.summary || nextScene.content.substring(0, 200)}` : ''}`;
+
+      let sceneResponse: Response;
+      try {
+        sceneResponse = await generateAIResponse([
+          { role: 'system', content: sceneSystemPrompt },
+          { role: 'user', content: sceneUserPrompt }
+        ], {
+          temperature: 0.7,
+          maxTokens: 1500,
+          timeoutMs: 60000,
+          provider: story.aiProvider
+        });
+      } catch (error) {
+        console.error('生成场景内容失败:', error);
+        return apiError('生成失败', '调用AI服务时出错', 500);
+      }
+
+      const sceneData = await sceneResponse.json();
+      const sceneContent = sceneData.choices?.[0]?.message?.content;
+
+      if (!sceneContent) {
+        return apiError('生成失败', 'AI返回的内容为空', 500);
+      }
+
+      return apiSuccess({
+        content: sceneContent,
+        title: chapter.title,
+        chapterId,
+        sceneId: existingScene?.id || null
+      });
+    }
+
     // 准备前一章节内容（如果有）
     let previousChapterContent = '';
     let previousChapterSummary = '';
@@ -90,6 +177,12 @@ export async function POST(
       previousChapterSummary = lastChapter.summary || '';
     }
 
+    // 只附带本章大纲和前一章节摘要中提及的设定条目
+    const codexInfo = formatCodexForPrompt(selectRelevantCodexEntries(
+      story.codexEntries,
+      `${chapterTitle}\n${outlineSection}\n${previousChapterSummary}`
+    ));
+
     // 准备系统提示和用户提示
     const systemPrompt = `你是一位专业的小说创作助手，擅长根据大纲和已有内容创作连贯、生动的章节。请根据提供的故事大纲部分，创作符合标题的章节内容。
 
@@ -110,31 +203,26 @@ ${outlineSection}
 
 ${storySummary ? `故事概要：\n${storySummary}\n\n` : ''}
 ${worldSetting ? `世界设定：\n${worldSetting}\n\n` : ''}
+${codexInfo ? `相关设定：\n${codexInfo}\n\n` : ''}
 ${characterInfo ? `角色信息：\n${characterInfo}\n\n` : ''}
 ${previousChapterContent ? `前一章节内容：\n${previousChapterContent}\n\n` : ''}
 ${previousChapterSummary ? `前一章节摘要：\n${previousChapterSummary}` : ''}`;
 
     // 调用 AI 服务生成章节内容
-    const response = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gemini-2.5-flash-preview-04-17',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
+    let response: Response;
+    try {
+      response = await generateAIResponse([
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ], {
         temperature: 0.7,
-        max_tokens: 2500,
-        stream: false // 禁用流式输出
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('生成章节内容失败:', response.statusText);
+        maxTokens: 2500,
+        timeoutMs: 90000, // 章节生成耗时较长
+        maxRetries: 1,
+        provider: story.aiProvider
+      });
+    } catch (error) {
+      console.error('生成章节内容失败:', error);
       return apiError('生成失败', '调用AI服务时出错', 500);
     }
 
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import { ChapterOrderItem, rewriteChapterOrder } from '@/lib/chapter-operations';
+
+const prisma = new PrismaClient();
+
+/**
+ * 整体重排故事的章节，可同时调整章节所属分卷
+ * PUT /api/user/story/[id]/chapter/reorder
+ * 请求体：{ chapters: [{ id, volumeId? }] }，需按新顺序包含故事的全部章节
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      include: {
+        chapters: { select: { id: true } },
+        volumes: { select: { id: true } }
+      }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 解析请求体
+    const body = await req.json();
+    const items: ChapterOrderItem[] = body.chapters;
+
+    if (!Array.isArray(items) || items.some(item => !item || typeof item.id !== 'string')) {
+      return apiError('无效的请求数据', '章节列表必须是包含章节ID的数组', 400);
+    }
+
+    // 新顺序必须恰好包含故事的全部章节，避免并发修改时遗漏或重复
+    const chapterIds = new Set<string>(story.chapters.map((chapter: { id: string }) => chapter.id));
+    const requestedIds = new Set(items.map(item => item.id));
+
+    if (requestedIds.size !== items.length || requestedIds.size !== chapterIds.size || items.some(item => !chapterIds.has(item.id))) {
+      return apiError('章节已变化', '章节列表与故事当前的章节不一致，请刷新后重试', 409);
+    }
+
+    const volumeIds = new Set<string>(story.volumes.map((volume: { id: string }) => volume.id));
+
+    if (items.some(item => item.volumeId && !volumeIds.has(item.volumeId))) {
+      return apiError('无效的请求数据', '指定的分卷不存在或不属于该故事', 400);
+    }
+
+    const chapters = await rewriteChapterOrder(
+      storyId,
+      items.map(item => ({ id: item.id, volumeId: item.volumeId }))
+    );
+
+    return apiSuccess(chapters);
+  }, '调整章节顺序失败');
+}
@@ -91,13 +91,24 @@ export async function POST(
 
     // 解析请求体
     const body = await req.json();
-    const { title, content, summary, notes } = body;
+    const { title, content, summary, notes, volumeId } = body;
 
     // 验证必要字段
     if (!title) {
       return apiError('无效的请求数据', '章节标题是必需的', 400);
     }
 
+    // 验证分卷属于该故事
+    if (volumeId) {
+      const volume = await prisma.volume.findUnique({
+        where: { id: volumeId }
+      });
+
+      if (!volume || volume.storyId !== storyId) {
+        return apiError('无效的请求数据', '指定的分卷不存在或不属于该故事', 400);
+      }
+    }
+
     // 获取当前最大章节顺序
     const maxOrderChapter = await prisma.chapter.findFirst({
       where: { storyId },
@@ -114,7 +125,8 @@ export async function POST(
         summary,
         notes,
         order: nextOrder,
-        storyId
+        storyId,
+        volumeId: volumeId || null
       }
     });
 
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import { applyCharacterRename, buildRenameOptions, getTargetKey, loadRenameTargets, previewCharacterRename } from '@/lib/character-rename';
+import { parseCodexAliases } from '@/lib/codex-utils';
+
+const prisma = new PrismaClient();
+
+/**
+ * 角色改名，并改写章节、大纲和其他角色描述中对该角色的提及
+ * POST /api/user/story/[id]/character/[characterId]/rename
+ * 请求体：{ newName, previousName?, aliasReplacements?, keepOldNameAsAlias?, dryRun?, matchIds?, expectedUpdatedAt? }
+ * previousName 用于角色已通过 PUT 改名后补充改写提及，默认为角色当前名称；aliasReplacements 指定别名的新写法，未指定的别名只列出不改写
+ * dryRun 为 true 时只返回提及预览；否则改名并只改写 matchIds 中的提及，改写前自动创建可恢复的故事版本
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; characterId: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const { id: storyId, characterId } = params;
+
+    if (!storyId || !characterId) {
+      return apiError('无效的请求', '缺少故事ID或角色ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 验证角色存在和归属
+    const character = await prisma.character.findUnique({
+      where: { id: characterId }
+    });
+
+    if (!character) {
+      return apiError('未找到角色', '请求改名的角色不存在', 404);
+    }
+
+    if (character.storyId !== storyId) {
+      return apiError('访问被拒绝', '此角色不属于指定的故事', 403);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const newName = typeof body.newName === 'string' ? body.newName.trim() : '';
+    const previousName = typeof body.previousName === 'string' && body.previousName.trim()
+      ? body.previousName.trim()
+      : character.name;
+
+    if (!newName) {
+      return apiError('无效的请求数据', '新名称不能为空', 400);
+    }
+
+    // 名称改为新名称，别名按指定的新写法改写，未指定的别名保持原样
+    const aliases = parseCodexAliases(character.aliases).filter(alias => alias !== previousName);
+    const aliasReplacements: Record<string, string> =
+      body.aliasReplacements && typeof body.aliasReplacements === 'object' ? body.aliasReplacements : {};
+    const replacements: Record<string, string> = { [previousName]: newName };
+    for (const alias of aliases) {
+      const replacement = typeof aliasReplacements[alias] === 'string' ? aliasReplacements[alias].trim() : '';
+      replacements[alias] = replacement || alias;
+    }
+
+    if (Object.entries(replacements).every(([term, replacement]) => term === replacement)) {
+      return apiError('无效的请求数据', '新名称与原名称相同', 400);
+    }
+
+    const options = buildRenameOptions(replacements);
+    const targets = await loadRenameTargets(storyId, characterId);
+
+    if (body.dryRun === true) {
+      return apiSuccess({
+        ...previewCharacterRename(targets, options),
+        replacements
+      });
+    }
+
+    const matchIds: string[] = Array.isArray(body.matchIds)
+      ? body.matchIds.filter((id: unknown) => typeof id === 'string')
+      : [];
+
+    // 检查预览后内容是否被修改，避免按过期的匹配序号改写
+    const expectedUpdatedAt: Record<string, string> =
+      body.expectedUpdatedAt && typeof body.expectedUpdatedAt === 'object' ? body.expectedUpdatedAt : {};
+    const affectedKeys = new Set(matchIds.map(id => id.split(':').slice(0, 2).join(':')));
+    const stale = targets.some(target => {
+      const key = getTargetKey(target);
+      return (
+        affectedKeys.has(key) &&
+        expectedUpdatedAt[key] !== undefined &&
+        new Date(expectedUpdatedAt[key]).getTime() !== new Date(target.updatedAt).getTime()
+      );
+    });
+    if (stale) {
+      return apiError('内容已变化', '部分内容在预览后已被修改，请重新预览后再改名', 409);
+    }
+
+    // 新的别名：改写后的别名，按需保留原名称，去除与新名称相同的项
+    const nextAliases = Array.from(new Set([
+      ...aliases.map(alias => replacements[alias]),
+      ...(body.keepOldNameAsAlias === true ? [previousName] : [])
+    ])).filter(alias => alias && alias !== newName);
+
+    const result = await applyCharacterRename(storyId, characterId, targets, options, matchIds, {
+      name: newName,
+      aliases: nextAliases,
+      description: `角色改名“${previousName}”为“${newName}”前自动备份`,
+      createdBy: auth.dbUser.name || auth.dbUser.email || '用户'
+    });
+
+    return apiSuccess({
+      ...result,
+      character: {
+        ...result.character,
+        attributes: result.character.attributes ? JSON.parse(result.character.attributes as string) : null
+      }
+    });
+  }, '角色改名失败');
+}
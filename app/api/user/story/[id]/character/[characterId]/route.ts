@@ -6,6 +6,7 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import { PrismaClient } from '@prisma/client';
+import { normalizeCodexAliases } from '@/lib/codex-utils';
 
 const prisma = new PrismaClient();
 
@@ -117,16 +118,17 @@ export async function PUT(
 
     // 解析请求体
     const body = await req.json();
-    const { name, description, attributes } = body;
+    const { name, aliases, description, attributes } = body;
 
     // 至少需要一个要更新的字段
-    if (!name && description === undefined && attributes === undefined) {
+    if (!name && aliases === undefined && description === undefined && attributes === undefined) {
       return apiError('无效的请求数据', '至少需要提供一个要更新的字段', 400);
     }
 
     // 准备更新数据
     const updateData: any = {};
     if (name !== undefined) updateData.name = name;
+    if (aliases !== undefined) updateData.aliases = JSON.stringify(normalizeCodexAliases(aliases));
     if (description !== undefined) updateData.description = description;
     if (attributes !== undefined) updateData.attributes = attributes ? JSON.stringify(attributes) : null;
 
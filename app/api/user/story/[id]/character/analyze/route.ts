@@ -6,6 +6,8 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import { PrismaClient } from '@prisma/client';
+import { generateAIResponse } from '@/lib/ai-utils';
+import { formatRelationshipsForPrompt } from '@/lib/character-relationships';
 
 const prisma = new PrismaClient();
 
@@ -97,31 +99,48 @@ export async function POST(
           .join('\n')}`;
     }).join('\n\n');
 
+    // 获取涉及所选角色的已建立关系，作为判断对话和互动是否矛盾的依据
+    const [relationships, storyCharacters, storyChapters] = await Promise.all([
+      prisma.characterRelationship.findMany({
+        where: {
+          storyId,
+          OR: [
+            { sourceCharacterId: { in: characterIds } },
+            { targetCharacterId: { in: characterIds } }
+          ]
+        }
+      }),
+      prisma.character.findMany({
+        where: { storyId },
+        select: { id: true, name: true }
+      }),
+      prisma.chapter.findMany({
+        where: { storyId },
+        select: { id: true, title: true, order: true }
+      })
+    ]);
+
+    const relationshipInfo = formatRelationshipsForPrompt(relationships, storyCharacters, storyChapters);
+
     const chaptersContent = chapters.map(chapter =>
       `章节: ${chapter.title}\n内容:\n${chapter.content}`
     ).join('\n\n');
 
     // 调用 AI 服务分析角色表现
-    const response = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gemini-2.5-flash-preview-04-17',
-        messages: [
-          {
-            role: 'system',
-            content: `你是一位专业的文学分析助手，擅长分析小说中角色的表现和发展。请分析提供的章节内容中，指定角色的表现、行为、发展和情感变化。
+    let response: Response;
+    try {
+      response = await generateAIResponse([
+        {
+          role: 'system',
+          content: `你是一位专业的文学分析助手，擅长分析小说中角色的表现和发展。请分析提供的章节内容中，指定角色的表现、行为、发展和情感变化。
 
 分析应包括以下方面：
 1. 角色出场与参与: 角色在各章节中的出场次数、场景和参与度
 2. 角色行为与决策: 角色做出的关键决定和行动
 3. 情感变化: 角色的情感状态及其变化
-4. 人物关系: 与其他角色的互动和关系发展
+4. 人物关系: 与其他角色的互动和关系发展，如果提供了已建立的角色关系，指出与之矛盾的对话或互动
 5. 角色发展: 角色在章节中的成长或变化
-6. 与设定的一致性: 角色的行为是否与其设定的属性一致
+6. 与设定的一致性: 角色的行为是否与其设定的属性和已建立的角色关系一致
 7. 改进建议: 如何使角色更加立体或解决可能的不一致问题
 
 请以JSON格式返回分析结果，每个角色的分析单独成一个对象，包含上述所有方面：
@@ -143,20 +162,20 @@ export async function POST(
     }
   ]
 }`
-          },
-          {
-            role: 'user',
-            content: `请分析以下章节中指定角色的表现和发展：\n\n角色信息：\n${characterInfo}\n\n章节内容：\n${chaptersContent}`
-          }
-        ],
+        },
+        {
+          role: 'user',
+          content: `请分析以下章节中指定角色的表现和发展：\n\n角色信息：\n${characterInfo}\n\n${relationshipInfo ? `已建立的角色关系：\n${relationshipInfo}\n\n` : ''}章节内容：\n${chaptersContent}`
+        }
+      ], {
         temperature: 0.3,
-        max_tokens: 2000,
-        response_format: { type: "json_object" }
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('分析角色表现失败:', response.statusText);
+        maxTokens: 2000,
+        responseFormat: { type: "json_object" },
+        timeoutMs: 60000,
+        provider: story.aiProvider
+      });
+    } catch (error) {
+      console.error('分析角色表现失败:', error);
       return apiError('分析失败', '调用AI服务时出错', 500);
     }
 
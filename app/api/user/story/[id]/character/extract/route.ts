@@ -6,18 +6,20 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import { PrismaClient } from '@prisma/client';
+import { generateAIResponse, Message } from '@/lib/ai-utils';
 
 const prisma = new PrismaClient();
 
 /**
  * 从故事内容中提取角色信息
  * @param content 故事内容
+ * @param provider AI服务提供方
  * @returns 提取的角色信息数组
  */
-async function extractCharactersFromContent(content: string): Promise<Array<{ name: string, description: string, attributes?: any }>> {
+async function extractCharactersFromContent(content: string, provider?: string | null): Promise<Array<{ name: string, description: string, attributes?: any }>> {
   try {
     // 构建提取角色的系统提示
-    const messages: Array<{ role: string, content: string }> = [
+    const messages: Message[] = [
       {
         role: 'system',
         content: `你是一个故事分析助手，专门识别和分析小说中的角色。
@@ -53,27 +55,15 @@ async function extractCharactersFromContent(content: string): Promise<Array<{ na
       { role: 'user', content: `故事内容：${content}` }
     ];
 
-    // 调用 OpenAI 兼容服务
-    const response = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gemini-2.5-flash-preview-04-17',
-        messages,
-        temperature: 0.3,
-        max_tokens: 1500,
-        response_format: { type: "json_object" }
-      }),
+    // 调用 AI 服务
+    const response = await generateAIResponse(messages, {
+      temperature: 0.3,
+      maxTokens: 1500,
+      responseFormat: { type: "json_object" },
+      timeoutMs: 60000,
+      provider
     });
 
-    if (!response.ok) {
-      console.error('提取角色信息失败:', response.statusText);
-      return [];
-    }
-
     const data = await response.json();
     const responseContent = data.choices?.[0]?.message?.content;
 
@@ -158,7 +148,7 @@ export async function POST(
     }
 
     // 提取角色信息
-    const extractedCharacters = await extractCharactersFromContent(storyContent);
+    const extractedCharacters = await extractCharactersFromContent(storyContent, story.aiProvider);
 
     if (!extractedCharacters || extractedCharacters.length === 0) {
       return apiError('未找到角色', '无法从故事内容中提取角色信息', 400);
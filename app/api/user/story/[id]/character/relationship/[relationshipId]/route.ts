@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import { isRelationshipDirection, isRelationshipType } from '@/lib/character-relationships';
+
+const prisma = new PrismaClient();
+
+type RelationshipParams = { params: { id: string; relationshipId: string } };
+
+/**
+ * 验证用户对角色关系的访问权限，成功时返回关系，否则返回错误响应
+ */
+async function findOwnedRelationship(req: NextRequest, { params }: RelationshipParams) {
+  const { id: storyId, relationshipId } = params;
+
+  if (!storyId || !relationshipId) {
+    return apiError('无效的请求', '缺少故事ID或关系ID', 400);
+  }
+
+  // 验证用户身份
+  const auth = await authenticateUser(req);
+
+  if (!auth.isAuthenticated) {
+    return auth.response as NextResponse;
+  }
+
+  // 验证故事归属
+  const story = await prisma.story.findUnique({
+    where: { id: storyId }
+  });
+
+  if (!story) {
+    return apiError('未找到故事', '请求的故事不存在', 404);
+  }
+
+  if (story.userId !== auth.dbUser.id) {
+    return apiError('访问被拒绝', '您无权访问此故事', 403);
+  }
+
+  // 验证关系存在并属于该故事
+  const relationship = await prisma.characterRelationship.findUnique({
+    where: { id: relationshipId }
+  });
+
+  if (!relationship) {
+    return apiError('未找到角色关系', '请求的角色关系不存在', 404);
+  }
+
+  if (relationship.storyId !== storyId) {
+    return apiError('访问被拒绝', '此角色关系不属于指定的故事', 403);
+  }
+
+  return relationship;
+}
+
+/**
+ * 更新角色关系，未提供的字段保持不变
+ * PUT /api/user/story/[id]/character/relationship/[relationshipId]
+ */
+export async function PUT(
+  req: NextRequest,
+  context: RelationshipParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedRelationship(req, context);
+    if (result instanceof NextResponse) return result;
+    const existing = result;
+    const storyId = context.params.id;
+
+    // 解析请求体
+    const body = await req.json();
+    const { sourceCharacterId, targetCharacterId, type, direction, description, chapterId } = body;
+
+    const nextSourceId = sourceCharacterId !== undefined ? sourceCharacterId : existing.sourceCharacterId;
+    const nextTargetId = targetCharacterId !== undefined ? targetCharacterId : existing.targetCharacterId;
+
+    if (nextSourceId === nextTargetId) {
+      return apiError('无效的请求数据', '角色不能与自身建立关系', 400);
+    }
+
+    if (type !== undefined && !isRelationshipType(type)) {
+      return apiError('无效的请求数据', '不支持的关系类型', 400);
+    }
+
+    if (direction !== undefined && !isRelationshipDirection(direction)) {
+      return apiError('无效的请求数据', '不支持的关系方向', 400);
+    }
+
+    // 验证关系双方属于该故事
+    if (sourceCharacterId !== undefined || targetCharacterId !== undefined) {
+      const characterCount = await prisma.character.count({
+        where: { id: { in: [nextSourceId, nextTargetId] }, storyId }
+      });
+
+      if (characterCount !== 2) {
+        return apiError('无效的请求数据', '指定的角色不存在或不属于该故事', 400);
+      }
+    }
+
+    // 验证起始章节属于该故事（null 表示清除起始章节）
+    if (chapterId) {
+      const chapter = await prisma.chapter.findUnique({
+        where: { id: chapterId }
+      });
+
+      if (!chapter || chapter.storyId !== storyId) {
+        return apiError('无效的请求数据', '指定的章节不存在或不属于该故事', 400);
+      }
+    }
+
+    const relationship = await prisma.characterRelationship.update({
+      where: { id: existing.id },
+      data: {
+        type: type !== undefined ? type : existing.type,
+        direction: direction !== undefined ? direction : existing.direction,
+        description: description !== undefined ? description || null : existing.description,
+        sourceCharacterId: nextSourceId,
+        targetCharacterId: nextTargetId,
+        chapterId: chapterId !== undefined ? chapterId || null : existing.chapterId
+      },
+      include: {
+        chapter: { select: { id: true, title: true, order: true } }
+      }
+    });
+
+    return apiSuccess(relationship);
+  }, '更新角色关系失败');
+}
+
+/**
+ * 删除角色关系
+ * DELETE /api/user/story/[id]/character/relationship/[relationshipId]
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: RelationshipParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedRelationship(req, context);
+    if (result instanceof NextResponse) return result;
+
+    await prisma.characterRelationship.delete({
+      where: { id: result.id }
+    });
+
+    return apiSuccess({ message: '角色关系已删除' });
+  }, '删除角色关系失败');
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import { isRelationshipDirection, isRelationshipType } from '@/lib/character-relationships';
+
+const prisma = new PrismaClient();
+
+/**
+ * 获取故事的所有角色关系，可按角色筛选
+ * GET /api/user/story/[id]/character/relationship?characterId=xxx
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    const characterId = req.nextUrl.searchParams.get('characterId');
+
+    const relationships = await prisma.characterRelationship.findMany({
+      where: {
+        storyId,
+        ...(characterId
+          ? { OR: [{ sourceCharacterId: characterId }, { targetCharacterId: characterId }] }
+          : {})
+      },
+      include: {
+        chapter: { select: { id: true, title: true, order: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return apiSuccess(relationships);
+  }, '获取角色关系失败');
+}
+
+/**
+ * 创建角色关系
+ * POST /api/user/story/[id]/character/relationship
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 解析请求体
+    const body = await req.json();
+    const { sourceCharacterId, targetCharacterId, type, direction = 'mutual', description, chapterId } = body;
+
+    // 验证必要字段
+    if (!sourceCharacterId || !targetCharacterId) {
+      return apiError('无效的请求数据', '请指定关系双方的角色', 400);
+    }
+
+    if (sourceCharacterId === targetCharacterId) {
+      return apiError('无效的请求数据', '角色不能与自身建立关系', 400);
+    }
+
+    if (!isRelationshipType(type)) {
+      return apiError('无效的请求数据', '不支持的关系类型', 400);
+    }
+
+    if (!isRelationshipDirection(direction)) {
+      return apiError('无效的请求数据', '不支持的关系方向', 400);
+    }
+
+    // 验证关系双方属于该故事
+    const characterCount = await prisma.character.count({
+      where: { id: { in: [sourceCharacterId, targetCharacterId] }, storyId }
+    });
+
+    if (characterCount !== 2) {
+      return apiError('无效的请求数据', '指定的角色不存在或不属于该故事', 400);
+    }
+
+    // 验证起始章节属于该故事
+    if (chapterId) {
+      const chapter = await prisma.chapter.findUnique({
+        where: { id: chapterId }
+      });
+
+      if (!chapter || chapter.storyId !== storyId) {
+        return apiError('无效的请求数据', '指定的章节不存在或不属于该故事', 400);
+      }
+    }
+
+    // 创建角色关系
+    const relationship = await prisma.characterRelationship.create({
+      data: {
+        type,
+        direction,
+        description: description || null,
+        sourceCharacterId,
+        targetCharacterId,
+        chapterId: chapterId || null,
+        storyId
+      },
+      include: {
+        chapter: { select: { id: true, title: true, order: true } }
+      }
+    });
+
+    return apiSuccess(relationship, 201);
+  }, '创建角色关系失败');
+}
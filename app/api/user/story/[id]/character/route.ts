@@ -6,6 +6,7 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import { PrismaClient } from '@prisma/client';
+import { normalizeCodexAliases } from '@/lib/codex-utils';
 
 const prisma = new PrismaClient();
 
@@ -90,7 +91,7 @@ export async function POST(
 
     // 解析请求体
     const body = await req.json();
-    const { name, description, attributes } = body;
+    const { name, aliases, description, attributes } = body;
 
     // 验证必要字段
     if (!name) {
@@ -101,6 +102,7 @@ export async function POST(
     const character = await prisma.character.create({
       data: {
         name,
+        aliases: JSON.stringify(normalizeCodexAliases(aliases)),
         description: description || '',
         attributes: attributes ? JSON.stringify(attributes) : null,
         userId: auth.dbUser.id,
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import {
+  isCodexEntryType,
+  normalizeCodexAliases,
+  normalizeCodexFields
+} from '@/lib/codex-utils';
+
+const prisma = new PrismaClient();
+
+type CodexEntryParams = { params: { id: string; entryId: string } };
+
+/**
+ * 验证用户对设定条目的访问权限，成功时返回条目，否则返回错误响应
+ */
+async function findOwnedEntry(req: NextRequest, { params }: CodexEntryParams) {
+  const { id: storyId, entryId } = params;
+
+  if (!storyId || !entryId) {
+    return apiError('无效的请求', '缺少故事ID或设定ID', 400);
+  }
+
+  // 验证用户身份
+  const auth = await authenticateUser(req);
+
+  if (!auth.isAuthenticated) {
+    return auth.response as NextResponse;
+  }
+
+  // 验证故事归属
+  const story = await prisma.story.findUnique({
+    where: { id: storyId }
+  });
+
+  if (!story) {
+    return apiError('未找到故事', '请求的故事不存在', 404);
+  }
+
+  if (story.userId !== auth.dbUser.id) {
+    return apiError('访问被拒绝', '您无权访问此故事', 403);
+  }
+
+  // 验证条目存在并属于该故事
+  const entry = await prisma.codexEntry.findUnique({
+    where: { id: entryId },
+    include: {
+      links: { select: { id: true, name: true, type: true } },
+      linkedFrom: { select: { id: true, name: true, type: true } }
+    }
+  });
+
+  if (!entry) {
+    return apiError('未找到设定', '请求的设定条目不存在', 404);
+  }
+
+  if (entry.storyId !== storyId) {
+    return apiError('访问被拒绝', '此设定条目不属于指定的故事', 403);
+  }
+
+  return entry;
+}
+
+/**
+ * 获取指定设定条目，包含它引用的条目和引用它的条目
+ * GET /api/user/story/[id]/codex/[entryId]
+ */
+export async function GET(
+  req: NextRequest,
+  context: CodexEntryParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedEntry(req, context);
+    if (result instanceof NextResponse) return result;
+
+    return apiSuccess(result);
+  }, '获取世界设定失败');
+}
+
+/**
+ * 更新指定设定条目，未提供的字段保持不变
+ * PUT /api/user/story/[id]/codex/[entryId]
+ */
+export async function PUT(
+  req: NextRequest,
+  context: CodexEntryParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedEntry(req, context);
+    if (result instanceof NextResponse) return result;
+    const existingEntry = result;
+
+    // 解析请求体
+    const body = await req.json();
+    const { type, name, description, fields, aliases, linkedEntryIds } = body;
+
+    if (type !== undefined && !isCodexEntryType(type)) {
+      return apiError('无效的请求数据', '不支持的设定类型', 400);
+    }
+
+    if (name !== undefined && !String(name).trim()) {
+      return apiError('无效的请求数据', '设定名称不能为空', 400);
+    }
+
+    // 验证交叉引用的条目属于该故事，且不能引用自身
+    let linkIds: string[] | undefined;
+
+    if (linkedEntryIds !== undefined) {
+      linkIds = Array.isArray(linkedEntryIds) ? Array.from(new Set<string>(linkedEntryIds)) : [];
+
+      if (linkIds.includes(existingEntry.id)) {
+        return apiError('无效的请求数据', '设定条目不能引用自身', 400);
+      }
+
+      if (linkIds.length > 0) {
+        const linkedCount = await prisma.codexEntry.count({
+          where: { id: { in: linkIds }, storyId: existingEntry.storyId }
+        });
+
+        if (linkedCount !== linkIds.length) {
+          return apiError('无效的请求数据', '引用的设定条目不存在或不属于该故事', 400);
+        }
+      }
+    }
+
+    const updatedEntry = await prisma.codexEntry.update({
+      where: { id: existingEntry.id },
+      data: {
+        type: type !== undefined ? type : existingEntry.type,
+        name: name !== undefined ? String(name).trim() : existingEntry.name,
+        description: description !== undefined ? description || null : existingEntry.description,
+        fields: fields !== undefined ? JSON.stringify(normalizeCodexFields(fields)) : existingEntry.fields,
+        aliases: aliases !== undefined ? JSON.stringify(normalizeCodexAliases(aliases)) : existingEntry.aliases,
+        ...(linkIds !== undefined ? { links: { set: linkIds.map(id => ({ id })) } } : {})
+      },
+      include: {
+        links: { select: { id: true, name: true, type: true } }
+      }
+    });
+
+    return apiSuccess(updatedEntry);
+  }, '更新世界设定失败');
+}
+
+/**
+ * 删除指定设定条目，其他条目对它的引用会一并移除
+ * DELETE /api/user/story/[id]/codex/[entryId]
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: CodexEntryParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedEntry(req, context);
+    if (result instanceof NextResponse) return result;
+
+    await prisma.codexEntry.delete({
+      where: { id: result.id }
+    });
+
+    return apiSuccess({ message: '设定条目已删除' });
+  }, '删除世界设定失败');
+}
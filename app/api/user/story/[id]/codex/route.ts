@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import {
+  isCodexEntryType,
+  normalizeCodexAliases,
+  normalizeCodexFields,
+  parseCodexAliases
+} from '@/lib/codex-utils';
+
+const prisma = new PrismaClient();
+
+/**
+ * 获取故事的世界设定条目，支持按类型筛选和按名称、别名、描述搜索
+ * GET /api/user/story/[id]/codex?type=location&q=关键词
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    const type = req.nextUrl.searchParams.get('type');
+    const query = req.nextUrl.searchParams.get('q')?.trim();
+
+    if (type && !isCodexEntryType(type)) {
+      return apiError('无效的请求', '不支持的设定类型', 400);
+    }
+
+    const entries = await prisma.codexEntry.findMany({
+      where: {
+        storyId,
+        ...(type ? { type } : {})
+      },
+      include: {
+        links: { select: { id: true, name: true, type: true } }
+      },
+      orderBy: [{ type: 'asc' }, { name: 'asc' }]
+    });
+
+    // 别名以JSON文本存储，搜索在内存中进行
+    const filtered = query
+      ? entries.filter((entry: { name: string; description: string | null; aliases: string | null }) =>
+          entry.name.includes(query) ||
+          (entry.description || '').includes(query) ||
+          parseCodexAliases(entry.aliases).some(alias => alias.includes(query))
+        )
+      : entries;
+
+    return apiSuccess(filtered);
+  }, '获取世界设定失败');
+}
+
+/**
+ * 创建世界设定条目
+ * POST /api/user/story/[id]/codex
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 解析请求体
+    const body = await req.json();
+    const { type, name, description, fields, aliases, linkedEntryIds } = body;
+
+    // 验证必要字段
+    if (!name || !String(name).trim()) {
+      return apiError('无效的请求数据', '设定名称是必需的', 400);
+    }
+
+    if (!isCodexEntryType(type)) {
+      return apiError('无效的请求数据', '不支持的设定类型', 400);
+    }
+
+    // 验证交叉引用的条目属于该故事
+    const linkIds: string[] = Array.isArray(linkedEntryIds) ? Array.from(new Set(linkedEntryIds)) : [];
+
+    if (linkIds.length > 0) {
+      const linkedCount = await prisma.codexEntry.count({
+        where: { id: { in: linkIds }, storyId }
+      });
+
+      if (linkedCount !== linkIds.length) {
+        return apiError('无效的请求数据', '引用的设定条目不存在或不属于该故事', 400);
+      }
+    }
+
+    // 创建设定条目
+    const entry = await prisma.codexEntry.create({
+      data: {
+        type,
+        name: String(name).trim(),
+        description: description || null,
+        fields: JSON.stringify(normalizeCodexFields(fields)),
+        aliases: JSON.stringify(normalizeCodexAliases(aliases)),
+        storyId,
+        links: { connect: linkIds.map(id => ({ id })) }
+      },
+      include: {
+        links: { select: { id: true, name: true, type: true } }
+      }
+    });
+
+    return apiSuccess(entry, 201);
+  }, '创建世界设定失败');
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { authenticateUser, apiError, withErrorHandling } from '@/lib/api-helpers';
+
+/**
+ * 下载导出任务生成的文件
+ * GET /api/user/story/[id]/export/jobs/[jobId]/download
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string; jobId: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const { id: storyId, jobId } = params;
+
+    if (!storyId || !jobId) {
+      return apiError('无效的请求', '缺少故事ID或任务ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    const job = await prisma.exportJob.findUnique({
+      where: { id: jobId }
+    });
+
+    if (!job || job.storyId !== storyId) {
+      return apiError('未找到导出任务', '请求的导出任务不存在', 404);
+    }
+
+    if (job.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此导出任务', 403);
+    }
+
+    if (job.expiresAt <= new Date()) {
+      return apiError('文件已过期', '导出文件已过期，请重新导出', 410);
+    }
+
+    if (job.status !== 'completed' || !job.data) {
+      return apiError('文件未就绪', '导出任务尚未完成', 409);
+    }
+
+    return new NextResponse(job.data, {
+      headers: {
+        'Content-Type': job.mimeType || 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(job.fileName || job.id)}"`,
+        'Content-Length': String(job.data.length)
+      }
+    });
+  }, '下载导出文件失败');
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { EXPORT_JOB_SUMMARY_SELECT } from '@/lib/export-jobs';
+
+type ExportJobParams = { params: { id: string; jobId: string } };
+
+/**
+ * 验证用户对导出任务的访问权限，成功时返回任务概要，否则返回错误响应
+ */
+async function findOwnedJob(req: NextRequest, { params }: ExportJobParams) {
+  const { id: storyId, jobId } = params;
+
+  if (!storyId || !jobId) {
+    return apiError('无效的请求', '缺少故事ID或任务ID', 400);
+  }
+
+  // 验证用户身份
+  const auth = await authenticateUser(req);
+  if (!auth.isAuthenticated) {
+    return auth.response as NextResponse;
+  }
+
+  const job = await prisma.exportJob.findUnique({
+    where: { id: jobId },
+    select: { ...EXPORT_JOB_SUMMARY_SELECT, storyId: true, userId: true }
+  });
+
+  if (!job || job.storyId !== storyId) {
+    return apiError('未找到导出任务', '请求的导出任务不存在', 404);
+  }
+
+  if (job.userId !== auth.dbUser.id) {
+    return apiError('访问被拒绝', '您无权访问此导出任务', 403);
+  }
+
+  return job;
+}
+
+/**
+ * 获取导出任务的状态和进度
+ * GET /api/user/story/[id]/export/jobs/[jobId]
+ */
+export async function GET(
+  req: NextRequest,
+  context: ExportJobParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedJob(req, context);
+    if (result instanceof NextResponse) return result;
+
+    return apiSuccess(result);
+  }, '获取导出任务失败');
+}
+
+/**
+ * 删除导出任务及生成的文件；进行中的任务删除后仍会执行完，但结果不再保存
+ * DELETE /api/user/story/[id]/export/jobs/[jobId]
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: ExportJobParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedJob(req, context);
+    if (result instanceof NextResponse) return result;
+
+    await prisma.exportJob.delete({
+      where: { id: result.id }
+    });
+
+    return apiSuccess({ message: '导出记录已删除' });
+  }, '删除导出任务失败');
+}
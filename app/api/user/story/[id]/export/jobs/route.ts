@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { validateStoryExportRequest, StoryExportRequest } from '@/lib/story-export';
+import { createExportJob, EXPORT_JOB_SUMMARY_SELECT, MAX_ACTIVE_EXPORT_JOBS, resumeQueuedJobs } from '@/lib/export-jobs';
+
+type ExportJobsParams = { params: { id: string } };
+
+// 导出记录列表的最大条数
+const MAX_LISTED_JOBS = 20;
+
+/**
+ * 验证用户对故事的访问权限，成功时返回用户ID，否则返回错误响应
+ */
+async function authorizeStory(req: NextRequest, storyId: string) {
+  if (!storyId) {
+    return apiError('无效的请求', '缺少故事ID', 400);
+  }
+
+  // 验证用户身份
+  const auth = await authenticateUser(req);
+  if (!auth.isAuthenticated) {
+    return auth.response as NextResponse;
+  }
+
+  // 验证故事归属
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { userId: true }
+  });
+
+  if (!story) {
+    return apiError('未找到故事', '请求的故事不存在', 404);
+  }
+
+  if (story.userId !== auth.dbUser.id) {
+    return apiError('访问被拒绝', '您无权导出此故事', 403);
+  }
+
+  return auth.dbUser.id as string;
+}
+
+/**
+ * 获取故事的导出记录（未过期的，最新的在前）
+ * GET /api/user/story/[id]/export/jobs
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: ExportJobsParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await authorizeStory(req, params.id);
+    if (result instanceof NextResponse) return result;
+
+    // 服务重启后接管遗留的排队任务，页面轮询时它们会继续执行
+    await resumeQueuedJobs();
+
+    const jobs = await prisma.exportJob.findMany({
+      where: {
+        storyId: params.id,
+        userId: result,
+        expiresAt: { gt: new Date() }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_LISTED_JOBS,
+      select: EXPORT_JOB_SUMMARY_SELECT
+    });
+
+    return apiSuccess(jobs);
+  }, '获取导出记录失败');
+}
+
+/**
+ * 创建后台导出任务，立即返回任务概要，通过 GET /api/user/story/[id]/export/jobs/[jobId] 查询进度
+ * POST /api/user/story/[id]/export/jobs
+ * 请求体与 POST /api/user/story/[id]/export 相同
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: ExportJobsParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    // 获取请求数据
+    const { format = 'txt', ...options } = await req.json();
+    const request: StoryExportRequest = { ...options, format };
+
+    // 验证导出选项
+    const validationError = validateStoryExportRequest(request);
+    if (validationError) {
+      return apiError('无效的请求', validationError, 400);
+    }
+
+    const result = await authorizeStory(req, params.id);
+    if (result instanceof NextResponse) return result;
+
+    // 限制同时进行的任务数；先接管服务重启前遗留的排队任务，它们会正常执行完而不是一直占用名额
+    await resumeQueuedJobs();
+    const activeCount = await prisma.exportJob.count({
+      where: {
+        userId: result,
+        status: { in: ['pending', 'processing'] }
+      }
+    });
+
+    if (activeCount >= MAX_ACTIVE_EXPORT_JOBS) {
+      return apiError('导出任务过多', `最多同时进行 ${MAX_ACTIVE_EXPORT_JOBS} 个导出任务，请等待之前的任务完成`, 429);
+    }
+
+    const job = await createExportJob(params.id, result, request);
+
+    return apiSuccess(job, 202);
+  }, '创建导出任务失败');
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import prisma from '@/lib/prisma';
+import { applyFindReplace, loadScopeChapters, previewFindReplace } from '@/lib/chapter-find-replace';
+import { buildFindPattern, FindReplaceField, FindReplaceOptions } from '@/lib/find-replace';
+
+const FIELDS: FindReplaceField[] = ['title', 'content', 'summary', 'notes'];
+
+/**
+ * 在故事的章节中查找替换
+ * POST /api/user/story/[id]/find-replace
+ * 请求体：{ query, replacement, regex?, wholeWord?, caseSensitive?, chapterIds?, fields?, dryRun?, matchIds?, expectedUpdatedAt? }
+ * dryRun 为 true 时只返回匹配预览；否则只替换 matchIds 中的匹配，替换前自动创建可恢复的故事版本
+ * expectedUpdatedAt 为预览时各章节的更新时间，章节在预览后被修改时返回 409
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 获取故事信息以验证所有权
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { userId: true }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权修改此故事', 403);
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    if (typeof body.query !== 'string' || !body.query) {
+      return apiError('无效的请求', '请输入要查找的内容', 400);
+    }
+
+    const options: FindReplaceOptions = {
+      query: body.query,
+      replacement: typeof body.replacement === 'string' ? body.replacement : '',
+      regex: body.regex === true,
+      wholeWord: body.wholeWord === true,
+      caseSensitive: body.caseSensitive === true
+    };
+
+    try {
+      buildFindPattern(options);
+    } catch (error) {
+      return apiError('无效的请求', error instanceof Error ? error.message : '正则表达式无效', 400);
+    }
+
+    const fields: FindReplaceField[] = Array.isArray(body.fields)
+      ? FIELDS.filter(field => body.fields.includes(field))
+      : ['content'];
+    if (fields.length === 0) {
+      return apiError('无效的请求', '请至少选择一个查找范围', 400);
+    }
+
+    const chapterIds: string[] | undefined = Array.isArray(body.chapterIds)
+      ? body.chapterIds.filter((id: unknown) => typeof id === 'string')
+      : undefined;
+    const chapters = await loadScopeChapters(storyId, chapterIds);
+
+    if (body.dryRun === true) {
+      return apiSuccess(previewFindReplace(chapters, options, fields));
+    }
+
+    const matchIds: string[] = Array.isArray(body.matchIds)
+      ? body.matchIds.filter((id: unknown) => typeof id === 'string')
+      : [];
+    if (matchIds.length === 0) {
+      return apiError('无效的请求', '请至少选择一处要替换的匹配', 400);
+    }
+
+    // 检查预览后章节是否被修改，避免按过期的匹配序号替换
+    const expectedUpdatedAt: Record<string, string> =
+      body.expectedUpdatedAt && typeof body.expectedUpdatedAt === 'object' ? body.expectedUpdatedAt : {};
+    const affectedIds = new Set(matchIds.map(id => id.split(':')[0]));
+    const stale = chapters.some(
+      chapter =>
+        affectedIds.has(chapter.id) &&
+        expectedUpdatedAt[chapter.id] !== undefined &&
+        new Date(expectedUpdatedAt[chapter.id]).getTime() !== new Date(chapter.updatedAt).getTime()
+    );
+    if (stale) {
+      return apiError('内容已变化', '部分章节在预览后已被修改，请重新预览后再替换', 409);
+    }
+
+    const result = await applyFindReplace(
+      storyId,
+      chapters,
+      options,
+      fields,
+      matchIds,
+      auth.dbUser.name || auth.dbUser.email || '用户'
+    );
+
+    return apiSuccess(result);
+  }, '查找替换失败');
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  formatStoryContent,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import prisma from '@/lib/prisma';
+import { forkStory } from '@/lib/story-fork';
+
+/**
+ * 派生故事：将故事及其全部章节、角色、大纲等深拷贝为当前用户的新故事
+ * POST /api/user/story/[id]/fork
+ * 请求体：{ title?: string, includeVersions?: boolean }，includeVersions 为 true 时同时复制版本历史
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 解析请求体
+    const body = await req.json().catch(() => ({}));
+    const title = typeof body.title === 'string' && body.title.trim() ? body.title.trim() : `${story.title}（副本）`;
+
+    const forked = await forkStory(storyId, auth.dbUser.id, {
+      title,
+      includeVersions: body.includeVersions === true
+    });
+
+    return apiSuccess(formatStoryContent({ ...forked, forkedFrom: { id: story.id, title: story.title } }), 201);
+  }, '派生故事失败');
+}
@@ -6,6 +6,7 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import { PrismaClient } from '@prisma/client';
+import { generateAIResponse } from '@/lib/ai-utils';
 
 const prisma = new PrismaClient();
 
@@ -79,18 +80,12 @@ export async function POST(
     }
 
     // 调用 AI 服务生成大纲
-    const response = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gemini-2.5-flash-preview-04-17',
-        messages: [
-          {
-            role: 'system',
-            content: `你是一位专业的小说策划师，擅长根据角色设定和背景创建引人入胜的故事大纲。请根据提供的角色信息，创建一个合理、连贯且扣人心弦的故事大纲。
+    let response: Response;
+    try {
+      response = await generateAIResponse([
+        {
+          role: 'system',
+          content: `你是一位专业的小说策划师，擅长根据角色设定和背景创建引人入胜的故事大纲。请根据提供的角色信息，创建一个合理、连贯且扣人心弦的故事大纲。
 
 大纲应包含以下部分：
 1. 故事概述：核心主题和核心冲突
@@ -107,10 +102,10 @@ export async function POST(
 - 情节应有内在逻辑性，事件之间存在因果关系
 - 考虑指定的主题和类型，但也可以创造性地拓展
 - 提供足够的细节指导创作，但保留一定的创作空间`
-          },
-          {
-            role: 'user',
-            content: `请根据以下信息，为故事"${story.title}"创建一个详细的大纲：
+        },
+        {
+          role: 'user',
+          content: `请根据以下信息，为故事"${story.title}"创建一个详细的大纲：
 
 角色信息：
 ${characterInfo}
@@ -119,15 +114,16 @@ ${theme ? `故事主题：${theme}\n\n` : ''}
 ${genre ? `故事类型：${genre}\n\n` : ''}
 ${chaptersInfo ? `已有章节：\n${chaptersInfo}\n\n` : ''}
 ${additionalNotes ? `额外说明：${additionalNotes}\n\n` : ''}`
-          }
-        ],
+        }
+      ], {
         temperature: 0.7,
-        max_tokens: 2500,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('生成大纲失败:', response.statusText);
+        maxTokens: 2500,
+        timeoutMs: 90000,
+        maxRetries: 1,
+        provider: story.aiProvider
+      });
+    } catch (error) {
+      console.error('生成大纲失败:', error);
       return apiError('生成失败', '调用AI服务时出错', 500);
     }
 
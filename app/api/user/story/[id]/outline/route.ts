@@ -6,6 +6,7 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import { PrismaClient } from '@prisma/client';
+import { generateAIResponse } from '@/lib/ai-utils';
 
 const prisma = new PrismaClient();
 
@@ -195,19 +196,11 @@ export async function POST(
         characterInfo = `主要角色信息:\n${formattedCharacters}`;
       }
 
-      // 调用 OpenAI API 生成大纲
-      const openaiResponse = await fetch(process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify({
-          model: 'gemini-2.5-flash-preview-04-17',
-          messages: [
-            {
-              role: 'system',
-              content: `你是一个专业的小说编辑，擅长分析故事并创建结构化大纲。请基于提供的故事内容和角色信息，生成一个全面的故事大纲，包括以下要素：
+      // 调用 AI 服务生成大纲
+      const aiResponse = await generateAIResponse([
+        {
+          role: 'system',
+          content: `你是一个专业的小说编辑，擅长分析故事并创建结构化大纲。请基于提供的故事内容和角色信息，生成一个全面的故事大纲，包括以下要素：
 
 1. 故事概要：包括整体主题和核心冲突
 2. 主要角色分析：角色特点、动机和发展轨迹
@@ -219,21 +212,17 @@ export async function POST(
 8. 主题探索：故事中探讨的核心主题和寓意
 
 请确保大纲既有帮助作者理清思路的结构性，又有保持创意空间的灵活性。大纲应清晰地展示角色之间的关系发展和情节的逻辑连贯性。`
-            },
-            { role: 'user', content: `故事标题：${story.title}\n\n${characterInfo ? characterInfo + '\n\n' : ''}故事内容：${storyContent}` }
-          ],
-          temperature: 0.3,
-          max_tokens: 2000,
-        }),
+        },
+        { role: 'user', content: `故事标题：${story.title}\n\n${characterInfo ? characterInfo + '\n\n' : ''}故事内容：${storyContent}` }
+      ], {
+        temperature: 0.3,
+        maxTokens: 2000,
+        timeoutMs: 60000,
+        provider: story.aiProvider
       });
 
-      if (!openaiResponse.ok) {
-        console.error('OpenAI API 错误:', openaiResponse.statusText);
-        return apiError('生成大纲失败', '调用AI服务时出错', 500);
-      }
-
-      const openaiData = await openaiResponse.json();
-      const generatedOutline = openaiData.choices?.[0]?.message?.content;
+      const aiData = await aiResponse.json();
+      const generatedOutline = aiData.choices?.[0]?.message?.content;
 
       if (!generatedOutline) {
         return apiError('生成大纲失败', 'AI返回的内容为空', 500);
@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import {
+  buildOutlineTree,
+  isOutlineNodeStatus,
+  OUTLINE_NODE_TYPES,
+  OUTLINE_NODE_TYPE_LABELS
+} from '@/lib/outline-tree';
+
+const prisma = new PrismaClient();
+
+// 大纲树逐个节点写入，节点较多时放宽交互式事务的超时时间
+const OUTLINE_SAVE_TRANSACTION_TIMEOUT = 30000;
+
+// 请求中提交的大纲树节点，新节点可以不带ID或带临时ID
+interface OutlineTreeInput {
+  id?: string;
+  title?: string;
+  description?: string;
+  status?: string;
+  targetWordCount?: number | null;
+  chapterId?: string | null;
+  children?: OutlineTreeInput[];
+}
+
+/**
+ * 获取结构化大纲树
+ * GET /api/user/story/[id]/outline/tree
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    const nodes = await prisma.outlineNode.findMany({
+      where: { storyId },
+      orderBy: { order: 'asc' }
+    });
+
+    return apiSuccess({ tree: buildOutlineTree(nodes) });
+  }, '获取大纲树失败');
+}
+
+/**
+ * 保存结构化大纲树
+ * 已有节点按ID原地更新以保持稳定，新节点创建后获得正式ID，请求中未出现的节点会被删除
+ * PUT /api/user/story/[id]/outline/tree
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      include: {
+        chapters: { select: { id: true } },
+        outlineNodes: { select: { id: true } }
+      }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 解析请求体
+    const body = await req.json();
+    const tree: OutlineTreeInput[] = body.tree;
+
+    if (!Array.isArray(tree)) {
+      return apiError('无效的请求数据', '大纲树必须是节点数组', 400);
+    }
+
+    // 验证关联的章节属于该故事
+    const chapterIds = new Set<string>(story.chapters.map((chapter: { id: string }) => chapter.id));
+    const collectChapterIds = (nodes: OutlineTreeInput[]): string[] =>
+      nodes.flatMap(node => [
+        ...(node.chapterId ? [node.chapterId] : []),
+        ...collectChapterIds(Array.isArray(node.children) ? node.children : [])
+      ]);
+
+    if (collectChapterIds(tree).some(chapterId => !chapterIds.has(chapterId))) {
+      return apiError('无效的请求数据', '关联的章节不存在或不属于该故事', 400);
+    }
+
+    const existingIds = new Set<string>(story.outlineNodes.map((node: { id: string }) => node.id));
+    const keptIds: string[] = [];
+
+    // 节点的保存和删除在同一事务中完成，中途失败时大纲保持原样
+    await prisma.$transaction(async (tx) => {
+      // 按层级保存节点：第一层为幕，第二层为章，第三层为节拍，更深的层级会被忽略
+      const saveNodes = async (nodes: OutlineTreeInput[], parentId: string | null, depth: number) => {
+        const type = OUTLINE_NODE_TYPES[depth];
+
+        for (let i = 0; i < nodes.length; i++) {
+          const node = nodes[i];
+          const targetWordCount = Number(node.targetWordCount);
+          const data = {
+            type,
+            title: String(node.title || '').trim() || `未命名${OUTLINE_NODE_TYPE_LABELS[type]}`,
+            description: node.description || null,
+            order: i + 1,
+            status: isOutlineNodeStatus(node.status) ? node.status : 'planned',
+            targetWordCount: Number.isInteger(targetWordCount) && targetWordCount > 0 ? targetWordCount : null,
+            chapterId: node.chapterId || null,
+            parentId
+          };
+
+          const saved = node.id && existingIds.has(node.id)
+            ? await tx.outlineNode.update({ where: { id: node.id }, data })
+            : await tx.outlineNode.create({ data: { ...data, storyId } });
+
+          keptIds.push(saved.id);
+
+          if (depth < OUTLINE_NODE_TYPES.length - 1 && Array.isArray(node.children)) {
+            await saveNodes(node.children, saved.id, depth + 1);
+          }
+        }
+      };
+
+      await saveNodes(tree, null, 0);
+
+      // 删除已移除的节点
+      await tx.outlineNode.deleteMany({
+        where: {
+          storyId,
+          id: { notIn: keptIds }
+        }
+      });
+    }, { timeout: OUTLINE_SAVE_TRANSACTION_TIMEOUT });
+
+    const nodes = await prisma.outlineNode.findMany({
+      where: { storyId },
+      orderBy: { order: 'asc' }
+    });
+
+    return apiSuccess({
+      message: '大纲树已保存',
+      tree: buildOutlineTree(nodes)
+    });
+  }, '保存大纲树失败');
+}
@@ -31,10 +31,16 @@ export const GET = withErrorHandling(async (
   const story = await prisma.story.findUnique({
     where: { id },
     include: {
+      volumes: {
+        orderBy: { order: 'asc' }
+      },
       chapters: {
         orderBy: { order: 'asc' }
       },
-      characters: true
+      characters: true,
+      outlineNodes: {
+        orderBy: { order: 'asc' }
+      }
     }
   });
 
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import { isTimelineEventType } from '@/lib/timeline-utils';
+
+const prisma = new PrismaClient();
+
+type TimelineEventParams = { params: { id: string; eventId: string } };
+
+/**
+ * 验证用户对时间线事件的访问权限，成功时返回事件，否则返回错误响应
+ */
+async function findOwnedEvent(req: NextRequest, { params }: TimelineEventParams) {
+  const { id: storyId, eventId } = params;
+
+  if (!storyId || !eventId) {
+    return apiError('无效的请求', '缺少故事ID或事件ID', 400);
+  }
+
+  // 验证用户身份
+  const auth = await authenticateUser(req);
+
+  if (!auth.isAuthenticated) {
+    return auth.response as NextResponse;
+  }
+
+  // 验证故事归属
+  const story = await prisma.story.findUnique({
+    where: { id: storyId }
+  });
+
+  if (!story) {
+    return apiError('未找到故事', '请求的故事不存在', 404);
+  }
+
+  if (story.userId !== auth.dbUser.id) {
+    return apiError('访问被拒绝', '您无权访问此故事', 403);
+  }
+
+  // 验证事件存在并属于该故事
+  const event = await prisma.timelineEvent.findUnique({
+    where: { id: eventId }
+  });
+
+  if (!event) {
+    return apiError('未找到事件', '请求的时间线事件不存在', 404);
+  }
+
+  if (event.storyId !== storyId) {
+    return apiError('访问被拒绝', '此事件不属于指定的故事', 403);
+  }
+
+  return event;
+}
+
+/**
+ * 更新时间线事件，未提供的字段保持不变；提供的关联ID数组会整体替换原有关联
+ * PUT /api/user/story/[id]/timeline/[eventId]
+ */
+export async function PUT(
+  req: NextRequest,
+  context: TimelineEventParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedEvent(req, context);
+    if (result instanceof NextResponse) return result;
+    const existingEvent = result;
+    const storyId = context.params.id;
+
+    // 解析请求体
+    const body = await req.json();
+    const { title, description, type, storyDate, order, location, locationEntryId, characterIds, chapterIds, sceneIds } = body;
+
+    if (title !== undefined && !String(title).trim()) {
+      return apiError('无效的请求数据', '事件标题不能为空', 400);
+    }
+
+    if (type !== undefined && !isTimelineEventType(type)) {
+      return apiError('无效的请求数据', '不支持的事件类型', 400);
+    }
+
+    if (order !== undefined && !Number.isInteger(order)) {
+      return apiError('无效的请求数据', '时间顺序必须是整数', 400);
+    }
+
+    if ([characterIds, chapterIds, sceneIds].some(ids => ids !== undefined && !Array.isArray(ids))) {
+      return apiError('无效的请求数据', '角色、章节和场景必须是ID数组', 400);
+    }
+
+    // 验证关联的角色、章节、场景和地点都属于该故事
+    const [characterCount, chapterCount, sceneCount] = await Promise.all([
+      characterIds ? prisma.character.count({ where: { id: { in: characterIds }, storyId } }) : 0,
+      chapterIds ? prisma.chapter.count({ where: { id: { in: chapterIds }, storyId } }) : 0,
+      sceneIds ? prisma.scene.count({ where: { id: { in: sceneIds }, chapter: { storyId } } }) : 0
+    ]);
+
+    if (
+      (characterIds && characterCount !== new Set(characterIds).size) ||
+      (chapterIds && chapterCount !== new Set(chapterIds).size) ||
+      (sceneIds && sceneCount !== new Set(sceneIds).size)
+    ) {
+      return apiError('无效的请求数据', '关联的角色、章节或场景不存在或不属于该故事', 400);
+    }
+
+    if (locationEntryId) {
+      const locationEntry = await prisma.codexEntry.findUnique({
+        where: { id: locationEntryId }
+      });
+
+      if (!locationEntry || locationEntry.storyId !== storyId) {
+        return apiError('无效的请求数据', '指定的地点设定不存在或不属于该故事', 400);
+      }
+    }
+
+    const toRelationSet = (ids: string[]) => ({ set: ids.map(id => ({ id })) });
+
+    const updatedEvent = await prisma.timelineEvent.update({
+      where: { id: existingEvent.id },
+      data: {
+        title: title !== undefined ? String(title).trim() : existingEvent.title,
+        description: description !== undefined ? description || null : existingEvent.description,
+        type: type !== undefined ? type : existingEvent.type,
+        storyDate: storyDate !== undefined ? storyDate || null : existingEvent.storyDate,
+        order: order !== undefined ? order : existingEvent.order,
+        location: location !== undefined ? location || null : existingEvent.location,
+        locationEntryId: locationEntryId !== undefined ? locationEntryId || null : existingEvent.locationEntryId,
+        ...(characterIds ? { characters: toRelationSet(characterIds) } : {}),
+        ...(chapterIds ? { chapters: toRelationSet(chapterIds) } : {}),
+        ...(sceneIds ? { scenes: toRelationSet(sceneIds) } : {})
+      },
+      include: {
+        characters: { select: { id: true, name: true } },
+        chapters: { select: { id: true, title: true, order: true } },
+        scenes: { select: { id: true, title: true, order: true, chapterId: true } },
+        locationEntry: { select: { id: true, name: true } }
+      }
+    });
+
+    return apiSuccess(updatedEvent);
+  }, '更新时间线事件失败');
+}
+
+/**
+ * 删除时间线事件
+ * DELETE /api/user/story/[id]/timeline/[eventId]
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: TimelineEventParams
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const result = await findOwnedEvent(req, context);
+    if (result instanceof NextResponse) return result;
+
+    await prisma.timelineEvent.delete({
+      where: { id: result.id }
+    });
+
+    return apiSuccess({ message: '时间线事件已删除' });
+  }, '删除时间线事件失败');
+}
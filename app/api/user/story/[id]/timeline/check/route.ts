@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import { checkTimelineConsistency } from '@/lib/timeline-utils';
+
+const prisma = new PrismaClient();
+
+/**
+ * 检查时间线与章节的时间顺序一致性
+ * GET /api/user/story/[id]/timeline/check
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      include: {
+        chapters: {
+          select: { id: true, title: true, order: true, content: true },
+          orderBy: { order: 'asc' }
+        }
+      }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    const events = await prisma.timelineEvent.findMany({
+      where: { storyId },
+      include: {
+        characters: { select: { id: true, name: true } },
+        chapters: { select: { id: true } },
+        scenes: { select: { id: true, chapterId: true } }
+      },
+      orderBy: { order: 'asc' }
+    });
+
+    const issues = checkTimelineConsistency(events, story.chapters);
+
+    return apiSuccess({
+      consistent: !issues.some(issue => issue.severity === 'error'),
+      issues
+    });
+  }, '检查时间线失败');
+}
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+import { isTimelineEventType } from '@/lib/timeline-utils';
+
+const prisma = new PrismaClient();
+
+// 时间线事件返回时包含的关联数据
+const timelineEventInclude = {
+  characters: { select: { id: true, name: true } },
+  chapters: { select: { id: true, title: true, order: true } },
+  scenes: { select: { id: true, title: true, order: true, chapterId: true } },
+  locationEntry: { select: { id: true, name: true } }
+};
+
+/**
+ * 获取故事的时间线事件，按故事内时间顺序排列
+ * GET /api/user/story/[id]/timeline
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    const events = await prisma.timelineEvent.findMany({
+      where: { storyId },
+      include: timelineEventInclude,
+      orderBy: { order: 'asc' }
+    });
+
+    return apiSuccess(events);
+  }, '获取时间线失败');
+}
+
+/**
+ * 创建时间线事件，未指定时间顺序时追加到时间线末尾
+ * POST /api/user/story/[id]/timeline
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 解析请求体
+    const body = await req.json();
+    const {
+      title,
+      description,
+      type = 'general',
+      storyDate,
+      order,
+      location,
+      locationEntryId,
+      characterIds = [],
+      chapterIds = [],
+      sceneIds = []
+    } = body;
+
+    // 验证必要字段
+    if (!title || !String(title).trim()) {
+      return apiError('无效的请求数据', '事件标题是必需的', 400);
+    }
+
+    if (!isTimelineEventType(type)) {
+      return apiError('无效的请求数据', '不支持的事件类型', 400);
+    }
+
+    if (!Array.isArray(characterIds) || !Array.isArray(chapterIds) || !Array.isArray(sceneIds)) {
+      return apiError('无效的请求数据', '角色、章节和场景必须是ID数组', 400);
+    }
+
+    // 验证关联的角色、章节、场景和地点都属于该故事
+    const [characterCount, chapterCount, sceneCount] = await Promise.all([
+      prisma.character.count({ where: { id: { in: characterIds }, storyId } }),
+      prisma.chapter.count({ where: { id: { in: chapterIds }, storyId } }),
+      prisma.scene.count({ where: { id: { in: sceneIds }, chapter: { storyId } } })
+    ]);
+
+    if (characterCount !== new Set(characterIds).size || chapterCount !== new Set(chapterIds).size || sceneCount !== new Set(sceneIds).size) {
+      return apiError('无效的请求数据', '关联的角色、章节或场景不存在或不属于该故事', 400);
+    }
+
+    if (locationEntryId) {
+      const locationEntry = await prisma.codexEntry.findUnique({
+        where: { id: locationEntryId }
+      });
+
+      if (!locationEntry || locationEntry.storyId !== storyId) {
+        return apiError('无效的请求数据', '指定的地点设定不存在或不属于该故事', 400);
+      }
+    }
+
+    // 获取当前最大时间顺序
+    let nextOrder = Number(order);
+    if (!Number.isInteger(nextOrder)) {
+      const lastEvent = await prisma.timelineEvent.findFirst({
+        where: { storyId },
+        orderBy: { order: 'desc' }
+      });
+      nextOrder = lastEvent ? lastEvent.order + 1 : 1;
+    }
+
+    // 创建时间线事件
+    const event = await prisma.timelineEvent.create({
+      data: {
+        title: String(title).trim(),
+        description: description || null,
+        type,
+        storyDate: storyDate || null,
+        order: nextOrder,
+        location: location || null,
+        locationEntryId: locationEntryId || null,
+        storyId,
+        characters: { connect: characterIds.map((id: string) => ({ id })) },
+        chapters: { connect: chapterIds.map((id: string) => ({ id })) },
+        scenes: { connect: sceneIds.map((id: string) => ({ id })) }
+      },
+      include: timelineEventInclude
+    });
+
+    return apiSuccess(event, 201);
+  }, '创建时间线事件失败');
+}
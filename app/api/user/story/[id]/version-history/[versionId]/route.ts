@@ -6,6 +6,15 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import prisma from '@/lib/prisma';
+import {
+  captureEditSnapshotFor,
+  createStoryVersion,
+  deleteStoryVersion,
+  isEditSnapshotEmpty,
+  parseEditSnapshot,
+  resolveStoryVersionContent,
+  restoreEditSnapshot
+} from '@/lib/story-versions';
 
 /**
  * 获取特定版本详情
@@ -55,7 +64,16 @@ export async function GET(
       return apiError('未找到版本', '请求的版本不存在', 404);
     }
 
-    return apiSuccess(version);
+    // 增量版本还原出完整内容后返回；批量修改快照只返回涉及的章节、大纲节点和角色
+    const { delta, editSnapshot, ...versionInfo } = version;
+    const snapshot = parseEditSnapshot(editSnapshot);
+    return apiSuccess({
+      ...versionInfo,
+      content: await resolveStoryVersionContent(version),
+      snapshotChapters: snapshot.chapters.map(chapter => ({ id: chapter.id, title: chapter.title })),
+      snapshotOutlineNodes: snapshot.outlineNodes.map(node => ({ id: node.id, title: node.title })),
+      snapshotCharacters: snapshot.characters.map(character => ({ id: character.id, name: character.name }))
+    });
   }, '获取版本详情失败');
 }
 
@@ -107,60 +125,53 @@ export async function POST(
       return apiError('未找到版本', '请求的版本不存在', 404);
     }
 
-    // 在恢复之前，先创建当前版本的备份
-    // 计算当前内容大小
-    const currentContentSize = story.content
-      ? new TextEncoder().encode(story.content).length
-      : 0;
-    const currentSizeInKB = Math.round(currentContentSize / 1024);
+    const restoredContent = await resolveStoryVersionContent(versionToRestore);
+    const editSnapshot = parseEditSnapshot(versionToRestore.editSnapshot);
+    const hasEditSnapshot = !isEditSnapshotEmpty(editSnapshot);
 
-    // 创建当前状态的备份版本
-    await prisma.storyVersion.create({
-      data: {
-        storyId,
-        versionId: `auto-backup-${Date.now()}`,
-        content: story.content || '',
-        description: '恢复前自动备份',
-        changeType: 'auto-backup',
-        createdBy: auth.dbUser.name || auth.dbUser.email || '用户',
-        size: currentSizeInKB
-      }
+    // 在恢复之前，先创建当前状态的备份版本；版本带有批量修改快照时一并备份涉及内容的当前状态
+    await createStoryVersion(storyId, story.content || '', {
+      versionId: `auto-backup-${Date.now()}`,
+      description: '恢复前自动备份',
+      changeType: 'auto-backup',
+      createdBy: auth.dbUser.name || auth.dbUser.email || '用户',
+      editSnapshot: hasEditSnapshot ? await captureEditSnapshotFor(storyId, editSnapshot) : undefined
     });
 
     // 更新故事内容为所选版本的内容
     const updatedStory = await prisma.story.update({
       where: { id: storyId },
       data: {
-        content: versionToRestore.content,
+        content: restoredContent,
         updatedAt: new Date()
       }
     });
 
+    // 将批量修改涉及的章节、大纲节点和角色恢复到修改前
+    const restoredChapters = hasEditSnapshot ? await restoreEditSnapshot(storyId, editSnapshot) : 0;
+
     // 创建恢复操作的记录
-    await prisma.storyVersion.create({
-      data: {
-        storyId,
-        versionId: `restore-${Date.now()}`,
-        content: versionToRestore.content,
-        description: `从版本 ${versionId} 恢复`,
-        changeType: 'restore',
-        createdBy: auth.dbUser.name || auth.dbUser.email || '用户',
-        size: versionToRestore.size || 0
-      }
+    await createStoryVersion(storyId, restoredContent, {
+      versionId: `restore-${Date.now()}`,
+      description: `从版本 ${versionId} 恢复`,
+      changeType: 'restore',
+      createdBy: auth.dbUser.name || auth.dbUser.email || '用户'
     });
 
     return apiSuccess({
       message: '已成功恢复到所选版本',
-      storyId: updatedStory.id
+      storyId: updatedStory.id,
+      restoredChapters
     });
   }, '恢复版本失败');
 }
 
 /**
- * 删除特定版本
- * DELETE /api/user/story/[id]/version-history/[versionId]
+ * 为版本命名，命名版本不会被保留策略清理；名称为空时取消命名
+ * PUT /api/user/story/[id]/version-history/[versionId]
+ * 请求体：{ label: string | null }
  */
-export async function DELETE(
+export async function PUT(
   req: NextRequest,
   { params }: { params: { id: string; versionId: string } }
 ): Promise<NextResponse> {
@@ -189,24 +200,78 @@ export async function DELETE(
 
     // 验证故事归属
     if (story.userId !== auth.dbUser.id) {
-      return apiError('访问被拒绝', '您无权删除此故事的版本', 403);
+      return apiError('访问被拒绝', '您无权修改此故事的版本', 403);
     }
 
-    // 删除指定版本
-    const deleteResult = await prisma.storyVersion.deleteMany({
+    const body = await req.json();
+    const label = typeof body.label === 'string' && body.label.trim() ? body.label.trim() : null;
+
+    const updateResult = await prisma.storyVersion.updateMany({
       where: {
         storyId: storyId,
         versionId: versionId
-      }
+      },
+      data: { label }
+    });
+
+    if (updateResult.count === 0) {
+      return apiError('未找到版本', '请求的版本不存在', 404);
+    }
+
+    return apiSuccess({ versionId, label });
+  }, '命名版本失败');
+}
+
+/**
+ * 删除特定版本
+ * DELETE /api/user/story/[id]/version-history/[versionId]
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; versionId: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const { id: storyId, versionId } = params;
+
+    if (!storyId || !versionId) {
+      return apiError('无效的请求', '缺少故事ID或版本ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 获取故事信息以验证所有权
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { userId: true }
     });
 
-    if (deleteResult.count === 0) {
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    // 验证故事归属
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权删除此故事的版本', 403);
+    }
+
+    // 删除指定版本，依赖它的增量版本会先迁移到新的快照上
+    const deletedCount = await deleteStoryVersion(storyId, versionId);
+
+    if (deletedCount === null) {
+      return apiError('无法删除', '这是最新的完整快照，之后保存的版本都以它为基准，暂时不能删除', 409);
+    }
+
+    if (deletedCount === 0) {
       return apiError('删除失败', '未找到要删除的版本或删除操作失败', 404);
     }
 
     return apiSuccess({
       message: '版本已成功删除',
-      deletedCount: deleteResult.count
+      deletedCount
     });
   }, '删除版本失败');
 }
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import prisma from '@/lib/prisma';
+import { compactStoryVersions } from '@/lib/story-versions';
+
+/**
+ * 按保留策略立即清理故事版本
+ * POST /api/user/story/[id]/version-history/compact
+ * 请求体：{ dryRun?: boolean }，dryRun 为 true 时只返回将被清理的版本
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 获取故事信息以验证所有权
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { userId: true }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权清理此故事的版本', 403);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const result = await compactStoryVersions(storyId, { dryRun: body.dryRun === true });
+
+    return apiSuccess(result);
+  }, '清理版本失败');
+}
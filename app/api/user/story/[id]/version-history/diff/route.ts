@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import prisma from '@/lib/prisma';
+import { computeTextDiff, restoreHunk } from '@/lib/text-diff';
+import { createStoryVersion, resolveStoryVersionContent } from '@/lib/story-versions';
+
+// 用作对比目标时表示故事当前内容
+const CURRENT_CONTENT = 'current';
+
+/**
+ * 比较两个故事版本，或比较版本与当前内容
+ * GET /api/user/story/[id]/version-history/diff?from=<versionId>&to=<versionId|current>
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+    const from = req.nextUrl.searchParams.get('from');
+    const to = req.nextUrl.searchParams.get('to') || CURRENT_CONTENT;
+
+    if (!storyId || !from) {
+      return apiError('无效的请求', '缺少故事ID或对比版本', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 获取故事信息以验证所有权
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { userId: true, content: true }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事的版本', 403);
+    }
+
+    const versionIds = to === CURRENT_CONTENT ? [from] : [from, to];
+    const versions = await prisma.storyVersion.findMany({
+      where: { storyId, versionId: { in: versionIds } }
+    });
+    const fromVersion = versions.find((version: { versionId: string }) => version.versionId === from);
+    const toVersion = versions.find((version: { versionId: string }) => version.versionId === to);
+
+    if (!fromVersion || (to !== CURRENT_CONTENT && !toVersion)) {
+      return apiError('未找到版本', '请求对比的版本不存在', 404);
+    }
+
+    const diff = computeTextDiff(
+      await resolveStoryVersionContent(fromVersion),
+      toVersion ? await resolveStoryVersionContent(toVersion) : story.content || ''
+    );
+
+    return apiSuccess({
+      from: fromVersion.versionId,
+      to,
+      ...diff
+    });
+  }, '比较版本失败');
+}
+
+/**
+ * 将版本中的某个差异块恢复到当前内容，其余内容保持不变
+ * POST /api/user/story/[id]/version-history/diff
+ * 请求体：{ from: string, hunkIndex: number, expected: string }
+ * expected 为客户端看到的当前段落内容，与服务端不一致时说明内容已变化，需要重新对比
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    const body = await req.json();
+    const { from, hunkIndex, expected } = body;
+
+    if (!from || !Number.isInteger(hunkIndex)) {
+      return apiError('无效的请求', '缺少对比版本或差异块', 400);
+    }
+
+    // 获取故事信息以验证所有权
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { userId: true, content: true }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权恢复此故事的版本', 403);
+    }
+
+    const fromVersion = await prisma.storyVersion.findFirst({
+      where: { storyId, versionId: from }
+    });
+
+    if (!fromVersion) {
+      return apiError('未找到版本', '请求的版本不存在', 404);
+    }
+
+    const currentContent = story.content || '';
+    const { hunks } = computeTextDiff(await resolveStoryVersionContent(fromVersion), currentContent);
+    const hunk = hunks[hunkIndex];
+
+    if (!hunk || hunk.type !== 'change' || hunk.newParagraphs.join('') !== (expected ?? '')) {
+      return apiError('内容已变化', '当前内容已被修改，请重新对比后再恢复', 409);
+    }
+
+    const restoredContent = restoreHunk(hunks, hunkIndex);
+
+    // 创建当前状态的备份版本
+    await createStoryVersion(storyId, currentContent, {
+      versionId: `auto-backup-${Date.now()}`,
+      description: '恢复段落前自动备份',
+      changeType: 'auto-backup',
+      createdBy: auth.dbUser.name || auth.dbUser.email || '用户'
+    });
+
+    await prisma.story.update({
+      where: { id: storyId },
+      data: {
+        content: restoredContent,
+        updatedAt: new Date()
+      }
+    });
+
+    return apiSuccess({
+      message: '已恢复所选段落',
+      content: restoredContent
+    });
+  }, '恢复段落失败');
+}
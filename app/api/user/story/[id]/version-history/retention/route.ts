@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import prisma from '@/lib/prisma';
+import { getVersionStorageSummary } from '@/lib/story-versions';
+import { normalizeRetentionPolicy, parseRetentionPolicy } from '@/lib/version-retention';
+
+/**
+ * 获取故事的版本保留策略和版本存储占用
+ * GET /api/user/story/[id]/version-history/retention
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 获取故事信息以验证所有权
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { userId: true, versionRetention: true }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事的版本', 403);
+    }
+
+    return apiSuccess({
+      policy: parseRetentionPolicy(story.versionRetention),
+      storage: await getVersionStorageSummary(storyId)
+    });
+  }, '获取版本保留策略失败');
+}
+
+/**
+ * 更新故事的版本保留策略
+ * PUT /api/user/story/[id]/version-history/retention
+ * 请求体：{ keepAllHours, hourlyForDays, dailyForDays, protectedChangeTypes }
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 获取故事信息以验证所有权
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { userId: true }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权修改此故事的版本设置', 403);
+    }
+
+    const body = await req.json();
+    const policy = normalizeRetentionPolicy(body);
+
+    await prisma.story.update({
+      where: { id: storyId },
+      data: { versionRetention: JSON.stringify(policy) }
+    });
+
+    return apiSuccess({ policy });
+  }, '更新版本保留策略失败');
+}
@@ -6,7 +6,7 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import prisma from '@/lib/prisma';
-import { generateVersionId } from '@/lib/auto-save';
+import { createStoryVersion } from '@/lib/story-versions';
 
 /**
  * 获取故事版本历史
@@ -50,6 +50,7 @@ export async function GET(
       select: {
         id: true,
         versionId: true,
+        label: true,
         description: true,
         createdAt: true,
         createdBy: true,
@@ -65,7 +66,7 @@ export async function GET(
 /**
  * 创建新的版本记录
  * POST /api/user/story/[id]/version-history
- * 请求体：{ content: string, changeType: string, description?: string }
+ * 请求体：{ content: string, changeType: string, description?: string, label?: string }
  */
 export async function POST(
   req: NextRequest,
@@ -85,7 +86,7 @@ export async function POST(
 
     // 获取请求数据
     const body = await req.json();
-    const { content, changeType, description = '版本更新' } = body;
+    const { content, changeType, description = '版本更新', label } = body;
 
     if (!content) {
       return apiError('无效的请求', '内容不能为空', 400);
@@ -106,30 +107,19 @@ export async function POST(
       return apiError('访问被拒绝', '您无权为此故事创建版本', 403);
     }
 
-    // 生成版本ID
-    const versionId = generateVersionId();
-
-    // 计算内容大小
-    const contentSize = new TextEncoder().encode(content).length;
-    const sizeInKB = Math.round(contentSize / 1024);
-
-    // 创建新版本记录
-    const newVersion = await prisma.storyVersion.create({
-      data: {
-        storyId,
-        versionId,
-        content,
-        description,
-        changeType: changeType || 'manual',
-        createdBy: auth.dbUser.name || auth.dbUser.email || '用户',
-        size: sizeInKB
-      }
+    // 创建新版本记录，内容相对基准快照以增量保存
+    const newVersion = await createStoryVersion(storyId, content, {
+      description,
+      changeType: changeType || 'manual',
+      createdBy: auth.dbUser.name || auth.dbUser.email || '用户',
+      label
     });
 
     // 返回创建的版本信息（不包含内容以减少响应大小）
     return apiSuccess({
       id: newVersion.id,
       versionId: newVersion.versionId,
+      label: newVersion.label,
       description: newVersion.description,
       createdAt: newVersion.createdAt,
       createdBy: newVersion.createdBy,
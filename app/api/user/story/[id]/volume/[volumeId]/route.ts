@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * 获取指定分卷及其章节
+ * GET /api/user/story/[id]/volume/[volumeId]
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string; volumeId: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const { id: storyId, volumeId } = params;
+
+    if (!storyId || !volumeId) {
+      return apiError('无效的请求', '缺少故事ID或分卷ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 获取分卷
+    const volume = await prisma.volume.findUnique({
+      where: { id: volumeId },
+      include: {
+        chapters: { orderBy: { order: 'asc' } }
+      }
+    });
+
+    if (!volume) {
+      return apiError('未找到分卷', '请求的分卷不存在', 404);
+    }
+
+    if (volume.storyId !== storyId) {
+      return apiError('访问被拒绝', '此分卷不属于指定的故事', 403);
+    }
+
+    return apiSuccess(volume);
+  }, '获取分卷失败');
+}
+
+/**
+ * 更新指定分卷
+ * PUT /api/user/story/[id]/volume/[volumeId]
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string; volumeId: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const { id: storyId, volumeId } = params;
+
+    if (!storyId || !volumeId) {
+      return apiError('无效的请求', '缺少故事ID或分卷ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 验证分卷存在并属于该故事
+    const existingVolume = await prisma.volume.findUnique({
+      where: { id: volumeId }
+    });
+
+    if (!existingVolume) {
+      return apiError('未找到分卷', '请求的分卷不存在', 404);
+    }
+
+    if (existingVolume.storyId !== storyId) {
+      return apiError('访问被拒绝', '此分卷不属于指定的故事', 403);
+    }
+
+    // 解析请求体
+    const body = await req.json();
+    const { title, summary, order } = body;
+
+    if (title !== undefined && !title) {
+      return apiError('无效的请求数据', '分卷标题不能为空', 400);
+    }
+
+    // 更新分卷
+    const updatedVolume = await prisma.volume.update({
+      where: { id: volumeId },
+      data: {
+        title: title !== undefined ? title : existingVolume.title,
+        summary: summary !== undefined ? summary : existingVolume.summary,
+        order: order !== undefined ? order : existingVolume.order
+      }
+    });
+
+    return apiSuccess(updatedVolume);
+  }, '更新分卷失败');
+}
+
+/**
+ * 删除指定分卷，分卷下的章节保留为未分卷状态
+ * DELETE /api/user/story/[id]/volume/[volumeId]
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; volumeId: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const { id: storyId, volumeId } = params;
+
+    if (!storyId || !volumeId) {
+      return apiError('无效的请求', '缺少故事ID或分卷ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 验证分卷存在并属于该故事
+    const volume = await prisma.volume.findUnique({
+      where: { id: volumeId }
+    });
+
+    if (!volume) {
+      return apiError('未找到分卷', '请求的分卷不存在', 404);
+    }
+
+    if (volume.storyId !== storyId) {
+      return apiError('访问被拒绝', '此分卷不属于指定的故事', 403);
+    }
+
+    // 删除分卷（章节的 volumeId 由数据库置空）
+    await prisma.volume.delete({
+      where: { id: volumeId }
+    });
+
+    // 重新排序剩余分卷
+    const remainingVolumes = await prisma.volume.findMany({
+      where: { storyId },
+      orderBy: { order: 'asc' }
+    });
+
+    for (let i = 0; i < remainingVolumes.length; i++) {
+      await prisma.volume.update({
+        where: { id: remainingVolumes[i].id },
+        data: { order: i + 1 }
+      });
+    }
+
+    return apiSuccess({ message: '分卷已删除' });
+  }, '删除分卷失败');
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * 获取指定故事的所有分卷（包含各卷章节目录）
+ * GET /api/user/story/[id]/volume
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 获取所有分卷，按顺序排序，只附带章节目录信息
+    const volumes = await prisma.volume.findMany({
+      where: { storyId },
+      orderBy: { order: 'asc' },
+      include: {
+        chapters: {
+          select: { id: true, title: true, order: true },
+          orderBy: { order: 'asc' }
+        }
+      }
+    });
+
+    return apiSuccess(volumes);
+  }, '获取分卷失败');
+}
+
+/**
+ * 创建新分卷
+ * POST /api/user/story/[id]/volume
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    const storyId = params.id;
+
+    if (!storyId) {
+      return apiError('无效的请求', '缺少故事ID', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    // 验证故事归属
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story) {
+      return apiError('未找到故事', '请求的故事不存在', 404);
+    }
+
+    if (story.userId !== auth.dbUser.id) {
+      return apiError('访问被拒绝', '您无权访问此故事', 403);
+    }
+
+    // 解析请求体
+    const body = await req.json();
+    const { title, summary } = body;
+
+    // 验证必要字段
+    if (!title) {
+      return apiError('无效的请求数据', '分卷标题是必需的', 400);
+    }
+
+    // 获取当前最大分卷顺序
+    const maxOrderVolume = await prisma.volume.findFirst({
+      where: { storyId },
+      orderBy: { order: 'desc' }
+    });
+
+    const nextOrder = maxOrderVolume ? maxOrderVolume.order + 1 : 1;
+
+    // 创建新分卷
+    const volume = await prisma.volume.create({
+      data: {
+        title,
+        summary,
+        order: nextOrder,
+        storyId
+      }
+    });
+
+    return apiSuccess(volume, 201);
+  }, '创建分卷失败');
+}
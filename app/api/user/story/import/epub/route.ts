@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { parseEpub, ParsedEpub } from '@/lib/epub-import';
+import { createImportedStory } from '@/lib/story-import';
+
+// 上传的 EPUB 文件大小上限
+const MAX_EPUB_SIZE = 50 * 1024 * 1024;
+
+/**
+ * 导入 EPUB - 按 spine 和目录拆分章节，书名、作者和封面取自 OPF 元数据，创建新故事
+ * POST /api/user/story/import/epub
+ * 请求体（multipart/form-data）：{
+ *   file: File, // .epub 文件
+ *   title?: string, // 覆盖元数据中的书名
+ *   dryRun?: 'true' // 只返回解析结果，不写入数据库
+ * }
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    // 获取请求数据
+    const formData = await req.formData();
+    const file = formData.get('file');
+    const title = String(formData.get('title') || '').trim();
+
+    // 验证请求数据
+    if (!file || typeof file === 'string') {
+      return apiError('无效的请求', '请上传 EPUB 文件', 400);
+    }
+
+    if (!file.name.toLowerCase().endsWith('.epub')) {
+      return apiError('无效的请求', '只支持 .epub 文件', 400);
+    }
+
+    if (file.size > MAX_EPUB_SIZE) {
+      return apiError('无效的请求', 'EPUB 文件不能超过 50MB', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    let epub: ParsedEpub;
+    try {
+      epub = await parseEpub(Buffer.from(await file.arrayBuffer()));
+    } catch (error) {
+      return apiError('无效的请求', error instanceof Error ? error.message : '无法解析 EPUB 文件', 400);
+    }
+
+    if (epub.chapters.length === 0) {
+      return apiError('无效的请求', 'EPUB 中没有可导入的正文', 400);
+    }
+
+    if (formData.get('dryRun') === 'true') {
+      return apiSuccess({
+        title: epub.title,
+        author: epub.author,
+        hasCover: epub.coverImage !== null,
+        volumes: epub.volumes,
+        chapters: epub.chapters.map(chapter => ({
+          title: chapter.title,
+          wordCount: chapter.wordCount,
+          volumeTitle: chapter.volumeTitle
+        }))
+      });
+    }
+
+    const data = {
+      title: title || epub.title,
+      content: '',
+      author: epub.author,
+      coverImage: epub.coverImage,
+      volumes: epub.volumes,
+      chapters: epub.chapters.map(chapter => ({ title: chapter.title, content: chapter.content, volumeTitle: chapter.volumeTitle }))
+    };
+    const createdBy = auth.dbUser.name || auth.dbUser.email || '用户';
+
+    const newStory = await createImportedStory(auth.dbUser.id, data, createdBy);
+
+    return apiSuccess({
+      message: '故事已成功导入',
+      storyId: newStory.id,
+      chapterCount: data.chapters.length
+    }, 201);
+  }, '导入 EPUB 失败');
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateUser,
+  apiError,
+  apiSuccess,
+  withErrorHandling
+} from '@/lib/api-helpers';
+import { readProjectArchive } from '@/lib/project-archive';
+import { createStoryFromSnapshot } from '@/lib/story-fork';
+
+// 上传的项目存档大小上限，包含版本历史时可能较大
+const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024;
+
+/**
+ * 导入项目存档 - 按存档还原故事的分卷、章节、场景、草稿、角色、大纲、世界设定、时间线和版本历史，创建为新故事
+ * POST /api/user/story/import/project
+ * 请求体（multipart/form-data）：{
+ *   file: File, // 导出的项目存档（.zip）
+ *   title?: string, // 覆盖存档中的标题
+ *   dryRun?: 'true' // 只返回存档内容概要，不写入数据库
+ * }
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  return withErrorHandling(async () => {
+    // 获取请求数据
+    const formData = await req.formData();
+    const file = formData.get('file');
+    const title = String(formData.get('title') || '').trim();
+
+    // 验证请求数据
+    if (!file || typeof file === 'string') {
+      return apiError('无效的请求', '请上传项目存档', 400);
+    }
+
+    if (!file.name.toLowerCase().endsWith('.zip')) {
+      return apiError('无效的请求', '项目存档应为 .zip 文件', 400);
+    }
+
+    if (file.size > MAX_ARCHIVE_SIZE) {
+      return apiError('无效的请求', '项目存档不能超过 200MB', 400);
+    }
+
+    // 验证用户身份
+    const auth = await authenticateUser(req);
+    if (!auth.isAuthenticated) {
+      return auth.response as NextResponse;
+    }
+
+    let archive: Awaited<ReturnType<typeof readProjectArchive>>;
+    try {
+      archive = await readProjectArchive(Buffer.from(await file.arrayBuffer()));
+    } catch (error) {
+      return apiError('无效的请求', error instanceof Error ? error.message : '无法读取项目存档', 400);
+    }
+
+    const { manifest, snapshot } = archive;
+
+    if (formData.get('dryRun') === 'true') {
+      const volumeTitles = new Map(snapshot.volumes.map(volume => [volume.id, volume.title]));
+      return apiSuccess({
+        title: snapshot.title,
+        author: snapshot.author,
+        exportedAt: manifest.exportedAt,
+        hasCover: snapshot.coverImage !== null,
+        stats: manifest.stats,
+        volumes: snapshot.volumes.map(volume => volume.title),
+        chapters: snapshot.chapters.map(chapter => ({
+          title: chapter.title,
+          volumeTitle: chapter.volumeId ? volumeTitles.get(chapter.volumeId) || null : null
+        }))
+      });
+    }
+
+    const newStory = await createStoryFromSnapshot(snapshot, auth.dbUser.id, {
+      title: title || snapshot.title,
+      storyStatus: snapshot.storyStatus
+    });
+
+    return apiSuccess({
+      message: '项目存档已成功导入',
+      storyId: newStory.id,
+      chapterCount: snapshot.chapters.length
+    }, 201);
+  }, '导入项目存档失败');
+}
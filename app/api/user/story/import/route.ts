@@ -6,11 +6,30 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import prisma from '@/lib/prisma';
+import {
+  detectHeadings,
+  findHeadingCandidates,
+  splitManuscript,
+  splitManuscriptLines,
+  HeadingBoundary,
+  HeadingPatternId,
+  ManuscriptFormat
+} from '@/lib/manuscript-import';
+import { appendImportedChapters, createImportedStory } from '@/lib/story-import';
+
+const FORMATS: ManuscriptFormat[] = ['text', 'markdown', 'html'];
+const PATTERN_IDS: HeadingPatternId[] = ['chinese', 'english', 'heading'];
 
 /**
- * 导入故事 - 从文件或JSON数据创建新故事
+ * 导入故事 - 将 TXT / Markdown 书稿或 DOCX 转换出的 HTML 按章节标题拆分为章节，创建新故事或追加到已有故事
  * POST /api/user/story/import
- * 请求体：{ title: string, content: string, format?: string, importType?: 'new' | 'update', storyId?: string }
+ * 请求体：{
+ *   title: string, content: string, format?: 'text' | 'markdown' | 'html', importType?: 'new' | 'update', storyId?: string,
+ *   patterns?: ('chinese' | 'english' | 'heading')[], customPattern?: string, headingLevel?: number,
+ *   boundaries?: { line: number, title: string, kind: 'chapter' | 'volume' }[], // 预览中调整后的分界，为空时自动识别
+ *   prefaceAsChapter?: boolean, // 将第一个标题之前的内容作为“前言”章节，否则保存为故事正文
+ *   dryRun?: boolean // 只返回识别结果，不写入数据库
+ * }
  */
 export async function POST(req: NextRequest): Promise<NextResponse> {
   return withErrorHandling(async () => {
@@ -23,20 +42,26 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
       return apiError('无效的请求', '标题和内容不能为空', 400);
     }
 
+    if (!FORMATS.includes(format)) {
+      return apiError('无效的请求', `不支持的导入格式：${format}`, 400);
+    }
+
+    const patterns: HeadingPatternId[] = Array.isArray(body.patterns)
+      ? body.patterns.filter((pattern: HeadingPatternId) => PATTERN_IDS.includes(pattern))
+      : format === 'text' ? ['chinese', 'english'] : ['heading'];
+
     // 验证用户身份
     const auth = await authenticateUser(req);
     if (!auth.isAuthenticated) {
       return auth.response as NextResponse;
     }
 
-    // 处理导入类型
-    if (importType === 'update' && storyId) {
-      // 更新已有故事
+    if (importType === 'update') {
       // 首先检查故事是否存在且属于该用户
-      const existingStory = await prisma.story.findUnique({
+      const existingStory = storyId ? await prisma.story.findUnique({
         where: { id: storyId },
         select: { id: true, userId: true }
-      });
+      }) : null;
 
       if (!existingStory) {
         return apiError('未找到故事', '请求更新的故事不存在', 404);
@@ -45,80 +70,78 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
       if (existingStory.userId !== auth.dbUser.id) {
         return apiError('访问被拒绝', '您无权更新此故事', 403);
       }
+    }
 
-      // 创建当前版本的备份
-      await createVersionBackup(storyId, '导入前自动备份', auth.dbUser.name || '用户');
-
-      // 更新故事
-      const updatedStory = await prisma.story.update({
-        where: { id: storyId },
-        data: {
-          title,
-          content: content
-        }
+    // 识别章节分界
+    const lines = splitManuscriptLines(content, format);
+    let detected: HeadingBoundary[];
+    try {
+      detected = detectHeadings(lines, format, {
+        patterns,
+        customPattern: typeof body.customPattern === 'string' && body.customPattern.trim() ? body.customPattern : undefined,
+        headingLevel: Number(body.headingLevel) || undefined
       });
+    } catch (error) {
+      return apiError('无效的请求', error instanceof Error ? error.message : '标题正则无效', 400);
+    }
 
+    const boundaries: HeadingBoundary[] = Array.isArray(body.boundaries)
+      ? body.boundaries
+          .filter((boundary: HeadingBoundary) => Number.isInteger(boundary?.line))
+          .map((boundary: HeadingBoundary) => ({
+            line: boundary.line,
+            title: String(boundary.title || '').trim(),
+            kind: boundary.kind === 'volume' ? 'volume' : 'chapter'
+          }))
+      : detected;
+
+    const manuscript = splitManuscript(lines, boundaries, format);
+    const prefaceAsChapter = body.prefaceAsChapter === true && manuscript.preface !== '';
+
+    if (body.dryRun === true) {
       return apiSuccess({
-        message: '故事已成功更新',
-        storyId: updatedStory.id
-      });
-    } else {
-      // 创建新故事
-      const newStory = await prisma.story.create({
-        data: {
-          title,
-          content,
-          userId: auth.dbUser.id
-        }
+        format,
+        lineCount: lines.length,
+        boundaries: detected,
+        candidates: findHeadingCandidates(lines, detected, format),
+        preface: manuscript.preface,
+        chapters: manuscript.chapters.map(chapter => ({
+          title: chapter.title,
+          wordCount: chapter.wordCount,
+          volumeTitle: chapter.volumeTitle,
+          startLine: chapter.startLine
+        })),
+        volumes: manuscript.volumes
       });
+    }
 
-      // 创建初始版本记录
-      await prisma.storyVersion.create({
-        data: {
-          storyId: newStory.id,
-          versionId: `import-${Date.now()}`,
-          content: content,
-          description: '导入的初始版本',
-          changeType: 'import',
-          createdBy: auth.dbUser.name || auth.dbUser.email || '用户',
-          size: Math.round(new TextEncoder().encode(content).length / 1024) // 计算KB大小
-        }
-      });
+    const data = {
+      title,
+      content: prefaceAsChapter ? '' : manuscript.preface,
+      volumes: manuscript.volumes,
+      chapters: [
+        ...(prefaceAsChapter ? [{ title: '前言', content: manuscript.prefaceHtml, volumeTitle: null }] : []),
+        ...manuscript.chapters.map(chapter => ({ title: chapter.title, content: chapter.content, volumeTitle: chapter.volumeTitle }))
+      ]
+    };
+    const createdBy = auth.dbUser.name || auth.dbUser.email || '用户';
+
+    if (importType === 'update') {
+      const updatedStory = await appendImportedChapters(storyId, data, createdBy);
 
       return apiSuccess({
-        message: '故事已成功导入',
-        storyId: newStory.id
-      }, 201);
+        message: '故事已成功更新',
+        storyId: updatedStory.id,
+        chapterCount: data.chapters.length
+      });
     }
-  }, '导入故事失败');
-}
 
-/**
- * 创建故事版本备份
- */
-async function createVersionBackup(storyId: string, description: string, createdBy: string): Promise<void> {
-  // 获取当前故事内容
-  const story = await prisma.story.findUnique({
-    where: { id: storyId },
-    select: { content: true }
-  });
-
-  if (!story || !story.content) return;
-
-  // 计算内容大小
-  const contentSize = new TextEncoder().encode(story.content).length;
-  const sizeInKB = Math.round(contentSize / 1024);
-
-  // 创建版本记录
-  await prisma.storyVersion.create({
-    data: {
-      storyId,
-      versionId: `backup-${Date.now()}`,
-      content: story.content,
-      description,
-      changeType: 'auto-backup',
-      createdBy,
-      size: sizeInKB
-    }
-  });
+    const newStory = await createImportedStory(auth.dbUser.id, data, createdBy);
+
+    return apiSuccess({
+      message: '故事已成功导入',
+      storyId: newStory.id,
+      chapterCount: data.chapters.length
+    }, 201);
+  }, '导入故事失败');
 }
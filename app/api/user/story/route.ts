@@ -8,6 +8,8 @@ import {
   withErrorHandling
 } from '@/lib/api-helpers';
 import prisma from '@/lib/prisma';
+import { BLANK_TEMPLATE_ID, findBuiltInTemplate, isBuiltInTemplateId, parseTemplateStructure, StoryTemplateStructure } from '@/lib/story-templates';
+import { createStoryFromTemplate } from '@/lib/story-template-seed';
 
 /**
  * 获取当前用户的所有故事
@@ -25,7 +27,10 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
     // 获取用户的所有故事
     const stories = await prisma.story.findMany({
       where: { userId: auth.dbUser.id },
-      orderBy: { updatedAt: 'desc' }
+      orderBy: { updatedAt: 'desc' },
+      include: {
+        forkedFrom: { select: { id: true, title: true } }
+      }
     });
 
     // 将故事内容从字符串转换为数组
@@ -38,6 +43,7 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
 /**
  * 创建新故事
  * POST /api/user/story
+ * 请求体：{ title, content, templateId? }，提供 templateId 时按模板生成大纲、章节占位和建议角色
  */
 export async function POST(req: NextRequest): Promise<NextResponse> {
   return withErrorHandling(async () => {
@@ -50,24 +56,38 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
 
     // 解析请求体
     const body = await req.json();
-    const { title, content } = body;
+    const { title, content, templateId } = body;
 
     // 验证请求数据
     if (!title || !content || !Array.isArray(content)) {
       return apiError('无效的请求数据', '标题和内容是必需的，内容必须是数组', 400);
     }
 
+    // 查找模板：内置模板或当前用户的自定义模板
+    let templateStructure: StoryTemplateStructure | null = null;
+
+    if (templateId && templateId !== BLANK_TEMPLATE_ID) {
+      if (isBuiltInTemplateId(templateId)) {
+        templateStructure = findBuiltInTemplate(templateId)?.structure || null;
+      } else {
+        const template = await prisma.storyTemplate.findUnique({
+          where: { id: templateId }
+        });
+        templateStructure = template && template.userId === auth.dbUser.id
+          ? parseTemplateStructure(template.structure)
+          : null;
+      }
+
+      if (!templateStructure) {
+        return apiError('未找到模板', '请求的故事模板不存在', 404);
+      }
+    }
+
     // 将内容数组转换为字符串存储
     const contentString = joinStoryContent(content);
 
-    // 创建新故事
-    const story = await prisma.story.create({
-      data: {
-        title,
-        content: contentString,
-        userId: auth.dbUser.id
-      }
-    });
+    // 创建新故事，并按模板创建大纲、章节和角色
+    const story = await createStoryFromTemplate(auth.dbUser.id, { title, content: contentString }, templateStructure);
 
     // 返回新创建的故事，将内容转换回数组格式
     return apiSuccess(formatStoryContent(story), 201);
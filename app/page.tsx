@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,12 +11,18 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, Dialog
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useTheme } from "@/lib/theme-context";
-import { generatePrompts, continueStory, StoredStory, saveStory as saveStoryToStorage, isUserLoggedIn, getAllStories, deleteStory } from "@/lib/api-service";
-import { Moon, Sun, HomeIcon, Book, History, Sparkles, BookOpen, LogIn, Plus, Trash2, Pencil, Clock, Users, ListTree, FileText, ArrowRight, MoreHorizontal, Check, Calendar, LucideIcon } from "lucide-react";
+import { generatePrompts, continueStory, StoredStory, saveStory as saveStoryToStorage, isUserLoggedIn, getAllStories, deleteStory, forkStory } from "@/lib/api-service";
+import { Moon, Sun, HomeIcon, Book, History, Sparkles, BookOpen, LogIn, Plus, Trash2, Pencil, Clock, Users, ListTree, FileText, ArrowRight, MoreHorizontal, Check, Calendar, GitFork, Upload, LucideIcon } from "lucide-react";
 import { SignedIn, SignedOut, SignInButton, UserButton, useUser } from "@clerk/nextjs";
 import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { StoryTemplatePicker } from "@/components/StoryTemplatePicker";
+import { GlobalSearch } from "@/components/GlobalSearch";
+import { ManuscriptImportDialog } from "@/components/ManuscriptImportDialog";
+import { BLANK_TEMPLATE_ID } from "@/lib/story-templates";
 
 // 故事阶段状态类型
 type StoryStage = "planning" | "characters" | "outline" | "writing" | "editing" | "complete";
@@ -33,12 +40,19 @@ export default function Dashboard() {
   const { theme, setTheme } = useTheme();
   const [stories, setStories] = useState<EnhancedStory[]>([]);
   const [newStoryTitle, setNewStoryTitle] = useState("");
+  const [newStoryTemplateId, setNewStoryTemplateId] = useState(BLANK_TEMPLATE_ID);
   const [isCreating, setIsCreating] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [activeTab, setActiveTab] = useState("all");
   const [storyToDelete, setStoryToDelete] = useState<string | null>(null);
+  const [storyToFork, setStoryToFork] = useState<EnhancedStory | null>(null);
+  const [forkTitle, setForkTitle] = useState("");
+  const [forkIncludeVersions, setForkIncludeVersions] = useState(false);
+  const [isForking, setIsForking] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const { isLoaded, isSignedIn, user } = useUser();
+  const router = useRouter();
 
   // 获取所有故事
   useEffect(() => {
@@ -103,7 +117,7 @@ export default function Dashboard() {
     try {
       // 创建一个带初始内容的新故事
       const initialContent = `${newStoryTitle} - 开始创作你的故事吧！`;
-      const newStory = await saveStoryToStorage(newStoryTitle, initialContent);
+      const newStory = await saveStoryToStorage(newStoryTitle, initialContent, newStoryTemplateId);
 
       // 向列表添加新故事并增强元数据
       const enhancedStory = enhanceStoryWithMetadata(newStory);
@@ -111,6 +125,7 @@ export default function Dashboard() {
 
       // 重置并关闭对话框
       setNewStoryTitle("");
+      setNewStoryTemplateId(BLANK_TEMPLATE_ID);
       setShowCreateDialog(false);
     } catch (error) {
       console.error("创建故事失败:", error);
@@ -130,6 +145,34 @@ export default function Dashboard() {
     }
   };
 
+  // 打开派生对话框
+  const openForkDialog = (story: EnhancedStory) => {
+    setStoryToFork(story);
+    setForkTitle(`${story.title}（副本）`);
+    setForkIncludeVersions(false);
+  };
+
+  // 派生故事：复制故事及其章节、角色和大纲，作为新故事加入列表
+  const handleForkStory = async () => {
+    if (!storyToFork || !forkTitle.trim()) return;
+
+    setIsForking(true);
+    try {
+      const forkedStory = await forkStory(storyToFork.id, { title: forkTitle.trim(), includeVersions: forkIncludeVersions });
+      setStories([enhanceStoryWithMetadata(forkedStory), ...stories]);
+      setStoryToFork(null);
+    } catch (error) {
+      console.error("派生故事失败:", error);
+    } finally {
+      setIsForking(false);
+    }
+  };
+
+  // 派生关系：来源故事标题优先取列表中的最新标题
+  const getForkSourceTitle = (story: EnhancedStory) =>
+    stories.find((item) => item.id === story.forkedFromId)?.title || story.forkedFrom?.title;
+  const getForks = (story: EnhancedStory) => stories.filter((item) => item.forkedFromId === story.id);
+
   // 过滤故事列表
   const filteredStories = activeTab === "all" ? stories : stories.filter((story) => story.stage === activeTab);
 
@@ -238,6 +281,7 @@ export default function Dashboard() {
               </SignInButton>
             </SignedOut>
             <SignedIn>
+              <GlobalSearch />
               <UserButton
                 afterSignOutUrl="/"
                 userProfileUrl="/profile"
@@ -261,33 +305,53 @@ export default function Dashboard() {
             <h1 className="text-3xl font-bold tracking-tight">我的故事</h1>
             <p className="mt-1 text-muted-foreground">{isSignedIn ? `欢迎回来，${user?.firstName || "作家"}！继续你的创作之旅。` : "创建和管理你的小说作品。"}</p>
           </div>
-          <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
-            <DialogTrigger asChild>
-              <Button className="gap-2">
-                <Plus className="w-4 h-4" />
-                创建新故事
+          <div className="flex gap-2">
+            {/* 导入书稿会在服务器上创建故事和章节，需要登录 */}
+            {isSignedIn && (
+              <Button variant="outline" className="gap-2" onClick={() => setShowImportDialog(true)}>
+                <Upload className="w-4 h-4" />
+                导入书稿
               </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>创建新故事</DialogTitle>
-              </DialogHeader>
-              <div className="py-4">
-                <label className="block mb-2 text-sm font-medium">故事标题</label>
-                <Input value={newStoryTitle} onChange={(e) => setNewStoryTitle(e.target.value)} placeholder="输入故事标题" className="w-full" />
-              </div>
-              <DialogFooter>
-                <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
-                  取消
-                </Button>
-                <Button onClick={handleCreateStory} disabled={!newStoryTitle.trim() || isCreating}>
-                  {isCreating ? "创建中..." : "创建故事"}
+            )}
+            <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+              <DialogTrigger asChild>
+                <Button className="gap-2">
+                  <Plus className="w-4 h-4" />
+                  创建新故事
                 </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>创建新故事</DialogTitle>
+                </DialogHeader>
+                <div className="py-4 space-y-4">
+                  <div>
+                    <label className="block mb-2 text-sm font-medium">故事标题</label>
+                    <Input value={newStoryTitle} onChange={(e) => setNewStoryTitle(e.target.value)} placeholder="输入故事标题" className="w-full" />
+                  </div>
+                  {/* 模板会生成大纲、章节占位和建议角色，需要登录后保存到服务器 */}
+                  {isSignedIn && (
+                    <div>
+                      <label className="block mb-2 text-sm font-medium">故事结构</label>
+                      <StoryTemplatePicker value={newStoryTemplateId} onChange={setNewStoryTemplateId} />
+                    </div>
+                  )}
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+                    取消
+                  </Button>
+                  <Button onClick={handleCreateStory} disabled={!newStoryTitle.trim() || isCreating}>
+                    {isCreating ? "创建中..." : "创建故事"}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
+        <ManuscriptImportDialog open={showImportDialog} onOpenChange={setShowImportDialog} onImported={(storyId) => router.push(`/story/${storyId}`)} />
+
         {/* 未登录提示 */}
         {!isLoaded || !isSignedIn ? (
           <Alert className="mb-6">
@@ -356,6 +420,12 @@ export default function Dashboard() {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
+                          {isSignedIn && (
+                            <DropdownMenuItem onClick={() => openForkDialog(story)}>
+                              <GitFork className="w-4 h-4 mr-2" />
+                              派生副本
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuItem onClick={() => setStoryToDelete(story.id)} className="text-destructive focus:text-destructive">
                             <Trash2 className="w-4 h-4 mr-2" />
                             删除故事
@@ -367,6 +437,25 @@ export default function Dashboard() {
                       <StageIcon className="w-3.5 h-3.5 mr-1" />
                       {getStageName(story.stage || "planning")}
                     </Badge>
+                    {/* 派生关系 */}
+                    {(getForkSourceTitle(story) || getForks(story).length > 0) && (
+                      <div className="flex flex-col gap-0.5 mt-2 text-xs text-muted-foreground">
+                        {getForkSourceTitle(story) && (
+                          <span className="flex items-center gap-1 truncate">
+                            <GitFork className="w-3 h-3 shrink-0" />
+                            派生自
+                            <Link href={`/story/${story.forkedFromId}`} className="truncate hover:underline">
+                              《{getForkSourceTitle(story)}》
+                            </Link>
+                          </span>
+                        )}
+                        {getForks(story).length > 0 && (
+                          <span className="truncate" title={getForks(story).map((fork) => fork.title).join("、")}>
+                            已派生 {getForks(story).length} 个副本：{getForks(story).map((fork) => `《${fork.title}》`).join("")}
+                          </span>
+                        )}
+                      </div>
+                    )}
                   </CardHeader>
                   <CardContent className="flex-1">
                     <div className="grid grid-cols-3 gap-2 py-2 mt-2 text-sm border-t border-border/30">
@@ -420,6 +509,35 @@ export default function Dashboard() {
         )}
 
         {/* 删除确认对话框 */}
+        <Dialog open={!!storyToFork} onOpenChange={(open) => !open && setStoryToFork(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>派生副本</DialogTitle>
+            </DialogHeader>
+            <div className="py-4 space-y-4">
+              <p className="text-sm text-muted-foreground">复制《{storyToFork?.title}》的全部章节、角色、大纲、世界设定和时间线，作为新故事尝试不同写法或续作。</p>
+              <div className="space-y-2">
+                <Label htmlFor="fork-title">新故事标题</Label>
+                <Input id="fork-title" value={forkTitle} onChange={(e) => setForkTitle(e.target.value)} />
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox id="fork-versions" checked={forkIncludeVersions} onCheckedChange={(checked) => setForkIncludeVersions(checked === true)} />
+                <Label htmlFor="fork-versions" className="font-normal">
+                  同时复制版本历史
+                </Label>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setStoryToFork(null)}>
+                取消
+              </Button>
+              <Button onClick={handleForkStory} disabled={!forkTitle.trim() || isForking}>
+                {isForking ? "派生中..." : "派生"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={!!storyToDelete} onOpenChange={(open) => !open && setStoryToDelete(null)}>
           <DialogContent>
             <DialogHeader>
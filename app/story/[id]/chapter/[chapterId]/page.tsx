@@ -1,14 +1,16 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
-import { useParams } from "next/navigation";
-import { getChapter, getChapters, updateChapter, Chapter, generateCoherentChapter } from "@/lib/api-service";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { getChapter, getChapters, updateChapter, Chapter, generateCoherentChapter, getChapterDraft, updateChapterDraft, splitChapter } from "@/lib/api-service";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Loader2, Save, RefreshCw, Sparkles } from "lucide-react";
 import { CoherenceChecker } from "@/components/CoherenceChecker";
+import { VersionHistoryPanel } from "@/components/VersionHistoryPanel";
+import { ChapterDraftSwitcher } from "@/components/ChapterDraftSwitcher";
 import { EnhancedRichTextEditor } from "@/components/ui/enhanced-rich-text-editor";
 import { AIWritingAssistant } from "@/components/ui/ai-writing-assistant";
 import { formatHtmlForStorage, formatStoredContentToHtml, isHtmlContent } from "@/components/ContentFormatter";
@@ -16,6 +18,8 @@ import { toast } from "sonner";
 
 export default function ChapterEdit() {
   const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
   const storyId = params.id as string;
   const chapterId = params.chapterId as string;
 
@@ -25,12 +29,22 @@ export default function ChapterEdit() {
   const [content, setContent] = useState("");
   const [summary, setSummary] = useState("");
   const [notes, setNotes] = useState("");
+  // 正在编辑的备选草稿，null 表示编辑正文（定稿）
+  const [activeDraftId, setActiveDraftId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [generating, setGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedText, setSelectedText] = useState("");
 
+  // 从搜索结果跳转时定位到命中位置
+  const searchQuery = searchParams.get("q");
+  const searchOccurrence = searchParams.get("occurrence");
+  const searchTarget = useMemo(
+    () => (searchQuery ? { term: searchQuery, occurrence: parseInt(searchOccurrence || "0", 10) || 0 } : null),
+    [searchQuery, searchOccurrence]
+  );
+
   // 加载章节数据
   useEffect(() => {
     const loadChapterData = async () => {
@@ -43,8 +57,19 @@ export default function ChapterEdit() {
         setChapter(chapterData);
         setTitle(chapterData.title);
 
-        // 确保内容以 HTML 格式加载到编辑器
-        setContent(formatStoredContentToHtml(chapterData.content));
+        // 确保内容以 HTML 格式加载到编辑器，上次编辑的是草稿时载入草稿内容
+        let editorContent = chapterData.content;
+        setActiveDraftId(null);
+        if (chapterData.activeDraftId) {
+          try {
+            const draft = await getChapterDraft(storyId, chapterId, chapterData.activeDraftId);
+            editorContent = draft.content || "";
+            setActiveDraftId(draft.id);
+          } catch (draftError) {
+            console.error("加载草稿失败，改为编辑正文:", draftError);
+          }
+        }
+        setContent(formatStoredContentToHtml(editorContent));
 
         setSummary(chapterData.summary || "");
         setNotes(chapterData.notes || "");
@@ -80,6 +105,32 @@ export default function ChapterEdit() {
     }
   }, [storyId, chapterId]);
 
+  // 保存章节信息和正文；编辑草稿时正文写入草稿，定稿保持不变
+  const saveChapterContent = async (formattedContent: string) => {
+    if (activeDraftId) {
+      await updateChapterDraft(storyId, chapterId, activeDraftId, { content: formattedContent });
+      await updateChapter(storyId, chapterId, { title, summary, notes });
+    } else {
+      await updateChapter(storyId, chapterId, {
+        title,
+        content: formattedContent,
+        summary,
+        notes,
+      });
+    }
+
+    // 更新本地数据
+    if (chapter) {
+      setChapter({
+        ...chapter,
+        title,
+        content: activeDraftId ? chapter.content : formattedContent,
+        summary,
+        notes,
+      });
+    }
+  };
+
   // 保存章节
   const handleSave = async () => {
     if (!storyId || !chapterId) return;
@@ -89,27 +140,9 @@ export default function ChapterEdit() {
       setError(null);
 
       // 确保 HTML 内容以正确格式保存
-      const formattedContent = formatHtmlForStorage(content);
-
-      await updateChapter(storyId, chapterId, {
-        title,
-        content: formattedContent,
-        summary,
-        notes,
-      });
-
-      // 更新本地数据
-      if (chapter) {
-        setChapter({
-          ...chapter,
-          title,
-          content: formattedContent,
-          summary,
-          notes,
-        });
-      }
+      await saveChapterContent(formatHtmlForStorage(content));
 
-      toast.success("章节保存成功");
+      toast.success(activeDraftId ? "草稿保存成功" : "章节保存成功");
     } catch (err) {
       setError(err instanceof Error ? err.message : "保存章节失败");
       console.error("保存章节失败:", err);
@@ -119,31 +152,50 @@ export default function ChapterEdit() {
     }
   };
 
-  // 自动保存内容的处理函数
-  const handleAutoSave = async (contentToSave: string) => {
+  // 在光标处拆分章节：先保存当前内容，光标后的内容成为紧随其后的新章节
+  const handleSplitAtCursor = async (before: string, after: string) => {
     if (!storyId || !chapterId) return;
+    if (!after.replace(/<[^>]*>/g, "").trim()) {
+      toast.error("光标后没有内容，无法拆分");
+      return;
+    }
+    if (!confirm("确定要在光标处拆分本章吗？光标后的内容将成为新的下一章，拆分前会保存一个历史版本。")) return;
 
     try {
-      // 确保 HTML 内容以正确格式保存
-      const formattedContent = formatHtmlForStorage(contentToSave);
+      setSaving(true);
+      await saveChapterContent(formatHtmlForStorage(content));
 
-      await updateChapter(storyId, chapterId, {
-        title,
-        content: formattedContent,
-        summary,
-        notes,
+      const formattedBefore = formatHtmlForStorage(before);
+      const { created } = await splitChapter(storyId, chapterId, {
+        before: formattedBefore,
+        after: formatHtmlForStorage(after),
       });
 
-      // 更新本地数据但不显示toast，以免干扰用户
+      setContent(formatStoredContentToHtml(formattedBefore));
       if (chapter) {
-        setChapter({
-          ...chapter,
-          title,
-          content: formattedContent,
-          summary,
-          notes,
-        });
+        setChapter({ ...chapter, title, content: formattedBefore, summary, notes });
       }
+      toast.success(`已拆分出新章节“${created.title}”`, {
+        action: {
+          label: "前往",
+          onClick: () => router.push(`/story/${storyId}/chapter/${created.id}`),
+        },
+      });
+    } catch (err) {
+      console.error("拆分章节失败:", err);
+      toast.error(err instanceof Error ? err.message : "拆分章节失败");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 自动保存内容的处理函数
+  const handleAutoSave = async (contentToSave: string) => {
+    if (!storyId || !chapterId) return;
+
+    try {
+      // 确保 HTML 内容以正确格式保存，不显示toast，以免干扰用户
+      await saveChapterContent(formatHtmlForStorage(contentToSave));
       return Promise.resolve();
     } catch (error) {
       console.error("自动保存失败:", error);
@@ -151,6 +203,42 @@ export default function ChapterEdit() {
     }
   };
 
+  // 切换草稿后载入对应内容
+  const handleDraftSwitched = (draftId: string | null, draftContent: string) => {
+    setActiveDraftId(draftId);
+    setContent(formatStoredContentToHtml(draftContent));
+  };
+
+  // 采用草稿后编辑器回到新的正文
+  const handleDraftPromoted = (chapterContent: string) => {
+    setActiveDraftId(null);
+    setContent(formatStoredContentToHtml(chapterContent));
+    if (chapter) {
+      setChapter({ ...chapter, content: chapterContent });
+    }
+  };
+
+  // 恢复章节版本后同步编辑器内容（服务端已更新章节），按段落恢复时只更新正文
+  const handleRestoreVersion = (restoredContent: string, version?: { title?: string; summary?: string | null; notes?: string | null }) => {
+    const restoredTitle = version?.title || title;
+    const restoredSummary = version ? version.summary || "" : summary;
+    const restoredNotes = version ? version.notes || "" : notes;
+    setTitle(restoredTitle);
+    setContent(formatStoredContentToHtml(restoredContent));
+    setSummary(restoredSummary);
+    setNotes(restoredNotes);
+
+    if (chapter) {
+      setChapter({
+        ...chapter,
+        title: restoredTitle,
+        content: restoredContent,
+        summary: restoredSummary,
+        notes: restoredNotes,
+      });
+    }
+  };
+
   // 应用连贯性修复建议
   const handleApplySuggestion = (suggestion: string) => {
     // 这里简单地将建议附加到笔记中，实际应用中可以做更复杂的处理
@@ -248,12 +336,23 @@ export default function ChapterEdit() {
               <div className="space-y-4">
                 {error && <div className="p-3 text-sm text-red-600 rounded-md bg-red-50">{error}</div>}
 
+                <ChapterDraftSwitcher
+                  storyId={storyId}
+                  chapterId={chapterId}
+                  activeDraftId={activeDraftId}
+                  onBeforeSwitch={() => saveChapterContent(formatHtmlForStorage(content))}
+                  onSwitched={handleDraftSwitched}
+                  onPromoted={handleDraftPromoted}
+                />
+
                 <div>
                   <h3 className="mb-2 text-sm font-medium">章节内容</h3>
                   <EnhancedRichTextEditor
                     content={content}
                     onChange={setContent}
                     onSave={handleAutoSave}
+                    onSplitAtCursor={activeDraftId ? undefined : handleSplitAtCursor}
+                    searchTarget={activeDraftId ? null : searchTarget}
                     placeholder="输入章节内容..."
                     className="min-h-[400px]"
                     autoSaveInterval={60000} // 每60秒自动保存一次
@@ -310,6 +409,9 @@ export default function ChapterEdit() {
           )}
 
           <CoherenceChecker storyId={storyId} chapterId={chapterId} content={content} onApplySuggestion={handleApplySuggestion} />
+
+          {/* 版本历史记录的是正文（定稿），编辑草稿时不显示 */}
+          {!activeDraftId && <VersionHistoryPanel storyId={storyId} chapterId={chapterId} onRestoreVersion={handleRestoreVersion} />}
         </div>
       </div>
     </div>
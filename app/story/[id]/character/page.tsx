@@ -6,6 +6,8 @@ import { StoryNavigation } from "@/components/StoryNavigation";
 import { CharacterCard } from "@/components/CharacterCard";
 import { CharacterForm } from "@/components/CharacterForm";
 import { CharacterAnalysis } from "@/components/CharacterAnalysis";
+import { CharacterRelationshipGraph } from "@/components/CharacterRelationshipGraph";
+import { CharacterRenameDialog } from "@/components/CharacterRenameDialog";
 import { Button } from "@/components/ui/button";
 import { Users, UserPlus, Search, Loader2, RefreshCw, Filter, Sparkles } from "lucide-react";
 import { Input } from "@/components/ui/input";
@@ -20,6 +22,7 @@ import { toast } from "sonner";
 interface Character {
   id: string;
   name: string;
+  aliases?: string | null;
   description?: string | null;
   attributes?: string | null;
 }
@@ -48,6 +51,9 @@ export default function CharactersPage() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [characterToDelete, setCharacterToDelete] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<string>("list");
+  const [renamingCharacter, setRenamingCharacter] = useState<Character | null>(null);
+  // 通过编辑表单改名后记录原名称，用于改写正文等内容中的旧名称
+  const [renamedFrom, setRenamedFrom] = useState<string | undefined>(undefined);
 
   // 获取故事、角色和章节数据
   useEffect(() => {
@@ -85,6 +91,17 @@ export default function CharactersPage() {
     setShowForm(true);
   };
 
+  // 打开改名对话框；previousName 为通过编辑表单改名前的名称
+  const handleRenameCharacter = (character: Character, previousName?: string) => {
+    setRenamedFrom(previousName);
+    setRenamingCharacter(character);
+  };
+
+  // 改名完成后更新列表
+  const handleCharacterRenamed = (renamed: Character) => {
+    setCharacters((prev) => prev.map((c) => (c.id === renamed.id ? { ...c, name: renamed.name, aliases: renamed.aliases } : c)));
+  };
+
   // 准备删除角色
   const handlePrepareDelete = (characterId: string) => {
     setCharacterToDelete(characterId);
@@ -112,17 +129,31 @@ export default function CharactersPage() {
     try {
       if (data.id) {
         // 更新现有角色
+        const previousName = characters.find((c) => c.id === data.id)?.name;
         const updatedCharacter = await updateCharacter(data.id, {
           name: data.name,
+          aliases: data.aliases,
           description: data.description,
           attributes: JSON.stringify(data.attributes),
         });
 
         setCharacters(characters.map((c) => (c.id === data.id ? updatedCharacter : c)));
+
+        // 名称变化时提示同步改写旧名称的提及
+        if (previousName && previousName !== data.name) {
+          toast("角色名称已修改", {
+            description: `章节和大纲中仍在使用「${previousName}」`,
+            action: {
+              label: "同步改写",
+              onClick: () => handleRenameCharacter(updatedCharacter, previousName),
+            },
+          });
+        }
       } else {
         // 创建新角色
         const newCharacter = await createCharacter(id, {
           name: data.name,
+          aliases: data.aliases,
           description: data.description,
           attributes: JSON.stringify(data.attributes),
         });
@@ -172,6 +203,9 @@ export default function CharactersPage() {
           <TabsTrigger value="list" className="flex-1">
             角色列表
           </TabsTrigger>
+          <TabsTrigger value="relationships" className="flex-1">
+            关系图
+          </TabsTrigger>
           <TabsTrigger value="analysis" className="flex-1">
             角色分析
           </TabsTrigger>
@@ -208,7 +242,7 @@ export default function CharactersPage() {
           {filteredCharacters.length > 0 ? (
             <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
               {filteredCharacters.map((character) => (
-                <CharacterCard key={character.id} character={character} storyId={id} onEdit={handleEditCharacter} onDelete={handlePrepareDelete} />
+                <CharacterCard key={character.id} character={character} storyId={id} onEdit={handleEditCharacter} onDelete={handlePrepareDelete} onRename={handleRenameCharacter} />
               ))}
             </div>
           ) : (
@@ -231,6 +265,10 @@ export default function CharactersPage() {
           )}
         </TabsContent>
 
+        <TabsContent value="relationships" className="mt-0">
+          <CharacterRelationshipGraph storyId={id} characters={characters} chapters={chapters} />
+        </TabsContent>
+
         <TabsContent value="analysis" className="mt-0">
           {characters.length === 0 ? (
             <Card className="border-dashed">
@@ -317,6 +355,16 @@ export default function CharactersPage() {
         </DialogContent>
       </Dialog>
 
+      {/* 角色改名对话框 */}
+      <CharacterRenameDialog
+        storyId={id}
+        character={renamingCharacter}
+        previousName={renamedFrom}
+        open={renamingCharacter !== null}
+        onOpenChange={(open) => !open && setRenamingCharacter(null)}
+        onRenamed={handleCharacterRenamed}
+      />
+
       {/* 删除确认对话框 */}
       <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <DialogContent>
@@ -0,0 +1,296 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams } from "next/navigation";
+import { StoryNavigation } from "@/components/StoryNavigation";
+import { CodexEntryForm } from "@/components/CodexEntryForm";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Globe, Plus, Search, Loader2, Edit, Trash2 } from "lucide-react";
+import { getStory, getCodexEntries, createCodexEntry, updateCodexEntry, deleteCodexEntry, CodexEntry, CodexEntryInput } from "@/lib/api-service";
+import { CODEX_ENTRY_TYPES, getCodexTypeLabel, parseCodexAliases, parseCodexFields } from "@/lib/codex-utils";
+import { toast } from "sonner";
+
+interface Story {
+  id: string;
+  title: string;
+}
+
+export default function CodexPage() {
+  const { id } = useParams() as { id: string };
+  const [entries, setEntries] = useState<CodexEntry[]>([]);
+  const [story, setStory] = useState<Story | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [activeType, setActiveType] = useState<string>("all");
+  const [showForm, setShowForm] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<CodexEntry | null>(null);
+  const [entryToDelete, setEntryToDelete] = useState<CodexEntry | null>(null);
+
+  // 获取故事和设定数据
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setIsLoading(true);
+        const [storyData, entriesData] = await Promise.all([getStory(id), getCodexEntries(id)]);
+
+        setStory(storyData);
+        setEntries(entriesData);
+      } catch (error) {
+        console.error("获取数据失败:", error);
+        toast.error("加载数据失败");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [id]);
+
+  // 按类型和关键词（名称、别名、描述）筛选
+  const query = searchQuery.trim().toLowerCase();
+  const filteredEntries = entries.filter(
+    (entry) =>
+      (activeType === "all" || entry.type === activeType) &&
+      (!query ||
+        entry.name.toLowerCase().includes(query) ||
+        (entry.description || "").toLowerCase().includes(query) ||
+        parseCodexAliases(entry.aliases).some((alias) => alias.toLowerCase().includes(query)))
+  );
+
+  // 打开新设定表单
+  const handleAddEntry = () => {
+    setEditingEntry(null);
+    setShowForm(true);
+  };
+
+  // 编辑设定
+  const handleEditEntry = (entry: CodexEntry) => {
+    setEditingEntry(entry);
+    setShowForm(true);
+  };
+
+  // 跳转到交叉引用的条目
+  const handleOpenLink = (entryId: string) => {
+    const linkedEntry = entries.find((entry) => entry.id === entryId);
+    if (linkedEntry) handleEditEntry(linkedEntry);
+  };
+
+  // 确认删除设定
+  const handleConfirmDelete = async () => {
+    if (!entryToDelete) return;
+
+    try {
+      await deleteCodexEntry(id, entryToDelete.id);
+      // 同时移除其他条目对它的引用
+      setEntries(
+        entries
+          .filter((entry) => entry.id !== entryToDelete.id)
+          .map((entry) => ({ ...entry, links: entry.links?.filter((link) => link.id !== entryToDelete.id) }))
+      );
+      toast.success("设定已删除");
+      setEntryToDelete(null);
+    } catch (error) {
+      console.error("删除设定失败:", error);
+      toast.error("删除设定失败");
+    }
+  };
+
+  // 提交设定表单
+  const handleSubmitEntry = async ({ id: entryId, ...data }: CodexEntryInput & { id?: string }) => {
+    if (entryId) {
+      const updatedEntry = await updateCodexEntry(id, entryId, data);
+      setEntries(entries.map((entry) => (entry.id === entryId ? updatedEntry : entry)));
+    } else {
+      const newEntry = await createCodexEntry(id, data);
+      setEntries([...entries, newEntry]);
+    }
+
+    setShowForm(false);
+    setEditingEntry(null);
+  };
+
+  // 渲染内容区域
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex flex-col items-center justify-center py-12">
+          <Loader2 className="w-10 h-10 mb-4 animate-spin text-primary" />
+          <p className="text-muted-foreground">加载数据中...</p>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        {/* 类型筛选和搜索 */}
+        <Tabs value={activeType} onValueChange={setActiveType} className="w-full mb-4">
+          <TabsList className="w-full">
+            <TabsTrigger value="all" className="flex-1">
+              全部 ({entries.length})
+            </TabsTrigger>
+            {CODEX_ENTRY_TYPES.map((item) => (
+              <TabsTrigger key={item.value} value={item.value} className="flex-1">
+                {item.label} ({entries.filter((entry) => entry.type === item.value).length})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="relative mb-6">
+          <Search className="absolute w-4 h-4 text-muted-foreground left-3 top-3" />
+          <Input placeholder="搜索名称、别名或描述..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="pl-10" />
+        </div>
+
+        {/* 设定列表 */}
+        {filteredEntries.length > 0 ? (
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {filteredEntries.map((entry) => {
+              const aliases = parseCodexAliases(entry.aliases);
+              const fields = parseCodexFields(entry.fields);
+
+              return (
+                <Card key={entry.id} className="flex flex-col w-full overflow-hidden border-2 shadow-md hover:border-primary/40">
+                  <CardHeader className="p-4 pb-2 bg-muted/30">
+                    <CardTitle className="flex items-center justify-between gap-2">
+                      <span className="font-bold truncate">{entry.name}</span>
+                      <Badge variant="secondary">{getCodexTypeLabel(entry.type)}</Badge>
+                    </CardTitle>
+                    {aliases.length > 0 && <p className="text-xs text-muted-foreground">又称：{aliases.join("、")}</p>}
+                  </CardHeader>
+                  <CardContent className="flex-1 p-4 pt-2 space-y-3">
+                    <p className="text-sm text-muted-foreground line-clamp-3">{entry.description || "无描述"}</p>
+
+                    {Object.keys(fields).length > 0 && (
+                      <div className="flex flex-wrap gap-1.5">
+                        {Object.entries(fields).map(([key, value]) => (
+                          <Badge variant="outline" key={key} className="text-xs">
+                            {key}: {value}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+
+                    {entry.links && entry.links.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <span className="text-xs text-muted-foreground">相关：</span>
+                        {entry.links.map((link) => (
+                          <button key={link.id} type="button" className="text-xs text-primary hover:underline" onClick={() => handleOpenLink(link.id)}>
+                            {link.name}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                  <CardFooter className="flex justify-end gap-2 p-3 border-t">
+                    <Button variant="ghost" size="sm" className="gap-1" onClick={() => handleEditEntry(entry)}>
+                      <Edit className="w-3.5 h-3.5" />
+                      编辑
+                    </Button>
+                    <Button variant="ghost" size="sm" className="gap-1 text-destructive" onClick={() => setEntryToDelete(entry)}>
+                      <Trash2 className="w-3.5 h-3.5" />
+                      删除
+                    </Button>
+                  </CardFooter>
+                </Card>
+              );
+            })}
+          </div>
+        ) : (
+          <Card className="border-dashed">
+            <CardContent className="flex flex-col items-center justify-center p-6">
+              <Globe className="w-12 h-12 mb-4 text-muted-foreground" />
+              {searchQuery ? (
+                <p className="mb-4 text-center text-muted-foreground">没有找到匹配 "{searchQuery}" 的设定</p>
+              ) : (
+                <>
+                  <p className="mb-4 text-center text-muted-foreground">还没有世界设定。记录地点、组织、魔法体系、物品和术语，AI创作时会自动参考相关设定。</p>
+                  <Button onClick={handleAddEntry} className="gap-2">
+                    <Plus className="w-4 h-4" />
+                    添加第一个设定
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="flex h-screen">
+      {/* 左侧导航 */}
+      <div className="w-64 shrink-0">
+        <StoryNavigation storyId={id} storyTitle={story?.title} />
+      </div>
+
+      {/* 主内容区域 */}
+      <div className="flex-1 overflow-hidden">
+        <div className="h-full p-6 overflow-auto">
+          <div className="max-w-6xl mx-auto">
+            {/* 标题区域 */}
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h1 className="text-3xl font-bold">世界设定</h1>
+                <p className="text-muted-foreground">管理故事中的地点、组织、魔法体系、物品和术语</p>
+              </div>
+              <Button onClick={handleAddEntry} className="gap-2">
+                <Plus className="w-4 h-4" />
+                添加设定
+              </Button>
+            </div>
+
+            {/* 内容区域 */}
+            {renderContent()}
+          </div>
+        </div>
+      </div>
+
+      {/* 设定表单对话框 */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>{editingEntry ? "编辑设定" : "创建新设定"}</DialogTitle>
+            <DialogDescription>{editingEntry ? "修改设定信息" : "添加一个新的设定到你的故事世界中"}</DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-[70vh]">
+            <div className="px-1 py-2">
+              <CodexEntryForm
+                key={editingEntry?.id || "new"}
+                initialData={editingEntry || undefined}
+                defaultType={activeType !== "all" ? activeType : undefined}
+                entries={entries}
+                onSubmit={handleSubmitEntry}
+                onCancel={() => setShowForm(false)}
+              />
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      {/* 删除确认对话框 */}
+      <Dialog open={!!entryToDelete} onOpenChange={(open) => !open && setEntryToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>确认删除</DialogTitle>
+            <DialogDescription>你确定要删除设定"{entryToDelete?.name}"吗？其他设定对它的引用也会被移除，此操作无法撤销。</DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-3 mt-4">
+            <Button variant="outline" onClick={() => setEntryToDelete(null)}>
+              取消
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmDelete}>
+              删除
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,11 +10,72 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
-import { Loader2, Download, ArrowLeft, BookOpen, Settings } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, Download, ArrowLeft, BookOpen, Settings, ImagePlus, X, Trash2 } from "lucide-react";
 import { getStory, getChapters, getStoryCharacters, getOutline, Character } from "@/lib/api-service";
+import { PDF_LAYOUT_PRESETS, resolvePdfLayout, PdfLayoutPresetId, PdfMargins } from "@/lib/pdf-layout";
+import { PdfLayoutPreview } from "@/components/PdfLayoutPreview";
+import { EPUB_THEMES, EpubThemeId } from "@/lib/epub-themes";
+import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 
-type ExportFormat = "pdf" | "epub" | "txt" | "html";
+type ExportFormat = "pdf" | "epub" | "docx" | "txt" | "html" | "project";
+
+// 导出任务概要，文件在服务端后台生成
+interface ExportJob {
+  id: string;
+  format: ExportFormat;
+  status: "pending" | "processing" | "completed" | "failed";
+  progress: number; // 已渲染的章节数
+  total: number; // 章节总数
+  error: string | null;
+  fileName: string | null;
+  fileSize: number | null;
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string;
+}
+
+// 导出记录中显示的格式名称
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  pdf: "PDF",
+  epub: "EPUB",
+  docx: "Word",
+  txt: "TXT",
+  html: "HTML",
+  project: "项目存档",
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString("zh-CN", { year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" });
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+};
+
+/**
+ * 下载导出任务生成的文件
+ */
+async function downloadExportFile(storyId: string, job: ExportJob) {
+  const response = await fetch(`/api/user/story/${storyId}/export/jobs/${job.id}/download`);
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.message || "下载导出文件失败");
+  }
+
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = job.fileName || `${job.id}.${job.format}`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  a.remove();
+}
 
 // 页面大小选项
 const PAGE_SIZES = [
@@ -24,11 +85,22 @@ const PAGE_SIZES = [
   { label: "Legal", value: "legal" },
 ];
 
+// 页边距输入项
+const MARGIN_FIELDS: Array<{ key: keyof PdfMargins; label: string }> = [
+  { key: "top", label: "上" },
+  { key: "bottom", label: "下" },
+  { key: "inner", label: "订口" },
+  { key: "outer", label: "翻口" },
+];
+
+// EPUB 封面支持的图片格式和大小上限
+const EPUB_COVER_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp", "image/svg+xml"];
+const MAX_EPUB_COVER_SIZE = 5 * 1024 * 1024;
+
 // 字体选项
 const FONT_FAMILIES = [
-  { label: "默认", value: "Helvetica" },
-  { label: "Times New Roman", value: "Times-Roman" },
-  { label: "Courier", value: "Courier" },
+  { label: "宋体（衬线）", value: "serif" },
+  { label: "黑体（无衬线）", value: "sans" },
 ];
 
 export default function ExportStoryPage() {
@@ -41,6 +113,7 @@ export default function ExportStoryPage() {
   const [isExporting, setIsExporting] = useState(false);
   const [includeCharacters, setIncludeCharacters] = useState(true);
   const [includeOutline, setIncludeOutline] = useState(false);
+  const [includeVersions, setIncludeVersions] = useState(true);
   const [storyTitle, setStoryTitle] = useState("");
   const [storyPreview, setStoryPreview] = useState("");
   const [charactersPreview, setCharactersPreview] = useState<Character[]>([]);
@@ -49,9 +122,44 @@ export default function ExportStoryPage() {
   // 高级导出选项
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
   const [fontSize, setFontSize] = useState(12);
-  const [fontFamily, setFontFamily] = useState("Helvetica");
+  const [fontFamily, setFontFamily] = useState("serif");
   const [pageSize, setPageSize] = useState("A4");
 
+  // PDF 版式：预设及覆盖的页边距、装订线等，切换预设时恢复该预设的默认值
+  const [layoutPreset, setLayoutPreset] = useState<PdfLayoutPresetId>("standard");
+  const [margins, setMargins] = useState<PdfMargins>(PDF_LAYOUT_PRESETS[0].margins);
+  const [gutter, setGutter] = useState(PDF_LAYOUT_PRESETS[0].gutter);
+  const [mirrorMargins, setMirrorMargins] = useState(PDF_LAYOUT_PRESETS[0].mirrorMargins);
+  const [chapterStartsOnRecto, setChapterStartsOnRecto] = useState(PDF_LAYOUT_PRESETS[0].chapterStartsOnRecto);
+
+  // EPUB 设置：样式主题、自定义 CSS、系列和封面
+  const [epubTheme, setEpubTheme] = useState<EpubThemeId>("classic");
+  const [customCss, setCustomCss] = useState("");
+  const [seriesName, setSeriesName] = useState("");
+  const [seriesNumber, setSeriesNumber] = useState("");
+  const [storyCover, setStoryCover] = useState<string | null>(null);
+  const [uploadedCover, setUploadedCover] = useState<string | null>(null);
+
+  // 导出记录：进行中的任务定时刷新进度，当前任务完成后自动下载
+  const [exportJobs, setExportJobs] = useState<ExportJob[]>([]);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const activeJob = exportJobs.find((job) => job.id === activeJobId) || null;
+  const hasRunningJobs = exportJobs.some((job) => job.status === "pending" || job.status === "processing");
+
+  const layout = useMemo(
+    () => resolvePdfLayout({ preset: layoutPreset, margins, gutter, mirrorMargins, chapterStartsOnRecto }, pageSize),
+    [layoutPreset, margins, gutter, mirrorMargins, chapterStartsOnRecto, pageSize]
+  );
+
+  const selectLayoutPreset = (id: PdfLayoutPresetId) => {
+    const preset = PDF_LAYOUT_PRESETS.find((item) => item.id === id) || PDF_LAYOUT_PRESETS[0];
+    setLayoutPreset(preset.id);
+    setMargins(preset.margins);
+    setGutter(preset.gutter);
+    setMirrorMargins(preset.mirrorMargins);
+    setChapterStartsOnRecto(preset.chapterStartsOnRecto);
+  };
+
   useEffect(() => {
     const loadStoryData = async () => {
       setIsLoading(true);
@@ -60,6 +168,7 @@ export default function ExportStoryPage() {
         const [story, chapters, characters, outline] = await Promise.all([getStory(storyId), getChapters(storyId), getStoryCharacters(storyId), getOutline(storyId)]);
 
         setStoryTitle(story.title);
+        setStoryCover(story.coverImage || null);
 
         // 设置正文预览
         const chapterContent = chapters
@@ -84,55 +193,123 @@ export default function ExportStoryPage() {
     loadStoryData();
   }, [storyId]);
 
+  const handleCoverChange = (file: File | undefined) => {
+    if (!file) return;
+
+    if (!EPUB_COVER_TYPES.includes(file.type)) {
+      toast.error("封面只支持 JPEG、PNG、GIF、WebP 或 SVG 图片");
+      return;
+    }
+    if (file.size > MAX_EPUB_COVER_SIZE) {
+      toast.error("封面图片不能超过 5MB");
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => setUploadedCover(reader.result as string);
+    reader.onerror = () => toast.error("读取封面图片失败");
+    reader.readAsDataURL(file);
+  };
+
+  const loadExportJobs = useCallback(async () => {
+    const response = await fetch(`/api/user/story/${storyId}/export/jobs`);
+    if (!response.ok) {
+      throw new Error("获取导出记录失败");
+    }
+    setExportJobs(await response.json());
+  }, [storyId]);
+
+  useEffect(() => {
+    loadExportJobs().catch((error) => console.error("加载导出记录失败:", error));
+  }, [loadExportJobs]);
+
+  useEffect(() => {
+    if (!hasRunningJobs) return;
+    const timer = setInterval(() => {
+      loadExportJobs().catch((error) => console.error("刷新导出进度失败:", error));
+    }, 2000);
+    return () => clearInterval(timer);
+  }, [hasRunningJobs, loadExportJobs]);
+
+  // 当前任务结束：完成时下载文件，失败时提示原因
+  useEffect(() => {
+    if (!activeJob || activeJob.status === "pending" || activeJob.status === "processing") return;
+    setActiveJobId(null);
+
+    if (activeJob.status === "failed") {
+      toast.error(activeJob.error || "导出故事失败，请稍后重试");
+      return;
+    }
+
+    downloadExportFile(storyId, activeJob)
+      .then(() => toast.success("故事导出成功！"))
+      .catch((error) => toast.error(error instanceof Error ? error.message : "下载导出文件失败"));
+  }, [activeJob, storyId]);
+
   const handleExport = async () => {
     setIsExporting(true);
     try {
-      const response = await fetch(`/api/user/story/${storyId}/export`, {
+      const response = await fetch(`/api/user/story/${storyId}/export/jobs`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           format: exportFormat,
           includeCharacters,
           includeOutline,
-          // 仅在PDF和EPUB格式时添加高级选项
-          ...(exportFormat === "pdf" || exportFormat === "epub" ? { fontSize, fontFamily, pageSize } : {}),
+          // 按格式添加高级选项：PDF 使用字体和版式，EPUB 使用主题、系列和封面，Word文档只使用字体大小
+          ...(exportFormat === "pdf" ? { fontSize, fontFamily, pageSize, layout: { preset: layoutPreset, margins, gutter, mirrorMargins, chapterStartsOnRecto } } : {}),
+          ...(exportFormat === "epub"
+            ? {
+                epubTheme,
+                customCss: customCss.trim() || undefined,
+                series: seriesName.trim() ? { name: seriesName.trim(), number: seriesNumber ? Number(seriesNumber) : undefined } : undefined,
+                cover: uploadedCover || undefined,
+              }
+            : {}),
+          ...(exportFormat === "docx" ? { fontSize } : {}),
+          ...(exportFormat === "project" ? { includeVersions } : {}),
         }),
       });
 
       if (!response.ok) {
-        throw new Error("导出失败");
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.message || "导出失败");
       }
 
-      // 获取文件名
-      const contentDisposition = response.headers.get("content-disposition");
-      let filename = `${storyTitle}.${exportFormat}`;
-      if (contentDisposition) {
-        const filenameMatch = contentDisposition.match(/filename="(.+)"/);
-        if (filenameMatch && filenameMatch[1]) {
-          filename = filenameMatch[1];
-        }
-      }
-
-      // 处理不同格式的导出
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      a.remove();
-
-      toast.success("故事导出成功！");
+      const job: ExportJob = await response.json();
+      setExportJobs((prev) => [job, ...prev]);
+      setActiveJobId(job.id);
+      toast.info("已开始导出，完成后会自动下载");
     } catch (error) {
       console.error("导出故事失败:", error);
-      toast.error("导出故事失败，请稍后重试");
+      toast.error(error instanceof Error && error.message !== "导出失败" ? error.message : "导出故事失败，请稍后重试");
     } finally {
       setIsExporting(false);
     }
   };
 
+  const handleDownloadJob = async (job: ExportJob) => {
+    try {
+      await downloadExportFile(storyId, job);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "下载导出文件失败");
+    }
+  };
+
+  const handleDeleteJob = async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/user/story/${storyId}/export/jobs/${jobId}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("删除导出记录失败");
+      }
+      setExportJobs((prev) => prev.filter((job) => job.id !== jobId));
+      if (jobId === activeJobId) setActiveJobId(null);
+    } catch (error) {
+      console.error("删除导出记录失败:", error);
+      toast.error("删除导出记录失败");
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[70vh]">
@@ -171,30 +348,132 @@ export default function ExportStoryPage() {
                   <SelectContent>
                     <SelectItem value="pdf">PDF文档</SelectItem>
                     <SelectItem value="epub">EPUB电子书</SelectItem>
+                    <SelectItem value="docx">Word文档</SelectItem>
                     <SelectItem value="txt">纯文本</SelectItem>
                     <SelectItem value="html">HTML网页</SelectItem>
+                    <SelectItem value="project">项目存档（ZIP）</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
-              <div className="space-y-2">
-                <Label>包含内容</Label>
-                <div className="flex items-center pt-1 space-x-2">
-                  <Checkbox id="include-characters" checked={includeCharacters} onCheckedChange={(checked: boolean) => setIncludeCharacters(checked)} />
-                  <Label htmlFor="include-characters" className="cursor-pointer">
-                    包含角色信息
-                  </Label>
+              {exportFormat === "pdf" && (
+                <div className="space-y-2">
+                  <Label>版式</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {PDF_LAYOUT_PRESETS.map((preset) => (
+                      <button
+                        key={preset.id}
+                        type="button"
+                        onClick={() => selectLayoutPreset(preset.id)}
+                        title={preset.description}
+                        className={`p-2 space-y-1 text-left border rounded-md transition-colors hover:bg-muted ${layoutPreset === preset.id ? "border-primary bg-muted" : ""}`}
+                      >
+                        <PdfLayoutPreview layout={layoutPreset === preset.id ? layout : resolvePdfLayout({ preset: preset.id }, pageSize)} size="sm" />
+                        <p className="text-xs font-medium">{preset.label}</p>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {exportFormat === "epub" && (
+                <>
+                  <div className="space-y-2">
+                    <Label>样式主题</Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {EPUB_THEMES.map((theme) => (
+                        <button
+                          key={theme.id}
+                          type="button"
+                          onClick={() => setEpubTheme(theme.id)}
+                          title={theme.description}
+                          className={`p-2 text-sm font-medium border rounded-md transition-colors hover:bg-muted ${epubTheme === theme.id ? "border-primary bg-muted" : ""}`}
+                        >
+                          {theme.label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{EPUB_THEMES.find((theme) => theme.id === epubTheme)?.description}</p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>封面</Label>
+                    <div className="flex items-start space-x-3">
+                      {uploadedCover || storyCover ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={uploadedCover || storyCover!} alt="封面" className="object-cover w-16 border rounded h-24 shrink-0" />
+                      ) : (
+                        <div className="flex items-center justify-center w-16 h-24 p-1 text-xs text-center border rounded shrink-0 text-muted-foreground">自动生成</div>
+                      )}
+                      <div className="space-y-2">
+                        <Button variant="outline" size="sm" type="button" asChild>
+                          <label className="cursor-pointer">
+                            <ImagePlus className="w-4 h-4 mr-1" />
+                            上传封面
+                            <input
+                              type="file"
+                              accept={EPUB_COVER_TYPES.join(",")}
+                              className="hidden"
+                              onChange={(e) => {
+                                handleCoverChange(e.target.files?.[0]);
+                                e.target.value = "";
+                              }}
+                            />
+                          </label>
+                        </Button>
+                        {uploadedCover && (
+                          <Button variant="ghost" size="sm" type="button" onClick={() => setUploadedCover(null)}>
+                            <X className="w-4 h-4 mr-1" />
+                            移除
+                          </Button>
+                        )}
+                        <p className="text-xs text-muted-foreground">未上传时使用故事封面，没有封面时根据书名生成</p>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="series-name">系列</Label>
+                    <div className="flex items-center space-x-2">
+                      <Input id="series-name" placeholder="系列名称（可选）" value={seriesName} onChange={(e) => setSeriesName(e.target.value)} />
+                      <Input type="number" min={1} placeholder="序号" className="w-20 shrink-0" value={seriesNumber} onChange={(e) => setSeriesNumber(e.target.value)} disabled={!seriesName.trim()} />
+                    </div>
+                  </div>
+                </>
+              )}
+
+              {/* 项目存档总是包含角色、大纲等全部数据，只能选择是否包含版本历史 */}
+              {exportFormat === "project" ? (
+                <div className="space-y-2">
+                  <Label>包含内容</Label>
+                  <div className="flex items-center pt-1 space-x-2">
+                    <Checkbox id="include-versions" checked={includeVersions} onCheckedChange={(checked: boolean) => setIncludeVersions(checked)} />
+                    <Label htmlFor="include-versions" className="cursor-pointer">
+                      包含版本历史
+                    </Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">章节、场景、草稿、角色、大纲、世界设定和时间线都会导出</p>
                 </div>
-                <div className="flex items-center pt-1 space-x-2">
-                  <Checkbox id="include-outline" checked={includeOutline} onCheckedChange={(checked: boolean) => setIncludeOutline(checked)} />
-                  <Label htmlFor="include-outline" className="cursor-pointer">
-                    包含故事大纲
-                  </Label>
+              ) : (
+                <div className="space-y-2">
+                  <Label>包含内容</Label>
+                  <div className="flex items-center pt-1 space-x-2">
+                    <Checkbox id="include-characters" checked={includeCharacters} onCheckedChange={(checked: boolean) => setIncludeCharacters(checked)} />
+                    <Label htmlFor="include-characters" className="cursor-pointer">
+                      包含角色信息
+                    </Label>
+                  </div>
+                  <div className="flex items-center pt-1 space-x-2">
+                    <Checkbox id="include-outline" checked={includeOutline} onCheckedChange={(checked: boolean) => setIncludeOutline(checked)} />
+                    <Label htmlFor="include-outline" className="cursor-pointer">
+                      包含故事大纲
+                    </Label>
+                  </div>
                 </div>
-              </div>
+              )}
 
-              {/* 高级选项按钮 - 仅对PDF和EPUB显示 */}
-              {(exportFormat === "pdf" || exportFormat === "epub") && (
+              {/* 高级选项按钮 - 仅对PDF、EPUB和Word文档显示 */}
+              {(exportFormat === "pdf" || exportFormat === "epub" || exportFormat === "docx") && (
                 <div className="pt-2">
                   <Button variant="outline" type="button" className="w-full" onClick={() => setShowAdvancedOptions(!showAdvancedOptions)}>
                     <Settings className="w-4 h-4 mr-2" />
@@ -204,34 +483,53 @@ export default function ExportStoryPage() {
               )}
 
               {/* 高级选项区域 */}
-              {showAdvancedOptions && (exportFormat === "pdf" || exportFormat === "epub") && (
+              {showAdvancedOptions && (exportFormat === "pdf" || exportFormat === "epub" || exportFormat === "docx") && (
                 <div className="p-3 mt-2 space-y-3 border rounded-md">
-                  <div className="space-y-2">
-                    <Label htmlFor="font-size">字体大小</Label>
-                    <div className="flex items-center space-x-2">
-                      <Input id="font-size" type="number" min={8} max={24} value={fontSize} onChange={(e) => setFontSize(parseInt(e.target.value) || 12)} />
-                      <span className="text-sm text-muted-foreground">pt</span>
+                  {exportFormat !== "epub" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="font-size">字体大小</Label>
+                      <div className="flex items-center space-x-2">
+                        <Input id="font-size" type="number" min={8} max={24} value={fontSize} onChange={(e) => setFontSize(parseInt(e.target.value) || 12)} />
+                        <span className="text-sm text-muted-foreground">pt</span>
+                      </div>
                     </div>
-                  </div>
+                  )}
 
-                  <div className="space-y-2">
-                    <Label htmlFor="font-family">字体</Label>
-                    <Select value={fontFamily} onValueChange={setFontFamily}>
-                      <SelectTrigger id="font-family">
-                        <SelectValue placeholder="选择字体" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {FONT_FAMILIES.map((font) => (
-                          <SelectItem key={font.value} value={font.value}>
-                            {font.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {exportFormat === "epub" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="custom-css">自定义 CSS</Label>
+                      <Textarea
+                        id="custom-css"
+                        rows={6}
+                        className="font-mono text-xs"
+                        placeholder={"p { text-indent: 2em; }\nh2 { color: #8b0000; }"}
+                        value={customCss}
+                        onChange={(e) => setCustomCss(e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">追加在主题样式之后，可覆盖主题中的规则</p>
+                    </div>
+                  )}
 
-                  {/* 仅PDF格式显示页面大小选项 */}
                   {exportFormat === "pdf" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="font-family">字体</Label>
+                      <Select value={fontFamily} onValueChange={setFontFamily}>
+                        <SelectTrigger id="font-family">
+                          <SelectValue placeholder="选择字体" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FONT_FAMILIES.map((font) => (
+                            <SelectItem key={font.value} value={font.value}>
+                              {font.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {/* 仅PDF格式显示页面大小选项，书籍版式使用预设的开本 */}
+                  {exportFormat === "pdf" && layoutPreset === "standard" && (
                     <div className="space-y-2">
                       <Label htmlFor="page-size">页面大小</Label>
                       <Select value={pageSize} onValueChange={setPageSize}>
@@ -248,15 +546,45 @@ export default function ExportStoryPage() {
                       </Select>
                     </div>
                   )}
+
+                  {exportFormat === "pdf" && (
+                    <div className="space-y-2">
+                      <Label>页边距（mm）</Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {MARGIN_FIELDS.map((field) => (
+                          <div key={field.key} className="flex items-center space-x-2">
+                            <span className="w-8 text-sm shrink-0 text-muted-foreground">{field.label}</span>
+                            <Input type="number" min={0} max={60} value={margins[field.key]} onChange={(e) => setMargins({ ...margins, [field.key]: Math.max(0, Number(e.target.value) || 0) })} />
+                          </div>
+                        ))}
+                        <div className="flex items-center space-x-2">
+                          <span className="w-8 text-sm shrink-0 text-muted-foreground">装订</span>
+                          <Input type="number" min={0} max={30} value={gutter} onChange={(e) => setGutter(Math.max(0, Number(e.target.value) || 0))} />
+                        </div>
+                      </div>
+                      <div className="flex items-center pt-1 space-x-2">
+                        <Checkbox id="mirror-margins" checked={mirrorMargins} onCheckedChange={(checked) => setMirrorMargins(checked === true)} />
+                        <Label htmlFor="mirror-margins" className="font-normal cursor-pointer">
+                          左右页镜像（双面印刷）
+                        </Label>
+                      </div>
+                      <div className="flex items-center pt-1 space-x-2">
+                        <Checkbox id="chapter-recto" checked={chapterStartsOnRecto} onCheckedChange={(checked) => setChapterStartsOnRecto(checked === true)} />
+                        <Label htmlFor="chapter-recto" className="font-normal cursor-pointer">
+                          章节从奇数页开始
+                        </Label>
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
             </CardContent>
             <CardFooter>
-              <Button onClick={handleExport} disabled={isExporting} className="w-full">
-                {isExporting ? (
+              <Button onClick={handleExport} disabled={isExporting || activeJob !== null} className="w-full">
+                {isExporting || activeJob ? (
                   <>
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    导出中...
+                    {activeJob && activeJob.total > 0 ? `导出中 ${activeJob.progress}/${activeJob.total}...` : "导出中..."}
                   </>
                 ) : (
                   <>
@@ -274,10 +602,13 @@ export default function ExportStoryPage() {
             </CardHeader>
             <CardContent className="space-y-2 text-sm">
               <p>
-                <strong>PDF文档</strong>：适合打印或阅读，保留完整排版
+                <strong>PDF文档</strong>：嵌入中文字体，带目录页码、页眉和页码，可作为打印校样
               </p>
               <p>
-                <strong>EPUB电子书</strong>：适合在电子书阅读器上阅读
+                <strong>EPUB电子书</strong>：EPUB 3 格式，带封面、按分卷嵌套的目录和系列信息，适合在电子书阅读器上阅读
+              </p>
+              <p>
+                <strong>Word文档</strong>：分卷和章节导出为标题，保留粗体、斜体、下划线和对齐，适合编辑和审读
               </p>
               <p>
                 <strong>纯文本</strong>：简单的文本文件，适合二次编辑
@@ -285,11 +616,60 @@ export default function ExportStoryPage() {
               <p>
                 <strong>HTML网页</strong>：适合在浏览器中查看或发布在网站上
               </p>
+              <p>
+                <strong>项目存档</strong>：每章一个 Markdown 文件，角色、大纲等保存为 JSON，可在“导入书稿”中导入为一模一样的新故事，适合备份和迁移
+              </p>
             </CardContent>
           </Card>
         </div>
 
-        <div className="md:col-span-2">
+        <div className="space-y-6 md:col-span-2">
+          {exportJobs.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>导出记录</CardTitle>
+                <CardDescription>导出在后台进行，生成的文件可在过期前重新下载</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {exportJobs.map((job) => (
+                  <div key={job.id} className="flex items-center gap-3 p-2 border rounded-md">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 text-sm">
+                        <Badge variant="outline" className="shrink-0">
+                          {FORMAT_LABELS[job.format] || job.format}
+                        </Badge>
+                        <span className="truncate">{job.fileName || storyTitle}</span>
+                      </div>
+                      {job.status === "pending" || job.status === "processing" ? (
+                        <div className="flex items-center gap-2">
+                          <Progress value={job.total > 0 ? (job.progress / job.total) * 100 : 0} className="h-2" />
+                          <span className="text-xs shrink-0 text-muted-foreground">
+                            {job.status === "pending" ? "排队中" : `${job.progress}/${job.total} 章`}
+                          </span>
+                        </div>
+                      ) : (
+                        <p className={`text-xs ${job.status === "failed" ? "text-destructive" : "text-muted-foreground"}`}>
+                          {formatDate(job.createdAt)}
+                          {job.status === "failed"
+                            ? ` · 失败：${job.error || "未知错误"}`
+                            : ` · ${formatBytes(job.fileSize || 0)} · 保留至 ${formatDate(job.expiresAt)}`}
+                        </p>
+                      )}
+                    </div>
+                    {job.status === "completed" && (
+                      <Button variant="ghost" size="icon" title="下载" onClick={() => handleDownloadJob(job)}>
+                        <Download className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="icon" title="删除" onClick={() => handleDeleteJob(job.id)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>预览</CardTitle>
@@ -299,6 +679,7 @@ export default function ExportStoryPage() {
               <Tabs defaultValue="content">
                 <TabsList>
                   <TabsTrigger value="content">正文预览</TabsTrigger>
+                  {exportFormat === "pdf" && <TabsTrigger value="layout">版式预览</TabsTrigger>}
                   {includeCharacters && <TabsTrigger value="characters">角色信息</TabsTrigger>}
                   {includeOutline && <TabsTrigger value="outline">故事大纲</TabsTrigger>}
                 </TabsList>
@@ -308,6 +689,11 @@ export default function ExportStoryPage() {
                     <div className="whitespace-pre-line">{storyPreview}</div>
                   </div>
                 </TabsContent>
+                {exportFormat === "pdf" && (
+                  <TabsContent value="layout" className="mt-4">
+                    <PdfLayoutPreview layout={layout} />
+                  </TabsContent>
+                )}
                 {includeCharacters && (
                   <TabsContent value="characters" className="mt-4">
                     <div className="space-y-4">
@@ -5,12 +5,29 @@ import { useParams, useRouter } from "next/navigation";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { parseOutlineToSections } from "@/lib/api-service";
+import { parseOutlineToSections, createVolume, deleteVolume, updateChapter, reorderChapters, mergeChapters } from "@/lib/api-service";
+import { groupChaptersByVolume, reorderChaptersInGroups } from "@/lib/volume-utils";
+import { buildOutlineTree, detectStoryStage, outlineTreeToSections } from "@/lib/outline-tree";
 import Link from "next/link";
 import { useAuth } from "@clerk/nextjs";
 import toast from "@/lib/toast";
 import { checkStoryOwnership } from "@/lib/permissions";
 import { VersionHistoryPanel } from "@/components/VersionHistoryPanel";
+import { VersionRetentionSettings } from "@/components/VersionRetentionSettings";
+import { SaveAsTemplateDialog } from "@/components/SaveAsTemplateDialog";
+import { GlobalSearch } from "@/components/GlobalSearch";
+import { FindReplacePanel } from "@/components/FindReplacePanel";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { GripVertical, Merge } from "lucide-react";
+
+// AI服务提供方选项，"default" 表示使用部署配置
+const AI_PROVIDER_OPTIONS = [
+  { value: "default", label: "默认（部署配置）" },
+  { value: "openai", label: "OpenAI 兼容接口" },
+  { value: "anthropic", label: "Anthropic" },
+  { value: "ollama", label: "本地模型（Ollama）" },
+];
 
 export default function StoryPage() {
   const params = useParams();
@@ -27,6 +44,7 @@ export default function StoryPage() {
     worldSetting?: string;
     outline?: string;
     storyStatus: string;
+    aiProvider?: string | null;
     createdAt: string;
     updatedAt: string;
     userId: string;
@@ -37,8 +55,12 @@ export default function StoryPage() {
   const [story, setStory] = useState<StoryData | null>(null);
   const [characters, setCharacters] = useState<any[]>([]);
   const [chapters, setChapters] = useState<any[]>([]);
+  const [volumes, setVolumes] = useState<any[]>([]);
+  const [newVolumeTitle, setNewVolumeTitle] = useState("");
+  const [draggingChapterId, setDraggingChapterId] = useState<string | null>(null);
   const [outline, setOutline] = useState<any>(null);
   const [outlineSections, setOutlineSections] = useState<any[]>([]);
+  const [outlineNodes, setOutlineNodes] = useState<any[]>([]);
   const [activeTab, setActiveTab] = useState("overview");
   const [hasPermission, setHasPermission] = useState(false);
   const [permissionChecked, setPermissionChecked] = useState(false);
@@ -124,10 +146,14 @@ export default function StoryPage() {
       setStory(data);
       setCharacters(data.characters || []);
       setChapters(data.chapters || []);
+      setVolumes(data.volumes || []);
       setOutline(data.outline);
+      setOutlineNodes(data.outlineNodes || []);
 
-      // 如果有大纲数据，解析为章节
-      if (data.outline) {
+      // 优先使用结构化大纲树，否则解析大纲文本
+      if (data.outlineNodes && data.outlineNodes.length > 0) {
+        setOutlineSections(outlineTreeToSections(buildOutlineTree(data.outlineNodes)));
+      } else if (data.outline) {
         try {
           // 尝试解析为结构化数据
           const parsedOutline = JSON.parse(data.outline);
@@ -159,12 +185,13 @@ export default function StoryPage() {
   const getStoryPhase = () => {
     if (!story) return "planning";
 
-    // 基于数据存在与否判断阶段
-    if (characters.length === 0) return "planning";
-    if (!outline) return "characters";
-    if (chapters.length === 0) return "outline";
-    if (chapters.some((c) => !c.content)) return "writing";
-    return "editing";
+    // 基于大纲节点与章节的实际关联判断阶段
+    return detectStoryStage({
+      characterCount: characters.length,
+      hasOutline: !!outline,
+      chapters,
+      outlineNodes,
+    });
   };
 
   // 准备创作统计数据
@@ -175,6 +202,147 @@ export default function StoryPage() {
     wordCount: chapters.reduce((sum, chapter) => sum + (chapter.content?.length || 0), 0),
   };
 
+  // 更新故事使用的AI服务提供方
+  const handleProviderChange = async (value: string) => {
+    const aiProvider = value === "default" ? null : value;
+
+    try {
+      const response = await fetch(`/api/user/story/${storyId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ aiProvider }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`更新失败: ${response.status}`);
+      }
+
+      setStory((prev: StoryData | null) => (prev ? { ...prev, aiProvider } : null));
+      toast({
+        title: "AI服务已更新",
+        description: "此故事的AI功能将使用新的服务提供方",
+        variant: "success",
+      });
+    } catch (error) {
+      console.error("更新AI服务提供方时出错", error);
+      toast({
+        title: "更新失败",
+        description: "无法更新AI服务设置，请稍后重试",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // 创建新分卷
+  const handleCreateVolume = async () => {
+    const title = newVolumeTitle.trim();
+    if (!title) return;
+
+    try {
+      const volume = await createVolume(storyId, { title });
+      setVolumes((prev) => [...prev, volume]);
+      setNewVolumeTitle("");
+      toast({
+        title: "分卷已创建",
+        description: `已添加“${volume.title}”`,
+        variant: "success",
+      });
+    } catch (error) {
+      console.error("创建分卷时出错", error);
+      toast({
+        title: "创建分卷失败",
+        description: "无法创建分卷，请稍后重试",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // 删除分卷，章节保留为未分卷状态
+  const handleDeleteVolume = async (volumeId: string) => {
+    try {
+      await deleteVolume(storyId, volumeId);
+      setRefreshTrigger((prev) => prev + 1);
+    } catch (error) {
+      console.error("删除分卷时出错", error);
+      toast({
+        title: "删除分卷失败",
+        description: "无法删除分卷，请稍后重试",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // 将章节移动到指定分卷
+  const handleChapterVolumeChange = async (chapter: any, value: string) => {
+    const volumeId = value === "none" ? null : value;
+
+    try {
+      await updateChapter(storyId, chapter.id, { title: chapter.title, volumeId });
+      setChapters((prev) => prev.map((item) => (item.id === chapter.id ? { ...item, volumeId } : item)));
+    } catch (error) {
+      console.error("移动章节时出错", error);
+      toast({
+        title: "移动章节失败",
+        description: "无法更新章节所属分卷，请稍后重试",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // 拖拽章节到目标位置：插入到 beforeChapterId 之前（为 null 时追加到分卷末尾），并归入目标分卷
+  const handleChapterDrop = async (targetVolumeId: string | null, beforeChapterId: string | null) => {
+    const chapterId = draggingChapterId;
+    setDraggingChapterId(null);
+    if (!chapterId || chapterId === beforeChapterId) return;
+
+    const items = reorderChaptersInGroups(groupChaptersByVolume(volumes, chapters), chapterId, targetVolumeId, beforeChapterId);
+    const previous = chapters;
+
+    // 先在本地更新顺序，失败时回滚
+    setChapters(
+      items.map((item, index) => ({
+        ...chapters.find((chapter) => chapter.id === item.id),
+        volumeId: item.volumeId,
+        order: index + 1,
+      }))
+    );
+
+    try {
+      const updated = await reorderChapters(storyId, items);
+      setChapters(updated);
+    } catch (error) {
+      console.error("调整章节顺序时出错", error);
+      setChapters(previous);
+      toast({
+        title: "调整章节顺序失败",
+        description: "章节可能已在别处被修改，请刷新后重试",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // 将下一章合并到当前章节末尾
+  const handleMergeWithNext = async (chapter: any, nextChapter: any) => {
+    if (!confirm(`确定要将“${nextChapter.title}”合并到“${chapter.title}”末尾吗？合并前会为当前章节保存一个历史版本。`)) return;
+
+    try {
+      await mergeChapters(storyId, chapter.id, nextChapter.id);
+      setRefreshTrigger((prev) => prev + 1);
+      toast({
+        title: "章节已合并",
+        description: `“${nextChapter.title}”已并入“${chapter.title}”`,
+        variant: "success",
+      });
+    } catch (error) {
+      console.error("合并章节时出错", error);
+      toast({
+        title: "合并章节失败",
+        description: error instanceof Error ? error.message : "无法合并章节，请稍后重试",
+        variant: "destructive",
+      });
+    }
+  };
+
   // 处理版本恢复
   const handleVersionRestore = (content: string) => {
     // 更新本地故事数据
@@ -244,6 +412,8 @@ export default function StoryPage() {
         <div className="flex items-center justify-between">
           <h1 className="text-3xl font-bold">{story?.title || "未命名故事"}</h1>
           <div className="flex gap-2">
+            <GlobalSearch storyId={storyId} />
+            <SaveAsTemplateDialog storyId={storyId} defaultName={story?.title ? `${story.title}模板` : ""} />
             <Button asChild>
               <Link href={`/story/${storyId}/edit`}>编辑故事</Link>
             </Button>
@@ -252,11 +422,12 @@ export default function StoryPage() {
 
         {/* 内容部分 */}
         <Tabs defaultValue={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid grid-cols-5 mb-6">
+          <TabsList className="grid grid-cols-6 mb-6">
             <TabsTrigger value="overview">概览</TabsTrigger>
             <TabsTrigger value="characters">角色 ({characters.length})</TabsTrigger>
             <TabsTrigger value="outline">大纲</TabsTrigger>
             <TabsTrigger value="chapters">章节 ({chapters.length})</TabsTrigger>
+            <TabsTrigger value="find-replace">查找替换</TabsTrigger>
             <TabsTrigger value="history">版本历史</TabsTrigger>
           </TabsList>
 
@@ -307,6 +478,22 @@ export default function StoryPage() {
                   <h3 className="mb-2 text-xl font-semibold">简介</h3>
                   <p className="whitespace-pre-wrap">{story?.summary || "暂无简介"}</p>
                 </div>
+
+                <div>
+                  <h3 className="mb-2 text-xl font-semibold">AI服务</h3>
+                  <Select value={story?.aiProvider || "default"} onValueChange={handleProviderChange}>
+                    <SelectTrigger className="w-64">
+                      <SelectValue placeholder="选择AI服务" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AI_PROVIDER_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </CardContent>
               <CardFooter className="flex justify-between">
                 <Button variant="outline">分析故事</Button>
@@ -346,7 +533,7 @@ export default function StoryPage() {
           </TabsContent>
 
           <TabsContent value="outline">
-            {outline ? (
+            {outline || outlineNodes.length > 0 ? (
               <Card>
                 <CardHeader>
                   <CardTitle>故事大纲</CardTitle>
@@ -379,22 +566,92 @@ export default function StoryPage() {
 
           <TabsContent value="chapters">
             <div className="space-y-4">
-              {chapters.length > 0 ? (
-                chapters.map((chapter: any) => (
-                  <Card key={chapter.id}>
-                    <CardHeader>
-                      <CardTitle>{chapter.title || `第${chapter.order}章`}</CardTitle>
-                      <CardDescription>{chapter.content ? `${chapter.content.length} 字符` : "尚未开始"}</CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="line-clamp-2">{chapter.summary || chapter.content?.substring(0, 100) || "暂无内容"}</p>
-                    </CardContent>
-                    <CardFooter>
-                      <Button asChild variant="outline" className="w-full">
-                        <Link href={`/story/${storyId}/chapter/${chapter.id}`}>{chapter.content ? "继续编辑" : "开始写作"}</Link>
-                      </Button>
-                    </CardFooter>
-                  </Card>
+              <div className="flex gap-2">
+                <Input value={newVolumeTitle} onChange={(e) => setNewVolumeTitle(e.target.value)} placeholder="新分卷标题，例如：第一卷 风起" className="max-w-sm" />
+                <Button variant="outline" onClick={handleCreateVolume} disabled={!newVolumeTitle.trim()}>
+                  新建分卷
+                </Button>
+              </div>
+
+              {chapters.length > 0 || volumes.length > 0 ? (
+                groupChaptersByVolume(volumes, chapters).map((group) => (
+                  <div key={group.id || "unassigned"} className="space-y-3">
+                    {/* 分卷标题与本卷目录，拖放到标题上时追加到本卷末尾 */}
+                    <div
+                      className="flex items-start justify-between pb-2 border-b"
+                      onDragOver={(e) => draggingChapterId && e.preventDefault()}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        handleChapterDrop(group.id, null);
+                      }}
+                    >
+                      <div>
+                        <h3 className="text-xl font-semibold">{group.title}</h3>
+                        {group.summary && <p className="text-sm text-muted-foreground">{group.summary}</p>}
+                        <p className="text-xs text-muted-foreground">共 {group.chapters.length} 章</p>
+                      </div>
+                      {group.id && (
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteVolume(group.id as string)}>
+                          删除分卷
+                        </Button>
+                      )}
+                    </div>
+
+                    {group.chapters.map((chapter: any, index: number) => (
+                      <Card
+                        key={chapter.id}
+                        draggable
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = "move";
+                          setDraggingChapterId(chapter.id);
+                        }}
+                        onDragEnd={() => setDraggingChapterId(null)}
+                        onDragOver={(e) => draggingChapterId && e.preventDefault()}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          handleChapterDrop(group.id, chapter.id);
+                        }}
+                        className={`cursor-move ${draggingChapterId === chapter.id ? "opacity-50" : ""}`}
+                      >
+                        <CardHeader>
+                          <CardTitle className="flex items-center gap-2">
+                            <GripVertical className="w-4 h-4 text-muted-foreground" />
+                            {chapter.title || `第${chapter.order}章`}
+                          </CardTitle>
+                          <CardDescription>{chapter.content ? `${chapter.content.length} 字符` : "尚未开始"}</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                          <p className="line-clamp-2">{chapter.summary || chapter.content?.substring(0, 100) || "暂无内容"}</p>
+                        </CardContent>
+                        <CardFooter className="flex gap-2">
+                          {volumes.length > 0 && (
+                            <Select value={chapter.volumeId || "none"} onValueChange={(value) => handleChapterVolumeChange(chapter, value)}>
+                              <SelectTrigger className="w-48">
+                                <SelectValue placeholder="所属分卷" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">未分卷</SelectItem>
+                                {volumes.map((volume: any) => (
+                                  <SelectItem key={volume.id} value={volume.id}>
+                                    {volume.title}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          <Button asChild variant="outline" className="flex-1">
+                            <Link href={`/story/${storyId}/chapter/${chapter.id}`}>{chapter.content ? "继续编辑" : "开始写作"}</Link>
+                          </Button>
+                          {index < group.chapters.length - 1 && (
+                            <Button variant="ghost" onClick={() => handleMergeWithNext(chapter, group.chapters[index + 1])}>
+                              <Merge className="w-4 h-4 mr-1" />
+                              与下一章合并
+                            </Button>
+                          )}
+                        </CardFooter>
+                      </Card>
+                    ))}
+                  </div>
                 ))
               ) : (
                 <div className="py-10 text-center">
@@ -412,6 +669,10 @@ export default function StoryPage() {
             </div>
           </TabsContent>
 
+          <TabsContent value="find-replace">
+            <FindReplacePanel storyId={storyId} chapters={chapters} onApplied={() => setRefreshTrigger((prev) => prev + 1)} />
+          </TabsContent>
+
           <TabsContent value="history">
             <Card>
               <CardHeader>
@@ -422,6 +683,9 @@ export default function StoryPage() {
                 <VersionHistoryPanel storyId={storyId} onRestoreVersion={handleVersionRestore} />
               </CardContent>
             </Card>
+            <div className="mt-6">
+              <VersionRetentionSettings storyId={storyId} />
+            </div>
           </TabsContent>
         </Tabs>
       </div>
@@ -0,0 +1,379 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams } from "next/navigation";
+import { StoryNavigation } from "@/components/StoryNavigation";
+import { TimelineEventForm } from "@/components/TimelineEventForm";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Clock, Plus, Loader2, Edit, Trash2, ChevronLeft, ChevronRight, ShieldCheck, AlertTriangle, MapPin } from "lucide-react";
+import {
+  getStory,
+  getStoryCharacters,
+  getChapters,
+  getCodexEntries,
+  getTimelineEvents,
+  createTimelineEvent,
+  updateTimelineEvent,
+  deleteTimelineEvent,
+  checkTimeline,
+  Chapter,
+  CodexEntry,
+  TimelineEvent,
+  TimelineEventInput,
+  TimelineCheckResult,
+} from "@/lib/api-service";
+import { getTimelineEventTypeLabel } from "@/lib/timeline-utils";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface Story {
+  id: string;
+  title: string;
+}
+
+// 时间轴上每个事件占据的宽度（像素）
+const EVENT_SPACING = 220;
+
+const EVENT_TYPE_STYLES: Record<string, string> = {
+  general: "bg-primary",
+  birth: "bg-green-500",
+  death: "bg-red-500",
+};
+
+export default function TimelinePage() {
+  const { id } = useParams() as { id: string };
+  const [story, setStory] = useState<Story | null>(null);
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [characters, setCharacters] = useState<Array<{ id: string; name: string }>>([]);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [locations, setLocations] = useState<CodexEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [viewMode, setViewMode] = useState<"story" | "reading">("story");
+  const [showForm, setShowForm] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<TimelineEvent | null>(null);
+  const [eventToDelete, setEventToDelete] = useState<TimelineEvent | null>(null);
+  const [checkResult, setCheckResult] = useState<TimelineCheckResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  // 获取故事、时间线及关联数据
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setIsLoading(true);
+        const [storyData, eventsData, charactersData, chaptersData, locationData] = await Promise.all([
+          getStory(id),
+          getTimelineEvents(id),
+          getStoryCharacters(id),
+          getChapters(id),
+          getCodexEntries(id, { type: "location" }),
+        ]);
+
+        setStory(storyData);
+        setEvents(eventsData);
+        setCharacters(charactersData);
+        setChapters(chaptersData);
+        setLocations(locationData);
+      } catch (error) {
+        console.error("获取数据失败:", error);
+        toast.error("加载数据失败");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [id]);
+
+  // 阅读顺序以事件首次出现的章节为准，未关联章节的事件排在最后
+  const firstChapterOrder = (event: TimelineEvent) => {
+    const orders = [
+      ...event.chapters.map((chapter) => chapter.order),
+      ...event.scenes.map((scene) => chapters.find((chapter) => chapter.id === scene.chapterId)?.order ?? Infinity),
+    ];
+    return orders.length > 0 ? Math.min(...orders) : Infinity;
+  };
+
+  const storyOrderedEvents = [...events].sort((a, b) => a.order - b.order);
+  const displayedEvents = viewMode === "story" ? storyOrderedEvents : [...storyOrderedEvents].sort((a, b) => firstChapterOrder(a) - firstChapterOrder(b));
+
+  const issueEventIds = new Set((checkResult?.issues || []).filter((issue) => issue.eventId).map((issue) => issue.eventId));
+
+  // 运行一致性检查
+  const handleCheck = async () => {
+    try {
+      setIsChecking(true);
+      const result = await checkTimeline(id);
+      setCheckResult(result);
+      if (result.issues.length === 0) {
+        toast.success("未发现时间线问题");
+      }
+    } catch (error) {
+      console.error("检查时间线失败:", error);
+      toast.error("检查时间线失败");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  // 在故事时间上前移或后移事件，按新顺序重新编号
+  const handleMove = async (eventId: string, direction: -1 | 1) => {
+    const index = storyOrderedEvents.findIndex((event) => event.id === eventId);
+    const targetIndex = index + direction;
+    if (index < 0 || targetIndex < 0 || targetIndex >= storyOrderedEvents.length) return;
+
+    const reordered = [...storyOrderedEvents];
+    [reordered[index], reordered[targetIndex]] = [reordered[targetIndex], reordered[index]];
+
+    try {
+      const updated = await Promise.all(
+        reordered.map((event, i) => (event.order === i + 1 ? event : updateTimelineEvent(id, event.id, { order: i + 1 })))
+      );
+      setEvents(updated);
+      setCheckResult(null);
+    } catch (error) {
+      console.error("调整事件顺序失败:", error);
+      toast.error("调整事件顺序失败");
+    }
+  };
+
+  // 提交事件表单
+  const handleSubmitEvent = async ({ id: eventId, ...data }: TimelineEventInput & { id?: string }) => {
+    if (eventId) {
+      const updatedEvent = await updateTimelineEvent(id, eventId, data);
+      setEvents(events.map((event) => (event.id === eventId ? updatedEvent : event)));
+    } else {
+      const newEvent = await createTimelineEvent(id, data);
+      setEvents([...events, newEvent]);
+    }
+
+    setCheckResult(null);
+    setShowForm(false);
+    setEditingEvent(null);
+  };
+
+  // 确认删除事件
+  const handleConfirmDelete = async () => {
+    if (!eventToDelete) return;
+
+    try {
+      await deleteTimelineEvent(id, eventToDelete.id);
+      setEvents(events.filter((event) => event.id !== eventToDelete.id));
+      setCheckResult(null);
+      toast.success("事件已删除");
+      setEventToDelete(null);
+    } catch (error) {
+      console.error("删除事件失败:", error);
+      toast.error("删除事件失败");
+    }
+  };
+
+  // 渲染横向时间轴
+  const renderTimeline = () => {
+    if (displayedEvents.length === 0) {
+      return (
+        <Card className="border-dashed">
+          <CardContent className="flex flex-col items-center justify-center p-6">
+            <Clock className="w-12 h-12 mb-4 text-muted-foreground" />
+            <p className="mb-4 text-center text-muted-foreground">还没有时间线事件。记录故事内发生的事件，并关联到描写它们的章节。</p>
+            <Button onClick={() => { setEditingEvent(null); setShowForm(true); }} className="gap-2">
+              <Plus className="w-4 h-4" />
+              添加第一个事件
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <div className="overflow-x-auto border rounded-md bg-muted/10">
+        <div className="relative py-4" style={{ width: Math.max(displayedEvents.length * EVENT_SPACING + 40, 600), height: 460 }}>
+          {/* 时间轴主线 */}
+          <div className="absolute h-0.5 bg-border left-5 right-5" style={{ top: 230 }} />
+
+          {displayedEvents.map((event, index) => {
+            const left = 20 + index * EVENT_SPACING;
+            const isAbove = index % 2 === 0;
+            const storyIndex = storyOrderedEvents.indexOf(event);
+
+            return (
+              <div key={event.id}>
+                {/* 事件标记 */}
+                <div
+                  className={cn("absolute w-4 h-4 rounded-full border-2 border-background", EVENT_TYPE_STYLES[event.type] || EVENT_TYPE_STYLES.general, issueEventIds.has(event.id) && "ring-2 ring-destructive ring-offset-2")}
+                  style={{ left: left + EVENT_SPACING / 2 - 8, top: 222 }}
+                />
+                <div className="absolute w-px bg-border" style={{ left: left + EVENT_SPACING / 2, top: isAbove ? 190 : 238, height: 32 }} />
+
+                {/* 事件卡片 */}
+                <Card className={cn("absolute overflow-hidden", issueEventIds.has(event.id) && "border-destructive")} style={{ left: left + 6, width: EVENT_SPACING - 12, top: isAbove ? 10 : 270, height: 180 }}>
+                  <CardContent className="flex flex-col h-full p-3 space-y-1">
+                    <div className="flex items-center justify-between gap-1">
+                      <span className="text-xs text-muted-foreground truncate">{event.storyDate || `时间顺序 ${storyIndex + 1}`}</span>
+                      {event.type !== "general" && <Badge variant="outline" className="text-[10px] px-1 py-0">{getTimelineEventTypeLabel(event.type)}</Badge>}
+                    </div>
+                    <p className="text-sm font-semibold truncate">{event.title}</p>
+                    {(event.locationEntry || event.location) && (
+                      <p className="flex items-center gap-1 text-xs truncate text-muted-foreground">
+                        <MapPin className="w-3 h-3 shrink-0" />
+                        {[event.locationEntry?.name, event.location].filter(Boolean).join(" · ")}
+                      </p>
+                    )}
+                    {event.characters.length > 0 && <p className="text-xs truncate">{event.characters.map((character) => character.name).join("、")}</p>}
+                    {event.chapters.length > 0 && (
+                      <p className="text-xs truncate text-muted-foreground">
+                        {[...event.chapters].sort((a, b) => a.order - b.order).map((chapter) => `第${chapter.order}章`).join("、")}
+                      </p>
+                    )}
+                    <div className="flex items-center justify-between pt-1 mt-auto">
+                      <div className="flex">
+                        {viewMode === "story" && (
+                          <>
+                            <Button variant="ghost" size="sm" className="p-0 h-6 w-6" disabled={storyIndex === 0} onClick={() => handleMove(event.id, -1)} title="提前">
+                              <ChevronLeft className="w-3.5 h-3.5" />
+                            </Button>
+                            <Button variant="ghost" size="sm" className="p-0 h-6 w-6" disabled={storyIndex === storyOrderedEvents.length - 1} onClick={() => handleMove(event.id, 1)} title="推后">
+                              <ChevronRight className="w-3.5 h-3.5" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                      <div className="flex">
+                        <Button variant="ghost" size="sm" className="p-0 h-6 w-6" onClick={() => { setEditingEvent(event); setShowForm(true); }} title="编辑">
+                          <Edit className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="p-0 h-6 w-6 text-destructive" onClick={() => setEventToDelete(event)} title="删除">
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex h-screen">
+      {/* 左侧导航 */}
+      <div className="w-64 shrink-0">
+        <StoryNavigation storyId={id} storyTitle={story?.title} />
+      </div>
+
+      {/* 主内容区域 */}
+      <div className="flex-1 overflow-hidden">
+        <div className="h-full p-6 overflow-auto">
+          <div className="max-w-6xl mx-auto">
+            {/* 标题区域 */}
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h1 className="text-3xl font-bold">时间线</h1>
+                <p className="text-muted-foreground">按故事内时间整理事件，对照读者的阅读顺序检查时间矛盾</p>
+              </div>
+              <div className="flex gap-3">
+                <Button variant="outline" onClick={handleCheck} disabled={isChecking || events.length === 0} className="gap-2">
+                  {isChecking ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+                  检查一致性
+                </Button>
+                <Button onClick={() => { setEditingEvent(null); setShowForm(true); }} className="gap-2">
+                  <Plus className="w-4 h-4" />
+                  添加事件
+                </Button>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="flex flex-col items-center justify-center py-12">
+                <Loader2 className="w-10 h-10 mb-4 animate-spin text-primary" />
+                <p className="text-muted-foreground">加载数据中...</p>
+              </div>
+            ) : (
+              <>
+                <Tabs value={viewMode} onValueChange={(value) => setViewMode(value as "story" | "reading")} className="mb-4">
+                  <TabsList>
+                    <TabsTrigger value="story">故事时间顺序</TabsTrigger>
+                    <TabsTrigger value="reading">阅读顺序</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+
+                {renderTimeline()}
+
+                {/* 一致性检查结果 */}
+                {checkResult && checkResult.issues.length > 0 && (
+                  <Card className="mt-6">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        <AlertTriangle className="w-5 h-5 text-destructive" />
+                        发现 {checkResult.issues.length} 个时间线问题
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      {checkResult.issues.map((issue, index) => (
+                        <div key={index} className="flex items-start gap-2 text-sm">
+                          <Badge variant={issue.severity === "error" ? "destructive" : "secondary"} className="shrink-0">
+                            {issue.severity === "error" ? "错误" : "提醒"}
+                          </Badge>
+                          <span>{issue.message}</span>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* 事件表单对话框 */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="sm:max-w-[680px]">
+          <DialogHeader>
+            <DialogTitle>{editingEvent ? "编辑事件" : "创建新事件"}</DialogTitle>
+            <DialogDescription>{editingEvent ? "修改事件信息" : "新事件会追加到时间线末尾，可在时间轴上调整先后顺序"}</DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-[70vh]">
+            <div className="px-1 py-2">
+              <TimelineEventForm
+                key={editingEvent?.id || "new"}
+                storyId={id}
+                initialData={editingEvent || undefined}
+                characters={characters}
+                chapters={chapters}
+                locations={locations}
+                onSubmit={handleSubmitEvent}
+                onCancel={() => setShowForm(false)}
+              />
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      {/* 删除确认对话框 */}
+      <Dialog open={!!eventToDelete} onOpenChange={(open) => !open && setEventToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>确认删除</DialogTitle>
+            <DialogDescription>你确定要删除事件"{eventToDelete?.title}"吗？此操作无法撤销。</DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-3 mt-4">
+            <Button variant="outline" onClick={() => setEventToDelete(null)}>
+              取消
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmDelete}>
+              删除
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
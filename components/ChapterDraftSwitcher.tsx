@@ -0,0 +1,374 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CheckCircle2, GitBranch, GitCompare, Loader2, Plus, Trash2 } from "lucide-react";
+import { VersionDiffViewer } from "@/components/VersionDiffViewer";
+import {
+  ChapterDraft,
+  compareChapterDrafts,
+  createChapterDraft,
+  deleteChapterDraft,
+  getChapter,
+  getChapterDraft,
+  getChapterDrafts,
+  promoteChapterDraft,
+  setActiveChapterDraft,
+} from "@/lib/api-service";
+import { CANONICAL_DRAFT } from "@/lib/chapter-drafts";
+import { TextDiffResult } from "@/lib/text-diff";
+import { toast } from "sonner";
+
+interface ChapterDraftSwitcherProps {
+  storyId: string;
+  chapterId: string;
+  // 正在编辑的草稿，null 表示正文（定稿）
+  activeDraftId: string | null;
+  // 切换或采用前保存编辑器中的内容
+  onBeforeSwitch: () => Promise<void>;
+  // 切换后载入目标内容
+  onSwitched: (draftId: string | null, content: string) => void;
+  // 采用草稿后载入新的正文
+  onPromoted: (content: string) => void;
+}
+
+// 新建草稿时的空白来源
+const BLANK_SOURCE = "blank";
+
+export function ChapterDraftSwitcher({ storyId, chapterId, activeDraftId, onBeforeSwitch, onSwitched, onPromoted }: ChapterDraftSwitcherProps) {
+  const [drafts, setDrafts] = useState<ChapterDraft[]>([]);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [newDraftName, setNewDraftName] = useState("");
+  const [newDraftSource, setNewDraftSource] = useState(CANONICAL_DRAFT);
+  const [showPromoteDialog, setShowPromoteDialog] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showCompareDialog, setShowCompareDialog] = useState(false);
+  const [compareFrom, setCompareFrom] = useState(CANONICAL_DRAFT);
+  const [compareTo, setCompareTo] = useState("");
+  const [compareResult, setCompareResult] = useState<TextDiffResult | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const activeDraft = drafts.find((draft) => draft.id === activeDraftId) || null;
+
+  const fetchDrafts = async () => {
+    try {
+      const data = await getChapterDrafts(storyId, chapterId);
+      setDrafts(data.drafts);
+    } catch (error) {
+      toast.error("获取章节草稿失败");
+    }
+  };
+
+  useEffect(() => {
+    fetchDrafts();
+  }, [storyId, chapterId]);
+
+  const getDraftLabel = (draftId: string) => (draftId === CANONICAL_DRAFT ? "正文（定稿）" : drafts.find((draft) => draft.id === draftId)?.name || "未命名草稿");
+
+  // 载入草稿或正文内容
+  const loadContent = async (draftId: string | null) => {
+    if (draftId) {
+      const draft = await getChapterDraft(storyId, chapterId, draftId);
+      return draft.content || "";
+    }
+    const chapter = await getChapter(storyId, chapterId);
+    return chapter.content;
+  };
+
+  // 切换当前编辑的草稿
+  const switchTo = async (draftId: string | null, saveCurrent = true) => {
+    try {
+      setIsSwitching(true);
+      if (saveCurrent) {
+        await onBeforeSwitch();
+      }
+      await setActiveChapterDraft(storyId, chapterId, draftId);
+      onSwitched(draftId, await loadContent(draftId));
+    } catch (error) {
+      toast.error("切换草稿失败");
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const handleSelect = (value: string) => {
+    const draftId = value === CANONICAL_DRAFT ? null : value;
+    if (draftId !== activeDraftId) {
+      switchTo(draftId);
+    }
+  };
+
+  // 新建草稿并切换过去
+  const handleCreate = async () => {
+    if (!newDraftName.trim()) {
+      toast.error("草稿名称不能为空");
+      return;
+    }
+
+    try {
+      setIsSwitching(true);
+      // 先保存编辑器内容，使新草稿复制到最新内容
+      await onBeforeSwitch();
+      const draft = await createChapterDraft(storyId, chapterId, { name: newDraftName.trim(), source: newDraftSource });
+      setDrafts([...drafts, draft]);
+      setShowCreateDialog(false);
+      setNewDraftName("");
+      toast.success("草稿已创建");
+      await switchTo(draft.id, false);
+    } catch (error) {
+      toast.error("创建草稿失败");
+      setIsSwitching(false);
+    }
+  };
+
+  // 采用当前草稿为定稿
+  const handlePromote = async () => {
+    if (!activeDraft) return;
+
+    try {
+      setIsSwitching(true);
+      await onBeforeSwitch();
+      const result = await promoteChapterDraft(storyId, chapterId, activeDraft.id);
+      onPromoted(result.chapter.content);
+      setShowPromoteDialog(false);
+      toast.success(`已将「${activeDraft.name}」采用为定稿，原正文已保存为草稿`);
+      fetchDrafts();
+    } catch (error) {
+      toast.error("采用草稿失败");
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  // 删除当前草稿后回到正文
+  const handleDelete = async () => {
+    if (!activeDraft) return;
+
+    try {
+      setIsSwitching(true);
+      await deleteChapterDraft(storyId, chapterId, activeDraft.id);
+      setDrafts(drafts.filter((draft) => draft.id !== activeDraft.id));
+      setShowDeleteDialog(false);
+      onSwitched(null, await loadContent(null));
+      toast.success("草稿已删除");
+    } catch (error) {
+      toast.error("删除草稿失败");
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const runCompare = async (from: string, to: string) => {
+    if (!to || from === to) {
+      setCompareResult(null);
+      return;
+    }
+
+    try {
+      setIsComparing(true);
+      setCompareResult(await compareChapterDrafts(storyId, chapterId, from, to));
+    } catch (error) {
+      toast.error("比较草稿失败");
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const openCompare = async () => {
+    // 对比前保存，确保对比的是编辑器中的最新内容
+    await onBeforeSwitch();
+    const to = activeDraftId || drafts[0]?.id || "";
+    setCompareFrom(CANONICAL_DRAFT);
+    setCompareTo(to);
+    setShowCompareDialog(true);
+    runCompare(CANONICAL_DRAFT, to);
+  };
+
+  const draftOptions = [{ id: CANONICAL_DRAFT, name: getDraftLabel(CANONICAL_DRAFT) }, ...drafts];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <GitBranch className="w-4 h-4 text-muted-foreground" />
+      <Select value={activeDraftId || CANONICAL_DRAFT} onValueChange={handleSelect} disabled={isSwitching}>
+        <SelectTrigger className="w-56 h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {draftOptions.map((draft) => (
+            <SelectItem key={draft.id} value={draft.id}>
+              {draft.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {activeDraft ? <Badge variant="secondary">草稿：不参与导出和 AI 上下文</Badge> : <Badge variant="outline">定稿</Badge>}
+      {isSwitching && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+
+      <div className="flex items-center gap-1 ml-auto">
+        <Button variant="outline" size="sm" onClick={() => setShowCreateDialog(true)} disabled={isSwitching}>
+          <Plus className="w-4 h-4 mr-1" />
+          新建草稿
+        </Button>
+        <Button variant="outline" size="sm" onClick={openCompare} disabled={isSwitching || drafts.length === 0}>
+          <GitCompare className="w-4 h-4 mr-1" />
+          对比
+        </Button>
+        {activeDraft && (
+          <>
+            <Button variant="outline" size="sm" onClick={() => setShowPromoteDialog(true)} disabled={isSwitching}>
+              <CheckCircle2 className="w-4 h-4 mr-1" />
+              采用为定稿
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setShowDeleteDialog(true)} disabled={isSwitching} className="text-gray-500 hover:text-red-500">
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+      </div>
+
+      {/* 新建草稿对话框 */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>新建草稿</DialogTitle>
+            <DialogDescription>草稿用于尝试不同写法，采用为定稿前不会影响导出和 AI 生成。</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>草稿名称</Label>
+              <Input placeholder="例如：主角拒绝求援的版本" value={newDraftName} onChange={(e) => setNewDraftName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>初始内容</Label>
+              <Select value={newDraftSource} onValueChange={setNewDraftSource}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {draftOptions.map((draft) => (
+                    <SelectItem key={draft.id} value={draft.id}>
+                      复制{draft.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={BLANK_SOURCE}>空白</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+              取消
+            </Button>
+            <Button onClick={handleCreate} disabled={isSwitching}>
+              创建并切换
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* 采用草稿对话框 */}
+      <Dialog open={showPromoteDialog} onOpenChange={setShowPromoteDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>采用为定稿</DialogTitle>
+            <DialogDescription>
+              确定将「{activeDraft?.name}」采用为定稿吗？当前正文会记录到版本历史，并保存为一个新的草稿。
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowPromoteDialog(false)}>
+              取消
+            </Button>
+            <Button onClick={handlePromote} disabled={isSwitching}>
+              <CheckCircle2 className="w-4 h-4 mr-2" />
+              确认采用
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* 删除草稿对话框 */}
+      <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>删除草稿</DialogTitle>
+            <DialogDescription>确定要删除「{activeDraft?.name}」吗？此操作无法撤销，删除后将切回正文。</DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDeleteDialog(false)}>
+              取消
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSwitching}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              确认删除
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* 草稿对比对话框 */}
+      <Dialog open={showCompareDialog} onOpenChange={setShowCompareDialog}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>对比草稿</DialogTitle>
+          </DialogHeader>
+          <div className="flex items-center gap-2 text-sm">
+            <Select
+              value={compareFrom}
+              onValueChange={(value) => {
+                setCompareFrom(value);
+                runCompare(value, compareTo);
+              }}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {draftOptions.map((draft) => (
+                  <SelectItem key={draft.id} value={draft.id}>
+                    {draft.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-gray-500">→</span>
+            <Select
+              value={compareTo}
+              onValueChange={(value) => {
+                setCompareTo(value);
+                runCompare(compareFrom, value);
+              }}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="选择草稿" />
+              </SelectTrigger>
+              <SelectContent>
+                {draftOptions.map((draft) => (
+                  <SelectItem key={draft.id} value={draft.id}>
+                    {draft.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ScrollArea className="h-[60vh] pr-4">
+            {isComparing ? (
+              <div className="py-8 text-center text-gray-500">加载中...</div>
+            ) : compareResult ? (
+              <VersionDiffViewer diff={compareResult} />
+            ) : (
+              <div className="py-8 text-center text-gray-500">请选择两个不同的草稿进行对比</div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -4,12 +4,14 @@ import { useState } from "react";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Edit, Trash2, User, ChevronDown, ChevronUp } from "lucide-react";
+import { Edit, Trash2, User, ChevronDown, ChevronUp, PenLine } from "lucide-react";
 import Link from "next/link";
+import { parseCodexAliases } from "@/lib/codex-utils";
 
 interface Character {
   id: string;
   name: string;
+  aliases?: string | null; // JSON数组格式的别名
   description?: string | null;
   attributes?: string | null; // JSON格式的属性
 }
@@ -19,13 +21,15 @@ interface CharacterCardProps {
   storyId: string;
   onEdit: (character: Character) => void;
   onDelete: (characterId: string) => void;
+  onRename?: (character: Character) => void;
 }
 
-export function CharacterCard({ character, storyId, onEdit, onDelete }: CharacterCardProps) {
+export function CharacterCard({ character, storyId, onEdit, onDelete, onRename }: CharacterCardProps) {
   const [expanded, setExpanded] = useState(false);
 
   // 解析角色属性（如果有）
   const attributes = character.attributes ? JSON.parse(character.attributes) : {};
+  const aliases = parseCodexAliases(character.aliases);
 
   return (
     <Card className="w-full overflow-hidden transition-all duration-300 border-2 shadow-md hover:shadow-lg hover:border-primary/40">
@@ -43,6 +47,8 @@ export function CharacterCard({ character, storyId, onEdit, onDelete }: Characte
         </CardTitle>
       </CardHeader>
       <CardContent className="p-4 pt-2">
+        {aliases.length > 0 && <p className="mb-1 text-xs text-muted-foreground">又称：{aliases.join("、")}</p>}
+
         {/* 角色描述摘要，始终显示 */}
         <p className={`text-sm text-muted-foreground ${expanded ? "" : "line-clamp-2"}`}>{character.description || "无角色描述"}</p>
 
@@ -73,6 +79,12 @@ export function CharacterCard({ character, storyId, onEdit, onDelete }: Characte
         )}
       </CardContent>
       <CardFooter className="flex justify-end gap-2 p-3 border-t bg-muted/10 border-border/30">
+        {onRename && (
+          <Button variant="ghost" size="sm" className="h-8 gap-1" onClick={() => onRename(character)}>
+            <PenLine className="w-3.5 h-3.5" />
+            改名
+          </Button>
+        )}
         <Button variant="ghost" size="sm" className="h-8 gap-1" onClick={() => onEdit(character)}>
           <Edit className="w-3.5 h-3.5" />
           编辑
@@ -11,6 +11,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Loader2, Save, X, Sparkles } from "lucide-react";
 import { generateCharacterDescription } from "@/lib/api-service";
+import { parseCodexAliases } from "@/lib/codex-utils";
 import { toast } from "sonner";
 
 // 验证模式
@@ -22,6 +23,7 @@ const characterSchema = z.object({
 
 type FormValues = z.infer<typeof characterSchema> & {
   attributes: Record<string, string>;
+  aliases: string[];
 };
 
 interface CharacterFormProps {
@@ -29,6 +31,7 @@ interface CharacterFormProps {
   initialData?: {
     id?: string;
     name: string;
+    aliases?: string | null;
     description?: string | null;
     attributes?: string | null;
   };
@@ -40,6 +43,7 @@ export function CharacterForm({ storyId, initialData, onSubmit, onCancel }: Char
   const [isLoading, setIsLoading] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [attributes, setAttributes] = useState<Record<string, string>>({});
+  const [aliasesText, setAliasesText] = useState(parseCodexAliases(initialData?.aliases).join("、"));
   const [newAttrKey, setNewAttrKey] = useState("");
   const [newAttrValue, setNewAttrValue] = useState("");
 
@@ -50,6 +54,7 @@ export function CharacterForm({ storyId, initialData, onSubmit, onCancel }: Char
       name: initialData?.name || "",
       description: initialData?.description || "",
       attributes: {},
+      aliases: [],
     },
   });
 
@@ -75,6 +80,7 @@ export function CharacterForm({ storyId, initialData, onSubmit, onCancel }: Char
         ...values,
         id: initialData?.id,
         attributes,
+        aliases: aliasesText.split(/[、,，\n]/).map((alias) => alias.trim()).filter(Boolean),
       });
       toast.success(initialData?.id ? "角色已更新" : "角色已创建");
     } catch (error) {
@@ -160,6 +166,12 @@ export function CharacterForm({ storyId, initialData, onSubmit, onCancel }: Char
               )}
             />
 
+            {/* 角色别名 */}
+            <div className="space-y-2">
+              <FormLabel>别名</FormLabel>
+              <Input placeholder="小名、称号等其他称呼，多个别名用顿号或逗号分隔" value={aliasesText} onChange={(e) => setAliasesText(e.target.value)} />
+            </div>
+
             {/* 角色描述 */}
             <div className="space-y-2">
               <div className="flex items-center justify-between">
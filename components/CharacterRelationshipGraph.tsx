@@ -0,0 +1,473 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { getCharacterRelationships, createCharacterRelationship, updateCharacterRelationship, deleteCharacterRelationship, CharacterRelationship } from "@/lib/api-service";
+import { RELATIONSHIP_TYPES, RELATIONSHIP_DIRECTIONS, RELATIONSHIP_COLORS, RelationshipType, getRelationshipTypeLabel } from "@/lib/character-relationships";
+import { toast } from "sonner";
+
+interface CharacterRelationshipGraphProps {
+  storyId: string;
+  characters: Array<{ id: string; name: string }>;
+  chapters: Array<{ id: string; title: string; order: number }>;
+}
+
+interface RelationshipDraft {
+  id?: string;
+  sourceCharacterId: string;
+  targetCharacterId: string;
+  type: string;
+  direction: string;
+  description: string;
+  chapterId: string;
+}
+
+const WIDTH = 720;
+const HEIGHT = 480;
+const NODE_RADIUS = 28;
+// Select 组件不接受空字符串，用该值表示“不指定章节”
+const NO_CHAPTER = "none";
+
+const emptyDraft = (): RelationshipDraft => ({
+  sourceCharacterId: "",
+  targetCharacterId: "",
+  type: "friend",
+  direction: "mutual",
+  description: "",
+  chapterId: NO_CHAPTER,
+});
+
+export function CharacterRelationshipGraph({ storyId, characters, chapters }: CharacterRelationshipGraphProps) {
+  const [relationships, setRelationships] = useState<CharacterRelationship[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [positions, setPositions] = useState<Record<string, { x: number; y: number }>>({});
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [selectedCharacterId, setSelectedCharacterId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RelationshipDraft | null>(null);
+  // 只显示截至所选章节已建立的关系
+  const [asOfChapterId, setAsOfChapterId] = useState<string>(NO_CHAPTER);
+  const svgRef = useRef<SVGSVGElement>(null);
+  // 拖动过的节点在松开时不视为点击
+  const dragMovedRef = useRef(false);
+
+  const sortedChapters = [...chapters].sort((a, b) => a.order - b.order);
+
+  // 加载角色关系
+  useEffect(() => {
+    const fetchRelationships = async () => {
+      try {
+        setIsLoading(true);
+        setRelationships(await getCharacterRelationships(storyId));
+      } catch (error) {
+        console.error("获取角色关系失败:", error);
+        toast.error("加载角色关系失败");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchRelationships();
+  }, [storyId]);
+
+  // 角色按圆形初始布局，已拖动过的角色保留位置
+  useEffect(() => {
+    setPositions((prev) => {
+      const next: Record<string, { x: number; y: number }> = {};
+      const radius = Math.min(WIDTH, HEIGHT) / 2 - NODE_RADIUS * 2;
+      characters.forEach((character, index) => {
+        const angle = (2 * Math.PI * index) / Math.max(characters.length, 1) - Math.PI / 2;
+        next[character.id] = prev[character.id] || {
+          x: WIDTH / 2 + radius * Math.cos(angle),
+          y: HEIGHT / 2 + radius * Math.sin(angle),
+        };
+      });
+      return next;
+    });
+  }, [characters]);
+
+  const asOfChapter = sortedChapters.find((chapter) => chapter.id === asOfChapterId);
+  const visibleRelationships = relationships.filter((rel) => {
+    if (!asOfChapter || !rel.chapterId) return true;
+    const startChapter = sortedChapters.find((chapter) => chapter.id === rel.chapterId);
+    return !startChapter || startChapter.order <= asOfChapter.order;
+  });
+
+  const nameOf = (characterId: string) => characters.find((character) => character.id === characterId)?.name || "未知角色";
+
+  // 将鼠标位置换算为 SVG 坐标
+  const toSvgPoint = (e: React.PointerEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return {
+      x: Math.min(WIDTH - NODE_RADIUS, Math.max(NODE_RADIUS, ((e.clientX - rect.left) / rect.width) * WIDTH)),
+      y: Math.min(HEIGHT - NODE_RADIUS, Math.max(NODE_RADIUS, ((e.clientY - rect.top) / rect.height) * HEIGHT)),
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!draggingId) return;
+    dragMovedRef.current = true;
+    const point = toSvgPoint(e);
+    setPositions((prev) => ({ ...prev, [draggingId]: point }));
+  };
+
+  // 点击角色：先选中起点，再点击另一个角色时以两者为双方新建关系
+  const handleNodeClick = (characterId: string) => {
+    if (dragMovedRef.current) {
+      dragMovedRef.current = false;
+      return;
+    }
+
+    if (selectedCharacterId && selectedCharacterId !== characterId) {
+      setDraft({ ...emptyDraft(), sourceCharacterId: selectedCharacterId, targetCharacterId: characterId });
+      setSelectedCharacterId(null);
+    } else {
+      setSelectedCharacterId(selectedCharacterId === characterId ? null : characterId);
+    }
+  };
+
+  const handleEdgeClick = (rel: CharacterRelationship) => {
+    setSelectedCharacterId(null);
+    setDraft({
+      id: rel.id,
+      sourceCharacterId: rel.sourceCharacterId,
+      targetCharacterId: rel.targetCharacterId,
+      type: rel.type,
+      direction: rel.direction,
+      description: rel.description || "",
+      chapterId: rel.chapterId || NO_CHAPTER,
+    });
+  };
+
+  // 保存关系
+  const handleSave = async () => {
+    if (!draft) return;
+
+    if (!draft.sourceCharacterId || !draft.targetCharacterId || draft.sourceCharacterId === draft.targetCharacterId) {
+      toast.error("请选择两个不同的角色");
+      return;
+    }
+
+    const payload = {
+      sourceCharacterId: draft.sourceCharacterId,
+      targetCharacterId: draft.targetCharacterId,
+      type: draft.type,
+      direction: draft.direction,
+      description: draft.description,
+      chapterId: draft.chapterId === NO_CHAPTER ? null : draft.chapterId,
+    };
+
+    try {
+      setIsSaving(true);
+      if (draft.id) {
+        const updated = await updateCharacterRelationship(storyId, draft.id, payload);
+        setRelationships(relationships.map((rel) => (rel.id === updated.id ? updated : rel)));
+        toast.success("角色关系已更新");
+      } else {
+        const created = await createCharacterRelationship(storyId, payload);
+        setRelationships([...relationships, created]);
+        toast.success("角色关系已创建");
+      }
+      setDraft(null);
+    } catch (error) {
+      console.error("保存角色关系失败:", error);
+      toast.error(error instanceof Error ? error.message : "保存角色关系失败");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 删除关系
+  const handleDelete = async () => {
+    if (!draft?.id) return;
+
+    try {
+      setIsSaving(true);
+      await deleteCharacterRelationship(storyId, draft.id);
+      setRelationships(relationships.filter((rel) => rel.id !== draft.id));
+      setDraft(null);
+      toast.success("角色关系已删除");
+    } catch (error) {
+      console.error("删除角色关系失败:", error);
+      toast.error("删除角色关系失败");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12">
+        <Loader2 className="w-10 h-10 mb-4 animate-spin text-primary" />
+        <p className="text-muted-foreground">加载角色关系中...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+      {/* 关系图 */}
+      <Card className="lg:col-span-2">
+        <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
+          <CardTitle className="text-lg">关系图</CardTitle>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">截至</span>
+            <Select value={asOfChapterId} onValueChange={setAsOfChapterId}>
+              <SelectTrigger className="w-48 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CHAPTER}>全部章节</SelectItem>
+                {sortedChapters.map((chapter) => (
+                  <SelectItem key={chapter.id} value={chapter.id}>
+                    第{chapter.order}章 {chapter.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <p className="mb-2 text-xs text-muted-foreground">拖动角色调整位置；依次点击两个角色新建关系；点击连线编辑关系。</p>
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full border rounded-md select-none bg-muted/20 touch-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setDraggingId(null)}
+            onPointerLeave={() => setDraggingId(null)}
+          >
+            <defs>
+              {RELATIONSHIP_TYPES.map((item) => (
+                <marker key={item.value} id={`arrow-${item.value}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill={RELATIONSHIP_COLORS[item.value]} />
+                </marker>
+              ))}
+            </defs>
+
+            {/* 关系连线 */}
+            {visibleRelationships.map((rel) => {
+              const source = positions[rel.sourceCharacterId];
+              const target = positions[rel.targetCharacterId];
+              if (!source || !target) return null;
+
+              // 同一对角色之间的多条关系按序号错开弧度
+              const pairIndex = visibleRelationships
+                .filter((other) => [other.sourceCharacterId, other.targetCharacterId].sort().join() === [rel.sourceCharacterId, rel.targetCharacterId].sort().join())
+                .indexOf(rel);
+              const dx = target.x - source.x;
+              const dy = target.y - source.y;
+              const length = Math.sqrt(dx * dx + dy * dy) || 1;
+              const offset = pairIndex * 36;
+              const control = { x: (source.x + target.x) / 2 - (dy / length) * offset, y: (source.y + target.y) / 2 + (dx / length) * offset };
+              // 连线端点收缩到节点边缘
+              const start = { x: source.x + (dx / length) * NODE_RADIUS, y: source.y + (dy / length) * NODE_RADIUS };
+              const end = { x: target.x - (dx / length) * NODE_RADIUS, y: target.y - (dy / length) * NODE_RADIUS };
+              const labelPoint = { x: (start.x + 2 * control.x + end.x) / 4, y: (start.y + 2 * control.y + end.y) / 4 };
+              const color = RELATIONSHIP_COLORS[rel.type as RelationshipType] || RELATIONSHIP_COLORS.other;
+              const isActive = draft?.id === rel.id || (selectedCharacterId && (rel.sourceCharacterId === selectedCharacterId || rel.targetCharacterId === selectedCharacterId));
+
+              return (
+                <g key={rel.id} className="cursor-pointer" onClick={() => handleEdgeClick(rel)}>
+                  <path
+                    d={`M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`}
+                    fill="none"
+                    stroke={color}
+                    strokeWidth={isActive ? 4 : 2}
+                    markerEnd={rel.direction === "directed" ? `url(#arrow-${rel.type})` : undefined}
+                  />
+                  <text x={labelPoint.x} y={labelPoint.y - 4} textAnchor="middle" fontSize="12" fill={color} className="font-medium">
+                    {getRelationshipTypeLabel(rel.type)}
+                  </text>
+                </g>
+              );
+            })}
+
+            {/* 角色节点 */}
+            {characters.map((character) => {
+              const position = positions[character.id];
+              if (!position) return null;
+
+              return (
+                <g
+                  key={character.id}
+                  transform={`translate(${position.x}, ${position.y})`}
+                  className="cursor-grab"
+                  onPointerDown={() => {
+                    dragMovedRef.current = false;
+                    setDraggingId(character.id);
+                  }}
+                  onClick={() => handleNodeClick(character.id)}
+                >
+                  <circle r={NODE_RADIUS} className={selectedCharacterId === character.id ? "fill-primary" : "fill-background"} stroke="currentColor" strokeWidth={2} />
+                  <text textAnchor="middle" dy="0.35em" fontSize="12" className={selectedCharacterId === character.id ? "fill-primary-foreground" : "fill-foreground"}>
+                    {character.name.length > 4 ? `${character.name.slice(0, 4)}…` : character.name}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+
+          {/* 图例 */}
+          <div className="flex flex-wrap gap-3 mt-3">
+            {RELATIONSHIP_TYPES.map((item) => (
+              <span key={item.value} className="flex items-center gap-1 text-xs text-muted-foreground">
+                <span className="inline-block w-3 h-0.5" style={{ backgroundColor: RELATIONSHIP_COLORS[item.value] }} />
+                {item.label}
+              </span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* 关系编辑 */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
+          <CardTitle className="text-lg">{draft?.id ? "编辑关系" : draft ? "新建关系" : "关系列表"}</CardTitle>
+          {!draft && (
+            <Button size="sm" variant="outline" className="gap-1" onClick={() => setDraft(emptyDraft())} disabled={characters.length < 2}>
+              <Plus className="w-3.5 h-3.5" />
+              新建
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {draft ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>角色</Label>
+                  <Select value={draft.sourceCharacterId} onValueChange={(value) => setDraft({ ...draft, sourceCharacterId: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="选择角色" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {characters.map((character) => (
+                        <SelectItem key={character.id} value={character.id}>
+                          {character.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>对方角色</Label>
+                  <Select value={draft.targetCharacterId} onValueChange={(value) => setDraft({ ...draft, targetCharacterId: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="选择角色" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {characters.map((character) => (
+                        <SelectItem key={character.id} value={character.id}>
+                          {character.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>关系类型</Label>
+                  <Select value={draft.type} onValueChange={(value) => setDraft({ ...draft, type: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RELATIONSHIP_TYPES.map((item) => (
+                        <SelectItem key={item.value} value={item.value}>
+                          {item.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>方向</Label>
+                  <Select value={draft.direction} onValueChange={(value) => setDraft({ ...draft, direction: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RELATIONSHIP_DIRECTIONS.map((item) => (
+                        <SelectItem key={item.value} value={item.value}>
+                          {item.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>建立或变化的章节</Label>
+                <Select value={draft.chapterId} onValueChange={(value) => setDraft({ ...draft, chapterId: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CHAPTER}>故事开始前</SelectItem>
+                    {sortedChapters.map((chapter) => (
+                      <SelectItem key={chapter.id} value={chapter.id}>
+                        第{chapter.order}章 {chapter.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>关系描述</Label>
+                <Textarea placeholder="例如：同门师兄弟，因掌门之位反目" value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+              </div>
+
+              <div className="flex justify-between gap-2">
+                {draft.id ? (
+                  <Button variant="ghost" size="sm" className="gap-1 text-destructive" onClick={handleDelete} disabled={isSaving}>
+                    <Trash2 className="w-3.5 h-3.5" />
+                    删除
+                  </Button>
+                ) : (
+                  <span />
+                )}
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setDraft(null)} disabled={isSaving}>
+                    取消
+                  </Button>
+                  <Button size="sm" className="gap-1" onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+                    保存
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ) : visibleRelationships.length > 0 ? (
+            <div className="space-y-2">
+              {visibleRelationships.map((rel) => (
+                <button key={rel.id} type="button" className="w-full p-2 text-left border rounded-md hover:bg-muted/50" onClick={() => handleEdgeClick(rel)}>
+                  <p className="text-sm font-medium">
+                    {nameOf(rel.sourceCharacterId)} {rel.direction === "directed" ? "→" : "↔"} {nameOf(rel.targetCharacterId)}
+                    <span className="ml-2 text-xs" style={{ color: RELATIONSHIP_COLORS[rel.type as RelationshipType] || RELATIONSHIP_COLORS.other }}>
+                      {getRelationshipTypeLabel(rel.type)}
+                    </span>
+                  </p>
+                  {rel.chapter && <p className="text-xs text-muted-foreground">自第{rel.chapter.order}章《{rel.chapter.title}》起</p>}
+                  {rel.description && <p className="text-xs text-muted-foreground line-clamp-2">{rel.description}</p>}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="py-6 text-sm text-center text-muted-foreground">{characters.length < 2 ? "需要至少两个角色才能建立关系" : "还没有角色关系"}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Loader2, Search } from "lucide-react";
+import { parseCodexAliases } from "@/lib/codex-utils";
+import { toast } from "sonner";
+
+// 提及所在的内容类型
+type RenameSource = "chapter" | "outline" | "character" | "story";
+
+// 预览中的单个提及
+interface RenameMention {
+  id: string;
+  source: RenameSource;
+  targetId: string;
+  field: string;
+  text: string;
+  replacement: string;
+  before: string;
+  after: string;
+}
+
+// 预览结果
+interface RenamePreview {
+  targets: Array<{ source: RenameSource; id: string; title: string; updatedAt: string; matchCount: number }>;
+  matches: RenameMention[];
+  total: number;
+  truncated: boolean;
+  termCounts: Record<string, number>;
+}
+
+interface CharacterRenameDialogProps {
+  storyId: string;
+  character: { id: string; name: string; aliases?: string | null } | null;
+  // 角色已通过编辑改名时传入原名称，只改写提及
+  previousName?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRenamed: (character: any) => void;
+}
+
+const SOURCE_LABELS: Record<RenameSource, string> = {
+  chapter: "章节",
+  outline: "大纲",
+  character: "角色描述",
+  story: "故事大纲",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "标题",
+  content: "正文",
+  summary: "摘要",
+  notes: "笔记",
+  description: "描述",
+  outline: "大纲",
+};
+
+/**
+ * 角色改名：预览名称和别名在章节、大纲和其他角色描述中的提及，确认后改写，改写前自动备份
+ */
+export function CharacterRenameDialog({ storyId, character, previousName, open, onOpenChange, onRenamed }: CharacterRenameDialogProps) {
+  const [newName, setNewName] = useState("");
+  const [aliasReplacements, setAliasReplacements] = useState<Record<string, string>>({});
+  const [keepOldNameAsAlias, setKeepOldNameAsAlias] = useState(false);
+  const [preview, setPreview] = useState<RenamePreview | null>(null);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const oldName = previousName || character?.name || "";
+  const aliases = useMemo(() => parseCodexAliases(character?.aliases).filter((alias) => alias !== oldName), [character, oldName]);
+
+  // 打开时重置
+  useEffect(() => {
+    if (open && character) {
+      setNewName(previousName ? character.name : "");
+      setAliasReplacements({});
+      setKeepOldNameAsAlias(false);
+      setPreview(null);
+      setAccepted(new Set());
+    }
+  }, [open, character, previousName]);
+
+  // 按来源分组的内容
+  const mentionsByTarget = useMemo(() => {
+    const groups = new Map<string, RenameMention[]>();
+    preview?.matches.forEach((match) => {
+      const key = `${match.source}:${match.targetId}`;
+      groups.set(key, [...(groups.get(key) || []), match]);
+    });
+    return groups;
+  }, [preview]);
+
+  const resetPreview = () => {
+    setPreview(null);
+    setAccepted(new Set());
+  };
+
+  const buildRequest = () => ({
+    newName,
+    previousName: previousName || undefined,
+    aliasReplacements,
+    keepOldNameAsAlias,
+  });
+
+  // 预览提及，默认接受所有会被改写的提及
+  const runPreview = async () => {
+    if (!character || !newName.trim()) return;
+
+    setIsPreviewing(true);
+    try {
+      const response = await fetch(`/api/user/story/${storyId}/character/${character.id}/rename`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...buildRequest(), dryRun: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "查找提及失败");
+      }
+
+      setPreview(data.data);
+      setAccepted(new Set(data.data.matches.filter((match: RenameMention) => match.text !== match.replacement).map((match: RenameMention) => match.id)));
+    } catch (error) {
+      console.error("查找角色提及错误:", error);
+      toast.error(error instanceof Error ? error.message : "查找提及失败");
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  // 改名并改写接受的提及
+  const applyRename = async () => {
+    if (!character || !preview) return;
+
+    setIsApplying(true);
+    try {
+      const response = await fetch(`/api/user/story/${storyId}/character/${character.id}/rename`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...buildRequest(),
+          matchIds: Array.from(accepted),
+          expectedUpdatedAt: Object.fromEntries(preview.targets.map((target) => [`${target.source}:${target.id}`, target.updatedAt])),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "角色改名失败");
+      }
+
+      toast.success(`角色已改名为「${data.data.character.name}」，改写了 ${data.data.replacedCount} 处提及`, {
+        description: "改名前的内容已备份，可在故事的「版本历史」中恢复",
+      });
+      onRenamed(data.data.character);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("角色改名错误:", error);
+      toast.error(error instanceof Error ? error.message : "角色改名失败");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const toggleMention = (mentionId: string, checked: boolean) => {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(mentionId);
+      else next.delete(mentionId);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>角色改名</DialogTitle>
+          <DialogDescription>
+            {previousName ? `角色已从「${previousName}」改名为「${character?.name}」，可同步改写正文等内容中的旧名称` : "改名时可同步改写章节、大纲和其他角色描述中对该角色的称呼"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label>原名称</Label>
+              <Input value={oldName} disabled />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rename-new-name">新名称</Label>
+              <Input
+                id="rename-new-name"
+                value={newName}
+                disabled={Boolean(previousName)}
+                onChange={(e) => {
+                  setNewName(e.target.value);
+                  resetPreview();
+                }}
+                placeholder="输入新名称"
+              />
+            </div>
+          </div>
+
+          {aliases.length > 0 && (
+            <div className="space-y-2">
+              <Label>别名（留空则保持不变，仅列出提及）</Label>
+              {aliases.map((alias) => (
+                <div key={alias} className="flex items-center gap-2">
+                  <span className="w-28 text-sm truncate">{alias}</span>
+                  <span className="text-muted-foreground">→</span>
+                  <Input
+                    value={aliasReplacements[alias] || ""}
+                    onChange={(e) => {
+                      setAliasReplacements((prev) => ({ ...prev, [alias]: e.target.value }));
+                      resetPreview();
+                    }}
+                    placeholder={alias}
+                    className="flex-1"
+                  />
+                  {preview && <Badge variant="secondary">{preview.termCounts[alias] || 0} 处</Badge>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Checkbox id="rename-keep-old" checked={keepOldNameAsAlias} onCheckedChange={(checked) => setKeepOldNameAsAlias(checked === true)} />
+            <Label htmlFor="rename-keep-old" className="font-normal">
+              将原名称保留为别名
+            </Label>
+          </div>
+
+          <Button variant="outline" onClick={runPreview} disabled={!newName.trim() || isPreviewing}>
+            {isPreviewing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Search className="w-4 h-4 mr-2" />}
+            查找提及
+          </Button>
+
+          {preview && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {preview.total > 0 ? `在 ${preview.targets.length} 处内容中找到 ${preview.total} 处提及，已选择 ${accepted.size} 处改写` : "没有找到提及，确认后只修改角色名称"}
+                {preview.truncated && `，仅显示前 ${preview.matches.length} 处`}
+              </p>
+              {preview.total > 0 && (
+                <ScrollArea className="h-[320px] pr-3">
+                  <div className="space-y-3">
+                    {preview.targets.map((target) => {
+                      const mentions = mentionsByTarget.get(`${target.source}:${target.id}`) || [];
+                      if (mentions.length === 0) return null;
+
+                      return (
+                        <div key={`${target.source}:${target.id}`} className="p-3 space-y-2 border rounded-md">
+                          <div className="flex items-center gap-2 text-sm">
+                            <Badge variant="outline">{SOURCE_LABELS[target.source]}</Badge>
+                            <span className="font-medium">{target.title}</span>
+                            <span className="text-xs text-muted-foreground">{target.matchCount} 处</span>
+                          </div>
+                          {mentions.map((mention) => {
+                            const changes = mention.text !== mention.replacement;
+                            return (
+                              <div key={mention.id} className="flex items-start gap-2 pl-2 text-sm">
+                                {changes ? (
+                                  <Checkbox className="mt-0.5" checked={accepted.has(mention.id)} onCheckedChange={(checked) => toggleMention(mention.id, checked === true)} />
+                                ) : (
+                                  <Badge variant="secondary" className="shrink-0">仅提及</Badge>
+                                )}
+                                {mention.field !== "content" && <span className="text-xs shrink-0 text-muted-foreground">{FIELD_LABELS[mention.field] || mention.field}</span>}
+                                <p className="break-all text-muted-foreground">
+                                  {mention.before}
+                                  {changes ? (
+                                    <>
+                                      <del className="px-0.5 text-red-700 bg-red-100 rounded dark:bg-red-900 dark:text-red-200">{mention.text}</del>
+                                      <ins className="px-0.5 no-underline text-green-700 bg-green-100 rounded dark:bg-green-900 dark:text-green-200">{mention.replacement}</ins>
+                                    </>
+                                  ) : (
+                                    <mark className="px-0.5 rounded bg-yellow-200 dark:bg-yellow-800">{mention.text}</mark>
+                                  )}
+                                  {mention.after}
+                                </p>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isApplying}>
+            取消
+          </Button>
+          <Button onClick={applyRename} disabled={!preview || isApplying}>
+            {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {previousName ? "改写所选提及" : "确认改名"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Save, X } from "lucide-react";
+import { CodexEntry, CodexEntryInput } from "@/lib/api-service";
+import { CODEX_ENTRY_TYPES, getCodexTypeLabel, parseCodexAliases, parseCodexFields } from "@/lib/codex-utils";
+import { toast } from "sonner";
+
+interface CodexEntryFormProps {
+  initialData?: CodexEntry;
+  defaultType?: string;
+  // 可供交叉引用的其他条目
+  entries: CodexEntry[];
+  onSubmit: (data: CodexEntryInput & { id?: string }) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function CodexEntryForm({ initialData, defaultType, entries, onSubmit, onCancel }: CodexEntryFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [type, setType] = useState(initialData?.type || defaultType || CODEX_ENTRY_TYPES[0].value);
+  const [name, setName] = useState(initialData?.name || "");
+  const [description, setDescription] = useState(initialData?.description || "");
+  const [aliasesText, setAliasesText] = useState(parseCodexAliases(initialData?.aliases).join("、"));
+  const [fields, setFields] = useState<Record<string, string>>(parseCodexFields(initialData?.fields));
+  const [newFieldKey, setNewFieldKey] = useState("");
+  const [newFieldValue, setNewFieldValue] = useState("");
+  const [linkedEntryIds, setLinkedEntryIds] = useState<string[]>(initialData?.links?.map((link) => link.id) || []);
+
+  const linkableEntries = entries.filter((entry) => entry.id !== initialData?.id);
+
+  // 添加自定义字段
+  const addField = () => {
+    if (newFieldKey.trim() && newFieldValue.trim()) {
+      setFields((prev) => ({
+        ...prev,
+        [newFieldKey.trim()]: newFieldValue.trim(),
+      }));
+      setNewFieldKey("");
+      setNewFieldValue("");
+    }
+  };
+
+  // 删除自定义字段
+  const removeField = (key: string) => {
+    setFields((prev) => {
+      const newFields = { ...prev };
+      delete newFields[key];
+      return newFields;
+    });
+  };
+
+  // 切换交叉引用
+  const toggleLink = (entryId: string, checked: boolean) => {
+    setLinkedEntryIds((prev) => (checked ? [...prev, entryId] : prev.filter((id) => id !== entryId)));
+  };
+
+  // 提交表单
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast.error("设定名称不能为空");
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await onSubmit({
+        id: initialData?.id,
+        type,
+        name: name.trim(),
+        description,
+        // 别名支持中文顿号、逗号和换行分隔
+        aliases: aliasesText.split(/[、,，\n]/).map((alias) => alias.trim()).filter(Boolean),
+        fields,
+        linkedEntryIds,
+      });
+      toast.success(initialData?.id ? "设定已更新" : "设定已创建");
+    } catch (error) {
+      console.error("提交设定表单失败:", error);
+      toast.error("保存设定失败，请重试");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="w-full shadow-lg border-primary/20">
+      <CardHeader className="pb-4 space-y-1 border-b bg-muted/30">
+        <CardTitle>{initialData?.id ? "编辑设定" : "创建新设定"}</CardTitle>
+      </CardHeader>
+      <form onSubmit={handleSubmit}>
+        <CardContent className="p-6 space-y-5">
+          {/* 类型与名称 */}
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>类型</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CODEX_ENTRY_TYPES.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label>名称</Label>
+              <Input placeholder="输入设定名称" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+          </div>
+
+          {/* 别名 */}
+          <div className="space-y-2">
+            <Label>别名</Label>
+            <Input placeholder="多个别名用顿号或逗号分隔，例如：帝都、天京" value={aliasesText} onChange={(e) => setAliasesText(e.target.value)} />
+          </div>
+
+          {/* 描述 */}
+          <div className="space-y-2">
+            <Label>描述</Label>
+            <Textarea placeholder="描述该设定的来历、特征、规则等" className="min-h-28" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+
+          {/* 自定义字段 */}
+          <div className="space-y-3">
+            <Label>自定义字段</Label>
+
+            {Object.keys(fields).length > 0 && (
+              <div className="grid grid-cols-1 gap-2 sm:grid-cols-2 md:grid-cols-3">
+                {Object.entries(fields).map(([key, value]) => (
+                  <div key={key} className="flex items-center p-2 border rounded-md gap-2 group">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-medium truncate">{key}</p>
+                      <p className="text-sm truncate">{value}</p>
+                    </div>
+                    <Button type="button" variant="ghost" size="sm" className="opacity-0 group-hover:opacity-100 h-7 w-7 p-0" onClick={() => removeField(key)}>
+                      <X className="w-3.5 h-3.5 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-col gap-3 sm:flex-row">
+              <Input placeholder="字段名称 (例如: 人口、代价)" value={newFieldKey} onChange={(e) => setNewFieldKey(e.target.value)} className="flex-1" />
+              <Input placeholder="字段值 (例如: 三十万、寿命)" value={newFieldValue} onChange={(e) => setNewFieldValue(e.target.value)} className="flex-1" />
+              <Button type="button" variant="outline" onClick={addField} disabled={!newFieldKey.trim() || !newFieldValue.trim()}>
+                添加
+              </Button>
+            </div>
+          </div>
+
+          {/* 交叉引用 */}
+          {linkableEntries.length > 0 && (
+            <div className="space-y-3">
+              <Label>相关设定</Label>
+              <div className="grid grid-cols-1 gap-2 p-3 overflow-y-auto border rounded-md sm:grid-cols-2 max-h-48">
+                {linkableEntries.map((entry) => (
+                  <label key={entry.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox checked={linkedEntryIds.includes(entry.id)} onCheckedChange={(checked) => toggleLink(entry.id, checked === true)} />
+                    <span className="truncate">{entry.name}</span>
+                    <span className="text-xs text-muted-foreground">{getCodexTypeLabel(entry.type)}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-between p-6 border-t bg-muted/20">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isLoading}>
+            取消
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                保存中...
+              </>
+            ) : (
+              <>
+                <Save className="w-4 h-4 mr-2" />
+                保存设定
+              </>
+            )}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
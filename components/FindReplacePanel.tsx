@@ -0,0 +1,366 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Loader2, Replace, Search } from "lucide-react";
+import { FindReplaceField } from "@/lib/find-replace";
+import { toast } from "sonner";
+
+// 预览中的单个匹配
+interface FindMatch {
+  id: string;
+  chapterId: string;
+  field: FindReplaceField;
+  text: string;
+  replacement: string;
+  before: string;
+  after: string;
+}
+
+// 预览结果
+interface FindPreview {
+  chapters: Array<{ id: string; title: string; order: number; updatedAt: string; matchCount: number }>;
+  matches: FindMatch[];
+  total: number;
+  truncated: boolean;
+}
+
+interface FindReplacePanelProps {
+  storyId: string;
+  chapters: Array<{ id: string; title: string; order: number }>;
+  onApplied?: () => void;
+}
+
+const FIELD_LABELS: Record<FindReplaceField, string> = {
+  content: "正文",
+  title: "标题",
+  summary: "摘要",
+  notes: "笔记",
+};
+
+/**
+ * 故事范围的查找替换：预览所有匹配及上下文，逐条确认后替换，替换前自动备份到版本历史
+ */
+export function FindReplacePanel({ storyId, chapters, onApplied }: FindReplacePanelProps) {
+  const [query, setQuery] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [regex, setRegex] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [fields, setFields] = useState<FindReplaceField[]>(["content"]);
+  const [selectedChapterIds, setSelectedChapterIds] = useState<string[]>([]);
+  const [preview, setPreview] = useState<FindPreview | null>(null);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const sortedChapters = useMemo(() => [...chapters].sort((a, b) => a.order - b.order), [chapters]);
+
+  // 按章节分组的匹配
+  const matchesByChapter = useMemo(() => {
+    const groups = new Map<string, FindMatch[]>();
+    preview?.matches.forEach((match) => {
+      groups.set(match.chapterId, [...(groups.get(match.chapterId) || []), match]);
+    });
+    return groups;
+  }, [preview]);
+
+  // 查找条件变化后预览失效
+  const resetPreview = () => {
+    setPreview(null);
+    setAccepted(new Set());
+  };
+
+  const buildRequest = () => ({
+    query,
+    replacement,
+    regex,
+    wholeWord,
+    caseSensitive,
+    fields,
+    chapterIds: selectedChapterIds.length > 0 ? selectedChapterIds : undefined,
+  });
+
+  // 预览匹配，默认全部接受
+  const runPreview = async () => {
+    if (!query) return;
+
+    setIsPreviewing(true);
+    try {
+      const response = await fetch(`/api/user/story/${storyId}/find-replace`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...buildRequest(), dryRun: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "查找失败");
+      }
+
+      setPreview(data.data);
+      setAccepted(new Set(data.data.matches.map((match: FindMatch) => match.id)));
+      if (data.data.total === 0) {
+        toast.info("没有找到匹配的内容");
+      }
+    } catch (error) {
+      console.error("查找错误:", error);
+      toast.error(error instanceof Error ? error.message : "查找失败");
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  // 替换接受的匹配
+  const applyReplace = async () => {
+    if (!preview) return;
+
+    setIsApplying(true);
+    try {
+      const response = await fetch(`/api/user/story/${storyId}/find-replace`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...buildRequest(),
+          matchIds: Array.from(accepted),
+          expectedUpdatedAt: Object.fromEntries(preview.chapters.map((chapter) => [chapter.id, chapter.updatedAt])),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "替换失败");
+      }
+
+      toast.success(`已在 ${data.data.chapterCount} 个章节中替换 ${data.data.replacedCount} 处`, {
+        description: "替换前的内容已备份，可在「版本历史」中恢复",
+      });
+      setConfirmOpen(false);
+      resetPreview();
+      onApplied?.();
+    } catch (error) {
+      console.error("替换错误:", error);
+      toast.error(error instanceof Error ? error.message : "替换失败");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const toggleField = (field: FindReplaceField, checked: boolean) => {
+    setFields((prev) => (checked ? [...prev.filter((item) => item !== field), field] : prev.filter((item) => item !== field)));
+    resetPreview();
+  };
+
+  const toggleChapter = (chapterId: string, checked: boolean) => {
+    setSelectedChapterIds((prev) => (checked ? [...prev, chapterId] : prev.filter((id) => id !== chapterId)));
+    resetPreview();
+  };
+
+  const toggleMatch = (matchId: string, checked: boolean) => {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(matchId);
+      else next.delete(matchId);
+      return next;
+    });
+  };
+
+  // 整章接受或取消
+  const toggleChapterMatches = (chapterId: string, checked: boolean) => {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      (matchesByChapter.get(chapterId) || []).forEach((match) => (checked ? next.add(match.id) : next.delete(match.id)));
+      return next;
+    });
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>查找替换</CardTitle>
+        <CardDescription>在整个故事或所选章节中查找替换，替换前会自动备份，可在版本历史中撤销</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="find-query">查找</Label>
+            <Input
+              id="find-query"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                resetPreview();
+              }}
+              onKeyDown={(e) => e.key === "Enter" && runPreview()}
+              placeholder={regex ? "正则表达式，例如：林(默|墨)" : "要查找的文字"}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="replace-with">替换为</Label>
+            <Input
+              id="replace-with"
+              value={replacement}
+              onChange={(e) => {
+                setReplacement(e.target.value);
+                resetPreview();
+              }}
+              placeholder={regex ? "可使用 $1、$<name> 引用分组" : "替换后的文字，留空则删除"}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-4">
+          {[
+            { id: "find-regex", label: "正则表达式", checked: regex, onChange: setRegex },
+            { id: "find-whole-word", label: "全词匹配", checked: wholeWord, onChange: setWholeWord },
+            { id: "find-case", label: "区分大小写", checked: caseSensitive, onChange: setCaseSensitive },
+          ].map((option) => (
+            <div key={option.id} className="flex items-center gap-2">
+              <Checkbox
+                id={option.id}
+                checked={option.checked}
+                onCheckedChange={(checked) => {
+                  option.onChange(checked === true);
+                  resetPreview();
+                }}
+              />
+              <Label htmlFor={option.id} className="font-normal">
+                {option.label}
+              </Label>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label>查找范围</Label>
+          <div className="flex flex-wrap gap-4">
+            {(Object.keys(FIELD_LABELS) as FindReplaceField[]).map((field) => (
+              <div key={field} className="flex items-center gap-2">
+                <Checkbox id={`find-field-${field}`} checked={fields.includes(field)} onCheckedChange={(checked) => toggleField(field, checked === true)} />
+                <Label htmlFor={`find-field-${field}`} className="font-normal">
+                  章节{FIELD_LABELS[field]}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>章节（{selectedChapterIds.length > 0 ? `已选 ${selectedChapterIds.length} 章` : "全部章节"}）</Label>
+            {selectedChapterIds.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setSelectedChapterIds([]);
+                  resetPreview();
+                }}
+              >
+                清除选择
+              </Button>
+            )}
+          </div>
+          <ScrollArea className="h-32 p-2 border rounded-md">
+            <div className="grid gap-1 sm:grid-cols-2">
+              {sortedChapters.map((chapter) => (
+                <div key={chapter.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`find-chapter-${chapter.id}`}
+                    checked={selectedChapterIds.includes(chapter.id)}
+                    onCheckedChange={(checked) => toggleChapter(chapter.id, checked === true)}
+                  />
+                  <Label htmlFor={`find-chapter-${chapter.id}`} className="font-normal truncate">
+                    {chapter.title}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={runPreview} disabled={!query || fields.length === 0 || isPreviewing}>
+            {isPreviewing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Search className="w-4 h-4 mr-2" />}
+            预览匹配
+          </Button>
+          <Button variant="destructive" onClick={() => setConfirmOpen(true)} disabled={!preview || accepted.size === 0 || isApplying}>
+            <Replace className="w-4 h-4 mr-2" />
+            替换所选 ({accepted.size})
+          </Button>
+        </div>
+
+        {preview && preview.total > 0 && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              在 {preview.chapters.length} 个章节中找到 {preview.total} 处匹配
+              {preview.truncated && `，仅显示前 ${preview.matches.length} 处，替换后可再次预览剩余的匹配`}
+            </p>
+            <ScrollArea className="h-[480px] pr-3">
+              <div className="space-y-4">
+                {preview.chapters.map((chapter) => {
+                  const chapterMatches = matchesByChapter.get(chapter.id) || [];
+                  if (chapterMatches.length === 0) return null;
+                  const allAccepted = chapterMatches.every((match) => accepted.has(match.id));
+
+                  return (
+                    <div key={chapter.id} className="p-3 space-y-2 border rounded-md">
+                      <div className="flex items-center gap-2">
+                        <Checkbox checked={allAccepted} onCheckedChange={(checked) => toggleChapterMatches(chapter.id, checked === true)} />
+                        <Link href={`/story/${storyId}/chapter/${chapter.id}`} className="font-medium hover:underline">
+                          {chapter.title}
+                        </Link>
+                        <Badge variant="secondary">{chapter.matchCount} 处</Badge>
+                      </div>
+                      {chapterMatches.map((match) => (
+                        <div key={match.id} className="flex items-start gap-2 pl-6 text-sm">
+                          <Checkbox className="mt-0.5" checked={accepted.has(match.id)} onCheckedChange={(checked) => toggleMatch(match.id, checked === true)} />
+                          {match.field !== "content" && <Badge variant="outline">{FIELD_LABELS[match.field]}</Badge>}
+                          <p className="break-all text-muted-foreground">
+                            {match.before}
+                            <del className="px-0.5 text-red-700 bg-red-100 rounded dark:bg-red-900 dark:text-red-200">{match.text}</del>
+                            {match.replacement && (
+                              <ins className="px-0.5 no-underline text-green-700 bg-green-100 rounded dark:bg-green-900 dark:text-green-200">{match.replacement}</ins>
+                            )}
+                            {match.after}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>确认替换</DialogTitle>
+            <DialogDescription>
+              将替换所选的 {accepted.size} 处匹配。替换前会自动创建版本备份，之后可在「版本历史」中恢复受影响的章节。
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmOpen(false)} disabled={isApplying}>
+              取消
+            </Button>
+            <Button variant="destructive" onClick={applyReplace} disabled={isApplying}>
+              {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              确认替换
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
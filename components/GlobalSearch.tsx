@@ -0,0 +1,219 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Search } from "lucide-react";
+import { searchContent } from "@/lib/api-service";
+import { SearchDocumentType, SearchField, SearchHit } from "@/lib/search-index";
+
+interface GlobalSearchProps {
+  storyId?: string; // 在故事页中使用时可限定为当前故事
+}
+
+// 输入停止后延迟搜索的时间（毫秒）
+const SEARCH_DEBOUNCE = 300;
+
+const TYPE_LABELS: Record<SearchDocumentType, string> = {
+  chapter: "章节",
+  character: "角色",
+  outline: "大纲",
+  story: "故事",
+};
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  content: "正文",
+  summary: "摘要",
+  notes: "笔记",
+  description: "描述",
+  outline: "大纲",
+};
+
+/**
+ * 命中结果的跳转地址；章节正文命中时带上搜索词和出现序号，编辑器据此定位
+ */
+function getHitHref(hit: SearchHit): string {
+  switch (hit.type) {
+    case "chapter":
+      return hit.field === "content" && hit.occurrence >= 0
+        ? `/story/${hit.storyId}/chapter/${hit.entityId}?q=${encodeURIComponent(hit.term)}&occurrence=${hit.occurrence}`
+        : `/story/${hit.storyId}/chapter/${hit.entityId}`;
+    case "character":
+      return `/story/${hit.storyId}/character`;
+    case "outline":
+      return hit.chapterId ? `/story/${hit.storyId}/chapter/${hit.chapterId}` : `/story/${hit.storyId}/outline`;
+    default:
+      return `/story/${hit.storyId}`;
+  }
+}
+
+/**
+ * 按高亮区间渲染片段
+ */
+function HighlightedSnippet({ hit }: { hit: SearchHit }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  hit.highlights.forEach((range, index) => {
+    if (range.start > cursor) parts.push(hit.snippet.slice(cursor, range.start));
+    parts.push(
+      <mark key={index} className="px-0.5 rounded bg-yellow-200 dark:bg-yellow-800">
+        {hit.snippet.slice(range.start, range.end)}
+      </mark>
+    );
+    cursor = range.end;
+  });
+  parts.push(hit.snippet.slice(cursor));
+
+  return <p className="text-sm break-all text-muted-foreground line-clamp-3">{parts}</p>;
+}
+
+/**
+ * 全局搜索：搜索所有故事的章节正文、摘要、笔记、角色描述和大纲，按 Ctrl/⌘ + K 打开
+ */
+export function GlobalSearch({ storyId }: GlobalSearchProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [type, setType] = useState<SearchDocumentType | "all">("all");
+  const [currentStoryOnly, setCurrentStoryOnly] = useState(Boolean(storyId));
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 快捷键打开搜索
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOpen(true);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // 输入停止后搜索
+  useEffect(() => {
+    if (!open || !query.trim()) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const hits = await searchContent(query.trim(), {
+          storyId: storyId && currentStoryOnly ? storyId : undefined,
+          types: type === "all" ? undefined : [type],
+        });
+        if (!cancelled) {
+          setResults(hits);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "搜索失败");
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, query, type, currentStoryOnly, storyId]);
+
+  const handleSelect = (hit: SearchHit) => {
+    setOpen(false);
+    router.push(getHitHref(hit));
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)} className="gap-2 text-muted-foreground">
+        <Search className="w-4 h-4" />
+        搜索
+        <kbd className="hidden px-1.5 text-[10px] border rounded sm:inline-block">Ctrl K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>全文搜索</DialogTitle>
+            <DialogDescription>搜索章节正文、摘要、笔记、角色描述和大纲；多个关键词用空格分隔，短语可用英文双引号包裹</DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative flex-1 min-w-[200px]">
+              <Search className="absolute w-4 h-4 -translate-y-1/2 left-3 top-1/2 text-muted-foreground" />
+              <Input autoFocus value={query} onChange={(e) => setQuery(e.target.value)} placeholder="例如：林默 剑" className="pl-9" />
+            </div>
+            <Select value={type} onValueChange={(value) => setType(value as SearchDocumentType | "all")}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">全部</SelectItem>
+                {(Object.keys(TYPE_LABELS) as SearchDocumentType[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {TYPE_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {storyId && (
+              <div className="flex items-center gap-2">
+                <Checkbox id="search-current-story" checked={currentStoryOnly} onCheckedChange={(checked) => setCurrentStoryOnly(checked === true)} />
+                <Label htmlFor="search-current-story" className="font-normal">
+                  仅当前故事
+                </Label>
+              </div>
+            )}
+          </div>
+
+          <ScrollArea className="h-[420px] pr-3">
+            {isSearching && results.length === 0 ? (
+              <div className="flex items-center justify-center py-10 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                搜索中...
+              </div>
+            ) : error ? (
+              <p className="py-10 text-sm text-center text-red-500">{error}</p>
+            ) : results.length > 0 ? (
+              <div className="space-y-2">
+                {results.map((hit) => (
+                  <div
+                    key={`${hit.type}:${hit.entityId}:${hit.field}`}
+                    onClick={() => handleSelect(hit)}
+                    className="p-3 space-y-1 transition-colors border rounded-md cursor-pointer hover:border-primary/50 hover:bg-muted/30"
+                  >
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <Badge variant="secondary">{TYPE_LABELS[hit.type]}</Badge>
+                      <span className="font-medium">{hit.title || "未命名"}</span>
+                      <span className="text-xs text-muted-foreground">
+                        《{hit.storyTitle}》· {FIELD_LABELS[hit.field]}
+                      </span>
+                    </div>
+                    {hit.snippet.trim() && <HighlightedSnippet hit={hit} />}
+                  </div>
+                ))}
+              </div>
+            ) : query.trim() && !isSearching ? (
+              <p className="py-10 text-sm text-center text-muted-foreground">没有找到匹配的内容</p>
+            ) : null}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -7,14 +7,15 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Sparkles, Save, BookText, Users, Wand, MessageSquare, AlertCircle, RefreshCw, Check, PanelRightOpen, PanelRightClose } from "lucide-react";
+import { Sparkles, Save, BookText, Users, Wand, MessageSquare, AlertCircle, RefreshCw, Check, PanelRightOpen, PanelRightClose, Plus, Trash2 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from "@/components/ui/dialog";
 import { toast } from "sonner";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { getAiAssistance, analyzeConsistency } from "@/lib/api-service";
+import { Input } from "@/components/ui/input";
+import { getAiAssistance, analyzeConsistency, getScenes, createScene, updateScene, deleteScene, generateSceneFromOutline, Scene, SceneInput } from "@/lib/api-service";
 import { useAutoSave } from "@/lib/auto-save";
 
 // 定义类型
@@ -37,6 +38,16 @@ interface ConsistencyCheckResult {
   summary: string;
 }
 
+// 场景设定字段（正文之外的可编辑内容）
+const SCENE_FIELDS: { key: keyof SceneInput; label: string; placeholder: string }[] = [
+  { key: "title", label: "标题", placeholder: "场景标题" },
+  { key: "location", label: "地点", placeholder: "场景发生的地点" },
+  { key: "summary", label: "摘要", placeholder: "这个场景发生了什么" },
+  { key: "goal", label: "目标", placeholder: "视角角色想要达成什么" },
+  { key: "conflict", label: "冲突", placeholder: "是什么阻碍了目标" },
+  { key: "outcome", label: "结果", placeholder: "场景如何收尾" },
+];
+
 interface EditorProps {
   initialContent?: string;
   onSave?: (content: string) => Promise<void>;
@@ -62,15 +73,24 @@ export function InteractiveEditor({ initialContent = "", onSave, storyId, charac
   const [specificRequest, setSpecificRequest] = useState("");
   const [showAiDialog, setShowAiDialog] = useState(false);
   const [saveStatus, setSaveStatus] = useState<"saved" | "saving" | "error">("saved");
+  // 场景编辑：存在场景时正文编辑区只编辑当前场景
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [activeSceneId, setActiveSceneId] = useState<string | null>(null);
 
   const editorRef = useRef<HTMLTextAreaElement>(null);
   const params = useParams();
 
+  const activeScene = scenes.find((scene) => scene.id === activeSceneId) || null;
+
+  // 自动保存的内容带上所属场景，避免切换场景后保存到错误的场景
   const { isSaving, lastSaved, forceSave } = useAutoSave(
-    content,
-    async (currentContent) => {
-      if (onSave) {
-        await onSave(currentContent);
+    { sceneId: activeSceneId, content },
+    async (current) => {
+      if (current.sceneId && chapterId) {
+        await updateScene(storyId, chapterId, current.sceneId, { content: current.content });
+        setScenes((prev) => prev.map((scene) => (scene.id === current.sceneId ? { ...scene, content: current.content } : scene)));
+      } else if (onSave) {
+        await onSave(current.content);
       }
     },
     {
@@ -98,6 +118,113 @@ export function InteractiveEditor({ initialContent = "", onSave, storyId, charac
     }
   }, [initialContent]);
 
+  // 加载章节的场景
+  useEffect(() => {
+    if (!chapterId) return;
+
+    getScenes(storyId, chapterId)
+      .then((loadedScenes) => {
+        setScenes(loadedScenes);
+        if (loadedScenes.length > 0) {
+          setActiveSceneId(loadedScenes[0].id);
+          setContent(loadedScenes[0].content);
+        }
+      })
+      .catch((error) => console.error("加载场景失败:", error));
+  }, [storyId, chapterId]);
+
+  // 切换场景前先保存当前场景
+  const selectScene = async (sceneId: string) => {
+    if (sceneId === activeSceneId) return;
+
+    await forceSave();
+    const target = scenes.find((scene) => scene.id === sceneId);
+    if (target) {
+      setActiveSceneId(target.id);
+      setContent(target.content);
+      setSelectedText("");
+    }
+  };
+
+  // 新建场景；章节尚无场景时，把当前正文作为第一个场景
+  const handleAddScene = async () => {
+    if (!chapterId) return;
+
+    setIsLoading(true);
+    try {
+      await forceSave();
+      const scene = await createScene(storyId, chapterId, {
+        content: scenes.length === 0 ? content : "",
+      });
+      setScenes((prev) => [...prev, scene]);
+      setActiveSceneId(scene.id);
+      setContent(scene.content);
+      toast.success("已添加场景");
+    } catch (error) {
+      toast.error("添加场景失败");
+      console.error("添加场景错误:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 删除当前场景
+  const handleDeleteScene = async () => {
+    if (!chapterId || !activeScene) return;
+    if (!window.confirm(`确定要删除场景${activeScene.order}吗？此操作不可撤销。`)) return;
+
+    setIsLoading(true);
+    try {
+      await deleteScene(storyId, chapterId, activeScene.id);
+      const remaining = scenes.filter((scene) => scene.id !== activeScene.id).map((scene, index) => ({ ...scene, order: index + 1 }));
+      setScenes(remaining);
+      setActiveSceneId(remaining[0]?.id || null);
+      setContent(remaining[0]?.content || "");
+      toast.success("场景已删除");
+    } catch (error) {
+      toast.error("删除场景失败");
+      console.error("删除场景错误:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 更新当前场景的设定字段（本地）
+  const handleSceneFieldChange = (field: keyof SceneInput, value: string | null) => {
+    setScenes((prev) => prev.map((scene) => (scene.id === activeSceneId ? { ...scene, [field]: value } : scene)));
+  };
+
+  // 保存当前场景的设定字段
+  const saveSceneField = async (field: keyof SceneInput, value: string | null) => {
+    if (!chapterId || !activeSceneId) return;
+
+    try {
+      await updateScene(storyId, chapterId, activeSceneId, { [field]: value });
+    } catch (error) {
+      toast.error("保存场景设定失败");
+      console.error("保存场景设定错误:", error);
+    }
+  };
+
+  // 根据场景设定由AI重新生成当前场景
+  const handleGenerateScene = async () => {
+    if (!chapterId || !activeSceneId) return;
+    if (content.trim() && !window.confirm("重新生成将替换当前场景的正文，确定继续吗？")) return;
+
+    setIsLoading(true);
+    try {
+      await forceSave();
+      const result = await generateSceneFromOutline(storyId, chapterId, { sceneId: activeSceneId });
+      setContent(result.content);
+      toast.success("场景已重新生成");
+    } catch (error) {
+      toast.error("生成场景失败");
+      console.error("生成场景错误:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // 处理文本选择
   const handleTextSelect = () => {
     if (editorRef.current) {
@@ -268,6 +395,76 @@ export function InteractiveEditor({ initialContent = "", onSave, storyId, charac
           )}
         </div>
 
+        {/* 场景列表和当前场景设定 */}
+        {chapterId && (
+          <div className="mb-3 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              {scenes.map((scene) => (
+                <Button key={scene.id} variant={scene.id === activeSceneId ? "default" : "outline"} size="sm" onClick={() => selectScene(scene.id)} disabled={isLoading}>
+                  场景{scene.order}
+                  {scene.title ? `：${scene.title}` : ""}
+                </Button>
+              ))}
+              <Button variant="ghost" size="sm" onClick={handleAddScene} disabled={isLoading}>
+                <Plus className="w-4 h-4 mr-1" />
+                {scenes.length === 0 ? "按场景编辑" : "新建场景"}
+              </Button>
+            </div>
+
+            {activeScene && (
+              <Card>
+                <CardContent className="grid grid-cols-2 gap-3 p-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">视角角色</Label>
+                    <Select
+                      value={activeScene.povCharacterId || "none"}
+                      onValueChange={(value: string) => {
+                        const povCharacterId = value === "none" ? null : value;
+                        handleSceneFieldChange("povCharacterId", povCharacterId);
+                        saveSceneField("povCharacterId", povCharacterId);
+                      }}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue placeholder="选择视角角色" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">未指定</SelectItem>
+                        {characters.map((character) => (
+                          <SelectItem key={character.id} value={character.id}>
+                            {character.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {SCENE_FIELDS.map((field) => (
+                    <div key={field.key} className="space-y-1">
+                      <Label className="text-xs">{field.label}</Label>
+                      <Input
+                        className="h-8"
+                        value={(activeScene[field.key as keyof Scene] as string) || ""}
+                        placeholder={field.placeholder}
+                        onChange={(e) => handleSceneFieldChange(field.key, e.target.value)}
+                        onBlur={(e) => saveSceneField(field.key, e.target.value)}
+                      />
+                    </div>
+                  ))}
+                  <div className="flex items-end justify-end col-span-2 gap-2">
+                    <Button variant="outline" size="sm" onClick={handleGenerateScene} disabled={isLoading}>
+                      <Wand className="w-4 h-4 mr-2" />
+                      AI生成本场景
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={handleDeleteScene} disabled={isLoading}>
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      删除场景
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+
         <Textarea ref={editorRef} value={content} onChange={(e) => setContent(e.target.value)} onSelect={handleTextSelect} className="flex-1 min-h-[70vh] text-base leading-relaxed p-4" placeholder="开始创作您的内容..." />
 
         {/* AI辅助对话框 */}
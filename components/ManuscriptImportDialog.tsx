@@ -0,0 +1,410 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, X } from "lucide-react";
+import {
+  HEADING_PATTERNS,
+  detectHeadings,
+  findHeadingCandidates,
+  splitManuscript,
+  splitManuscriptLines,
+  HeadingBoundary,
+  HeadingPatternId,
+  ManuscriptFormat,
+} from "@/lib/manuscript-import";
+import { convertDocxToHtml } from "@/lib/docx-import";
+import {
+  importEpub,
+  importManuscript,
+  importProjectArchive,
+  previewEpubImport,
+  previewProjectImport,
+  EpubImportPreview,
+  ProjectArchivePreview,
+} from "@/lib/api-service";
+import { toast } from "sonner";
+
+interface ManuscriptImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (storyId: string) => void;
+}
+
+/**
+ * 读取书稿文件：优先按 UTF-8 解码，失败时按 GB18030 解码（兼容常见的 GBK 编码中文 TXT）
+ */
+async function readManuscriptFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("gb18030").decode(buffer);
+  }
+}
+
+/**
+ * 书稿导入：选择 TXT / Markdown / DOCX 文件，按标题规则识别章节，预览并调整分界后导入为新故事
+ * DOCX 在浏览器中转换为 HTML，Word 的标题样式作为章节和分卷标题；EPUB 由服务端按目录拆分章节，只能预览
+ * 项目存档（ZIP）按导出时的结构原样还原，不做章节识别
+ */
+export function ManuscriptImportDialog({ open, onOpenChange, onImported }: ManuscriptImportDialogProps) {
+  const [fileName, setFileName] = useState("");
+  const [text, setText] = useState("");
+  const [title, setTitle] = useState("");
+  const [format, setFormat] = useState<ManuscriptFormat>("text");
+  const [patterns, setPatterns] = useState<HeadingPatternId[]>(["chinese", "english"]);
+  const [customPattern, setCustomPattern] = useState("");
+  const [headingLevel, setHeadingLevel] = useState("auto");
+  const [boundaries, setBoundaries] = useState<HeadingBoundary[]>([]);
+  const [patternError, setPatternError] = useState("");
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [prefaceAsChapter, setPrefaceAsChapter] = useState(false);
+  const [epubFile, setEpubFile] = useState<File | null>(null);
+  const [epubPreview, setEpubPreview] = useState<EpubImportPreview | null>(null);
+  const [projectFile, setProjectFile] = useState<File | null>(null);
+  const [projectPreview, setProjectPreview] = useState<ProjectArchivePreview | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const lines = useMemo(() => splitManuscriptLines(text, format), [text, format]);
+
+  // 打开时重置
+  useEffect(() => {
+    if (open) {
+      setFileName("");
+      setText("");
+      setTitle("");
+      setCustomPattern("");
+      setHeadingLevel("auto");
+      setBoundaries([]);
+      setWarnings([]);
+      setPrefaceAsChapter(false);
+      setEpubFile(null);
+      setEpubPreview(null);
+      setProjectFile(null);
+      setProjectPreview(null);
+    }
+  }, [open]);
+
+  // 标题规则变化时重新识别分界，之前的手动调整会被覆盖
+  useEffect(() => {
+    if (!text) return;
+    try {
+      setBoundaries(
+        detectHeadings(lines, format, {
+          patterns,
+          customPattern: customPattern.trim() || undefined,
+          headingLevel: headingLevel === "auto" ? undefined : Number(headingLevel),
+        })
+      );
+      setPatternError("");
+    } catch (error) {
+      setPatternError(error instanceof Error ? error.message : "标题正则无效");
+    }
+  }, [text, lines, format, patterns, customPattern, headingLevel]);
+
+  const sortedBoundaries = useMemo(() => [...boundaries].sort((a, b) => a.line - b.line), [boundaries]);
+  const manuscript = useMemo(() => splitManuscript(lines, boundaries, format), [lines, boundaries, format]);
+  const candidates = useMemo(() => findHeadingCandidates(lines, boundaries, format), [lines, boundaries, format]);
+  const wordCounts = useMemo(() => new Map(manuscript.chapters.map((chapter) => [chapter.startLine, chapter.wordCount])), [manuscript]);
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+
+    if (/\.epub$/i.test(file.name)) {
+      setIsParsing(true);
+      try {
+        const preview = await previewEpubImport(file);
+        setFileName(file.name);
+        setTitle(preview.title);
+        setText("");
+        setEpubFile(file);
+        setEpubPreview(preview);
+        setProjectFile(null);
+        setProjectPreview(null);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "解析 EPUB 失败");
+      } finally {
+        setIsParsing(false);
+      }
+      return;
+    }
+
+    if (/\.zip$/i.test(file.name)) {
+      setIsParsing(true);
+      try {
+        const preview = await previewProjectImport(file);
+        setFileName(file.name);
+        setTitle(preview.title);
+        setText("");
+        setProjectFile(file);
+        setProjectPreview(preview);
+        setEpubFile(null);
+        setEpubPreview(null);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "读取项目存档失败");
+      } finally {
+        setIsParsing(false);
+      }
+      return;
+    }
+
+    setEpubFile(null);
+    setEpubPreview(null);
+    setProjectFile(null);
+    setProjectPreview(null);
+    try {
+      let content: string;
+      let fileFormat: ManuscriptFormat;
+      if (/\.docx$/i.test(file.name)) {
+        const converted = await convertDocxToHtml(await file.arrayBuffer());
+        content = converted.html;
+        fileFormat = "html";
+        setWarnings(converted.warnings);
+      } else {
+        content = await readManuscriptFile(file);
+        fileFormat = /\.(md|markdown)$/i.test(file.name) ? "markdown" : "text";
+        setWarnings([]);
+      }
+
+      setFileName(file.name);
+      setTitle(file.name.replace(/\.[^.]+$/, ""));
+      setFormat(fileFormat);
+      setPatterns(fileFormat === "text" ? ["chinese", "english"] : ["heading", "chinese", "english"]);
+      setText(content);
+    } catch (error) {
+      console.error("读取书稿错误:", error);
+      toast.error("读取文件失败");
+    }
+  };
+
+  const togglePattern = (pattern: HeadingPatternId, checked: boolean) => {
+    setPatterns((prev) => (checked ? [...prev, pattern] : prev.filter((item) => item !== pattern)));
+  };
+
+  const updateBoundary = (line: number, changes: Partial<HeadingBoundary>) => {
+    setBoundaries((prev) => prev.map((boundary) => (boundary.line === line ? { ...boundary, ...changes } : boundary)));
+  };
+
+  const removeBoundary = (line: number) => {
+    setBoundaries((prev) => prev.filter((boundary) => boundary.line !== line));
+  };
+
+  const addBoundary = (line: number, title: string) => {
+    setBoundaries((prev) => [...prev, { line, title, kind: "chapter" }]);
+  };
+
+  const handleImport = async () => {
+    if ((!text && !epubFile && !projectFile) || !title.trim()) return;
+
+    setIsImporting(true);
+    try {
+      const result = projectFile
+        ? await importProjectArchive(projectFile, title.trim())
+        : epubFile
+        ? await importEpub(epubFile, title.trim())
+        : await importManuscript({
+            title: title.trim(),
+            content: text,
+            format,
+            boundaries: sortedBoundaries,
+            prefaceAsChapter,
+          });
+      toast.success(`已导入「${title.trim()}」，共 ${result.chapterCount} 章`);
+      onOpenChange(false);
+      onImported(result.storyId);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "导入书稿失败");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>导入书稿</DialogTitle>
+          <DialogDescription>支持 TXT、Markdown、Word（DOCX）和 EPUB 文件，按章节标题或目录拆分为章节，导入前可调整识别出的章节分界；也可导入从本应用导出的项目存档（ZIP）</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="manuscript-file">书稿文件</Label>
+              <Input id="manuscript-file" type="file" accept=".txt,.md,.markdown,.docx,.epub,.zip,text/plain,text/markdown,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/epub+zip,application/zip" disabled={isParsing} onChange={(e) => handleFileChange(e.target.files?.[0])} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="manuscript-title">故事标题</Label>
+              <Input id="manuscript-title" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="输入故事标题" />
+            </div>
+          </div>
+
+          {isParsing && (
+            <p className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              正在解析文件...
+            </p>
+          )}
+
+          {epubPreview && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {fileName}：{epubPreview.author ? `作者 ${epubPreview.author}，` : ""}共 {epubPreview.chapters.length} 章
+                {epubPreview.volumes.length > 0 && `、${epubPreview.volumes.length} 卷`}
+                {epubPreview.hasCover && "，包含封面"}
+              </p>
+
+              <ScrollArea className="h-[280px] pr-3">
+                <div className="space-y-1">
+                  {epubPreview.chapters.map((chapter, index) => (
+                    <div key={index} className="flex items-center gap-2 text-sm">
+                      {chapter.volumeTitle && <Badge variant="outline" className="shrink-0">{chapter.volumeTitle}</Badge>}
+                      <span className="flex-1 truncate">{chapter.title}</span>
+                      <span className="w-20 text-xs text-right shrink-0 text-muted-foreground">{chapter.wordCount} 字</span>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </>
+          )}
+
+          {projectPreview && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {fileName}：{projectPreview.author ? `作者 ${projectPreview.author}，` : ""}共 {projectPreview.stats.chapters} 章
+                {projectPreview.volumes.length > 0 && `、${projectPreview.volumes.length} 卷`}
+                {`、${projectPreview.stats.characters} 个角色、${projectPreview.stats.outlineNodes} 个大纲节点、${projectPreview.stats.codexEntries} 个设定条目`}
+                {projectPreview.stats.storyVersions + projectPreview.stats.chapterVersions > 0 && "，包含版本历史"}
+                {projectPreview.hasCover && "，包含封面"}
+              </p>
+
+              <ScrollArea className="h-[280px] pr-3">
+                <div className="space-y-1">
+                  {projectPreview.chapters.map((chapter, index) => (
+                    <div key={index} className="flex items-center gap-2 text-sm">
+                      {chapter.volumeTitle && <Badge variant="outline" className="shrink-0">{chapter.volumeTitle}</Badge>}
+                      <span className="flex-1 truncate">{chapter.title}</span>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </>
+          )}
+
+          {text && (
+            <>
+              <div className="space-y-2">
+                <Label>章节标题规则</Label>
+                <div className="flex flex-wrap gap-4">
+                  {HEADING_PATTERNS.filter((pattern) => pattern.id !== "heading" || format !== "text").map((pattern) => (
+                    <div key={pattern.id} className="flex items-center gap-2">
+                      <Checkbox id={`pattern-${pattern.id}`} checked={patterns.includes(pattern.id)} onCheckedChange={(checked) => togglePattern(pattern.id, checked === true)} />
+                      <Label htmlFor={`pattern-${pattern.id}`} className="font-normal" title={pattern.example}>
+                        {pattern.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Input value={customPattern} onChange={(e) => setCustomPattern(e.target.value)} placeholder="自定义标题正则，如 ^【.+】$" className="flex-1" />
+                  {format !== "text" && patterns.includes("heading") && (
+                    <Select value={headingLevel} onValueChange={setHeadingLevel}>
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">自动选择级别</SelectItem>
+                        {[1, 2, 3, 4].map((level) => (
+                          <SelectItem key={level} value={String(level)}>
+                            {format === "markdown" ? "#".repeat(level) : `标题 ${level}`} 作为章节
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                {patternError && <p className="text-sm text-destructive">{patternError}</p>}
+                {warnings.length > 0 && (
+                  <p className="text-xs text-muted-foreground" title={warnings.join("\n")}>
+                    转换 Word 文档时有 {warnings.length} 条提示（如未识别的样式），对应内容按普通段落导入
+                  </p>
+                )}
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                {fileName}：共 {lines.length} 行，识别出 {manuscript.chapters.length} 章
+                {manuscript.volumes.length > 0 && `、${manuscript.volumes.length} 卷`}
+              </p>
+
+              <ScrollArea className="h-[280px] pr-3">
+                <div className="space-y-2">
+                  {sortedBoundaries.map((boundary) => (
+                    <div key={boundary.line} className="flex items-center gap-2">
+                      <span className="w-16 text-xs shrink-0 text-muted-foreground">第 {boundary.line + 1} 行</span>
+                      <Button variant="outline" size="sm" className="w-10 h-8 shrink-0" onClick={() => updateBoundary(boundary.line, { kind: boundary.kind === "chapter" ? "volume" : "chapter" })} title="切换章节 / 分卷">
+                        {boundary.kind === "chapter" ? "章" : "卷"}
+                      </Button>
+                      <Input value={boundary.title} onChange={(e) => updateBoundary(boundary.line, { title: e.target.value })} className="h-8" />
+                      <span className="w-20 text-xs text-right shrink-0 text-muted-foreground">{wordCounts.has(boundary.line) ? `${wordCounts.get(boundary.line)} 字` : "分卷"}</span>
+                      <Button variant="ghost" size="sm" className="w-8 h-8 p-0 shrink-0" onClick={() => removeBoundary(boundary.line)} title="移除分界，内容并入上一章">
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  {candidates.length > 0 && (
+                    <div className="pt-3 space-y-1 border-t">
+                      <p className="text-xs text-muted-foreground">可能是标题的独立短行</p>
+                      <div className="flex flex-wrap gap-1.5">
+                        {candidates.map((candidate) => (
+                          <Badge key={candidate.line} variant="outline" className="gap-1 cursor-pointer hover:bg-muted" onClick={() => addBoundary(candidate.line, candidate.text)}>
+                            <Plus className="w-3 h-3" />
+                            {candidate.text}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </ScrollArea>
+
+              {manuscript.preface && (
+                <Alert>
+                  <AlertDescription className="space-y-2">
+                    <p className="line-clamp-2">第一个标题之前有 {manuscript.preface.replace(/\s/g, "").length} 字：{manuscript.preface.slice(0, 60)}</p>
+                    <div className="flex items-center gap-2">
+                      <Checkbox id="preface-as-chapter" checked={prefaceAsChapter} onCheckedChange={(checked) => setPrefaceAsChapter(checked === true)} />
+                      <Label htmlFor="preface-as-chapter" className="font-normal">
+                        作为“前言”章节导入（否则保存为故事正文）
+                      </Label>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>
+            取消
+          </Button>
+          <Button onClick={handleImport} disabled={(!text && !epubPreview && !projectPreview) || !title.trim() || (Boolean(text) && Boolean(patternError)) || isImporting}>
+            {isImporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            导入
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
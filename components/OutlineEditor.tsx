@@ -8,8 +8,15 @@ import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Save, Loader2, ListTree, BookText, Plus, Trash2, MoveDown, MoveUp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { getChapters, getOutlineTree, saveOutlineTree, Chapter } from "@/lib/api-service";
+import { OUTLINE_NODE_STATUSES, OUTLINE_NODE_TYPES, OUTLINE_NODE_TYPE_LABELS, OutlineNodeStatus, OutlineNodeType, OutlineTreeNode, outlineTreeToText } from "@/lib/outline-tree";
 
-interface OutlineItem {
+// 旧版JSON大纲中的扁平条目，仅用于迁移到大纲树
+interface LegacyOutlineItem {
   id: string;
   title: string;
   description: string;
@@ -18,137 +25,241 @@ interface OutlineItem {
 
 interface OutlineEditorProps {
   storyId: string;
-  initialOutline?: string; // JSON格式的大纲结构
-  onSave: (outline: string) => Promise<void>; // 保存大纲为JSON字符串
+  initialOutline?: string; // 自由格式的大纲文本（旧版可能为JSON格式的扁平列表）
+  onSave: (outline: string) => Promise<void>; // 保存自由格式大纲文本
 }
 
+// 生成新节点的临时ID，保存后由服务器替换为正式ID
+const createTempId = () => `outline-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createNode = (type: OutlineNodeType, title: string, order: number): OutlineTreeNode => ({
+  id: createTempId(),
+  type,
+  title,
+  description: "",
+  order,
+  status: "planned",
+  targetWordCount: null,
+  chapterId: null,
+  children: [],
+});
+
+// 在树中更新指定节点所在的同级列表
+const updateSiblings = (nodes: OutlineTreeNode[], id: string, update: (siblings: OutlineTreeNode[], index: number) => OutlineTreeNode[]): OutlineTreeNode[] => {
+  const index = nodes.findIndex((node) => node.id === id);
+  if (index !== -1) {
+    return update([...nodes], index);
+  }
+  return nodes.map((node) => ({ ...node, children: updateSiblings(node.children, id, update) }));
+};
+
 export function OutlineEditor({ storyId, initialOutline, onSave }: OutlineEditorProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState("structured");
   const [freeformContent, setFreeformContent] = useState("");
-  const [structuredOutline, setStructuredOutline] = useState<OutlineItem[]>([]);
-  const [newItemTitle, setNewItemTitle] = useState("");
+  const [tree, setTree] = useState<OutlineTreeNode[]>([]);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [newActTitle, setNewActTitle] = useState("");
 
-  // 初始化大纲内容
+  // 初始化自由格式大纲内容
   useEffect(() => {
     if (initialOutline) {
+      setFreeformContent(initialOutline);
+    }
+  }, [initialOutline]);
+
+  // 加载大纲树和可关联的章节
+  useEffect(() => {
+    const loadTree = async () => {
       try {
-        // 尝试解析为结构化大纲
-        const parsedOutline = JSON.parse(initialOutline);
-
-        if (Array.isArray(parsedOutline)) {
-          setStructuredOutline(parsedOutline);
-          // 同时更新自由格式内容，以便在两种视图之间切换
-          setFreeformContent(convertStructuredToFreeform(parsedOutline));
-        } else {
-          // 如果不是数组，可能是自由格式的文本
-          setFreeformContent(initialOutline);
-          setStructuredOutline([]); // 清空结构化大纲
+        const [loadedTree, loadedChapters] = await Promise.all([getOutlineTree(storyId), getChapters(storyId)]);
+        setChapters(loadedChapters);
+
+        if (loadedTree.length > 0) {
+          setTree(loadedTree);
+          return;
+        }
+
+        // 尚无大纲树时，把旧版JSON扁平大纲迁移为一幕下的章节节点（保存后生效）
+        if (initialOutline) {
+          try {
+            const parsedOutline = JSON.parse(initialOutline);
+            if (Array.isArray(parsedOutline) && parsedOutline.length > 0) {
+              const act = createNode("act", "第一幕", 1);
+              act.children = (parsedOutline as LegacyOutlineItem[])
+                .sort((a, b) => a.order - b.order)
+                .map((item, index) => ({ ...createNode("chapter", item.title, index + 1), description: item.description || "" }));
+              setTree([act]);
+              setFreeformContent(outlineTreeToText([act]));
+            }
+          } catch (error) {
+            // 自由格式文本，无需迁移
+          }
         }
       } catch (error) {
-        // 如果解析失败，假设它是自由格式的文本
-        console.error("解析大纲失败:", error);
-        setFreeformContent(initialOutline);
-        setStructuredOutline([]);
+        console.error("加载大纲树失败:", error);
       }
-    }
-  }, [initialOutline]);
+    };
 
-  // 转换结构化大纲为自由格式文本
-  const convertStructuredToFreeform = (items: OutlineItem[]): string => {
-    return items
-      .sort((a, b) => a.order - b.order)
-      .map((item) => `## ${item.title}\n${item.description}`)
-      .join("\n\n");
-  };
+    loadTree();
+  }, [storyId, initialOutline]);
 
   // 保存大纲
   const handleSave = async () => {
     try {
       setIsLoading(true);
 
-      // 根据当前活动的视图选择要保存的内容
-      let outlineToSave: string;
-
       if (activeTab === "structured") {
-        // 保存结构化大纲
-        outlineToSave = JSON.stringify(structuredOutline);
+        // 保存结构化大纲树，用服务器返回的正式ID替换临时ID
+        const savedTree = await saveOutlineTree(storyId, tree);
+        setTree(savedTree);
+        toast.success("大纲树已保存");
       } else {
         // 保存自由格式内容
-        outlineToSave = freeformContent;
+        await onSave(freeformContent);
       }
-
-      await onSave(outlineToSave);
     } catch (error) {
       console.error("保存大纲失败:", error);
+      toast.error("保存大纲失败");
     } finally {
       setIsLoading(false);
     }
   };
 
-  // 添加新大纲项目
-  const addOutlineItem = () => {
-    if (!newItemTitle.trim()) return;
+  // 添加新的幕
+  const addAct = () => {
+    if (!newActTitle.trim()) return;
 
-    const newId = `outline-${Date.now()}`;
-    const newOrder = structuredOutline.length > 0 ? Math.max(...structuredOutline.map((item) => item.order)) + 1 : 0;
+    setTree([...tree, createNode("act", newActTitle.trim(), tree.length + 1)]);
+    setNewActTitle("");
+  };
 
-    setStructuredOutline([
-      ...structuredOutline,
-      {
-        id: newId,
-        title: newItemTitle,
-        description: "",
-        order: newOrder,
-      },
-    ]);
+  // 添加子节点：幕下添加章，章下添加节拍
+  const addChild = (parent: OutlineTreeNode) => {
+    const childType = OUTLINE_NODE_TYPES[OUTLINE_NODE_TYPES.indexOf(parent.type) + 1];
+    if (!childType) return;
 
-    setNewItemTitle("");
+    const child = createNode(childType, `新${OUTLINE_NODE_TYPE_LABELS[childType]}`, parent.children.length + 1);
+    setTree(updateSiblings(tree, parent.id, (siblings, index) => {
+      siblings[index] = { ...siblings[index], children: [...siblings[index].children, child] };
+      return siblings;
+    }));
   };
 
-  // 更新大纲项目
-  const updateOutlineItem = (id: string, field: "title" | "description", value: string) => {
-    setStructuredOutline(structuredOutline.map((item) => (item.id === id ? { ...item, [field]: value } : item)));
+  // 更新节点字段
+  const updateNode = (id: string, patch: Partial<OutlineTreeNode>) => {
+    setTree(updateSiblings(tree, id, (siblings, index) => {
+      siblings[index] = { ...siblings[index], ...patch };
+      return siblings;
+    }));
   };
 
-  // 删除大纲项目
-  const deleteOutlineItem = (id: string) => {
-    setStructuredOutline(structuredOutline.filter((item) => item.id !== id));
+  // 删除节点及其子节点
+  const deleteNode = (id: string) => {
+    setTree(updateSiblings(tree, id, (siblings, index) => siblings.filter((_, i) => i !== index)));
   };
 
-  // 移动大纲项目
-  const moveOutlineItem = (id: string, direction: "up" | "down") => {
-    const currentItems = [...structuredOutline].sort((a, b) => a.order - b.order);
-    const itemIndex = currentItems.findIndex((item) => item.id === id);
-
-    if (itemIndex === -1) return;
-
-    if (direction === "up" && itemIndex > 0) {
-      // 向上移动
-      const temp = currentItems[itemIndex].order;
-      currentItems[itemIndex].order = currentItems[itemIndex - 1].order;
-      currentItems[itemIndex - 1].order = temp;
-    } else if (direction === "down" && itemIndex < currentItems.length - 1) {
-      // 向下移动
-      const temp = currentItems[itemIndex].order;
-      currentItems[itemIndex].order = currentItems[itemIndex + 1].order;
-      currentItems[itemIndex + 1].order = temp;
-    }
-
-    setStructuredOutline([...currentItems]);
+  // 在同级节点中移动
+  const moveNode = (id: string, direction: "up" | "down") => {
+    setTree(updateSiblings(tree, id, (siblings, index) => {
+      const target = direction === "up" ? index - 1 : index + 1;
+      if (target < 0 || target >= siblings.length) return siblings;
+      [siblings[index], siblings[target]] = [siblings[target], siblings[index]];
+      return siblings;
+    }));
   };
 
   // 切换到自由文本模式时更新内容
   const handleTabChange = (value: string) => {
-    if (value === "freeform" && activeTab === "structured") {
-      // 从结构化切换到自由格式
-      setFreeformContent(convertStructuredToFreeform(structuredOutline));
+    if (value === "freeform" && activeTab === "structured" && tree.length > 0 && !freeformContent.trim()) {
+      // 自由格式为空时，用大纲树生成初始文本
+      setFreeformContent(outlineTreeToText(tree));
     }
-    // 从自由格式切换到结构化不做处理，因为解析复杂度高
 
     setActiveTab(value);
   };
 
+  // 渲染单个节点及其子节点
+  const renderNode = (node: OutlineTreeNode) => {
+    const linkedChapter = chapters.find((chapter) => chapter.id === node.chapterId);
+    const canAddChild = node.type !== "beat";
+
+    return (
+      <Card key={node.id} className={cn("border shadow-sm border-border/60", node.type === "beat" && "bg-muted/20")}>
+        <CardHeader className="p-3 pb-0">
+          <div className="flex items-start gap-2">
+            <Badge variant="outline" className="mt-2 shrink-0">
+              {OUTLINE_NODE_TYPE_LABELS[node.type]}
+            </Badge>
+            <Input value={node.title} onChange={(e) => updateNode(node.id, { title: e.target.value })} className="text-sm font-medium" placeholder={`${OUTLINE_NODE_TYPE_LABELS[node.type]}标题`} />
+            <div className="flex gap-1">
+              {canAddChild && (
+                <Button variant="ghost" size="sm" onClick={() => addChild(node)} className="h-8 w-8 p-0" title={`添加${OUTLINE_NODE_TYPE_LABELS[OUTLINE_NODE_TYPES[OUTLINE_NODE_TYPES.indexOf(node.type) + 1]]}`}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => moveNode(node.id, "up")} className="h-8 w-8 p-0" title="向上移动">
+                <MoveUp className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => moveNode(node.id, "down")} className="h-8 w-8 p-0" title="向下移动">
+                <MoveDown className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => deleteNode(node.id)} className="h-8 w-8 p-0 text-destructive hover:text-destructive/90 hover:bg-destructive/10" title="删除">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-3 space-y-2">
+          <Textarea value={node.description} onChange={(e) => updateNode(node.id, { description: e.target.value })} placeholder={`${OUTLINE_NODE_TYPE_LABELS[node.type]}内容描述`} className={cn("text-sm", node.type === "beat" ? "min-h-12" : "min-h-20")} />
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={node.status} onValueChange={(value: string) => updateNode(node.id, { status: value as OutlineNodeStatus })}>
+              <SelectTrigger className="w-28 h-8">
+                <SelectValue placeholder="状态" />
+              </SelectTrigger>
+              <SelectContent>
+                {OUTLINE_NODE_STATUSES.map((status) => (
+                  <SelectItem key={status.value} value={status.value}>
+                    {status.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={0}
+              value={node.targetWordCount ?? ""}
+              onChange={(e) => updateNode(node.id, { targetWordCount: e.target.value ? parseInt(e.target.value, 10) : null })}
+              placeholder="目标字数"
+              className="w-28 h-8"
+            />
+            <Select value={node.chapterId || "none"} onValueChange={(value: string) => updateNode(node.id, { chapterId: value === "none" ? null : value })}>
+              <SelectTrigger className="w-48 h-8">
+                <SelectValue placeholder="关联章节" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">未关联章节</SelectItem>
+                {chapters.map((chapter) => (
+                  <SelectItem key={chapter.id} value={chapter.id}>
+                    {chapter.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {linkedChapter && (
+              <span className="text-xs text-muted-foreground">
+                已写 {linkedChapter.content?.length || 0}
+                {node.targetWordCount ? ` / ${node.targetWordCount}` : ""} 字
+              </span>
+            )}
+          </div>
+
+          {node.children.length > 0 && <div className="pl-4 mt-2 space-y-2 border-l-2 border-border/40">{node.children.map((child) => renderNode(child))}</div>}
+        </CardContent>
+      </Card>
+    );
+  };
+
   return (
     <Card className="shadow-lg border-primary/20">
       <CardHeader className="pb-3 border-b bg-muted/30">
@@ -187,43 +298,19 @@ export function OutlineEditor({ storyId, initialOutline, onSave }: OutlineEditor
 
           <TabsContent value="structured" className="mt-0">
             <div className="space-y-4">
-              {/* 添加新项目 */}
+              {/* 添加新的幕 */}
               <div className="flex gap-2">
-                <Input placeholder="新的大纲章节标题" value={newItemTitle} onChange={(e) => setNewItemTitle(e.target.value)} className="flex-1" />
-                <Button onClick={addOutlineItem} disabled={!newItemTitle.trim()} variant="outline" size="sm" className="gap-1.5">
+                <Input placeholder="新的幕标题，例如：第一幕 开端" value={newActTitle} onChange={(e) => setNewActTitle(e.target.value)} className="flex-1" />
+                <Button onClick={addAct} disabled={!newActTitle.trim()} variant="outline" size="sm" className="gap-1.5">
                   <Plus className="w-4 h-4" />
-                  添加
+                  添加幕
                 </Button>
               </div>
 
-              {/* 大纲项目列表 */}
+              {/* 大纲树 */}
               <ScrollArea className="h-[50vh] pr-4">
                 <div className="space-y-4">
-                  {structuredOutline
-                    .sort((a, b) => a.order - b.order)
-                    .map((item) => (
-                      <Card key={item.id} className="border shadow-sm border-border/60">
-                        <CardHeader className="p-3 pb-0">
-                          <div className="flex items-start gap-2">
-                            <Input value={item.title} onChange={(e) => updateOutlineItem(item.id, "title", e.target.value)} className="text-sm font-medium" placeholder="章节标题" />
-                            <div className="flex gap-1">
-                              <Button variant="ghost" size="sm" onClick={() => moveOutlineItem(item.id, "up")} className="h-8 w-8 p-0" title="向上移动">
-                                <MoveUp className="w-4 h-4" />
-                              </Button>
-                              <Button variant="ghost" size="sm" onClick={() => moveOutlineItem(item.id, "down")} className="h-8 w-8 p-0" title="向下移动">
-                                <MoveDown className="w-4 h-4" />
-                              </Button>
-                              <Button variant="ghost" size="sm" onClick={() => deleteOutlineItem(item.id)} className="h-8 w-8 p-0 text-destructive hover:text-destructive/90 hover:bg-destructive/10" title="删除">
-                                <Trash2 className="w-4 h-4" />
-                              </Button>
-                            </div>
-                          </div>
-                        </CardHeader>
-                        <CardContent className="p-3">
-                          <Textarea value={item.description} onChange={(e) => updateOutlineItem(item.id, "description", e.target.value)} placeholder="章节内容描述" className="min-h-24 text-sm" />
-                        </CardContent>
-                      </Card>
-                    ))}
+                  {tree.length > 0 ? tree.map((node) => renderNode(node)) : <p className="py-8 text-sm text-center text-muted-foreground">还没有结构化大纲，先添加一幕，再在幕下添加章和节拍</p>}
                 </div>
               </ScrollArea>
             </div>
@@ -0,0 +1,108 @@
+"use client";
+
+import { ReactElement } from "react";
+import { PdfLayout, isInnerOnLeft, pageSideMargins } from "@/lib/pdf-layout";
+
+// 常用纸张名称对应的尺寸（毫米）
+const PAGE_SIZE_MM: Record<string, [number, number]> = {
+  A4: [210, 297],
+  A5: [148, 210],
+  letter: [216, 279],
+  legal: [216, 356],
+};
+
+interface PdfLayoutPreviewProps {
+  layout: PdfLayout;
+  size?: "sm" | "lg";
+}
+
+/**
+ * 版式预览：以跨页（左右两页）示意开本、页边距、装订线和排版方向
+ * 横排时左页为偶数页、右页为奇数页；竖排右侧装订，左右相反。奇数页示意章节首页
+ */
+export function PdfLayoutPreview({ layout, size = "lg" }: PdfLayoutPreviewProps) {
+  const [width, height] = Array.isArray(layout.pageSize) ? layout.pageSize : PAGE_SIZE_MM[layout.pageSize] || PAGE_SIZE_MM.A4;
+  const vertical = layout.direction === "vertical";
+  const spacing = 7; // 示意的行距（毫米）
+  const gap = 4;
+
+  // 竖排书从右向左翻，奇数页在跨页左侧
+  const spread = vertical ? [2, 1] : [1, 2];
+
+  const renderPage = (pageIndex: number, offsetX: number) => {
+    const { left, right } = pageSideMargins(layout, pageIndex);
+    const { top, bottom } = layout.margins;
+    const innerOnLeft = isInnerOnLeft(layout, pageIndex);
+    const contentWidth = width - left - right;
+    const contentHeight = height - top - bottom;
+    const chapterStart = pageIndex % 2 === 0;
+    const lines: ReactElement[] = [];
+
+    if (vertical) {
+      // 竖排：列从右向左，章节首页先排标题列
+      let x = width - right - spacing / 2;
+      let column = 0;
+      while (x > left) {
+        const isTitle = chapterStart && column === 1;
+        const blank = chapterStart && column === 0;
+        if (!blank) {
+          const y1 = top + (isTitle ? contentHeight * 0.2 : column === 2 || (!chapterStart && column === 0) ? 8 : 0);
+          const y2 = isTitle ? top + contentHeight * 0.6 : top + contentHeight - (column % 5 === 4 ? contentHeight * 0.4 : 0);
+          lines.push(<line key={column} x1={offsetX + x} y1={y1} x2={offsetX + x} y2={y2} stroke="currentColor" strokeWidth={isTitle ? 2.4 : 1} opacity={isTitle ? 0.7 : 0.35} />);
+        }
+        x -= spacing;
+        column++;
+      }
+    } else {
+      // 横排：章节首页标题下移约六分之一页
+      let y = top + (chapterStart ? contentHeight / 6 : spacing / 2);
+      let row = 0;
+      while (y < height - bottom) {
+        const isTitle = chapterStart && row === 0;
+        const x1 = left + (isTitle ? contentWidth * 0.3 : row === 1 || (!chapterStart && row === 0) || row % 6 === 0 ? 8 : 0);
+        const x2 = isTitle ? width - right - contentWidth * 0.3 : width - right - (row % 6 === 5 ? contentWidth * 0.4 : 0);
+        lines.push(<line key={row} x1={offsetX + x1} y1={y} x2={offsetX + x2} y2={y} stroke="currentColor" strokeWidth={isTitle ? 2.4 : 1} opacity={isTitle ? 0.7 : 0.35} />);
+        y += isTitle ? spacing * 2 : spacing;
+        row++;
+      }
+    }
+
+    return (
+      <g key={pageIndex}>
+        <rect x={offsetX} y={0} width={width} height={height} fill="white" stroke="currentColor" strokeOpacity={0.4} />
+        {layout.gutter > 0 && (
+          <rect x={offsetX + (innerOnLeft ? 0 : width - layout.gutter)} y={0} width={layout.gutter} height={height} fill="currentColor" opacity={0.12} />
+        )}
+        <rect x={offsetX + left} y={top} width={contentWidth} height={contentHeight} fill="none" stroke="currentColor" strokeOpacity={0.3} strokeDasharray="3 2" />
+        {lines}
+        <text x={offsetX + width / 2} y={height - bottom / 2 + 2} fontSize={6} textAnchor="middle" fill="currentColor" opacity={0.6}>
+          {pageIndex + 1}
+        </text>
+      </g>
+    );
+  };
+
+  const details = [
+    `${width}×${height}mm`,
+    vertical ? "竖排（右翻）" : "横排",
+    layout.mirrorMargins ? "左右页镜像" : "左右页相同",
+    layout.chapterStartsOnRecto ? "章节从奇数页开始" : null,
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`-2 -2 ${width * 2 + gap + 4} ${height + 4}`} className={`w-full text-foreground ${size === "sm" ? "max-h-24" : "max-h-[360px]"}`}>
+        {spread.map((pageIndex, index) => renderPage(pageIndex, index * (width + gap)))}
+      </svg>
+      {size === "lg" && (
+        <div className="space-y-1 text-sm text-muted-foreground">
+          <p>{details.join(" · ")}</p>
+          <p>
+            页边距：上 {layout.margins.top}mm，下 {layout.margins.bottom}mm，订口 {layout.margins.inner}mm，翻口 {layout.margins.outer}mm
+            {layout.gutter > 0 && `，装订线 ${layout.gutter}mm（阴影部分）`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from "@/components/ui/dialog";
+import { LayoutTemplate } from "lucide-react";
+import { createStoryTemplate } from "@/lib/api-service";
+import { toast } from "sonner";
+
+interface SaveAsTemplateDialogProps {
+  storyId: string;
+  defaultName?: string;
+}
+
+/**
+ * 将故事的大纲结构和角色定位保存为自定义模板，供之后创建故事时复用
+ */
+export function SaveAsTemplateDialog({ storyId, defaultName = "" }: SaveAsTemplateDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(defaultName);
+  const [description, setDescription] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await createStoryTemplate({ name: name.trim(), description, storyId });
+      toast.success("已保存为模板，创建新故事时可以选择它");
+      setOpen(false);
+      setDescription("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "保存模板失败");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <LayoutTemplate className="w-4 h-4 mr-2" />
+          保存为模板
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>保存为模板</DialogTitle>
+          <DialogDescription>模板会保存大纲的幕、章节和节拍，以及角色的定位，不包含正文和具体人物。</DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4">
+          <div>
+            <label className="block mb-2 text-sm font-medium">模板名称</label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="例如：工作室长篇格式" />
+          </div>
+          <div>
+            <label className="block mb-2 text-sm font-medium">说明</label>
+            <Textarea value={description} onChange={(e) => setDescription(e.target.value)} placeholder="适用的题材、篇幅等" rows={3} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            取消
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+            {isSaving ? "保存中..." : "保存模板"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,14 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { usePathname } from "next/navigation";
 import Link from "next/link";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { BookOpen, Users, ListTree, FileText, Settings, Clock, ChevronRight, Sparkles, Home, Lightbulb, Book, PenTool, CheckCircle } from "lucide-react";
+import { BookOpen, Users, ListTree, FileText, Settings, Globe, Clock, ChevronRight, Sparkles, Home, Lightbulb, Book, PenTool, CheckCircle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
+import { getVolumes, Volume } from "@/lib/api-service";
 
 interface StoryNavigationProps {
   storyId: string;
@@ -24,6 +26,16 @@ interface NavItem {
 
 export function StoryNavigation({ storyId, storyTitle = "我的故事", currentStage = "planning" }: StoryNavigationProps) {
   const pathname = usePathname();
+  const [volumes, setVolumes] = useState<Volume[]>([]);
+
+  // 加载分卷目录
+  useEffect(() => {
+    if (!storyId) return;
+
+    getVolumes(storyId)
+      .then(setVolumes)
+      .catch((error) => console.warn("加载分卷目录失败:", error));
+  }, [storyId]);
 
   // 构建导航项，现在包含创作流程
   const navItems: NavItem[] = [
@@ -55,6 +67,16 @@ export function StoryNavigation({ storyId, storyTitle = "我的故事", currentS
         },
       ],
     },
+    {
+      title: "世界设定",
+      href: `/story/${storyId}/codex`,
+      icon: <Globe className="w-5 h-5" />,
+    },
+    {
+      title: "时间线",
+      href: `/story/${storyId}/timeline`,
+      icon: <Clock className="w-5 h-5" />,
+    },
     {
       title: "故事大纲",
       href: `/story/${storyId}/outline`,
@@ -195,6 +217,29 @@ export function StoryNavigation({ storyId, storyTitle = "我的故事", currentS
                   ))}
                 </div>
               )}
+
+              {/* 分卷目录 */}
+              {item.stage === "writing" && volumes.length > 0 && (
+                <div className="ml-9 mt-2 space-y-2">
+                  {volumes.map((volume) => (
+                    <div key={volume.id}>
+                      <div className="flex items-center gap-1.5 px-3 py-1 text-xs font-semibold text-muted-foreground">
+                        <Book className="w-3 h-3" />
+                        <span className="flex-1 truncate" title={volume.title}>{volume.title}</span>
+                      </div>
+                      {volume.chapters && volume.chapters.length > 0 && (
+                        <div className="ml-4 space-y-0.5">
+                          {volume.chapters.map((chapter) => (
+                            <Link key={chapter.id} href={`/story/${storyId}/chapter/${chapter.id}`} className={cn("block px-3 py-1 text-xs rounded-md truncate transition-colors", pathname === `/story/${storyId}/chapter/${chapter.id}` ? "bg-primary/5 text-primary" : "hover:bg-muted/30 text-muted-foreground hover:text-foreground")}>
+                              {chapter.title}
+                            </Link>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           ))}
         </div>
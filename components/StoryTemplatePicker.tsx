@@ -0,0 +1,123 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { FileText, LayoutTemplate, Trash2, Users } from "lucide-react";
+import { getStoryTemplates, deleteStoryTemplate } from "@/lib/api-service";
+import { BLANK_TEMPLATE_ID, BUILT_IN_STORY_TEMPLATES, StoryTemplate, countTemplateChapters } from "@/lib/story-templates";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface StoryTemplatePickerProps {
+  value: string;
+  onChange: (templateId: string) => void;
+}
+
+/**
+ * 创建故事时选择结构模板，选中后预览模板的幕、章节和角色定位
+ */
+export function StoryTemplatePicker({ value, onChange }: StoryTemplatePickerProps) {
+  const [templates, setTemplates] = useState<StoryTemplate[]>(BUILT_IN_STORY_TEMPLATES);
+
+  // 加载模板，失败时仍可使用内置模板
+  useEffect(() => {
+    getStoryTemplates()
+      .then(setTemplates)
+      .catch(() => setTemplates(BUILT_IN_STORY_TEMPLATES));
+  }, []);
+
+  // 删除自定义模板
+  const handleDelete = async (template: StoryTemplate, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!confirm(`确定要删除模板“${template.name}”吗？`)) return;
+
+    try {
+      await deleteStoryTemplate(template.id);
+      setTemplates(templates.filter((item) => item.id !== template.id));
+      if (value === template.id) onChange(BLANK_TEMPLATE_ID);
+      toast.success("模板已删除");
+    } catch (error) {
+      toast.error("删除模板失败");
+    }
+  };
+
+  const selected = templates.find((template) => template.id === value);
+
+  return (
+    <div className="space-y-3">
+      <ScrollArea className="h-56 pr-3">
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+          <button
+            type="button"
+            onClick={() => onChange(BLANK_TEMPLATE_ID)}
+            className={cn(
+              "rounded-md border p-3 text-left text-sm transition-colors hover:border-primary/50",
+              value === BLANK_TEMPLATE_ID && "border-primary bg-primary/5"
+            )}
+          >
+            <div className="font-medium">空白故事</div>
+            <div className="mt-1 text-xs text-muted-foreground">从零开始，不生成大纲和章节</div>
+          </button>
+          {templates.map((template) => (
+            <div
+              key={template.id}
+              onClick={() => onChange(template.id)}
+              className={cn(
+                "relative rounded-md border p-3 text-left text-sm transition-colors cursor-pointer hover:border-primary/50",
+                value === template.id && "border-primary bg-primary/5"
+              )}
+            >
+              <div className="flex items-center gap-1 pr-6 font-medium">
+                {template.name}
+                {!template.builtIn && (
+                  <Badge variant="secondary" className="text-[10px]">
+                    自定义
+                  </Badge>
+                )}
+              </div>
+              <div className="mt-1 text-xs text-muted-foreground line-clamp-2">{template.description || "暂无说明"}</div>
+              {!template.builtIn && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="absolute w-6 h-6 top-2 right-2 text-muted-foreground hover:text-red-500"
+                  onClick={(e) => handleDelete(template, e)}
+                  title="删除模板"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+
+      {selected && (
+        <div className="p-3 space-y-2 text-sm border rounded-md bg-muted/30">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline" className="gap-1">
+              <LayoutTemplate className="w-3 h-3" />
+              {selected.structure.acts.length} 幕
+            </Badge>
+            <Badge variant="outline" className="gap-1">
+              <FileText className="w-3 h-3" />
+              {countTemplateChapters(selected.structure)} 个章节占位
+            </Badge>
+            <Badge variant="outline" className="gap-1">
+              <Users className="w-3 h-3" />
+              {selected.structure.characterRoles.length} 个角色定位
+            </Badge>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {selected.structure.acts.map((act) => `${act.title}（${act.chapters.map((chapter) => chapter.title).join("、")}）`).join(" → ")}
+          </div>
+          {selected.structure.characterRoles.length > 0 && (
+            <div className="text-xs text-muted-foreground">角色：{selected.structure.characterRoles.map((role) => role.role).join("、")}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
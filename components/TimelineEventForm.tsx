@@ -0,0 +1,230 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Save } from "lucide-react";
+import { getScenes, Scene, TimelineEvent, TimelineEventInput } from "@/lib/api-service";
+import { TIMELINE_EVENT_TYPES } from "@/lib/timeline-utils";
+import { toast } from "sonner";
+
+interface TimelineEventFormProps {
+  storyId: string;
+  initialData?: TimelineEvent;
+  characters: Array<{ id: string; name: string }>;
+  chapters: Array<{ id: string; title: string; order: number }>;
+  // 可选的地点设定条目
+  locations: Array<{ id: string; name: string }>;
+  onSubmit: (data: TimelineEventInput & { id?: string }) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Select 组件不接受空字符串，用该值表示“不关联地点设定”
+const NO_LOCATION = "none";
+
+export function TimelineEventForm({ storyId, initialData, characters, chapters, locations, onSubmit, onCancel }: TimelineEventFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [title, setTitle] = useState(initialData?.title || "");
+  const [type, setType] = useState(initialData?.type || "general");
+  const [storyDate, setStoryDate] = useState(initialData?.storyDate || "");
+  const [description, setDescription] = useState(initialData?.description || "");
+  const [location, setLocation] = useState(initialData?.location || "");
+  const [locationEntryId, setLocationEntryId] = useState(initialData?.locationEntryId || NO_LOCATION);
+  const [characterIds, setCharacterIds] = useState<string[]>(initialData?.characters.map((character) => character.id) || []);
+  const [chapterIds, setChapterIds] = useState<string[]>(initialData?.chapters.map((chapter) => chapter.id) || []);
+  const [sceneIds, setSceneIds] = useState<string[]>(initialData?.scenes.map((scene) => scene.id) || []);
+  const [scenesByChapter, setScenesByChapter] = useState<Record<string, Scene[]>>({});
+  const requestedChapterIds = useRef(new Set<string>());
+
+  const sortedChapters = [...chapters].sort((a, b) => a.order - b.order);
+
+  // 为已选章节加载场景，供关联到具体场景
+  useEffect(() => {
+    chapterIds
+      .filter((chapterId) => !requestedChapterIds.current.has(chapterId))
+      .forEach(async (chapterId) => {
+        requestedChapterIds.current.add(chapterId);
+        try {
+          const scenes = await getScenes(storyId, chapterId);
+          setScenesByChapter((prev) => ({ ...prev, [chapterId]: scenes }));
+        } catch (error) {
+          console.error("获取场景失败:", error);
+        }
+      });
+  }, [storyId, chapterIds]);
+
+  const toggle = (ids: string[], id: string, checked: boolean) => (checked ? [...ids, id] : ids.filter((item) => item !== id));
+
+  const toggleChapter = (chapterId: string, checked: boolean) => {
+    setChapterIds(toggle(chapterIds, chapterId, checked));
+    // 取消章节时一并取消其场景
+    if (!checked) {
+      const chapterSceneIds = (scenesByChapter[chapterId] || []).map((scene) => scene.id);
+      setSceneIds(sceneIds.filter((sceneId) => !chapterSceneIds.includes(sceneId)));
+    }
+  };
+
+  // 提交表单
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!title.trim()) {
+      toast.error("事件标题不能为空");
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await onSubmit({
+        id: initialData?.id,
+        title: title.trim(),
+        type,
+        storyDate,
+        description,
+        location,
+        locationEntryId: locationEntryId === NO_LOCATION ? null : locationEntryId,
+        characterIds,
+        chapterIds,
+        sceneIds,
+      });
+      toast.success(initialData?.id ? "事件已更新" : "事件已创建");
+    } catch (error) {
+      console.error("提交时间线事件失败:", error);
+      toast.error("保存事件失败，请重试");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="w-full shadow-lg border-primary/20">
+      <CardHeader className="pb-4 space-y-1 border-b bg-muted/30">
+        <CardTitle>{initialData?.id ? "编辑事件" : "创建新事件"}</CardTitle>
+      </CardHeader>
+      <form onSubmit={handleSubmit}>
+        <CardContent className="p-6 space-y-5">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div className="space-y-2 sm:col-span-2">
+              <Label>事件标题</Label>
+              <Input placeholder="例如：城破之夜" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>事件类型</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMELINE_EVENT_TYPES.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>故事内日期</Label>
+              <Input placeholder="例如：天元三年春" value={storyDate} onChange={(e) => setStoryDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>地点设定</Label>
+              <Select value={locationEntryId} onValueChange={setLocationEntryId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LOCATION}>不关联</SelectItem>
+                  {locations.map((entry) => (
+                    <SelectItem key={entry.id} value={entry.id}>
+                      {entry.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>地点说明</Label>
+              <Input placeholder="例如：北城门外" value={location} onChange={(e) => setLocation(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>事件描述</Label>
+            <Textarea placeholder="描述事件经过和影响" className="min-h-24" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+
+          {/* 参与角色 */}
+          {characters.length > 0 && (
+            <div className="space-y-2">
+              <Label>参与角色</Label>
+              <div className="grid grid-cols-2 gap-2 p-3 border rounded-md sm:grid-cols-3">
+                {characters.map((character) => (
+                  <label key={character.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox checked={characterIds.includes(character.id)} onCheckedChange={(checked) => setCharacterIds(toggle(characterIds, character.id, checked === true))} />
+                    <span className="truncate">{character.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 关联章节和场景 */}
+          {sortedChapters.length > 0 && (
+            <div className="space-y-2">
+              <Label>描写或提及该事件的章节</Label>
+              <div className="p-3 space-y-2 overflow-y-auto border rounded-md max-h-56">
+                {sortedChapters.map((chapter) => (
+                  <div key={chapter.id}>
+                    <label className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox checked={chapterIds.includes(chapter.id)} onCheckedChange={(checked) => toggleChapter(chapter.id, checked === true)} />
+                      <span className="truncate">
+                        第{chapter.order}章 {chapter.title}
+                      </span>
+                    </label>
+                    {chapterIds.includes(chapter.id) && (scenesByChapter[chapter.id] || []).length > 0 && (
+                      <div className="flex flex-wrap gap-3 mt-1 ml-6">
+                        {scenesByChapter[chapter.id].map((scene) => (
+                          <label key={scene.id} className="flex items-center gap-1.5 text-xs cursor-pointer text-muted-foreground">
+                            <Checkbox checked={sceneIds.includes(scene.id)} onCheckedChange={(checked) => setSceneIds(toggle(sceneIds, scene.id, checked === true))} />
+                            {scene.title || `场景 ${scene.order}`}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-between p-6 border-t bg-muted/20">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isLoading}>
+            取消
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                保存中...
+              </>
+            ) : (
+              <>
+                <Save className="w-4 h-4 mr-2" />
+                保存事件
+              </>
+            )}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChevronDown, ChevronRight, Loader2, RotateCcw } from "lucide-react";
+import { DiffHunk, DiffToken, TextDiffResult, toPlainText } from "@/lib/text-diff";
+
+interface VersionDiffViewerProps {
+  diff: TextDiffResult;
+  // 仅当对比目标为当前内容时提供，用于把单个差异块恢复为旧版本的段落
+  onRestoreHunk?: (hunk: DiffHunk) => Promise<void>;
+}
+
+// 未变更段落超过该数量时默认折叠
+const COLLAPSE_THRESHOLD = 2;
+
+// 差异词的样式
+const TOKEN_CLASSES: Record<DiffToken["type"], string> = {
+  equal: "",
+  insert: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  delete: "bg-red-100 text-red-800 line-through dark:bg-red-900/40 dark:text-red-300",
+};
+
+function renderTokens(tokens: DiffToken[]) {
+  return tokens.map((token, index) => (
+    <span key={index} className={TOKEN_CLASSES[token.type]}>
+      {token.text}
+    </span>
+  ));
+}
+
+export function VersionDiffViewer({ diff, onRestoreHunk }: VersionDiffViewerProps) {
+  const [expandedHunks, setExpandedHunks] = useState<Set<number>>(new Set());
+  const [restoringHunk, setRestoringHunk] = useState<number | null>(null);
+
+  const toggleHunk = (index: number) => {
+    setExpandedHunks((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleRestore = async (hunk: DiffHunk) => {
+    if (!onRestoreHunk) return;
+    setRestoringHunk(hunk.index);
+    try {
+      await onRestoreHunk(hunk);
+    } finally {
+      setRestoringHunk(null);
+    }
+  };
+
+  // 未变更的段落，较长时折叠显示
+  const renderEqualHunk = (hunk: DiffHunk, columns: 1 | 2) => {
+    const text = hunk.newParagraphs.map(toPlainText).filter(Boolean).join("\n");
+    const collapsed = hunk.newParagraphs.length > COLLAPSE_THRESHOLD && !expandedHunks.has(hunk.index);
+
+    if (collapsed) {
+      return (
+        <button key={hunk.index} type="button" className="flex items-center w-full px-3 py-1 text-xs rounded text-muted-foreground hover:bg-muted" onClick={() => toggleHunk(hunk.index)}>
+          <ChevronRight className="w-3 h-3 mr-1" />
+          {hunk.newParagraphs.length} 段未变更
+        </button>
+      );
+    }
+
+    return (
+      <div key={hunk.index}>
+        {hunk.newParagraphs.length > COLLAPSE_THRESHOLD && (
+          <button type="button" className="flex items-center px-3 py-1 text-xs text-muted-foreground hover:underline" onClick={() => toggleHunk(hunk.index)}>
+            <ChevronDown className="w-3 h-3 mr-1" />
+            收起未变更段落
+          </button>
+        )}
+        <div className={columns === 2 ? "grid grid-cols-2 gap-4" : ""}>
+          <div className="px-3 py-1 text-sm whitespace-pre-wrap text-muted-foreground">{text}</div>
+          {columns === 2 && <div className="px-3 py-1 text-sm whitespace-pre-wrap text-muted-foreground">{text}</div>}
+        </div>
+      </div>
+    );
+  };
+
+  const renderRestoreButton = (hunk: DiffHunk) =>
+    onRestoreHunk && (
+      <div className="flex justify-end mt-2">
+        <Button variant="outline" size="sm" onClick={() => handleRestore(hunk)} disabled={restoringHunk !== null}>
+          {restoringHunk === hunk.index ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RotateCcw className="w-3 h-3 mr-1" />}
+          恢复此段
+        </Button>
+      </div>
+    );
+
+  const hasChanges = diff.stats.changedHunks > 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge variant="outline">{diff.stats.changedHunks} 处变更</Badge>
+        <Badge variant="outline" className="text-green-700">+{diff.stats.added} 字</Badge>
+        <Badge variant="outline" className="text-red-700">-{diff.stats.removed} 字</Badge>
+      </div>
+
+      {!hasChanges ? (
+        <div className="py-8 text-center text-gray-500">两个版本内容相同</div>
+      ) : (
+        <Tabs defaultValue="split">
+          <TabsList>
+            <TabsTrigger value="split">并排对比</TabsTrigger>
+            <TabsTrigger value="inline">行内对比</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="split" className="space-y-2">
+            <div className="grid grid-cols-2 gap-4 px-3 text-xs font-medium text-muted-foreground">
+              <div>旧版本</div>
+              <div>新版本</div>
+            </div>
+            {diff.hunks.map((hunk) =>
+              hunk.type === "equal" ? (
+                renderEqualHunk(hunk, 2)
+              ) : (
+                <div key={hunk.index} className="p-2 border rounded-md">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="px-1 text-sm whitespace-pre-wrap">{renderTokens(hunk.tokens.filter((token) => token.type !== "insert"))}</div>
+                    <div className="px-1 text-sm whitespace-pre-wrap">{renderTokens(hunk.tokens.filter((token) => token.type !== "delete"))}</div>
+                  </div>
+                  {renderRestoreButton(hunk)}
+                </div>
+              )
+            )}
+          </TabsContent>
+
+          <TabsContent value="inline" className="space-y-2">
+            {diff.hunks.map((hunk) =>
+              hunk.type === "equal" ? (
+                renderEqualHunk(hunk, 1)
+              ) : (
+                <div key={hunk.index} className="p-2 border rounded-md">
+                  <div className="px-1 text-sm whitespace-pre-wrap">{renderTokens(hunk.tokens)}</div>
+                  {renderRestoreButton(hunk)}
+                </div>
+              )
+            )}
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
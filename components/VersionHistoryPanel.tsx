@@ -7,9 +7,13 @@ import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
-import { RefreshCw, RotateCcw, Check, AlertTriangle, Clock, FileText, Calendar, User, Tag, Trash2 } from "lucide-react";
+import { RefreshCw, RotateCcw, Check, AlertTriangle, Clock, FileText, Calendar, User, Tag, Trash2, Save, GitCompare, Bookmark } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VersionDiffViewer } from "@/components/VersionDiffViewer";
+import { DiffHunk, TextDiffResult } from "@/lib/text-diff";
 import { toast } from "sonner";
 
 // 版本历史项目类型
@@ -21,28 +25,59 @@ interface VersionItem {
   createdBy: string;
   changeType: string;
   size: number;
+  // 章节版本额外记录标题
+  title?: string;
+  // 故事版本的命名，命名版本不会被自动清理
+  label?: string | null;
+}
+
+// 版本详情，章节版本包含标题、摘要和笔记
+interface VersionDetail extends VersionItem {
+  content: string;
+  summary?: string | null;
+  notes?: string | null;
+  // 批量修改前备份的章节、大纲节点和角色，恢复时一并恢复
+  snapshotChapters?: Array<{ id: string; title: string }>;
+  snapshotOutlineNodes?: Array<{ id: string; title: string }>;
+  snapshotCharacters?: Array<{ id: string; name: string }>;
 }
 
 // 组件属性类型
 interface VersionHistoryPanelProps {
   storyId: string;
-  onRestoreVersion?: (content: string) => void;
+  // 提供章节ID时显示该章节的版本历史
+  chapterId?: string;
+  // 整体恢复版本时传入版本详情，按段落恢复时只传入恢复后的内容
+  onRestoreVersion?: (content: string, version?: VersionDetail) => void;
 }
 
-export function VersionHistoryPanel({ storyId, onRestoreVersion }: VersionHistoryPanelProps) {
+// 对比目标为当前内容
+const CURRENT_CONTENT = "current";
+
+export function VersionHistoryPanel({ storyId, chapterId, onRestoreVersion }: VersionHistoryPanelProps) {
+  const baseUrl = chapterId ? `/api/user/story/${storyId}/chapter/${chapterId}/version-history` : `/api/user/story/${storyId}/version-history`;
+
+
   // 状态管理
   const [versions, setVersions] = useState<VersionItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedVersion, setSelectedVersion] = useState<VersionItem | null>(null);
   const [showRestoreDialog, setShowRestoreDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const [versionContent, setVersionContent] = useState<string | null>(null);
+  const [versionDetail, setVersionDetail] = useState<VersionDetail | null>(null);
+  const [showDiffDialog, setShowDiffDialog] = useState(false);
+  const [diffFrom, setDiffFrom] = useState<VersionItem | null>(null);
+  const [diffTarget, setDiffTarget] = useState(CURRENT_CONTENT);
+  const [diffResult, setDiffResult] = useState<TextDiffResult | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [showLabelDialog, setShowLabelDialog] = useState(false);
+  const [labelInput, setLabelInput] = useState("");
 
   // 获取版本历史
   const fetchVersionHistory = async () => {
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/user/story/${storyId}/version-history`);
+      const response = await fetch(baseUrl);
       if (!response.ok) {
         throw new Error("获取版本历史失败");
       }
@@ -56,15 +91,15 @@ export function VersionHistoryPanel({ storyId, onRestoreVersion }: VersionHistor
     }
   };
 
-  // 获取特定版本内容
-  const fetchVersionContent = async (versionId: string) => {
+  // 获取特定版本详情
+  const fetchVersionDetail = async (versionId: string): Promise<VersionDetail | null> => {
     try {
-      const response = await fetch(`/api/user/story/${storyId}/version-history/${versionId}`);
+      const response = await fetch(`${baseUrl}/${versionId}`);
       if (!response.ok) {
         throw new Error("获取版本内容失败");
       }
       const data = await response.json();
-      return data.data.content;
+      return data.data;
     } catch (error) {
       console.error("获取版本内容错误:", error);
       toast.error("获取版本内容失败");
@@ -77,7 +112,7 @@ export function VersionHistoryPanel({ storyId, onRestoreVersion }: VersionHistor
     if (!selectedVersion) return;
 
     try {
-      const response = await fetch(`/api/user/story/${storyId}/version-history/${selectedVersion.versionId}`, {
+      const response = await fetch(`${baseUrl}/${selectedVersion.versionId}`, {
         method: "POST",
       });
 
@@ -92,8 +127,8 @@ export function VersionHistoryPanel({ storyId, onRestoreVersion }: VersionHistor
       fetchVersionHistory();
 
       // 如果提供了回调，将内容传递给父组件
-      if (onRestoreVersion && versionContent) {
-        onRestoreVersion(versionContent);
+      if (onRestoreVersion && versionDetail) {
+        onRestoreVersion(versionDetail.content, versionDetail);
       }
 
       // 关闭对话框
@@ -104,12 +139,137 @@ export function VersionHistoryPanel({ storyId, onRestoreVersion }: VersionHistor
     }
   };
 
+  // 将章节已保存的内容记录为手动版本
+  const createVersion = async () => {
+    try {
+      const response = await fetch(baseUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ description: "手动保存版本" }),
+      });
+
+      if (!response.ok) {
+        throw new Error("创建版本失败");
+      }
+
+      toast.success("已保存当前版本");
+      fetchVersionHistory();
+    } catch (error) {
+      console.error("创建版本错误:", error);
+      toast.error("创建版本失败");
+    }
+  };
+
+  // 获取两个版本（或版本与当前内容）之间的差异
+  const fetchDiff = async (fromVersionId: string, target: string) => {
+    setIsDiffLoading(true);
+    try {
+      const response = await fetch(`${baseUrl}/diff?from=${encodeURIComponent(fromVersionId)}&to=${encodeURIComponent(target)}`);
+      if (!response.ok) {
+        throw new Error("获取版本差异失败");
+      }
+      const data = await response.json();
+      setDiffResult(data.data);
+    } catch (error) {
+      console.error("获取版本差异错误:", error);
+      toast.error("获取版本差异失败");
+      setDiffResult(null);
+    } finally {
+      setIsDiffLoading(false);
+    }
+  };
+
+  // 将单个差异块恢复为所选版本的段落
+  const restoreDiffHunk = async (hunk: DiffHunk) => {
+    if (!diffFrom) return;
+
+    try {
+      const response = await fetch(`${baseUrl}/diff`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          from: diffFrom.versionId,
+          hunkIndex: hunk.index,
+          expected: hunk.newParagraphs.join(""),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "恢复段落失败");
+      }
+
+      toast.success("已恢复所选段落");
+
+      if (onRestoreVersion) {
+        onRestoreVersion(data.data.content);
+      }
+
+      // 恢复会创建备份版本，刷新列表和差异
+      fetchVersionHistory();
+      fetchDiff(diffFrom.versionId, CURRENT_CONTENT);
+    } catch (error) {
+      console.error("恢复段落错误:", error);
+      toast.error(error instanceof Error ? error.message : "恢复段落失败");
+    }
+  };
+
+  // 处理对比按钮点击，默认与当前内容对比
+  const handleCompareClick = (version: VersionItem, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setDiffFrom(version);
+    setDiffTarget(CURRENT_CONTENT);
+    setDiffResult(null);
+    setShowDiffDialog(true);
+    fetchDiff(version.versionId, CURRENT_CONTENT);
+  };
+
+  // 切换对比目标
+  const handleDiffTargetChange = (target: string) => {
+    setDiffTarget(target);
+    if (diffFrom) {
+      fetchDiff(diffFrom.versionId, target);
+    }
+  };
+
+  // 为故事版本命名，名称为空时取消命名
+  const saveVersionLabel = async () => {
+    if (!selectedVersion) return;
+
+    try {
+      const response = await fetch(`${baseUrl}/${selectedVersion.versionId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ label: labelInput }),
+      });
+
+      if (!response.ok) {
+        throw new Error("保存版本名称失败");
+      }
+
+      toast.success(labelInput.trim() ? "版本已命名，将始终保留" : "已取消版本命名");
+      fetchVersionHistory();
+      setShowLabelDialog(false);
+    } catch (error) {
+      console.error("保存版本名称错误:", error);
+      toast.error("保存版本名称失败");
+    }
+  };
+
+  // 处理命名按钮点击
+  const handleLabelClick = (version: VersionItem, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setSelectedVersion(version);
+    setLabelInput(version.label || "");
+    setShowLabelDialog(true);
+  };
+
   // 删除特定版本
   const deleteVersion = async () => {
     if (!selectedVersion) return;
 
     try {
-      const response = await fetch(`/api/user/story/${storyId}/version-history/${selectedVersion.versionId}`, {
+      const response = await fetch(`${baseUrl}/${selectedVersion.versionId}`, {
         method: "DELETE",
       });
 
@@ -133,8 +293,8 @@ export function VersionHistoryPanel({ storyId, onRestoreVersion }: VersionHistor
   // 处理版本选择
   const handleVersionSelect = async (version: VersionItem) => {
     setSelectedVersion(version);
-    const content = await fetchVersionContent(version.versionId);
-    setVersionContent(content);
+    const detail = await fetchVersionDetail(version.versionId);
+    setVersionDetail(detail);
     setShowRestoreDialog(true);
   };
 
@@ -150,7 +310,7 @@ export function VersionHistoryPanel({ storyId, onRestoreVersion }: VersionHistor
     if (storyId) {
       fetchVersionHistory();
     }
-  }, [storyId]);
+  }, [storyId, chapterId]);
 
   // 获取变更类型标签
   const getChangeTypeBadge = (changeType: string) => {
@@ -163,6 +323,10 @@ export function VersionHistoryPanel({ storyId, onRestoreVersion }: VersionHistor
         return <Badge variant="outline">恢复操作</Badge>;
       case "auto-backup":
         return <Badge variant="outline">自动备份</Badge>;
+      case "import":
+        return <Badge variant="default">导入</Badge>;
+      case "bulk-edit":
+        return <Badge variant="outline">批量修改前备份</Badge>;
       default:
         return <Badge>{changeType}</Badge>;
     }
@@ -185,13 +349,21 @@ export function VersionHistoryPanel({ storyId, onRestoreVersion }: VersionHistor
     <Card className="w-full">
       <CardHeader>
         <div className="flex justify-between items-center">
-          <CardTitle>版本历史</CardTitle>
-          <Button variant="outline" size="sm" onClick={fetchVersionHistory} disabled={isLoading}>
-            {isLoading ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
-            刷新
-          </Button>
+          <CardTitle>{chapterId ? "章节版本历史" : "版本历史"}</CardTitle>
+          <div className="flex items-center space-x-2">
+            {chapterId && (
+              <Button variant="outline" size="sm" onClick={createVersion} disabled={isLoading}>
+                <Save className="w-4 h-4 mr-2" />
+                保存版本
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={fetchVersionHistory} disabled={isLoading}>
+              {isLoading ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+              刷新
+            </Button>
+          </div>
         </div>
-        <CardDescription>查看和恢复历史版本</CardDescription>
+        <CardDescription>{chapterId ? "查看和恢复本章的历史版本，保存版本记录的是已保存的内容" : "查看和恢复历史版本"}</CardDescription>
       </CardHeader>
 
       <CardContent>
@@ -204,7 +376,16 @@ export function VersionHistoryPanel({ storyId, onRestoreVersion }: VersionHistor
                 <div className="border rounded-md p-4 hover:bg-gray-50 cursor-pointer transition-colors" onClick={() => handleVersionSelect(version)}>
                   <div className="flex justify-between items-start">
                     <div className="flex flex-col">
-                      <div className="font-medium">{version.description || "版本更新"}</div>
+                      <div className="font-medium flex items-center">
+                        {version.label && (
+                          <Badge variant="default" className="mr-2">
+                            <Bookmark className="w-3 h-3 mr-1" />
+                            {version.label}
+                          </Badge>
+                        )}
+                        {version.description || "版本更新"}
+                      </div>
+                      {version.title && <div className="text-sm text-gray-600 mt-1 truncate">{version.title}</div>}
                       <div className="text-sm text-gray-500 mt-1 flex items-center">
                         <Calendar className="w-3 h-3 mr-1" />
                         {formatDate(version.createdAt)}
@@ -216,6 +397,14 @@ export function VersionHistoryPanel({ storyId, onRestoreVersion }: VersionHistor
                         <FileText className="w-3 h-3 mr-1" />
                         {formatSize(version.size)}
                       </Badge>
+                      {!chapterId && (
+                        <Button variant="ghost" size="icon" onClick={(e) => handleLabelClick(version, e)} className="h-8 w-8 text-gray-500 hover:text-primary" title="命名版本">
+                          <Bookmark className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" onClick={(e) => handleCompareClick(version, e)} className="h-8 w-8 text-gray-500 hover:text-primary" title="对比差异">
+                        <GitCompare className="w-4 h-4" />
+                      </Button>
                       <Button variant="ghost" size="icon" onClick={(e) => handleDeleteClick(version, e)} className="h-8 w-8 text-gray-500 hover:text-red-500">
                         <Trash2 className="w-4 h-4" />
                       </Button>
@@ -263,6 +452,26 @@ export function VersionHistoryPanel({ storyId, onRestoreVersion }: VersionHistor
                 <AlertTitle>注意</AlertTitle>
                 <AlertDescription>恢复操作会自动创建当前版本的备份，但建议在恢复前手动创建备份。</AlertDescription>
               </Alert>
+
+              {versionDetail?.snapshotChapters && versionDetail.snapshotChapters.length > 0 && (
+                <Alert>
+                  <AlertTitle>同时恢复 {versionDetail.snapshotChapters.length} 个章节</AlertTitle>
+                  <AlertDescription>{versionDetail.snapshotChapters.map((chapter) => chapter.title).join("、")} 将恢复到批量修改前的内容。</AlertDescription>
+                </Alert>
+              )}
+
+              {((versionDetail?.snapshotOutlineNodes?.length || 0) > 0 || (versionDetail?.snapshotCharacters?.length || 0) > 0) && (
+                <Alert>
+                  <AlertTitle>同时恢复大纲和角色</AlertTitle>
+                  <AlertDescription>
+                    {[
+                      ...(versionDetail?.snapshotOutlineNodes || []).map((node) => `大纲「${node.title}」`),
+                      ...(versionDetail?.snapshotCharacters || []).map((character) => `角色「${character.name}」`),
+                    ].join("、")}{" "}
+                    将恢复到批量修改前的内容。
+                  </AlertDescription>
+                </Alert>
+              )}
             </div>
           )}
 
@@ -278,6 +487,71 @@ export function VersionHistoryPanel({ storyId, onRestoreVersion }: VersionHistor
         </DialogContent>
       </Dialog>
 
+      {/* 版本差异对话框 */}
+      <Dialog open={showDiffDialog} onOpenChange={setShowDiffDialog}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>版本差异</DialogTitle>
+            <DialogDescription>
+              {diffFrom ? `${diffFrom.description || "版本更新"}（${formatDate(diffFrom.createdAt)}）` : ""}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center space-x-2 text-sm">
+            <span className="text-gray-500">对比目标</span>
+            <Select value={diffTarget} onValueChange={handleDiffTargetChange}>
+              <SelectTrigger className="w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CURRENT_CONTENT}>当前内容</SelectItem>
+                {versions
+                  .filter((version) => version.versionId !== diffFrom?.versionId)
+                  .map((version) => (
+                    <SelectItem key={version.id} value={version.versionId}>
+                      {version.description || "版本更新"}（{formatDate(version.createdAt)}）
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <ScrollArea className="h-[60vh] pr-4">
+            {isDiffLoading ? (
+              <div className="text-center py-8 text-gray-500">加载中...</div>
+            ) : diffResult ? (
+              <VersionDiffViewer diff={diffResult} onRestoreHunk={diffTarget === CURRENT_CONTENT ? restoreDiffHunk : undefined} />
+            ) : (
+              <div className="text-center py-8 text-gray-500">暂无差异数据</div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      {/* 版本命名对话框 */}
+      <Dialog open={showLabelDialog} onOpenChange={setShowLabelDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>命名版本</DialogTitle>
+            <DialogDescription>命名的版本不会被自动清理，留空则取消命名。</DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4">
+            <Input value={labelInput} onChange={(e) => setLabelInput(e.target.value)} placeholder="例如：初稿完成" maxLength={100} />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowLabelDialog(false)}>
+              取消
+            </Button>
+            <Button onClick={saveVersionLabel}>
+              <Check className="w-4 h-4 mr-2" />
+              保存
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* 删除版本对话框 */}
       <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <DialogContent>
@@ -0,0 +1,310 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { HardDrive, Save, Scissors, RefreshCw } from "lucide-react";
+import { RetentionPolicy } from "@/lib/version-retention";
+import { toast } from "sonner";
+
+// 版本存储占用
+interface VersionStorageSummary {
+  storyVersions: {
+    count: number;
+    snapshots: number;
+    deltas: number;
+    storedBytes: number;
+    fullBytes: number;
+  };
+  chapterVersions: {
+    count: number;
+    storedBytes: number;
+  };
+}
+
+// 清理结果
+interface CompactResult {
+  deletedCount: number;
+  keptCount: number;
+  freedBytes: number;
+  deletedVersionIds: string[];
+}
+
+interface VersionRetentionSettingsProps {
+  storyId: string;
+}
+
+// 可选择始终保留的变更类型
+const PROTECTABLE_CHANGE_TYPES = [
+  { value: "manual", label: "手动保存" },
+  { value: "import", label: "导入" },
+  { value: "restore", label: "恢复操作" },
+  { value: "bulk-edit", label: "批量修改前备份" },
+];
+
+// 格式化字节数
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)}MB`;
+};
+
+export function VersionRetentionSettings({ storyId }: VersionRetentionSettingsProps) {
+  const baseUrl = `/api/user/story/${storyId}/version-history`;
+
+  const [policy, setPolicy] = useState<RetentionPolicy | null>(null);
+  const [storage, setStorage] = useState<VersionStorageSummary | null>(null);
+  const [keepForever, setKeepForever] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [preview, setPreview] = useState<CompactResult | null>(null);
+  const [isCompacting, setIsCompacting] = useState(false);
+
+  // 获取保留策略和存储占用
+  const fetchRetention = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`${baseUrl}/retention`);
+      if (!response.ok) {
+        throw new Error("获取版本保留设置失败");
+      }
+      const data = await response.json();
+      setPolicy(data.data.policy);
+      setStorage(data.data.storage);
+      setKeepForever(data.data.policy.dailyForDays === null);
+    } catch (error) {
+      console.error("获取版本保留设置错误:", error);
+      toast.error("获取版本保留设置失败");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 保存保留策略
+  const savePolicy = async () => {
+    if (!policy) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`${baseUrl}/retention`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...policy, dailyForDays: keepForever ? null : policy.dailyForDays }),
+      });
+      if (!response.ok) {
+        throw new Error("保存版本保留设置失败");
+      }
+      const data = await response.json();
+      setPolicy(data.data.policy);
+      setKeepForever(data.data.policy.dailyForDays === null);
+      toast.success("版本保留设置已保存");
+    } catch (error) {
+      console.error("保存版本保留设置错误:", error);
+      toast.error("保存版本保留设置失败");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 执行清理，dryRun 时只预览将被清理的版本
+  const compact = async (dryRun: boolean) => {
+    setIsCompacting(true);
+    try {
+      const response = await fetch(`${baseUrl}/compact`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dryRun }),
+      });
+      if (!response.ok) {
+        throw new Error("清理版本失败");
+      }
+      const data = await response.json();
+
+      if (dryRun) {
+        if (data.data.deletedCount === 0) {
+          toast.info("按当前保留策略没有需要清理的版本");
+        } else {
+          setPreview(data.data);
+        }
+        return;
+      }
+
+      toast.success(`已清理 ${data.data.deletedCount} 个版本，释放 ${formatBytes(data.data.freedBytes)}`);
+      setPreview(null);
+      fetchRetention();
+    } catch (error) {
+      console.error("清理版本错误:", error);
+      toast.error("清理版本失败");
+    } finally {
+      setIsCompacting(false);
+    }
+  };
+
+  // 更新数值字段
+  const updateNumber = (field: "keepAllHours" | "hourlyForDays" | "dailyForDays", value: string) => {
+    if (!policy) return;
+    setPolicy({ ...policy, [field]: Math.max(0, parseInt(value, 10) || 0) });
+  };
+
+  // 切换永久按天保留，取消时默认保留期与每小时保留期相同
+  const toggleKeepForever = (checked: boolean) => {
+    setKeepForever(checked);
+    if (!checked && policy && policy.dailyForDays === null) {
+      setPolicy({ ...policy, dailyForDays: policy.hourlyForDays });
+    }
+  };
+
+  // 切换始终保留的变更类型
+  const toggleProtectedType = (changeType: string, checked: boolean) => {
+    if (!policy) return;
+    const types = policy.protectedChangeTypes.filter((type) => type !== changeType);
+    setPolicy({ ...policy, protectedChangeTypes: checked ? [...types, changeType] : types });
+  };
+
+  useEffect(() => {
+    if (storyId) {
+      fetchRetention();
+    }
+  }, [storyId]);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>版本保留</CardTitle>
+          <Button variant="outline" size="sm" onClick={fetchRetention} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            刷新
+          </Button>
+        </div>
+        <CardDescription>自动保存的版本会按以下规则定期清理，命名版本始终保留</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {storage && (
+          <div className="rounded-md border p-4 space-y-2 text-sm">
+            <div className="flex items-center font-medium">
+              <HardDrive className="w-4 h-4 mr-2" />
+              存储占用
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">故事版本 {storage.storyVersions.count} 个</Badge>
+              <Badge variant="outline">完整快照 {storage.storyVersions.snapshots} 个</Badge>
+              <Badge variant="outline">增量 {storage.storyVersions.deltas} 个</Badge>
+              <Badge variant="outline">章节版本 {storage.chapterVersions.count} 个</Badge>
+            </div>
+            <div className="text-gray-600">
+              故事版本占用 {formatBytes(storage.storyVersions.storedBytes)}
+              {storage.storyVersions.fullBytes > storage.storyVersions.storedBytes &&
+                `（完整保存需 ${formatBytes(storage.storyVersions.fullBytes)}）`}
+              ，章节版本占用 {formatBytes(storage.chapterVersions.storedBytes)}
+            </div>
+          </div>
+        )}
+
+        {policy && (
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="keep-all-hours">全部保留（小时）</Label>
+              <Input
+                id="keep-all-hours"
+                type="number"
+                min={0}
+                value={policy.keepAllHours}
+                onChange={(e) => updateNumber("keepAllHours", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="hourly-days">每小时保留一个（天）</Label>
+              <Input
+                id="hourly-days"
+                type="number"
+                min={0}
+                value={policy.hourlyForDays}
+                onChange={(e) => updateNumber("hourlyForDays", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="daily-days">每天保留一个（天）</Label>
+              <Input
+                id="daily-days"
+                type="number"
+                min={0}
+                value={keepForever ? "" : policy.dailyForDays ?? ""}
+                placeholder="永久"
+                disabled={keepForever}
+                onChange={(e) => updateNumber("dailyForDays", e.target.value)}
+              />
+              <div className="flex items-center space-x-2">
+                <Checkbox id="keep-forever" checked={keepForever} onCheckedChange={(checked) => toggleKeepForever(checked === true)} />
+                <Label htmlFor="keep-forever" className="text-sm font-normal">
+                  永久按天保留
+                </Label>
+              </div>
+            </div>
+            <div className="space-y-2 sm:col-span-3">
+              <Label>始终保留</Label>
+              <div className="flex flex-wrap gap-4">
+                {PROTECTABLE_CHANGE_TYPES.map((type) => (
+                  <div key={type.value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`protect-${type.value}`}
+                      checked={policy.protectedChangeTypes.includes(type.value)}
+                      onCheckedChange={(checked) => toggleProtectedType(type.value, checked === true)}
+                    />
+                    <Label htmlFor={`protect-${type.value}`} className="text-sm font-normal">
+                      {type.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <CardFooter className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={() => compact(true)} disabled={!policy || isCompacting}>
+          <Scissors className="w-4 h-4 mr-2" />
+          立即清理
+        </Button>
+        <Button onClick={savePolicy} disabled={!policy || isSaving}>
+          <Save className="w-4 h-4 mr-2" />
+          保存设置
+        </Button>
+      </CardFooter>
+
+      {/* 清理确认对话框 */}
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>清理版本</DialogTitle>
+            <DialogDescription>按已保存的保留策略，以下版本将被删除，此操作无法撤销。</DialogDescription>
+          </DialogHeader>
+
+          {preview && (
+            <div className="py-4 text-sm space-y-2">
+              <div>将删除 {preview.deletedCount} 个版本，保留 {preview.keptCount} 个版本</div>
+              <div>预计释放 {formatBytes(preview.freedBytes)}</div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPreview(null)}>
+              取消
+            </Button>
+            <Button variant="destructive" onClick={() => compact(false)} disabled={isCompacting}>
+              <Scissors className="w-4 h-4 mr-2" />
+              确认清理
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
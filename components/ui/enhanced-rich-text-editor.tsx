@@ -1,7 +1,8 @@
 "use client";
 
-import { useEffect, useState, useCallback, useMemo } from "react";
-import { useEditor, EditorContent, BubbleMenu, FloatingMenu } from "@tiptap/react";
+import { useEffect, useState, useCallback, useMemo, useRef } from "react";
+import { useEditor, EditorContent, BubbleMenu, FloatingMenu, getHTMLFromFragment } from "@tiptap/react";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
 import StarterKit from "@tiptap/starter-kit";
 import Highlight from "@tiptap/extension-highlight";
 import Placeholder from "@tiptap/extension-placeholder";
@@ -16,13 +17,14 @@ import TableCell from "@tiptap/extension-table-cell";
 import TableHeader from "@tiptap/extension-table-header";
 import { cn } from "@/lib/utils";
 import { Button } from "./button";
-import { Bold, Italic, Underline as UnderlineIcon, Link as LinkIcon, Highlighter, Heading1, Heading2, ListOrdered, List, Quote, AlignLeft, AlignCenter, AlignRight, Image as ImageIcon, Table as TableIcon, Undo, Redo, Bookmark, Save, Eye, Edit2 } from "lucide-react";
+import { Bold, Italic, Underline as UnderlineIcon, Link as LinkIcon, Highlighter, Heading1, Heading2, ListOrdered, List, Quote, AlignLeft, AlignCenter, AlignRight, Image as ImageIcon, Table as TableIcon, Undo, Redo, Bookmark, Save, Eye, Edit2, Scissors } from "lucide-react";
 import { Progress } from "./progress";
 import { toast } from "sonner";
 
 // 导入新的优化组件
 import { useOptimizedEditorState, AutoSave } from "./optimized-editor-state";
 import { VirtualizedEditor } from "./virtualized-editor-content";
+import { normalizeForSearch } from "@/lib/search-index";
 
 // 分离配置对象以提高可读性和维护性
 const EDITOR_EXTENSIONS = [
@@ -56,6 +58,48 @@ const EDITOR_EXTENSIONS = [
   TableCell,
 ];
 
+/**
+ * 查找文本在文档中第 occurrence 次出现的位置（从 0 开始）
+ * 文本块之间以换行连接，并使用与搜索索引相同的归一化规则，使出现序号与搜索结果一致
+ */
+function findTextOccurrence(doc: ProseMirrorNode, term: string, occurrence: number): { from: number; to: number } | null {
+  let text = "";
+  const positions: number[] = [];
+
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+    if (text) {
+      text += "\n";
+      positions.push(-1);
+    }
+    node.forEach((child, offset) => {
+      const start = pos + 1 + offset;
+      if (child.isText && child.text) {
+        for (let i = 0; i < child.text.length; i++) {
+          text += child.text[i];
+          positions.push(start + i);
+        }
+      } else if (child.type.name === "hardBreak") {
+        text += "\n";
+        positions.push(start);
+      }
+    });
+    return false;
+  });
+
+  const normalizedText = normalizeForSearch(text);
+  const normalizedTerm = normalizeForSearch(term);
+  if (!normalizedTerm) return null;
+
+  let index = normalizedText.indexOf(normalizedTerm);
+  for (let i = 0; i < occurrence && index !== -1; i++) {
+    index = normalizedText.indexOf(normalizedTerm, index + normalizedTerm.length);
+  }
+  if (index === -1) return null;
+
+  return { from: positions[index], to: positions[index + normalizedTerm.length - 1] + 1 };
+}
+
 interface EnhancedRichTextEditorProps {
   content: string;
   onChange: (content: string) => void;
@@ -66,6 +110,8 @@ interface EnhancedRichTextEditorProps {
   onSave?: (content: string) => Promise<void>;
   autoSaveInterval?: number; // 毫秒
   minHeight?: string | number;
+  onSplitAtCursor?: (before: string, after: string) => void; // 在光标处拆分内容
+  searchTarget?: { term: string; occurrence: number } | null; // 打开后定位并选中的搜索命中
 }
 
 export const EnhancedRichTextEditor = ({
@@ -78,6 +124,8 @@ export const EnhancedRichTextEditor = ({
   onSave,
   autoSaveInterval = 60000, // 默认1分钟
   minHeight = "300px",
+  onSplitAtCursor,
+  searchTarget,
 }: EnhancedRichTextEditorProps) => {
   const [isMounted, setIsMounted] = useState(false);
   const [characterCount, setCharacterCount] = useState(0);
@@ -137,6 +185,20 @@ export const EnhancedRichTextEditor = ({
     setIsMounted(true);
   }, []);
 
+  // 定位搜索命中；内容异步载入，找不到时等内容变化后重试，定位成功后不再重复
+  const locatedTargetRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!editor || !isMounted || !searchTarget) return;
+    const key = `${searchTarget.term}:${searchTarget.occurrence}`;
+    if (locatedTargetRef.current === key) return;
+
+    const range = findTextOccurrence(editor.state.doc, searchTarget.term, searchTarget.occurrence);
+    if (!range) return;
+
+    locatedTargetRef.current = key;
+    editor.chain().focus().setTextSelection(range).scrollIntoView().run();
+  }, [editor, isMounted, searchTarget, content]);
+
   // 切换编辑/阅读模式
   const toggleMode = useCallback(() => {
     setMode((prev) => (prev === "edit" ? "read" : "edit"));
@@ -153,6 +215,15 @@ export const EnhancedRichTextEditor = ({
     }
   }, [onSave, content, editorState]);
 
+  // 以光标位置为界，分别取出前后两部分的 HTML
+  const handleSplitAtCursor = useCallback(() => {
+    if (!editor || !onSplitAtCursor) return;
+    const { doc, selection } = editor.state;
+    const before = getHTMLFromFragment(doc.cut(0, selection.from).content, editor.schema);
+    const after = getHTMLFromFragment(doc.cut(selection.from).content, editor.schema);
+    onSplitAtCursor(before, after);
+  }, [editor, onSplitAtCursor]);
+
   // 如果组件未挂载，返回空
   if (!isMounted) {
     return null;
@@ -179,6 +250,11 @@ export const EnhancedRichTextEditor = ({
               <Button type="button" variant="ghost" size="sm" onClick={() => editor.chain().focus().toggleBlockquote().run()} className={cn("p-1 h-8", editor.isActive("blockquote") ? "bg-muted" : "")}>
                 <Quote className="w-4 h-4" />
               </Button>
+              {onSplitAtCursor && (
+                <Button type="button" variant="ghost" size="sm" onClick={handleSplitAtCursor} className="p-1 h-8" title="在光标处拆分章节">
+                  <Scissors className="w-4 h-4" />
+                </Button>
+              )}
             </>
           )}
         </div>
@@ -72,7 +72,8 @@ class AIResponseCache {
     const relevantOptions = {
       temperature: options?.temperature || 0,
       maxTokens: options?.maxTokens,
-      responseFormat: options?.responseFormat
+      responseFormat: options?.responseFormat,
+      provider: options?.provider || null
     };
 
     // 将消息和选项序列化为字符串
@@ -0,0 +1,348 @@
+/**
+ * AI 服务提供方适配层
+ * 将 OpenAI 兼容、Anthropic 风格和本地 Ollama 风格的接口统一为 OpenAI 兼容的响应格式，
+ * 由 generateAIResponse 统一调用
+ */
+
+import type { Message } from "./ai-utils";
+
+export type AIProviderName = 'openai' | 'anthropic' | 'ollama';
+
+export const AI_PROVIDER_NAMES: AIProviderName[] = ['openai', 'anthropic', 'ollama'];
+
+// 发送给提供方的标准化请求参数
+export type AIProviderRequest = {
+  model: string;
+  messages: Message[];
+  temperature: number;
+  maxTokens: number;
+  responseFormat: { type: string };
+  stream: boolean;
+};
+
+// 提供方的模型配置：默认、速度优先、质量优先
+export type AIProviderModels = {
+  default: string;
+  fast: string;
+  powerful: string;
+};
+
+export interface AIProvider {
+  name: AIProviderName;
+  // 获取模型配置（从环境变量读取）
+  getModels(): AIProviderModels;
+  // 构建实际发送的HTTP请求
+  buildRequest(request: AIProviderRequest): { url: string; init: RequestInit };
+  // 将非流式响应体转换为 OpenAI 兼容格式
+  normalizeResponse(data: any, request: AIProviderRequest): any;
+  // 将流式响应转换为 OpenAI 兼容的SSE流，未提供时原样透传
+  normalizeStream?(body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array>;
+}
+
+/**
+ * 构建 OpenAI 兼容的非流式响应对象
+ */
+function createChatCompletion(
+  id: string | undefined,
+  model: string,
+  content: string,
+  finishReason: string | null,
+  usage?: { prompt_tokens: number; completion_tokens: number }
+) {
+  return {
+    id: id || `chatcmpl-${Date.now()}`,
+    object: 'chat.completion',
+    model,
+    choices: [{
+      index: 0,
+      message: { role: 'assistant', content },
+      finish_reason: finishReason
+    }],
+    usage: usage
+      ? { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens }
+      : undefined
+  };
+}
+
+/**
+ * 去除模型在JSON模式下可能附带的代码块标记
+ */
+function stripJsonFence(content: string): string {
+  const match = content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return match ? match[1] : content;
+}
+
+/**
+ * 按行转换流式响应，每行交给 handleLine 生成 OpenAI 兼容的增量内容
+ * handleLine 返回 null 表示忽略该行，返回 'done' 表示流结束
+ */
+function transformLineStream(
+  body: ReadableStream<Uint8Array>,
+  handleLine: (line: string) => { content: string; finishReason: string | null } | 'done' | null
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = '';
+  let finished = false;
+
+  const emit = (controller: TransformStreamDefaultController<Uint8Array>, line: string) => {
+    if (finished || !line.trim()) return;
+
+    const result = handleLine(line.trim());
+    if (result === null) return;
+
+    if (result === 'done') {
+      finished = true;
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      return;
+    }
+
+    const chunk = {
+      id: `chunk-${Date.now()}`,
+      choices: [{
+        delta: { content: result.content },
+        index: 0,
+        finish_reason: result.finishReason
+      }]
+    };
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+  };
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(line => emit(controller, line));
+    },
+    flush(controller) {
+      emit(controller, buffer);
+      if (!finished) {
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      }
+    }
+  }));
+}
+
+/**
+ * OpenAI 兼容接口（OpenAI、Gemini 兼容网关等）
+ */
+const openAIProvider: AIProvider = {
+  name: 'openai',
+
+  getModels() {
+    return {
+      default: process.env.AI_MODEL || 'gemini-2.5-flash-preview-04-17',
+      fast: process.env.FAST_AI_MODEL || 'gemini-2.5-flash-preview-04-17',
+      powerful: process.env.POWERFUL_AI_MODEL || 'gemini-2.5-pro-preview-04-17'
+    };
+  },
+
+  buildRequest(request) {
+    return {
+      url: process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions',
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          response_format: request.responseFormat,
+          stream: request.stream
+        })
+      }
+    };
+  },
+
+  normalizeResponse(data) {
+    return data;
+  }
+};
+
+/**
+ * Anthropic Messages 接口
+ */
+const anthropicProvider: AIProvider = {
+  name: 'anthropic',
+
+  getModels() {
+    const defaultModel = process.env.ANTHROPIC_MODEL || 'claude-3-7-sonnet-latest';
+    return {
+      default: defaultModel,
+      fast: process.env.ANTHROPIC_FAST_MODEL || 'claude-3-5-haiku-latest',
+      powerful: process.env.ANTHROPIC_POWERFUL_MODEL || defaultModel
+    };
+  },
+
+  buildRequest(request) {
+    // Anthropic 的系统提示单独传递，且不支持 response_format，需要在系统提示中约束输出
+    const systemParts = request.messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => msg.content);
+    if (request.responseFormat.type === 'json_object') {
+      systemParts.push('请只返回一个合法的JSON对象，不要包含任何其他文字或代码块标记。');
+    }
+
+    return {
+      url: process.env.ANTHROPIC_API_URL || 'https://api.anthropic.com/v1/messages',
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': process.env.ANTHROPIC_API_KEY || '',
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify({
+          model: request.model,
+          system: systemParts.join('\n\n') || undefined,
+          messages: request.messages
+            .filter(msg => msg.role !== 'system')
+            .map(msg => ({ role: msg.role, content: msg.content })),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          stream: request.stream
+        })
+      }
+    };
+  },
+
+  normalizeResponse(data, request) {
+    const text = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    return createChatCompletion(
+      data.id,
+      data.model || request.model,
+      request.responseFormat.type === 'json_object' ? stripJsonFence(text) : text,
+      data.stop_reason === 'max_tokens' ? 'length' : 'stop',
+      data.usage
+        ? { prompt_tokens: data.usage.input_tokens || 0, completion_tokens: data.usage.output_tokens || 0 }
+        : undefined
+    );
+  },
+
+  normalizeStream(body) {
+    return transformLineStream(body, line => {
+      if (!line.startsWith('data:')) return null;
+
+      try {
+        const event = JSON.parse(line.slice(5).trim());
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          return { content: event.delta.text, finishReason: null };
+        }
+        if (event.type === 'message_stop') {
+          return 'done';
+        }
+      } catch (e) {
+        console.warn('解析Anthropic流式数据失败:', e);
+      }
+      return null;
+    });
+  }
+};
+
+/**
+ * 本地 Ollama 风格接口
+ */
+const ollamaProvider: AIProvider = {
+  name: 'ollama',
+
+  getModels() {
+    const defaultModel = process.env.OLLAMA_MODEL || 'qwen2.5:7b';
+    return {
+      default: defaultModel,
+      fast: process.env.OLLAMA_FAST_MODEL || defaultModel,
+      powerful: process.env.OLLAMA_POWERFUL_MODEL || defaultModel
+    };
+  },
+
+  buildRequest(request) {
+    return {
+      url: process.env.OLLAMA_API_URL || 'http://localhost:11434/api/chat',
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages,
+          stream: request.stream,
+          format: request.responseFormat.type === 'json_object' ? 'json' : undefined,
+          options: {
+            temperature: request.temperature,
+            num_predict: request.maxTokens
+          }
+        })
+      }
+    };
+  },
+
+  normalizeResponse(data, request) {
+    return createChatCompletion(
+      undefined,
+      data.model || request.model,
+      data.message?.content || '',
+      data.done_reason === 'length' ? 'length' : 'stop',
+      data.eval_count !== undefined
+        ? { prompt_tokens: data.prompt_eval_count || 0, completion_tokens: data.eval_count || 0 }
+        : undefined
+    );
+  },
+
+  normalizeStream(body) {
+    // Ollama 以换行分隔的JSON对象输出流式内容
+    return transformLineStream(body, line => {
+      try {
+        const chunk = JSON.parse(line);
+        if (chunk.done) {
+          return 'done';
+        }
+        return { content: chunk.message?.content || '', finishReason: null };
+      } catch (e) {
+        console.warn('解析Ollama流式数据失败:', e);
+        return null;
+      }
+    });
+  }
+};
+
+const providers: Record<AIProviderName, AIProvider> = {
+  openai: openAIProvider,
+  anthropic: anthropicProvider,
+  ollama: ollamaProvider
+};
+
+/**
+ * 判断是否为受支持的提供方名称
+ */
+export function isAIProviderName(name: unknown): name is AIProviderName {
+  return typeof name === 'string' && (AI_PROVIDER_NAMES as string[]).includes(name);
+}
+
+/**
+ * 获取AI服务提供方
+ * 优先使用传入的名称（如故事级设置），其次是部署级的 AI_PROVIDER 环境变量，默认为 OpenAI 兼容接口
+ */
+export function getAIProvider(name?: string | null): AIProvider {
+  if (name) {
+    if (isAIProviderName(name)) {
+      return providers[name];
+    }
+    console.warn(`未知的AI服务提供方: ${name}，使用默认配置`);
+  }
+
+  const configured = process.env.AI_PROVIDER;
+  if (isAIProviderName(configured)) {
+    return providers[configured];
+  }
+
+  return providers.openai;
+}
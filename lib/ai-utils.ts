@@ -3,6 +3,7 @@
  */
 
 import { aiResponseCache } from "./ai-cache-service";
+import { AIProvider, getAIProvider } from "./ai-providers";
 
 export type Message = {
   role: 'system' | 'user' | 'assistant';
@@ -21,6 +22,7 @@ export type AIRequestOptions = {
   cacheTtl?: number;      // 缓存生存时间（毫秒）
   forceModel?: string;    // 强制使用特定模型
   priority?: 'speed' | 'quality' | 'balanced'; // 请求优先级
+  provider?: string | null; // AI服务提供方（openai/anthropic/ollama），未指定时使用部署配置
 };
 
 export enum AIErrorType {
@@ -110,6 +112,7 @@ export async function generateAIResponse(messages: Message[], options?: AIReques
   const responseFormat = options?.responseFormat || { type: "text" };
   const stream = options?.stream || false;
   const enableCache = options?.enableCache !== false; // 默认启用缓存
+  const provider = getAIProvider(options?.provider);
   const startTime = Date.now();
 
   // 预处理消息以提高一致性
@@ -150,34 +153,22 @@ export async function generateAIResponse(messages: Message[], options?: AIReques
 
   while (retries <= maxRetries) {
     try {
-      const url = process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1/chat/completions';
-
       // 动态选择最合适的模型
-      const modelName = options?.forceModel || selectOptimalModel(processedMessages, options);
+      const modelName = options?.forceModel || selectOptimalModel(provider, processedMessages, options);
 
-      // 构建请求体
-      const requestBody = {
+      // 由提供方构建实际请求
+      const providerRequest = {
         model: modelName,
         messages: processedMessages,
         temperature,
-        max_tokens: maxTokens,
-        response_format: responseFormat,
+        maxTokens,
+        responseFormat,
         stream
       };
+      const { url, init } = provider.buildRequest(providerRequest);
 
       // 使用带超时的fetch
-      const response = await fetchWithTimeout(
-        url,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-          },
-          body: JSON.stringify(requestBody),
-        },
-        timeoutMs
-      );
+      const response = await fetchWithTimeout(url, init, timeoutMs);
 
       // 处理错误响应
       if (!response.ok) {
@@ -201,7 +192,7 @@ export async function generateAIResponse(messages: Message[], options?: AIReques
         }
 
         const aiError = new AIError(
-          error.error?.message || `HTTP错误: ${status}`,
+          error.error?.message || (typeof error.error === 'string' ? error.error : '') || `HTTP错误: ${status}`,
           errorType,
           retryable,
           error
@@ -227,29 +218,47 @@ export async function generateAIResponse(messages: Message[], options?: AIReques
         responseTime
       );
 
+      // 添加响应时间头
+      const headers = new Headers(response.headers);
+      headers.set('X-Response-Time', responseTime.toString());
+      headers.set('X-Model-Used', modelName);
+      headers.set('X-AI-Provider', provider.name);
+
+      // 流式响应由提供方转换为 OpenAI 兼容的SSE流
+      if (stream) {
+        let body: ReadableStream<Uint8Array> | null = response.body;
+        if (body && provider.normalizeStream) {
+          body = provider.normalizeStream(body);
+          headers.set('Content-Type', 'text/event-stream');
+        }
+
+        return new Response(body, {
+          status: response.status,
+          statusText: response.statusText,
+          headers
+        });
+      }
+
+      // 非流式响应统一转换为 OpenAI 兼容格式
+      const responseData = provider.normalizeResponse(await response.json(), providerRequest);
+
       // 对于非流式请求，尝试缓存响应
-      if (enableCache && !stream && aiResponseCache.isCacheable(processedMessages, options)) {
-        // 克隆响应，因为响应流只能被读取一次
-        const clonedResponse = response.clone();
-        // 解析响应内容
+      if (enableCache && aiResponseCache.isCacheable(processedMessages, options)) {
         try {
-          const responseData = await clonedResponse.json();
           // 添加使用的模型信息到缓存数据
-          responseData.model = modelName;
-          // 存储到缓存
-          aiResponseCache.set(processedMessages, options, responseData, options?.cacheTtl);
+          aiResponseCache.set(processedMessages, options, { ...responseData, model: modelName }, options?.cacheTtl);
         } catch (e) {
           console.warn('缓存响应失败:', e);
         }
       }
 
-      // 添加响应时间头
-      const headers = new Headers(response.headers);
-      headers.set('X-Response-Time', responseTime.toString());
-      headers.set('X-Model-Used', modelName);
+      // 转换后的内容长度已改变，移除原始的编码相关头
+      headers.delete('Content-Length');
+      headers.delete('Content-Encoding');
+      headers.set('Content-Type', 'application/json');
 
       // 创建新的响应以添加性能指标头
-      return new Response(response.body, {
+      return new Response(JSON.stringify(responseData), {
         status: response.status,
         statusText: response.statusText,
         headers
@@ -396,15 +405,16 @@ function preprocessMessages(messages: Message[]): Message[] {
  * 动态选择最合适的语言模型
  * 基于请求内容长度和复杂度选择合适的模型
  */
-function selectOptimalModel(messages: Message[], options?: AIRequestOptions): string {
-  // 默认使用配置的模型或gemini-2.5-flash
-  const configuredModel = process.env.AI_MODEL || 'gemini-2.5-flash-preview-04-17';
+function selectOptimalModel(provider: AIProvider, messages: Message[], options?: AIRequestOptions): string {
+  // 默认使用提供方配置的模型
+  const models = provider.getModels();
+  const configuredModel = models.default;
 
   // 强制使用特定优先级
   if (options?.priority === 'speed') {
-    return process.env.FAST_AI_MODEL || 'gemini-2.5-flash-preview-04-17';
+    return models.fast;
   } else if (options?.priority === 'quality') {
-    return process.env.POWERFUL_AI_MODEL || 'gemini-2.5-pro-preview-04-17';
+    return models.powerful;
   }
 
   // 检查是否开启了自动模型选择
@@ -419,14 +429,14 @@ function selectOptimalModel(messages: Message[], options?: AIRequestOptions): st
   if (metrics.totalLength < 1500 &&
     metrics.complexityScore < 0.3 &&
     (!options?.maxTokens || options.maxTokens < 500)) {
-    return process.env.FAST_AI_MODEL || 'gemini-2.5-flash-preview-04-17';
+    return models.fast;
   }
 
   // 如果内容很长或复杂，使用更强大的模型
   if (metrics.totalLength > 10000 ||
     metrics.complexityScore > 0.7 ||
     (options?.maxTokens && options.maxTokens > 2000)) {
-    return process.env.POWERFUL_AI_MODEL || 'gemini-2.5-pro-preview-04-17';
+    return models.powerful;
   }
 
   // 默认返回配置的模型
@@ -4,6 +4,11 @@
 
 import { handleApiException, parseResponseError, APIError } from '@/lib/api-error-handler';
 import { withAIFallback, isValidAIResponse, processAIResponse } from '@/lib/ai-service-fallback';
+import { detectStoryStage, flattenOutlineTree, OutlineTreeNode } from '@/lib/outline-tree';
+import { TextDiffResult } from '@/lib/text-diff';
+import { StoryTemplate, StoryTemplateStructure } from '@/lib/story-templates';
+import { SearchDocumentType, SearchHit } from '@/lib/search-index';
+import { HeadingBoundary, ManuscriptFormat } from '@/lib/manuscript-import';
 
 export type TaskType =
   | 'generate_prompts'
@@ -142,6 +147,8 @@ export interface StoredStory {
   createdAt: string;
   updatedAt: string;
   userId?: string; // 关联的用户ID (如果有)
+  forkedFromId?: string | null; // 派生来源故事ID
+  forkedFrom?: { id: string; title: string } | null; // 派生来源故事
 }
 
 import { getAuthState } from './auth-context';
@@ -162,16 +169,17 @@ export function isUserLoggedIn(): boolean {
  * 保存故事到存储（本地或服务器）
  * @param title 故事标题
  * @param content 故事内容
+ * @param templateId 故事模板ID，仅保存到服务器时生效
  * @returns 保存的故事对象
  */
-export async function saveStory(title: string, content: string): Promise<StoredStory> {
+export async function saveStory(title: string, content: string, templateId?: string): Promise<StoredStory> {
   const contentArray = content.split('\n\n');
   const isLoggedIn = isUserLoggedIn();
 
   if (isLoggedIn) {
     // 用户已登录，保存到服务器
     try {
-      const savedStory = await saveStoryToServer(title, contentArray);
+      const savedStory = await saveStoryToServer(title, contentArray, templateId);
 
       // 为了确保本地和服务器数据一致，也保存到本地
       saveStoryToLocal(savedStory);
@@ -241,12 +249,12 @@ function saveStoryToLocal(story: StoredStory): void {
  * 保存故事到服务器
  * @private
  */
-async function saveStoryToServer(title: string, content: string[]): Promise<StoredStory> {
+async function saveStoryToServer(title: string, content: string[], templateId?: string): Promise<StoredStory> {
   try {
     const response = await fetch('/api/user/story', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ title, content }),
+      body: JSON.stringify({ title, content, templateId }),
     });
 
     if (!response.ok) {
@@ -430,6 +438,191 @@ export async function deleteStory(id: string): Promise<boolean> {
   return true;
 }
 
+/**
+ * 派生故事：深拷贝故事及其章节、角色、大纲等，生成新故事
+ * @param id 原故事ID
+ * @param options 新故事标题，以及是否复制版本历史
+ */
+export async function forkStory(id: string, options: { title?: string; includeVersions?: boolean }): Promise<StoredStory> {
+  try {
+    const response = await fetch(`/api/user/story/${id}/fork`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(options),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `派生故事失败: ${response.status}`);
+    }
+
+    const forkedStory: StoredStory = await response.json();
+
+    // 同步到本地缓存
+    saveStoryToLocal(forkedStory);
+
+    return forkedStory;
+  } catch (error) {
+    console.error('派生故事失败:', error);
+    throw error;
+  }
+}
+
+// 书稿导入请求，boundaries 为预览中调整后的章节分界
+export interface ManuscriptImportRequest {
+  title: string;
+  content: string;
+  format: ManuscriptFormat;
+  boundaries: HeadingBoundary[];
+  prefaceAsChapter?: boolean;
+  importType?: 'new' | 'update';
+  storyId?: string;
+}
+
+/**
+ * 导入 TXT / Markdown 书稿，按分界拆分为章节
+ */
+export async function importManuscript(request: ManuscriptImportRequest): Promise<{ storyId: string; chapterCount: number }> {
+  try {
+    const response = await fetch('/api/user/story/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || errorData.error || `导入书稿失败: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('导入书稿失败:', error);
+    throw error;
+  }
+}
+
+export interface EpubImportPreview {
+  title: string;
+  author: string | null;
+  hasCover: boolean;
+  volumes: string[];
+  chapters: Array<{ title: string; wordCount: number; volumeTitle: string | null }>;
+}
+
+/**
+ * 上传 EPUB 文件，dryRun 时只返回解析出的书名、作者和章节列表
+ */
+async function postEpub(file: File, fields: Record<string, string>) {
+  const formData = new FormData();
+  formData.append('file', file);
+  for (const [key, value] of Object.entries(fields)) {
+    formData.append(key, value);
+  }
+
+  const response = await fetch('/api/user/story/import/epub', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || errorData.error || `导入 EPUB 失败: ${response.status}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * 预览 EPUB 导入结果
+ */
+export async function previewEpubImport(file: File): Promise<EpubImportPreview> {
+  try {
+    return await postEpub(file, { dryRun: 'true' });
+  } catch (error) {
+    console.error('解析 EPUB 失败:', error);
+    throw error;
+  }
+}
+
+/**
+ * 导入 EPUB 为新故事，title 为空时使用 EPUB 中的书名
+ */
+export async function importEpub(file: File, title?: string): Promise<{ storyId: string; chapterCount: number }> {
+  try {
+    return await postEpub(file, title ? { title } : {});
+  } catch (error) {
+    console.error('导入 EPUB 失败:', error);
+    throw error;
+  }
+}
+
+export interface ProjectArchivePreview {
+  title: string;
+  author: string | null;
+  exportedAt: string;
+  hasCover: boolean;
+  stats: {
+    chapters: number;
+    scenes: number;
+    characters: number;
+    outlineNodes: number;
+    codexEntries: number;
+    timelineEvents: number;
+    storyVersions: number;
+    chapterVersions: number;
+  };
+  volumes: string[];
+  chapters: Array<{ title: string; volumeTitle: string | null }>;
+}
+
+/**
+ * 上传项目存档，dryRun 时只返回存档内容概要
+ */
+async function postProjectArchive(file: File, fields: Record<string, string>) {
+  const formData = new FormData();
+  formData.append('file', file);
+  for (const [key, value] of Object.entries(fields)) {
+    formData.append(key, value);
+  }
+
+  const response = await fetch('/api/user/story/import/project', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || errorData.error || `导入项目存档失败: ${response.status}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * 预览项目存档的内容
+ */
+export async function previewProjectImport(file: File): Promise<ProjectArchivePreview> {
+  try {
+    return await postProjectArchive(file, { dryRun: 'true' });
+  } catch (error) {
+    console.error('读取项目存档失败:', error);
+    throw error;
+  }
+}
+
+/**
+ * 导入项目存档为新故事，title 为空时使用存档中的标题
+ */
+export async function importProjectArchive(file: File, title?: string): Promise<{ storyId: string; chapterCount: number }> {
+  try {
+    return await postProjectArchive(file, title ? { title } : {});
+  } catch (error) {
+    console.error('导入项目存档失败:', error);
+    throw error;
+  }
+}
+
 // 章节类型定义
 export interface Chapter {
   id: string;
@@ -441,18 +634,159 @@ export interface Chapter {
   createdAt: string;
   updatedAt: string;
   storyId: string;
+  volumeId?: string | null;
+  // 正在编辑的备选草稿，为空时编辑正文（定稿）
+  activeDraftId?: string | null;
+}
+
+// 章节备选草稿类型定义，列表接口不返回 content
+export interface ChapterDraft {
+  id: string;
+  name: string;
+  content?: string;
+  createdAt: string;
+  updatedAt: string;
+  chapterId?: string;
+}
+
+// 章节草稿列表
+export interface ChapterDraftList {
+  activeDraftId: string | null;
+  drafts: ChapterDraft[];
+}
+
+// 分卷类型定义
+export interface Volume {
+  id: string;
+  title: string;
+  summary?: string;
+  order: number;
+  createdAt: string;
+  updatedAt: string;
+  storyId: string;
+  chapters?: Array<Pick<Chapter, 'id' | 'title' | 'order'>>;
+}
+
+// 场景类型定义
+export interface Scene {
+  id: string;
+  title?: string;
+  content: string;
+  order: number;
+  summary?: string;
+  location?: string;
+  goal?: string;
+  conflict?: string;
+  outcome?: string;
+  povCharacterId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  chapterId: string;
+}
+
+// 场景可编辑字段
+export type SceneInput = Partial<Pick<Scene, 'title' | 'content' | 'summary' | 'location' | 'goal' | 'conflict' | 'outcome' | 'povCharacterId' | 'order'>>;
+
+// 世界设定条目类型定义，fields 和 aliases 为JSON文本
+export interface CodexEntry {
+  id: string;
+  type: string;
+  name: string;
+  description?: string | null;
+  fields?: string | null;
+  aliases?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  storyId: string;
+  links?: Array<{ id: string; name: string; type: string }>;
+  linkedFrom?: Array<{ id: string; name: string; type: string }>;
+}
+
+// 世界设定条目可编辑字段
+export interface CodexEntryInput {
+  type?: string;
+  name?: string;
+  description?: string;
+  fields?: Record<string, string>;
+  aliases?: string[];
+  linkedEntryIds?: string[];
+}
+
+// 时间线事件类型定义
+export interface TimelineEvent {
+  id: string;
+  title: string;
+  description?: string | null;
+  type: string;
+  storyDate?: string | null;
+  order: number;
+  location?: string | null;
+  locationEntryId?: string | null;
+  locationEntry?: { id: string; name: string } | null;
+  characters: Array<{ id: string; name: string }>;
+  chapters: Array<Pick<Chapter, 'id' | 'title' | 'order'>>;
+  scenes: Array<{ id: string; title?: string | null; order: number; chapterId: string }>;
+  storyId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 时间线事件可编辑字段
+export interface TimelineEventInput {
+  title?: string;
+  description?: string;
+  type?: string;
+  storyDate?: string;
+  order?: number;
+  location?: string;
+  locationEntryId?: string | null;
+  characterIds?: string[];
+  chapterIds?: string[];
+  sceneIds?: string[];
+}
+
+// 时间线一致性检查结果
+export interface TimelineCheckResult {
+  consistent: boolean;
+  issues: Array<{
+    severity: 'error' | 'warning';
+    kind: string;
+    message: string;
+    eventId?: string;
+    chapterId?: string;
+    characterId?: string;
+  }>;
 }
 
 // 角色类型定义
 export interface Character {
   id: string;
   name: string;
+  aliases?: string | null; // 别名，JSON数组
   description?: string;
   attributes?: string;
   storyId: string;
   userId: string;
 }
 
+// 角色关系类型定义
+export interface CharacterRelationship {
+  id: string;
+  type: string;
+  direction: string;
+  description?: string | null;
+  sourceCharacterId: string;
+  targetCharacterId: string;
+  chapterId?: string | null;
+  chapter?: Pick<Chapter, 'id' | 'title' | 'order'> | null;
+  storyId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 角色关系可编辑字段
+export type CharacterRelationshipInput = Partial<Pick<CharacterRelationship, 'type' | 'direction' | 'description' | 'sourceCharacterId' | 'targetCharacterId' | 'chapterId'>>;
+
 /**
  * 获取故事的所有章节
  * @param storyId 故事ID
@@ -509,7 +843,7 @@ export async function getChapter(storyId: string, chapterId: string): Promise<Ch
  */
 export async function createChapter(
   storyId: string,
-  chapterData: { title: string; content: string; summary?: string; notes?: string }
+  chapterData: { title: string; content: string; summary?: string; notes?: string; volumeId?: string | null }
 ): Promise<Chapter> {
   try {
     const response = await fetch(`/api/user/story/${storyId}/chapter`, {
@@ -546,49 +880,828 @@ export async function updateChapter(
     summary?: string;
     notes?: string;
     order?: number;
+    volumeId?: string | null;
   }
 ): Promise<Chapter> {
   try {
     const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(chapterData),
+      body: JSON.stringify(chapterData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `更新章节失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('更新章节失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 删除章节
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ */
+export async function deleteChapter(storyId: string, chapterId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `删除章节失败：${response.status}`);
+    }
+
+    return true;
+  } catch (err) {
+    console.error('删除章节失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 整体重排章节顺序，可同时调整章节所属分卷
+ * @param storyId 故事ID
+ * @param chapters 按新顺序排列的全部章节，volumeId 省略时保持原分卷
+ */
+export async function reorderChapters(
+  storyId: string,
+  chapters: { id: string; volumeId?: string | null }[]
+): Promise<Chapter[]> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/reorder`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chapters }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `调整章节顺序失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('调整章节顺序失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 在光标处拆分章节
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ * @param splitData 光标前后的内容及新章节标题
+ */
+export async function splitChapter(
+  storyId: string,
+  chapterId: string,
+  splitData: { before: string; after: string; title?: string }
+): Promise<{ original: Chapter; created: Chapter }> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}/split`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(splitData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `拆分章节失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('拆分章节失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 将下一章合并到指定章节末尾
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ * @param nextChapterId 紧随其后的章节ID
+ */
+export async function mergeChapters(storyId: string, chapterId: string, nextChapterId: string): Promise<Chapter> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}/merge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ nextChapterId }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `合并章节失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('合并章节失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 获取故事的所有分卷（包含各卷章节目录）
+ * @param storyId 故事ID
+ */
+export async function getVolumes(storyId: string): Promise<Volume[]> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/volume`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `获取分卷失败：${response.status}`);
+    }
+
+    return data.data || [];
+  } catch (err) {
+    console.error('获取分卷失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 创建新分卷
+ * @param storyId 故事ID
+ * @param volumeData 分卷数据
+ */
+export async function createVolume(
+  storyId: string,
+  volumeData: { title: string; summary?: string }
+): Promise<Volume> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/volume`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(volumeData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `创建分卷失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('创建分卷失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 更新分卷
+ * @param storyId 故事ID
+ * @param volumeId 分卷ID
+ * @param volumeData 分卷数据
+ */
+export async function updateVolume(
+  storyId: string,
+  volumeId: string,
+  volumeData: { title?: string; summary?: string; order?: number }
+): Promise<Volume> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/volume/${volumeId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(volumeData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `更新分卷失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('更新分卷失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 删除分卷，分卷下的章节会保留为未分卷状态
+ * @param storyId 故事ID
+ * @param volumeId 分卷ID
+ */
+export async function deleteVolume(storyId: string, volumeId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/volume/${volumeId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `删除分卷失败：${response.status}`);
+    }
+
+    return true;
+  } catch (err) {
+    console.error('删除分卷失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 获取章节的所有场景
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ */
+export async function getScenes(storyId: string, chapterId: string): Promise<Scene[]> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}/scene`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `获取场景失败：${response.status}`);
+    }
+
+    return data.data || [];
+  } catch (err) {
+    console.error('获取场景失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 创建新场景
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ * @param sceneData 场景数据
+ */
+export async function createScene(storyId: string, chapterId: string, sceneData: SceneInput): Promise<Scene> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}/scene`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(sceneData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `创建场景失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('创建场景失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 更新场景
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ * @param sceneId 场景ID
+ * @param sceneData 场景数据
+ */
+export async function updateScene(
+  storyId: string,
+  chapterId: string,
+  sceneId: string,
+  sceneData: SceneInput
+): Promise<Scene> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}/scene/${sceneId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(sceneData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `更新场景失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('更新场景失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 删除场景
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ * @param sceneId 场景ID
+ */
+export async function deleteScene(storyId: string, chapterId: string, sceneId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}/scene/${sceneId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `删除场景失败：${response.status}`);
+    }
+
+    return true;
+  } catch (err) {
+    console.error('删除场景失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 获取章节的备选草稿列表
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ */
+export async function getChapterDrafts(storyId: string, chapterId: string): Promise<ChapterDraftList> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}/drafts`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `获取章节草稿失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('获取章节草稿失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 获取单个章节草稿（含内容）
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ * @param draftId 草稿ID
+ */
+export async function getChapterDraft(storyId: string, chapterId: string, draftId: string): Promise<ChapterDraft> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}/drafts/${draftId}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `获取章节草稿失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('获取章节草稿失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 创建章节草稿
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ * @param draftData 草稿名称和复制来源（canonical、blank 或草稿ID）
+ */
+export async function createChapterDraft(
+  storyId: string,
+  chapterId: string,
+  draftData: { name: string; source?: string }
+): Promise<ChapterDraft> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}/drafts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(draftData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `创建章节草稿失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('创建章节草稿失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 更新章节草稿
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ * @param draftId 草稿ID
+ * @param draftData 更新的名称或内容
+ */
+export async function updateChapterDraft(
+  storyId: string,
+  chapterId: string,
+  draftId: string,
+  draftData: { name?: string; content?: string }
+): Promise<ChapterDraft> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}/drafts/${draftId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(draftData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `更新章节草稿失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('更新章节草稿失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 删除章节草稿
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ * @param draftId 草稿ID
+ */
+export async function deleteChapterDraft(storyId: string, chapterId: string, draftId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}/drafts/${draftId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `删除章节草稿失败：${response.status}`);
+    }
+
+    return true;
+  } catch (err) {
+    console.error('删除章节草稿失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 切换章节当前编辑的草稿
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ * @param activeDraftId 草稿ID，null 表示编辑正文（定稿）
+ */
+export async function setActiveChapterDraft(storyId: string, chapterId: string, activeDraftId: string | null): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}/drafts`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ activeDraftId }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `切换章节草稿失败：${response.status}`);
+    }
+
+    return true;
+  } catch (err) {
+    console.error('切换章节草稿失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 将草稿采用为定稿，原正文保存到该草稿中
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ * @param draftId 草稿ID
+ */
+export async function promoteChapterDraft(
+  storyId: string,
+  chapterId: string,
+  draftId: string
+): Promise<{ chapter: Chapter; draft: ChapterDraft }> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}/drafts/${draftId}/promote`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `采用章节草稿失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('采用章节草稿失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 比较两个章节草稿，canonical 表示正文（定稿）
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ * @param from 旧草稿ID
+ * @param to 新草稿ID
+ */
+export async function compareChapterDrafts(storyId: string, chapterId: string, from: string, to: string): Promise<TextDiffResult> {
+  try {
+    const params = new URLSearchParams({ from, to });
+    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}/drafts/compare?${params.toString()}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `比较章节草稿失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('比较章节草稿失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 获取故事的世界设定条目
+ * @param storyId 故事ID
+ * @param filter 可选的类型筛选和搜索关键词
+ */
+export async function getCodexEntries(
+  storyId: string,
+  filter?: { type?: string; q?: string }
+): Promise<CodexEntry[]> {
+  try {
+    const params = new URLSearchParams();
+    if (filter?.type) params.set('type', filter.type);
+    if (filter?.q) params.set('q', filter.q);
+    const query = params.toString();
+
+    const response = await fetch(`/api/user/story/${storyId}/codex${query ? `?${query}` : ''}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `获取世界设定失败：${response.status}`);
+    }
+
+    return data.data || [];
+  } catch (err) {
+    console.error('获取世界设定失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 创建世界设定条目
+ * @param storyId 故事ID
+ * @param entryData 条目数据
+ */
+export async function createCodexEntry(storyId: string, entryData: CodexEntryInput): Promise<CodexEntry> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/codex`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(entryData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `创建世界设定失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('创建世界设定失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 更新世界设定条目
+ * @param storyId 故事ID
+ * @param entryId 条目ID
+ * @param entryData 条目数据
+ */
+export async function updateCodexEntry(
+  storyId: string,
+  entryId: string,
+  entryData: CodexEntryInput
+): Promise<CodexEntry> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/codex/${entryId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(entryData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `更新世界设定失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('更新世界设定失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 删除世界设定条目
+ * @param storyId 故事ID
+ * @param entryId 条目ID
+ */
+export async function deleteCodexEntry(storyId: string, entryId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/codex/${entryId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `删除世界设定失败：${response.status}`);
+    }
+
+    return true;
+  } catch (err) {
+    console.error('删除世界设定失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 获取故事的时间线事件（按故事内时间顺序）
+ * @param storyId 故事ID
+ */
+export async function getTimelineEvents(storyId: string): Promise<TimelineEvent[]> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/timeline`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `获取时间线失败：${response.status}`);
+    }
+
+    return data.data || [];
+  } catch (err) {
+    console.error('获取时间线失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 创建时间线事件
+ * @param storyId 故事ID
+ * @param eventData 事件数据
+ */
+export async function createTimelineEvent(storyId: string, eventData: TimelineEventInput): Promise<TimelineEvent> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/timeline`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(eventData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `创建时间线事件失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('创建时间线事件失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 更新时间线事件
+ * @param storyId 故事ID
+ * @param eventId 事件ID
+ * @param eventData 事件数据
+ */
+export async function updateTimelineEvent(
+  storyId: string,
+  eventId: string,
+  eventData: TimelineEventInput
+): Promise<TimelineEvent> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/timeline/${eventId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(eventData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `更新时间线事件失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('更新时间线事件失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 删除时间线事件
+ * @param storyId 故事ID
+ * @param eventId 事件ID
+ */
+export async function deleteTimelineEvent(storyId: string, eventId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/timeline/${eventId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
     });
 
     const data = await response.json();
 
     if (!response.ok) {
-      throw new Error(data.error || `更新章节失败：${response.status}`);
+      throw new Error(data.error || `删除时间线事件失败：${response.status}`);
     }
 
-    return data.data;
+    return true;
   } catch (err) {
-    console.error('更新章节失败:', err);
+    console.error('删除时间线事件失败:', err);
     throw err;
   }
 }
 
 /**
- * 删除章节
+ * 检查时间线与章节的时间顺序一致性
  * @param storyId 故事ID
- * @param chapterId 章节ID
  */
-export async function deleteChapter(storyId: string, chapterId: string): Promise<boolean> {
+export async function checkTimeline(storyId: string): Promise<TimelineCheckResult> {
   try {
-    const response = await fetch(`/api/user/story/${storyId}/chapter/${chapterId}`, {
-      method: 'DELETE',
+    const response = await fetch(`/api/user/story/${storyId}/timeline/check`, {
+      method: 'GET',
       headers: { 'Content-Type': 'application/json' },
     });
 
     const data = await response.json();
 
     if (!response.ok) {
-      throw new Error(data.error || `删除章节失败：${response.status}`);
+      throw new Error(data.error || `检查时间线失败：${response.status}`);
     }
 
-    return true;
+    return data.data;
   } catch (err) {
-    console.error('删除章节失败:', err);
+    console.error('检查时间线失败:', err);
     throw err;
   }
 }
@@ -721,6 +1834,56 @@ export async function updateOutline(storyId: string, outline: string): Promise<b
   }
 }
 
+/**
+ * 获取结构化大纲树
+ * @param storyId 故事ID
+ */
+export async function getOutlineTree(storyId: string): Promise<OutlineTreeNode[]> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/outline/tree`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `获取大纲树失败：${response.status}`);
+    }
+
+    return data.data.tree || [];
+  } catch (err) {
+    console.error('获取大纲树失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 保存结构化大纲树，返回带有正式ID的大纲树
+ * @param storyId 故事ID
+ * @param tree 大纲树，新节点的ID可以为临时ID
+ */
+export async function saveOutlineTree(storyId: string, tree: OutlineTreeNode[]): Promise<OutlineTreeNode[]> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/outline/tree`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tree }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `保存大纲树失败：${response.status}`);
+    }
+
+    return data.data.tree || [];
+  } catch (err) {
+    console.error('保存大纲树失败:', err);
+    throw err;
+  }
+}
+
 /**
  * 生成故事大纲
  * @param storyId 故事ID
@@ -789,7 +1952,7 @@ export async function getStoryCharacters(storyId: string): Promise<Character[]>
 // 创建角色
 export async function createCharacter(
   storyId: string,
-  characterData: { name: string; description?: string; attributes?: string }
+  characterData: { name: string; aliases?: string[]; description?: string; attributes?: string }
 ): Promise<Character> {
   try {
     const response = await fetch(`/api/story/${storyId}/character`, {
@@ -813,7 +1976,7 @@ export async function createCharacter(
 // 更新角色
 export async function updateCharacter(
   characterId: string,
-  characterData: { name: string; description?: string; attributes?: string }
+  characterData: { name: string; aliases?: string[]; description?: string; attributes?: string }
 ): Promise<Character> {
   try {
     const response = await fetch(`/api/story/character/${characterId}`, {
@@ -874,6 +2037,117 @@ export async function generateCharacter(storyId: string, prompt: string): Promis
   }
 }
 
+/**
+ * 获取故事的角色关系
+ * @param storyId 故事ID
+ * @param characterId 可选，只获取涉及该角色的关系
+ */
+export async function getCharacterRelationships(storyId: string, characterId?: string): Promise<CharacterRelationship[]> {
+  try {
+    const query = characterId ? `?characterId=${encodeURIComponent(characterId)}` : '';
+    const response = await fetch(`/api/user/story/${storyId}/character/relationship${query}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `获取角色关系失败：${response.status}`);
+    }
+
+    return data.data || [];
+  } catch (err) {
+    console.error('获取角色关系失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 创建角色关系
+ * @param storyId 故事ID
+ * @param relationshipData 关系数据
+ */
+export async function createCharacterRelationship(
+  storyId: string,
+  relationshipData: CharacterRelationshipInput
+): Promise<CharacterRelationship> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/character/relationship`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(relationshipData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `创建角色关系失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('创建角色关系失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 更新角色关系
+ * @param storyId 故事ID
+ * @param relationshipId 关系ID
+ * @param relationshipData 关系数据
+ */
+export async function updateCharacterRelationship(
+  storyId: string,
+  relationshipId: string,
+  relationshipData: CharacterRelationshipInput
+): Promise<CharacterRelationship> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/character/relationship/${relationshipId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(relationshipData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `更新角色关系失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('更新角色关系失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 删除角色关系
+ * @param storyId 故事ID
+ * @param relationshipId 关系ID
+ */
+export async function deleteCharacterRelationship(storyId: string, relationshipId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/character/relationship/${relationshipId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `删除角色关系失败：${response.status}`);
+    }
+
+    return true;
+  } catch (err) {
+    console.error('删除角色关系失败:', err);
+    throw err;
+  }
+}
+
 // 获取故事数据
 export async function getStory(storyId: string): Promise<any> {
   try {
@@ -983,6 +2257,42 @@ export async function generateChapterFromOutline(
   }
 }
 
+/**
+ * 生成或重新生成单个场景
+ * @param storyId 故事ID
+ * @param chapterId 章节ID
+ * @param options sceneId 为已有场景ID；scene 为场景设定（可覆盖已有设定）；outlineSection 为可选的大纲内容
+ */
+export async function generateSceneFromOutline(
+  storyId: string,
+  chapterId: string,
+  options: { sceneId?: string; scene?: SceneInput; outlineSection?: string }
+): Promise<{ content: string; title: string; chapterId: string; sceneId: string | null }> {
+  try {
+    const response = await fetch(`/api/user/story/${storyId}/chapter/generate-from-outline`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        chapterId,
+        sceneId: options.sceneId,
+        scene: options.scene || (options.sceneId ? undefined : {}),
+        outlineSection: options.outlineSection
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `生成场景失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('生成场景失败:', err);
+    throw err;
+  }
+}
+
 /**
  * 根据角色生成大纲
  * @param storyId 故事ID
@@ -1160,47 +2470,21 @@ export interface StoryMetadata {
 export async function getStoryMetadata(storyId: string): Promise<StoryMetadata> {
   try {
     // 并行获取所有需要的数据
-    const [story, characters, chapters, outline] = await Promise.all([
+    const [story, characters, chapters, outline, outlineTree] = await Promise.all([
       getStory(storyId),
       getStoryCharacters(storyId),
       getChapters(storyId),
-      getOutline(storyId)
+      getOutline(storyId),
+      getOutlineTree(storyId)
     ]);
 
-    // 确定故事的当前阶段
-    let stage: StoryStage = 'planning';
-
-    if (characters.length === 0) {
-      stage = 'planning';
-    } else if (!outline) {
-      stage = 'characters';
-    } else if (chapters.length === 0) {
-      stage = 'outline';
-    } else {
-      // 解析大纲章节
-      let outlineSections: any[] = [];
-
-      try {
-        // 尝试解析为结构化数据
-        const parsedOutline = JSON.parse(outline);
-
-        if (Array.isArray(parsedOutline)) {
-          outlineSections = parsedOutline;
-        } else {
-          // 可能是自由格式文本
-          outlineSections = parseOutlineToSections(outline);
-        }
-      } catch (error) {
-        // 解析失败，可能是自由格式文本
-        outlineSections = parseOutlineToSections(outline);
-      }
-
-      if (outlineSections.length > chapters.length) {
-        stage = 'writing';
-      } else {
-        stage = 'editing';
-      }
-    }
+    // 根据大纲节点与章节的实际关联确定故事的当前阶段
+    const stage: StoryStage = detectStoryStage({
+      characterCount: characters.length,
+      hasOutline: !!outline,
+      chapters,
+      outlineNodes: flattenOutlineTree(outlineTree)
+    });
 
     // 计算总字数
     const wordCount = chapters.reduce((sum, chapter) => sum + (chapter.content?.length || 0), 0);
@@ -1210,7 +2494,7 @@ export async function getStoryMetadata(storyId: string): Promise<StoryMetadata>
       title: story.title,
       stage,
       characterCount: characters.length,
-      outlineCompleted: !!outline,
+      outlineCompleted: !!outline || outlineTree.length > 0,
       chapterCount: chapters.length,
       wordCount,
       lastEditedAt: story.updatedAt
@@ -1408,3 +2692,139 @@ export async function suggestNextAction(storyId: string): Promise<{
     };
   }
 }
+
+/**
+ * 获取可用的故事模板（内置和自定义）
+ */
+export async function getStoryTemplates(): Promise<StoryTemplate[]> {
+  try {
+    const response = await fetch('/api/user/story-template', {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `获取故事模板失败：${response.status}`);
+    }
+
+    return data.data || [];
+  } catch (err) {
+    console.error('获取故事模板失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 创建自定义故事模板
+ * @param templateData 模板名称、说明，以及模板结构或用于提取结构的故事ID
+ */
+export async function createStoryTemplate(templateData: {
+  name: string;
+  description?: string;
+  structure?: StoryTemplateStructure;
+  storyId?: string;
+}): Promise<StoryTemplate> {
+  try {
+    const response = await fetch('/api/user/story-template', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(templateData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `创建故事模板失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('创建故事模板失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 更新自定义故事模板
+ */
+export async function updateStoryTemplate(
+  templateId: string,
+  templateData: Partial<Pick<StoryTemplate, 'name' | 'description' | 'structure'>>
+): Promise<StoryTemplate> {
+  try {
+    const response = await fetch(`/api/user/story-template/${templateId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(templateData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `更新故事模板失败：${response.status}`);
+    }
+
+    return data.data;
+  } catch (err) {
+    console.error('更新故事模板失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 删除自定义故事模板
+ */
+export async function deleteStoryTemplate(templateId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/user/story-template/${templateId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `删除故事模板失败：${response.status}`);
+    }
+
+    return true;
+  } catch (err) {
+    console.error('删除故事模板失败:', err);
+    throw err;
+  }
+}
+
+/**
+ * 全文搜索章节正文、摘要、笔记、角色描述和大纲
+ * @param query 搜索关键词，多个关键词以空格分隔
+ * @param options 限定故事、类型和结果数量
+ */
+export async function searchContent(
+  query: string,
+  options: { storyId?: string; types?: SearchDocumentType[]; limit?: number } = {}
+): Promise<SearchHit[]> {
+  try {
+    const params = new URLSearchParams({ q: query });
+    if (options.storyId) params.set('storyId', options.storyId);
+    if (options.types && options.types.length > 0) params.set('types', options.types.join(','));
+    if (options.limit) params.set('limit', String(options.limit));
+
+    const response = await fetch(`/api/user/search?${params.toString()}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || `搜索失败：${response.status}`);
+    }
+
+    return data.data || [];
+  } catch (err) {
+    console.error('搜索失败:', err);
+    throw err;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * 章节草稿工具函数
+ * 章节正文 content 始终是定稿，备选草稿单独保存；导出和 AI 上下文只读取定稿
+ */
+
+// 在草稿切换和对比中表示章节正文（定稿）
+export const CANONICAL_DRAFT = 'canonical';
+
+/**
+ * 生成采用草稿后保存原正文的草稿名称
+ */
+export function getReplacedCanonicalName(date: Date = new Date()): string {
+  return `原正文 ${date.toISOString().slice(0, 10)}`;
+}
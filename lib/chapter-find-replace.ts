@@ -0,0 +1,168 @@
+/**
+ * 故事范围的查找替换
+ * 预览列出所选章节中的全部匹配；应用时只替换用户接受的匹配，替换前将受影响章节保存为带章节快照的故事版本，可一步撤销
+ */
+
+import prisma from '@/lib/prisma';
+import { writeContentToScenes } from '@/lib/chapter-versions';
+import { buildFindPattern, findMatches, FindReplaceField, FindReplaceOptions, isHtmlValue, replaceMatches, TextMatch } from '@/lib/find-replace';
+import { createStoryVersion } from '@/lib/story-versions';
+
+// 预览最多返回的匹配数
+export const MAX_PREVIEW_MATCHES = 1000;
+
+export interface ChapterFindMatch extends TextMatch {
+  id: string; // 章节ID:字段:序号，应用替换时用于确认接受的匹配
+  chapterId: string;
+  field: FindReplaceField;
+}
+
+// 参与查找替换的章节字段
+export interface ScopeChapter {
+  id: string;
+  title: string;
+  order: number;
+  content: string;
+  summary: string | null;
+  notes: string | null;
+  updatedAt: Date;
+}
+
+/**
+ * 读取查找范围内的章节，未指定章节时为故事的全部章节
+ */
+export async function loadScopeChapters(storyId: string, chapterIds?: string[]): Promise<ScopeChapter[]> {
+  return prisma.chapter.findMany({
+    where: {
+      storyId,
+      ...(chapterIds && chapterIds.length > 0 && { id: { in: chapterIds } })
+    },
+    select: { id: true, title: true, order: true, content: true, summary: true, notes: true, updatedAt: true },
+    orderBy: { order: 'asc' }
+  });
+}
+
+function getFieldValue(chapter: ScopeChapter, field: FindReplaceField): string {
+  return chapter[field] || '';
+}
+
+/**
+ * 列出范围内的全部匹配，超过上限时截断
+ */
+export function previewFindReplace(chapters: ScopeChapter[], options: FindReplaceOptions, fields: FindReplaceField[]) {
+  const pattern = buildFindPattern(options);
+  const matches: ChapterFindMatch[] = [];
+  let total = 0;
+
+  const chapterSummaries = chapters.map(chapter => {
+    let matchCount = 0;
+
+    for (const field of fields) {
+      const value = getFieldValue(chapter, field);
+      const fieldMatches = findMatches(value, field === 'content' && isHtmlValue(value), pattern, options);
+      matchCount += fieldMatches.length;
+
+      for (const match of fieldMatches) {
+        if (matches.length < MAX_PREVIEW_MATCHES) {
+          matches.push({ ...match, id: `${chapter.id}:${field}:${match.index}`, chapterId: chapter.id, field });
+        }
+      }
+    }
+
+    total += matchCount;
+    return { id: chapter.id, title: chapter.title, order: chapter.order, updatedAt: chapter.updatedAt, matchCount };
+  });
+
+  return {
+    chapters: chapterSummaries.filter(chapter => chapter.matchCount > 0),
+    matches,
+    total,
+    truncated: total > matches.length
+  };
+}
+
+/**
+ * 只替换接受的匹配；替换前创建 bulk-edit 故事版本保存受影响章节的原内容
+ */
+export async function applyFindReplace(
+  storyId: string,
+  chapters: ScopeChapter[],
+  options: FindReplaceOptions,
+  fields: FindReplaceField[],
+  acceptedIds: string[],
+  createdBy: string
+) {
+  const pattern = buildFindPattern(options);
+  const accepted = new Set(acceptedIds);
+  const updates: Array<{ chapter: ScopeChapter; data: Partial<Record<FindReplaceField, string>> }> = [];
+  let replacedCount = 0;
+
+  for (const chapter of chapters) {
+    const data: Partial<Record<FindReplaceField, string>> = {};
+
+    for (const field of fields) {
+      const prefix = `${chapter.id}:${field}:`;
+      const indexes = new Set(
+        acceptedIds.filter(id => id.startsWith(prefix) && accepted.has(id)).map(id => parseInt(id.slice(prefix.length), 10))
+      );
+      if (indexes.size === 0) continue;
+
+      const value = getFieldValue(chapter, field);
+      const result = replaceMatches(value, field === 'content' && isHtmlValue(value), pattern, options, indexes);
+
+      // 章节标题不能替换为空
+      if (result.replaced === 0 || (field === 'title' && !result.value.trim())) continue;
+
+      data[field] = result.value;
+      replacedCount += result.replaced;
+    }
+
+    if (Object.keys(data).length > 0) {
+      updates.push({ chapter, data });
+    }
+  }
+
+  if (updates.length === 0) {
+    return { replacedCount: 0, chapterCount: 0, versionId: null };
+  }
+
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { content: true }
+  });
+
+  const version = await createStoryVersion(storyId, story?.content || '', {
+    description: `批量替换“${options.query}”为“${options.replacement}”前自动备份`,
+    changeType: 'bulk-edit',
+    createdBy,
+    editSnapshot: {
+      chapters: updates.map(({ chapter }) => ({
+        id: chapter.id,
+        title: chapter.title,
+        content: chapter.content,
+        summary: chapter.summary,
+        notes: chapter.notes
+      })),
+      outlineNodes: [],
+      characters: []
+    }
+  });
+
+  await prisma.$transaction(
+    updates.map(({ chapter, data }) =>
+      prisma.chapter.update({
+        where: { id: chapter.id },
+        data: { ...data, updatedAt: new Date() }
+      })
+    )
+  );
+
+  // 已拆分为场景的章节同步写回场景
+  for (const { chapter, data } of updates) {
+    if (data.content !== undefined) {
+      await writeContentToScenes(chapter.id, data.content);
+    }
+  }
+
+  return { replacedCount, chapterCount: updates.length, versionId: version.versionId };
+}
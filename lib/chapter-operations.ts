@@ -0,0 +1,219 @@
+/**
+ * 章节结构操作：整体重排、拆分和合并
+ * 这些操作会同时改动多个章节的顺序，统一在事务中重写，保证顺序从 1 开始连续且不重复
+ */
+
+import prisma from '@/lib/prisma';
+import { createChapterVersion, writeContentToScenes } from '@/lib/chapter-versions';
+import { composeChapterContent } from '@/lib/scene-utils';
+
+// 合并会转移多张表的关联数据，放宽交互式事务的超时时间
+const MERGE_TRANSACTION_TIMEOUT = 30000;
+
+// 重排请求中的章节，volumeId 为 undefined 时保持原分卷
+export interface ChapterOrderItem {
+  id: string;
+  volumeId?: string | null;
+}
+
+// 参与拆分或合并的章节字段
+interface ChapterRecord {
+  id: string;
+  storyId: string;
+  title: string;
+  content: string;
+  summary: string | null;
+  notes: string | null;
+  order: number;
+  volumeId: string | null;
+}
+
+/**
+ * 按给定顺序在一个事务中重写故事全部章节的顺序（以及所属分卷）
+ */
+export async function rewriteChapterOrder(storyId: string, items: ChapterOrderItem[]) {
+  await prisma.$transaction(
+    items.map((item, index) =>
+      prisma.chapter.update({
+        where: { id: item.id },
+        data: {
+          order: index + 1,
+          ...(item.volumeId !== undefined && { volumeId: item.volumeId })
+        }
+      })
+    )
+  );
+
+  return prisma.chapter.findMany({
+    where: { storyId },
+    orderBy: { order: 'asc' }
+  });
+}
+
+/**
+ * 将章节移动到指定位置（从 1 开始），其余章节依次顺延，返回新的顺序
+ */
+export async function moveChapter(storyId: string, chapterId: string, targetOrder: number) {
+  const chapters = await prisma.chapter.findMany({
+    where: { storyId },
+    orderBy: { order: 'asc' },
+    select: { id: true }
+  });
+
+  const ids: string[] = chapters.map((chapter: { id: string }) => chapter.id).filter((id: string) => id !== chapterId);
+  const index = Math.min(Math.max(targetOrder - 1, 0), ids.length);
+  ids.splice(index, 0, chapterId);
+
+  return rewriteChapterOrder(storyId, ids.map(id => ({ id })));
+}
+
+/**
+ * 将章节拆分为两章：原章节保留前半部分，后半部分成为紧随其后的新章节
+ * 拆分前为原章节记录版本；新章节沿用原章节的分卷、摘要和笔记
+ */
+export async function splitChapter(
+  chapter: ChapterRecord,
+  options: { before: string; after: string; title: string; createdBy: string }
+) {
+  await createChapterVersion(chapter, {
+    changeType: 'auto-backup',
+    description: '拆分前自动备份',
+    createdBy: options.createdBy
+  });
+
+  const result = await prisma.$transaction(async (tx) => {
+    // 为新章节腾出位置
+    await tx.chapter.updateMany({
+      where: { storyId: chapter.storyId, order: { gt: chapter.order } },
+      data: { order: { increment: 1 } }
+    });
+
+    const original = await tx.chapter.update({
+      where: { id: chapter.id },
+      data: { content: options.before, updatedAt: new Date() }
+    });
+
+    const created = await tx.chapter.create({
+      data: {
+        storyId: chapter.storyId,
+        volumeId: chapter.volumeId,
+        title: options.title,
+        content: options.after,
+        summary: chapter.summary,
+        notes: chapter.notes,
+        order: chapter.order + 1
+      }
+    });
+
+    return { original, created };
+  });
+
+  // 原章节已拆分为场景时，将保留的前半部分写回场景
+  await writeContentToScenes(chapter.id, options.before);
+
+  return result;
+}
+
+/**
+ * 将后一章合并到前一章末尾并删除后一章，剩余章节重新连续编号
+ * 合并前为两章分别记录版本；摘要和笔记按顺序拼接，后一章的场景、草稿、版本历史、大纲节点、角色关系和时间线事件转到前一章
+ */
+export async function mergeChapters(first: ChapterRecord, second: ChapterRecord, createdBy: string) {
+  await createChapterVersion(first, {
+    changeType: 'auto-backup',
+    description: '合并前自动备份',
+    createdBy
+  });
+
+  await createChapterVersion(second, {
+    changeType: 'auto-backup',
+    description: `合并到「${first.title}」前自动备份`,
+    createdBy
+  });
+
+  const joinText = (a: string | null, b: string | null) => [a, b].filter(text => text && text.trim()).join('\n\n') || null;
+
+  return prisma.$transaction(async (tx) => {
+    const firstScenes = await tx.scene.findMany({ where: { chapterId: first.id }, orderBy: { order: 'asc' } });
+    const secondScenes = await tx.scene.findMany({ where: { chapterId: second.id }, orderBy: { order: 'asc' } });
+
+    let content = joinText(first.content, second.content) || '';
+
+    // 任一章节已拆分为场景时，合并后的正文由场景拼接；没有场景但有正文的章节先整体转为一个场景
+    if (firstScenes.length > 0 || secondScenes.length > 0) {
+      if (firstScenes.length === 0 && first.content.trim()) {
+        firstScenes.push(await tx.scene.create({
+          data: { chapterId: first.id, content: first.content, order: 1 }
+        }));
+      }
+
+      const movedScenes = secondScenes.length > 0
+        ? secondScenes
+        : second.content.trim()
+          ? [await tx.scene.create({ data: { chapterId: second.id, content: second.content, order: 1 } })]
+          : [];
+
+      for (let i = 0; i < movedScenes.length; i++) {
+        movedScenes[i] = await tx.scene.update({
+          where: { id: movedScenes[i].id },
+          data: { chapterId: first.id, order: firstScenes.length + i + 1 }
+        });
+      }
+
+      content = composeChapterContent([...firstScenes, ...movedScenes]);
+    }
+
+    // 关联数据转到前一章，避免删除后一章时被置空或随之级联删除
+    await tx.chapterVersion.updateMany({
+      where: { chapterId: second.id },
+      data: { chapterId: first.id }
+    });
+
+    await tx.chapterDraft.updateMany({
+      where: { chapterId: second.id },
+      data: { chapterId: first.id }
+    });
+
+    await tx.outlineNode.updateMany({
+      where: { chapterId: second.id },
+      data: { chapterId: first.id }
+    });
+
+    await tx.characterRelationship.updateMany({
+      where: { chapterId: second.id },
+      data: { chapterId: first.id }
+    });
+
+    const timelineEvents = await tx.timelineEvent.findMany({
+      where: { chapters: { some: { id: second.id } } },
+      select: { id: true }
+    });
+
+    for (const event of timelineEvents) {
+      await tx.timelineEvent.update({
+        where: { id: event.id },
+        data: { chapters: { connect: { id: first.id } } }
+      });
+    }
+
+    const merged = await tx.chapter.update({
+      where: { id: first.id },
+      data: {
+        content,
+        summary: joinText(first.summary, second.summary),
+        notes: joinText(first.notes, second.notes),
+        updatedAt: new Date()
+      }
+    });
+
+    await tx.chapter.delete({ where: { id: second.id } });
+
+    // 后续章节整体前移一位，保持顺序连续
+    await tx.chapter.updateMany({
+      where: { storyId: first.storyId, order: { gt: second.order } },
+      data: { order: { decrement: 1 } }
+    });
+
+    return merged;
+  }, { timeout: MERGE_TRANSACTION_TIMEOUT });
+}
@@ -0,0 +1,109 @@
+/**
+ * 章节版本工具函数
+ * 章节的历史版本保存在 ChapterVersion 表中，章节更新、恢复等操作前通过这里创建快照
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { generateVersionId } from '@/lib/auto-save';
+import { SCENE_SEPARATOR, splitChapterContent } from '@/lib/scene-utils';
+
+// 每个章节自动保存类版本的保留上限，手动版本不受限制
+export const MAX_AUTO_CHAPTER_VERSIONS = 50;
+
+// 可快照的章节字段
+interface ChapterSnapshot {
+  id: string;
+  title: string;
+  content: string;
+  summary?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * 计算内容大小（KB）
+ */
+export function getContentSizeInKB(content: string): number {
+  return Math.round(new TextEncoder().encode(content || '').length / 1024);
+}
+
+/**
+ * 判断章节更新是否改变了需要留存版本的字段
+ */
+export function hasChapterChanges(
+  existing: ChapterSnapshot,
+  updates: { title?: string; content?: string; summary?: string | null; notes?: string | null }
+): boolean {
+  return (
+    (updates.title !== undefined && updates.title !== existing.title) ||
+    (updates.content !== undefined && updates.content !== existing.content) ||
+    (updates.summary !== undefined && (updates.summary || null) !== (existing.summary || null)) ||
+    (updates.notes !== undefined && (updates.notes || null) !== (existing.notes || null))
+  );
+}
+
+/**
+ * 为章节当前状态创建版本快照，并清理超出保留上限的自动版本
+ */
+export async function createChapterVersion(
+  chapter: ChapterSnapshot,
+  options: { changeType: string; description?: string; createdBy: string }
+) {
+  const version = await prisma.chapterVersion.create({
+    data: {
+      chapterId: chapter.id,
+      versionId: generateVersionId(),
+      title: chapter.title,
+      content: chapter.content || '',
+      summary: chapter.summary || null,
+      notes: chapter.notes || null,
+      description: options.description || '版本更新',
+      changeType: options.changeType,
+      createdBy: options.createdBy,
+      size: getContentSizeInKB(chapter.content)
+    }
+  });
+
+  // 只清理自动产生的版本，手动保存和恢复记录始终保留
+  const staleVersions = await prisma.chapterVersion.findMany({
+    where: { chapterId: chapter.id, changeType: { in: ['auto', 'auto-backup'] } },
+    orderBy: { createdAt: 'desc' },
+    skip: MAX_AUTO_CHAPTER_VERSIONS,
+    select: { id: true }
+  });
+
+  if (staleVersions.length > 0) {
+    await prisma.chapterVersion.deleteMany({
+      where: { id: { in: staleVersions.map((item: { id: string }) => item.id) } }
+    });
+  }
+
+  return version;
+}
+
+/**
+ * 章节已拆分为场景时，将整章正文写回场景，避免之后编辑场景时覆盖恢复结果
+ * 按分隔符依次分配，多出的段落合并到最后一个场景，多余的场景置空
+ * 与章节正文一起写入时传入事务的 client
+ */
+export async function writeContentToScenes(chapterId: string, content: string, client: Prisma.TransactionClient = prisma) {
+  const scenes = await client.scene.findMany({
+    where: { chapterId },
+    orderBy: { order: 'asc' }
+  });
+
+  if (scenes.length === 0) return;
+
+  const parts = splitChapterContent(content);
+
+  for (let i = 0; i < scenes.length; i++) {
+    const sceneContent = i === scenes.length - 1
+      ? parts.slice(i).join(SCENE_SEPARATOR)
+      : parts[i] || '';
+
+    await client.scene.update({
+      where: { id: scenes[i].id },
+      data: { content: sceneContent }
+    });
+  }
+}
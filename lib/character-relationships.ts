@@ -0,0 +1,96 @@
+/**
+ * 角色关系工具函数
+ * 关系类型与方向的定义、校验，以及生成AI分析提示中的关系说明
+ */
+
+export type RelationshipType = 'family' | 'sibling' | 'lover' | 'friend' | 'ally' | 'mentor' | 'rival' | 'enemy' | 'other';
+export type RelationshipDirection = 'mutual' | 'directed';
+
+export const RELATIONSHIP_TYPES: { value: RelationshipType; label: string }[] = [
+  { value: 'family', label: '亲属' },
+  { value: 'sibling', label: '兄弟姐妹' },
+  { value: 'lover', label: '恋人' },
+  { value: 'friend', label: '朋友' },
+  { value: 'ally', label: '盟友' },
+  { value: 'mentor', label: '师徒' },
+  { value: 'rival', label: '对手' },
+  { value: 'enemy', label: '敌人' },
+  { value: 'other', label: '其他' },
+];
+
+export const RELATIONSHIP_DIRECTIONS: { value: RelationshipDirection; label: string }[] = [
+  { value: 'mutual', label: '双向' },
+  { value: 'directed', label: '单向' },
+];
+
+// 关系图中各类型的连线颜色
+export const RELATIONSHIP_COLORS: Record<RelationshipType, string> = {
+  family: '#0ea5e9',
+  sibling: '#6366f1',
+  lover: '#ec4899',
+  friend: '#22c55e',
+  ally: '#14b8a6',
+  mentor: '#f59e0b',
+  rival: '#f97316',
+  enemy: '#ef4444',
+  other: '#94a3b8',
+};
+
+// 数据库中的角色关系
+export interface CharacterRelationshipRecord {
+  id: string;
+  type: string;
+  direction: string;
+  description?: string | null;
+  sourceCharacterId: string;
+  targetCharacterId: string;
+  chapterId?: string | null;
+}
+
+/**
+ * 判断是否为受支持的关系类型
+ */
+export function isRelationshipType(type: unknown): type is RelationshipType {
+  return RELATIONSHIP_TYPES.some(item => item.value === type);
+}
+
+/**
+ * 判断是否为受支持的关系方向
+ */
+export function isRelationshipDirection(direction: unknown): direction is RelationshipDirection {
+  return RELATIONSHIP_DIRECTIONS.some(item => item.value === direction);
+}
+
+/**
+ * 获取关系类型的中文名称
+ */
+export function getRelationshipTypeLabel(type: string): string {
+  return RELATIONSHIP_TYPES.find(item => item.value === type)?.label || type;
+}
+
+/**
+ * 将角色关系格式化为AI提示中的关系说明
+ * 只保留至少一方在 characterIds 中的关系（未提供时保留全部），按起始章节顺序排列
+ */
+export function formatRelationshipsForPrompt(
+  relationships: CharacterRelationshipRecord[],
+  characters: Array<{ id: string; name: string }>,
+  chapters: Array<{ id: string; title: string; order: number }> = [],
+  characterIds?: string[]
+): string {
+  const nameOf = (id: string) => characters.find(char => char.id === id)?.name;
+  const chapterOf = (id?: string | null) => (id ? chapters.find(chapter => chapter.id === id) : undefined);
+
+  return relationships
+    .filter(rel => !characterIds || characterIds.includes(rel.sourceCharacterId) || characterIds.includes(rel.targetCharacterId))
+    .filter(rel => nameOf(rel.sourceCharacterId) && nameOf(rel.targetCharacterId))
+    .sort((a, b) => (chapterOf(a.chapterId)?.order ?? 0) - (chapterOf(b.chapterId)?.order ?? 0))
+    .map(rel => {
+      const arrow = rel.direction === 'directed' ? '→' : '↔';
+      const chapter = chapterOf(rel.chapterId);
+      return `- ${nameOf(rel.sourceCharacterId)} ${arrow} ${nameOf(rel.targetCharacterId)}：${getRelationshipTypeLabel(rel.type)}` +
+        `${rel.description ? `（${rel.description}）` : ''}` +
+        `${chapter ? `，自第${chapter.order}章《${chapter.title}》起` : ''}`;
+    })
+    .join('\n');
+}
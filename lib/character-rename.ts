@@ -0,0 +1,256 @@
+/**
+ * 角色改名
+ * 在章节、大纲和其他角色的描述中查找角色名称及别名的提及，预览后只改写用户确认的提及
+ * 改写前将受影响的内容和角色本身保存为带快照的故事版本，恢复该版本即可撤销改名
+ */
+
+import prisma from '@/lib/prisma';
+import { writeContentToScenes } from '@/lib/chapter-versions';
+import { MAX_PREVIEW_MATCHES } from '@/lib/chapter-find-replace';
+import { buildFindPattern, escapeRegExp, findMatches, FindReplaceOptions, isHtmlValue, replaceMatches, TextMatch } from '@/lib/find-replace';
+import { captureEditSnapshot, createStoryVersion } from '@/lib/story-versions';
+
+export type RenameSource = 'chapter' | 'outline' | 'character' | 'story';
+
+// 可能提及角色的内容
+export interface RenameTarget {
+  source: RenameSource;
+  id: string;
+  title: string; // 章节标题、大纲节点标题、角色名称或“故事大纲”
+  updatedAt: Date;
+  fields: Record<string, string | null>;
+}
+
+export interface RenameMatch extends TextMatch {
+  id: string; // 来源:ID:字段:序号
+  source: RenameSource;
+  targetId: string;
+  field: string;
+}
+
+// 不能改写为空的字段
+const REQUIRED_FIELDS = new Set(['chapter:title', 'outline:title']);
+
+/**
+ * 按“原文 → 新文字”构建查找选项；较长的词优先匹配，避免别名是名称一部分时被拆开
+ * 区分大小写，英文名按全词匹配
+ */
+export function buildRenameOptions(replacements: Record<string, string>): FindReplaceOptions {
+  const terms = Object.keys(replacements)
+    .filter(term => term)
+    .sort((a, b) => b.length - a.length);
+
+  return {
+    query: terms.map(escapeRegExp).join('|'),
+    replacement: '',
+    regex: true,
+    wholeWord: true,
+    caseSensitive: true,
+    replacements
+  };
+}
+
+/**
+ * 读取故事中可能提及角色的全部内容：章节、大纲节点、其他角色的描述和故事大纲
+ */
+export async function loadRenameTargets(storyId: string, characterId: string): Promise<RenameTarget[]> {
+  const [story, chapters, outlineNodes, characters] = await Promise.all([
+    prisma.story.findUnique({
+      where: { id: storyId },
+      select: { outline: true, updatedAt: true }
+    }),
+    prisma.chapter.findMany({
+      where: { storyId },
+      select: { id: true, title: true, content: true, summary: true, notes: true, updatedAt: true },
+      orderBy: { order: 'asc' }
+    }),
+    prisma.outlineNode.findMany({
+      where: { storyId },
+      select: { id: true, title: true, description: true, updatedAt: true },
+      orderBy: [{ parentId: 'asc' }, { order: 'asc' }]
+    }),
+    prisma.character.findMany({
+      where: { storyId, id: { not: characterId } },
+      select: { id: true, name: true, description: true, updatedAt: true },
+      orderBy: { createdAt: 'asc' }
+    })
+  ]);
+
+  return [
+    ...chapters.map((chapter: { id: string; title: string; content: string; summary: string | null; notes: string | null; updatedAt: Date }) => ({
+      source: 'chapter' as const,
+      id: chapter.id,
+      title: chapter.title,
+      updatedAt: chapter.updatedAt,
+      fields: { title: chapter.title, content: chapter.content, summary: chapter.summary, notes: chapter.notes }
+    })),
+    ...outlineNodes.map((node: { id: string; title: string; description: string | null; updatedAt: Date }) => ({
+      source: 'outline' as const,
+      id: node.id,
+      title: node.title,
+      updatedAt: node.updatedAt,
+      fields: { title: node.title, description: node.description }
+    })),
+    ...characters.map((character: { id: string; name: string; description: string | null; updatedAt: Date }) => ({
+      source: 'character' as const,
+      id: character.id,
+      title: character.name,
+      updatedAt: character.updatedAt,
+      fields: { description: character.description }
+    })),
+    ...(story?.outline
+      ? [{ source: 'story' as const, id: storyId, title: '故事大纲', updatedAt: story.updatedAt, fields: { outline: story.outline } }]
+      : [])
+  ];
+}
+
+/**
+ * 内容的标识，用于匹配ID和预览后的修改检查
+ */
+export function getTargetKey(target: { source: RenameSource; id: string }): string {
+  return `${target.source}:${target.id}`;
+}
+
+/**
+ * 章节正文和故事大纲可能是编辑器保存的 HTML
+ */
+function isHtmlField(field: string, value: string): boolean {
+  return (field === 'content' || field === 'outline') && isHtmlValue(value);
+}
+
+/**
+ * 列出全部提及，超过上限时截断；同时统计每个名称或别名的提及次数
+ */
+export function previewCharacterRename(targets: RenameTarget[], options: FindReplaceOptions) {
+  const pattern = buildFindPattern(options);
+  const matches: RenameMatch[] = [];
+  const termCounts: Record<string, number> = {};
+  let total = 0;
+
+  const summaries = targets.map(target => {
+    let matchCount = 0;
+
+    for (const [field, rawValue] of Object.entries(target.fields)) {
+      const value = rawValue || '';
+      const fieldMatches = findMatches(value, isHtmlField(field, value), pattern, options);
+      matchCount += fieldMatches.length;
+
+      for (const match of fieldMatches) {
+        termCounts[match.text] = (termCounts[match.text] || 0) + 1;
+        if (matches.length < MAX_PREVIEW_MATCHES) {
+          matches.push({
+            ...match,
+            id: `${getTargetKey(target)}:${field}:${match.index}`,
+            source: target.source,
+            targetId: target.id,
+            field
+          });
+        }
+      }
+    }
+
+    total += matchCount;
+    return { source: target.source, id: target.id, title: target.title, updatedAt: target.updatedAt, matchCount };
+  });
+
+  return {
+    targets: summaries.filter(target => target.matchCount > 0),
+    matches,
+    total,
+    truncated: total > matches.length,
+    termCounts
+  };
+}
+
+/**
+ * 改名并改写确认的提及；改写前创建 bulk-edit 故事版本，快照包含受影响的内容和角色本身
+ */
+export async function applyCharacterRename(
+  storyId: string,
+  characterId: string,
+  targets: RenameTarget[],
+  options: FindReplaceOptions,
+  acceptedIds: string[],
+  rename: { name: string; aliases: string[]; description: string; createdBy: string }
+) {
+  const pattern = buildFindPattern(options);
+  const updates: Array<{ target: RenameTarget; data: Record<string, string> }> = [];
+  let replacedCount = 0;
+
+  for (const target of targets) {
+    const data: Record<string, string> = {};
+
+    for (const [field, rawValue] of Object.entries(target.fields)) {
+      const prefix = `${getTargetKey(target)}:${field}:`;
+      const indexes = new Set(
+        acceptedIds.filter(id => id.startsWith(prefix)).map(id => parseInt(id.slice(prefix.length), 10))
+      );
+      if (indexes.size === 0) continue;
+
+      const value = rawValue || '';
+      const result = replaceMatches(value, isHtmlField(field, value), pattern, options, indexes);
+
+      if (result.replaced === 0 || result.value === value) continue;
+      if (REQUIRED_FIELDS.has(`${target.source}:${field}`) && !result.value.trim()) continue;
+
+      data[field] = result.value;
+      replacedCount += result.replaced;
+    }
+
+    if (Object.keys(data).length > 0) {
+      updates.push({ target, data });
+    }
+  }
+
+  const idsOf = (source: RenameSource) => updates.filter(({ target }) => target.source === source).map(({ target }) => target.id);
+
+  const [story, editSnapshot] = await Promise.all([
+    prisma.story.findUnique({ where: { id: storyId }, select: { content: true } }),
+    captureEditSnapshot({
+      chapterIds: idsOf('chapter'),
+      outlineNodeIds: idsOf('outline'),
+      characterIds: [characterId, ...idsOf('character')],
+      storyOutlineOf: idsOf('story').length > 0 ? storyId : undefined
+    })
+  ]);
+
+  const version = await createStoryVersion(storyId, story?.content || '', {
+    description: rename.description,
+    changeType: 'bulk-edit',
+    createdBy: rename.createdBy,
+    editSnapshot
+  });
+
+  const [character] = await prisma.$transaction([
+    prisma.character.update({
+      where: { id: characterId },
+      data: { name: rename.name, aliases: JSON.stringify(rename.aliases) }
+    }),
+    ...updates.map(({ target, data }) => {
+      switch (target.source) {
+        case 'chapter':
+          return prisma.chapter.update({ where: { id: target.id }, data: { ...data, updatedAt: new Date() } });
+        case 'outline':
+          return prisma.outlineNode.update({ where: { id: target.id }, data });
+        case 'character':
+          return prisma.character.update({ where: { id: target.id }, data });
+        default:
+          return prisma.story.update({ where: { id: target.id }, data });
+      }
+    })
+  ]);
+
+  // 已拆分为场景的章节同步写回场景
+  for (const { target, data } of updates) {
+    if (target.source === 'chapter' && data.content !== undefined) {
+      await writeContentToScenes(target.id, data.content);
+    }
+  }
+
+  return {
+    character,
+    replacedCount,
+    updatedCount: updates.length,
+    versionId: version.versionId
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * 世界设定（设定集）工具函数
+ * 条目的自定义字段和别名以JSON文本存储，这里负责解析、匹配与生成AI提示中的设定说明
+ */
+
+export type CodexEntryType = 'location' | 'organization' | 'magic_system' | 'item' | 'term';
+
+export const CODEX_ENTRY_TYPES: { value: CodexEntryType; label: string }[] = [
+  { value: 'location', label: '地点' },
+  { value: 'organization', label: '组织' },
+  { value: 'magic_system', label: '魔法体系' },
+  { value: 'item', label: '物品' },
+  { value: 'term', label: '术语' },
+];
+
+// 数据库中的设定条目
+export interface CodexEntryRecord {
+  id: string;
+  type: string;
+  name: string;
+  description?: string | null;
+  fields?: string | null;
+  aliases?: string | null;
+  links?: Array<{ id: string; name: string }>;
+}
+
+/**
+ * 判断是否为受支持的条目类型
+ */
+export function isCodexEntryType(type: unknown): type is CodexEntryType {
+  return CODEX_ENTRY_TYPES.some(item => item.value === type);
+}
+
+/**
+ * 获取条目类型的中文名称
+ */
+export function getCodexTypeLabel(type: string): string {
+  return CODEX_ENTRY_TYPES.find(item => item.value === type)?.label || type;
+}
+
+/**
+ * 解析自定义字段JSON，解析失败时返回空对象
+ */
+export function parseCodexFields(fields?: string | null): Record<string, string> {
+  if (!fields) return {};
+  try {
+    const parsed = JSON.parse(fields);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).map(([key, value]) => [key, String(value ?? '')])
+    );
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 解析别名JSON数组，解析失败时返回空数组
+ */
+export function parseCodexAliases(aliases?: string | null): string[] {
+  if (!aliases) return [];
+  try {
+    const parsed = JSON.parse(aliases);
+    return Array.isArray(parsed)
+      ? parsed.map(alias => String(alias).trim()).filter(Boolean)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 规范化请求中的别名，去除空白和重复项
+ */
+export function normalizeCodexAliases(aliases: unknown): string[] {
+  if (!Array.isArray(aliases)) return [];
+  return Array.from(new Set(aliases.map(alias => String(alias).trim()).filter(Boolean)));
+}
+
+/**
+ * 规范化请求中的自定义字段，忽略空字段名
+ */
+export function normalizeCodexFields(fields: unknown): Record<string, string> {
+  if (!fields || typeof fields !== 'object' || Array.isArray(fields)) return {};
+  return Object.fromEntries(
+    Object.entries(fields as Record<string, unknown>)
+      .map(([key, value]) => [key.trim(), String(value ?? '').trim()])
+      .filter(([key]) => key.length > 0)
+  );
+}
+
+/**
+ * 找出文本中提及（名称或别名）的设定条目，并附带被提及条目交叉引用的条目
+ * 中文没有分词边界，直接按子串匹配；按首次出现位置排序，最多返回 limit 条
+ */
+export function selectRelevantCodexEntries<T extends CodexEntryRecord>(
+  entries: T[],
+  text: string,
+  limit = 12
+): T[] {
+  if (!text) return [];
+
+  const mentioned = entries
+    .map(entry => {
+      const positions = [entry.name, ...parseCodexAliases(entry.aliases)]
+        .filter(term => term && term.length > 0)
+        .map(term => text.indexOf(term))
+        .filter(position => position >= 0);
+      return { entry, position: positions.length > 0 ? Math.min(...positions) : -1 };
+    })
+    .filter(item => item.position >= 0)
+    .sort((a, b) => a.position - b.position)
+    .map(item => item.entry);
+
+  const selected = [...mentioned];
+  const selectedIds = new Set(mentioned.map(entry => entry.id));
+
+  mentioned.forEach(entry => {
+    (entry.links || []).forEach(link => {
+      const linkedEntry = entries.find(item => item.id === link.id);
+      if (linkedEntry && !selectedIds.has(linkedEntry.id)) {
+        selectedIds.add(linkedEntry.id);
+        selected.push(linkedEntry);
+      }
+    });
+  });
+
+  return selected.slice(0, limit);
+}
+
+/**
+ * 将设定条目格式化为AI提示中的设定说明
+ */
+export function formatCodexForPrompt(entries: CodexEntryRecord[]): string {
+  return entries.map(entry => {
+    const aliases = parseCodexAliases(entry.aliases);
+    const fields = Object.entries(parseCodexFields(entry.fields));
+    const lines = [`【${getCodexTypeLabel(entry.type)}】${entry.name}${aliases.length > 0 ? `（又称：${aliases.join('、')}）` : ''}`];
+
+    if (entry.description) lines.push(entry.description);
+    fields.forEach(([key, value]) => lines.push(`${key}：${value}`));
+    if (entry.links && entry.links.length > 0) {
+      lines.push(`相关：${entry.links.map(link => link.name).join('、')}`);
+    }
+
+    return lines.join('\n');
+  }).join('\n\n');
+}
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateEPUB, ExportOptions } from "@/lib/document-generator";
+import { validateEpub } from "@/lib/epub-validate";
+
+// 1x1 像素的 PNG，用作封面图片
+const COVER_PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
+  "base64"
+);
+
+const chapters = [
+  { title: "第一章 初入江湖", content: "<p>少年背着长剑走出山门。</p><p>“师父，我去了。”</p>" },
+  { title: "第二章 客栈 & 风波", content: "第一段。\n\n第二段带有 <特殊> 字符。" }
+];
+
+async function expectValidEpub(options: ExportOptions) {
+  const buffer = await generateEPUB(options);
+  assert.deepEqual(await validateEpub(buffer), []);
+}
+
+test("不分卷的作品生成合法的 EPUB", async () => {
+  await expectValidEpub({ title: "剑来", author: "作者", chapters });
+});
+
+test("分卷的作品生成合法的 EPUB", async () => {
+  await expectValidEpub({
+    title: "剑来",
+    chapters,
+    volumes: [
+      { title: "第一卷 山门", summary: "少年离开师门。", chapters: chapters.slice(0, 1) },
+      { title: "第二卷 江湖", chapters: chapters.slice(1) },
+      { title: "第三卷 尚未动笔", chapters: [] }
+    ]
+  });
+});
+
+test("带封面和系列信息的作品生成合法的 EPUB", async () => {
+  await expectValidEpub({
+    title: "剑来",
+    chapters,
+    cover: COVER_PNG,
+    identifier: "story-1",
+    series: { name: "江湖系列", number: 2 }
+  });
+});
+
+test("带人物和大纲附录的作品生成合法的 EPUB", async () => {
+  await expectValidEpub({
+    title: "剑来",
+    chapters,
+    includeCharacters: true,
+    characters: [
+      { name: "陈平安", description: "出身小镇的少年", attributes: { 年龄: 16, 性格: "沉稳" } },
+      { name: "宁姚" }
+    ],
+    includeOutline: true,
+    outline: "# 第一部\n\n- 离开小镇\n- 初到剑气长城"
+  });
+});
+
+test("没有章节的作品生成合法的 EPUB", async () => {
+  await expectValidEpub({ title: "空白作品", chapters: [] });
+});
@@ -1,14 +1,23 @@
 import PDFDocument from "pdfkit";
-import EPub from "epub-gen";
-import fs from "fs";
-import path from "path";
-import os from "os";
-import { promisify } from "util";
-
-// 文件系统操作Promise化
-const writeFile = promisify(fs.writeFile);
-const unlink = promisify(fs.unlink);
-const mkdtemp = promisify(fs.mkdtemp);
+import {
+  AlignmentType,
+  Document,
+  Footer,
+  HeadingLevel,
+  Packer,
+  PageNumber,
+  Paragraph,
+  TableOfContents,
+  TextRun
+} from "docx";
+import { createHash, randomUUID } from "crypto";
+import JSZip from "jszip";
+import { breakLines, containsCjk, justifySpacing, measureVertical, resolveCjkFonts, splitVerticalUnits, PdfFontStyle } from "@/lib/pdf-typesetting";
+import { mmToPt, pageSideMargins, resolvePdfLayout, PdfLayoutOptions } from "@/lib/pdf-layout";
+import { splitParagraphs, toPlainText } from "@/lib/text-diff";
+import { xhtmlToEditorHtml } from "@/lib/epub-import";
+import { buildEpubStylesheet, resolveEpubTheme, EpubThemeId } from "@/lib/epub-themes";
+import { validateEpub } from "@/lib/epub-validate";
 
 // 定义导出选项接口
 export interface ExportOptions {
@@ -24,38 +33,125 @@ export interface ExportOptions {
     title: string;
     content: string;
   }>;
+  volumes?: Array<{ // 分卷结构，提供时按分卷导出并为每卷生成目录
+    title: string;
+    summary?: string;
+    chapters: Array<{
+      title: string;
+      content: string;
+    }>;
+  }>;
   includeCharacters?: boolean;
   includeOutline?: boolean;
   fontSize?: number; // PDF字体大小
   fontFamily?: string; // PDF字体
   pageSize?: string; // PDF页面大小
-  cover?: Buffer | string; // 封面图片
+  layout?: PdfLayoutOptions; // PDF版式预设及覆盖的页边距等设置
+  cover?: Buffer | string; // 封面图片（data URI 或 Buffer），EPUB 未提供时自动生成
+  language?: string; // EPUB 语言，默认 zh-CN
+  identifier?: string; // 作品标识（如故事 ID），用于生成固定的 EPUB 标识
+  series?: { name: string; number?: number }; // EPUB 所属系列及序号
+  epubTheme?: EpubThemeId; // EPUB 样式主题
+  customCss?: string; // EPUB 自定义 CSS，追加在主题样式之后
+  onProgress?: (rendered: number, total: number) => void | Promise<void>; // 每渲染完一章调用，用于报告后台导出进度
+}
+
+/**
+ * 创建章节进度回调：每渲染完一章调用一次，并让出事件循环，避免长篇导出阻塞其他请求
+ */
+function chapterProgress(options: ExportOptions): () => Promise<void> {
+  const total = options.volumes && options.volumes.length > 0
+    ? options.volumes.reduce((sum, volume) => sum + volume.chapters.length, 0)
+    : options.chapters.length;
+  let rendered = 0;
+
+  return async () => {
+    rendered++;
+    if (options.onProgress) {
+      await options.onProgress(rendered, total);
+    }
+    await new Promise(resolve => setImmediate(resolve));
+  };
+}
+
+type PdfBlockKind = 'paragraph' | 'heading' | 'item' | 'quote' | 'plain';
+
+/**
+ * 将章节内容（编辑器 HTML 或纯文本）拆分为 PDF 排版用的段落
+ */
+function contentToPdfBlocks(content: string): Array<{ kind: PdfBlockKind; text: string; align: 'center' | 'right' | null }> {
+  const blocks: Array<{ kind: PdfBlockKind; text: string; align: 'center' | 'right' | null }> = [];
+  const lists: Array<{ ordered: boolean; count: number }> = [];
+  let quoteDepth = 0;
+
+  const source = (content || '').replace(/<hr\s*\/?>/gi, '\n<p style="text-align: center">* * *</p>\n');
+  for (const piece of splitParagraphs(source)) {
+    // 段落之前的列表和引用标签
+    piece.replace(/<(\/?)(ul|ol|blockquote)\b[^>]*>/gi, (_, closing: string, tag: string) => {
+      const name = tag.toLowerCase();
+      if (name === 'blockquote') quoteDepth = Math.max(0, quoteDepth + (closing ? -1 : 1));
+      else if (closing) lists.pop();
+      else lists.push({ ordered: name === 'ol', count: 0 });
+      return '';
+    });
+
+    const text = toPlainText(piece);
+    if (!text) continue;
+
+    const align = piece.match(/text-align:\s*(center|right)/i);
+    if (/<h[1-6]\b/i.test(piece)) {
+      blocks.push({ kind: 'heading', text, align: align ? (align[1].toLowerCase() as 'center' | 'right') : null });
+    } else if (/<li\b/i.test(piece)) {
+      const list = lists[lists.length - 1];
+      const marker = list?.ordered ? `${++list.count}. ` : '• ';
+      blocks.push({ kind: 'item', text: marker + text, align: null });
+    } else {
+      const kind: PdfBlockKind = quoteDepth > 0 ? 'quote' : /<pre\b/i.test(piece) ? 'plain' : 'paragraph';
+      blocks.push({ kind, text, align: align ? (align[1].toLowerCase() as 'center' | 'right') : null });
+    }
+  }
+
+  return blocks;
 }
 
 /**
  * 生成PDF文档
+ * 使用嵌入的中文字体排版：正文首行缩进两字、两端对齐，每章另起一页；按版式预设支持竖排、装订线和左右页镜像；
+ * 目录和分卷目录的页码在正文排完后回填，每页带章节标题页眉和页码页脚
  * @param options 导出选项
  * @returns 生成的PDF文件Buffer
  */
 export async function generatePDF(options: ExportOptions): Promise<Buffer> {
   return new Promise(async (resolve, reject) => {
     try {
-      // 创建一个临时目录存储临时文件
-      const tempDir = await mkdtemp(path.join(os.tmpdir(), 'novel-app-pdf-'));
-      const tempFile = path.join(tempDir, `${options.title}.pdf`);
-
-      // 创建一个可写流
-      const writeStream = fs.createWriteStream(tempFile);
+      // 选择字体：宋体（衬线）或黑体（无衬线）
+      const fontStyle: PdfFontStyle = options.fontFamily === 'sans' ? 'sans' : 'serif';
+      const fonts = resolveCjkFonts(fontStyle);
+      if (!fonts) {
+        const texts = [options.title, options.author || '', options.outline || '', ...options.chapters.map(chapter => chapter.title + chapter.content)];
+        (options.volumes || []).forEach(volume => texts.push(volume.title, volume.summary || '', ...volume.chapters.map(chapter => chapter.title + chapter.content)));
+        if (texts.some(containsCjk)) {
+          throw new Error('未找到可嵌入的中文字体，请将 Noto Serif SC 或思源宋体等字体文件放入项目的 fonts 目录，或通过 PDF_CJK_FONT 环境变量指定字体路径');
+        }
+      }
 
       // 默认配置
-      const pageSize = options.pageSize || "A4";
+      const layout = resolvePdfLayout(options.layout, options.pageSize);
+      const vertical = layout.direction === 'vertical';
+      const pageSize = Array.isArray(layout.pageSize) ? [mmToPt(layout.pageSize[0]), mmToPt(layout.pageSize[1])] as [number, number] : layout.pageSize;
       const fontSize = options.fontSize || 12;
-      const fontFamily = options.fontFamily || "Helvetica";
+      const lineHeight = fontSize * 1.8;
+
+      // 每页的页边距：上下固定，左右按装订侧和左右页镜像计算
+      const pageMargins = (pageIndex: number) => {
+        const { left, right } = pageSideMargins(layout, pageIndex);
+        return { top: mmToPt(layout.margins.top), bottom: mmToPt(layout.margins.bottom), left: mmToPt(left), right: mmToPt(right) };
+      };
 
-      // 创建PDF文档
+      // 创建PDF文档，上下页边距留出页眉和页脚的位置
       const doc = new PDFDocument({
         size: pageSize,
-        margin: 50,
+        margins: pageMargins(0),
         info: {
           Title: options.title,
           Author: options.author || "My Novel App",
@@ -64,275 +160,1044 @@ export async function generatePDF(options: ExportOptions): Promise<Buffer> {
         bufferPages: true,
       });
 
-      // 将PDF流式写入文件
-      doc.pipe(writeStream);
+      // 在内存中收集生成的PDF数据
+      const pdfChunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => pdfChunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(pdfChunks)));
+      doc.on('error', (error: Error) => reject(error));
 
-      // 设置默认字体和大小
-      doc.font(fontFamily).fontSize(fontSize);
+      // 注册字体；没有中文字体时（内容不含中文）使用内置的西文字体
+      let regularFont = fontStyle === 'sans' ? 'Helvetica' : 'Times-Roman';
+      let boldFont = fontStyle === 'sans' ? 'Helvetica-Bold' : 'Times-Bold';
+      if (fonts) {
+        const bold = fonts.bold || fonts.regular;
+        doc.registerFont('cjk-regular', fonts.regular.path, fonts.regular.family);
+        doc.registerFont('cjk-bold', bold.path, bold.family);
+        regularFont = 'cjk-regular';
+        boldFont = 'cjk-bold';
+      }
 
-      // 添加封面
-      doc.fontSize(fontSize * 2)
-        .text(options.title, { align: 'center', underline: false })
-        .moveDown(2);
+      // 每页的页眉（章节标题）和是否显示页码，页面添加时记录，最后统一绘制
+      const pages: Array<{ header: string | null; numbered: boolean }> = [{ header: null, numbered: false }];
+      let runningHeader: string | null = null;
+      // 当前页已排版的行（横排）或列（竖排）占用的距离
+      let cursor = 0;
+      doc.on('pageAdded', () => {
+        pages.push({ header: runningHeader, numbered: true });
+        cursor = 0;
+      });
 
-      if (options.author) {
-        doc.fontSize(fontSize * 1.2)
-          .text(`作者: ${options.author}`, { align: 'center' })
-          .moveDown(2);
-      }
+      const currentPage = () => pages.length - 1;
+      const addPage = () => {
+        doc.addPage({ size: pageSize, margins: pageMargins(pages.length) });
+      };
 
-      doc.fontSize(fontSize)
-        .text(`由My Novel App生成`, { align: 'center' })
-        .moveDown(4);
+      // 行长：横排为版心宽度，竖排为版心高度；行的推进方向与之垂直
+      const contentWidth = () => doc.page.width - doc.page.margins.left - doc.page.margins.right;
+      const contentHeight = () => doc.page.height - doc.page.margins.top - doc.page.margins.bottom;
+      const lineLength = () => (vertical ? contentHeight() : contentWidth());
+      const blockExtent = () => (vertical ? contentWidth() : contentHeight());
 
-      // 添加目录页
-      doc.addPage()
-        .fontSize(fontSize * 1.5)
-        .text("目录", { align: 'center' })
-        .moveDown(1);
+      // 新起一页开始新的部分，本页不显示页眉，之后的页显示 header；需要时先插入空白页使其从奇数页开始
+      const startSection = (header: string | null) => {
+        runningHeader = header;
+        addPage();
+        if (layout.chapterStartsOnRecto && currentPage() % 2 === 1) {
+          pages[currentPage()] = { header: null, numbered: false };
+          addPage();
+        }
+        pages[currentPage()].header = null;
+      };
 
-      let tocYPosition = doc.y;
-      let currentPage = 2; // 从第2页开始计算内容页（第1页是封面）
+      const ensureSpace = (extent: number) => {
+        if (cursor + extent > blockExtent()) {
+          addPage();
+        }
+      };
 
-      // 角色介绍（如果包含）
-      if (options.includeCharacters && options.characters && options.characters.length > 0) {
-        doc.fontSize(fontSize * 1.2)
-          .text(`角色介绍`, { continued: true })
-          .fontSize(fontSize)
-          .text(`.....${currentPage}`, { align: 'right' });
+      // 竖排绘制一列：直排字符逐字绘制，西文和数字旋转 90 度；spacing 为字符间增加的间距
+      const drawVerticalText = (text: string, centerX: number, top: number, size: number, spacing = 0) => {
+        let y = top;
+        splitVerticalUnits(text).forEach(unit => {
+          if (unit.rotated) {
+            const width = doc.widthOfString(unit.text);
+            doc.save()
+              .rotate(90, { origin: [centerX, y] })
+              .text(unit.text, centerX, y - size / 2, { lineBreak: false })
+              .restore();
+            y += width + spacing;
+          } else {
+            doc.text(unit.text, centerX - size / 2, y, { lineBreak: false });
+            y += size + spacing;
+          }
+        });
+      };
 
-        currentPage += Math.ceil(options.characters.length / 3) + 1; // 估算页数
-      }
+      // 按中文排版规则断行后逐行绘制
+      const writeText = (text: string, style: {
+        font?: string;
+        size?: number;
+        indent?: number; // 首行缩进
+        left?: number; // 整段缩进（竖排时为距版心上边的距离）
+        align?: 'justify' | 'left' | 'center' | 'right';
+        leading?: number;
+      } = {}) => {
+        const { font = regularFont, size = fontSize, indent = 0, left = 0, align = 'justify', leading = size * 1.8 } = style;
+        const length = lineLength() - left;
+        doc.font(font).fontSize(size);
+        const measure = vertical
+          ? (value: string) => measureVertical(value, size, item => doc.widthOfString(item))
+          : (value: string) => doc.widthOfString(value);
 
-      // 故事大纲（如果包含）
-      if (options.includeOutline && options.outline) {
-        doc.fontSize(fontSize * 1.2)
-          .text(`故事大纲`, { continued: true })
-          .fontSize(fontSize)
-          .text(`.....${currentPage}`, { align: 'right' });
+        breakLines(text, length, measure, indent).forEach((line, index) => {
+          ensureSpace(leading);
+          const offset = index === 0 ? indent : 0;
+          const available = length - offset;
+          let start = left + offset;
+          if (align === 'center') start += (available - line.width) / 2;
+          else if (align === 'right') start += available - line.width;
 
-        currentPage += Math.ceil(options.outline.length / 1500) + 1; // 估算页数
+          if (vertical) {
+            const units = splitVerticalUnits(line.text).length;
+            const gap = align === 'justify' && !line.last && units > 1 ? (available - line.width) / (units - 1) : 0;
+            const centerX = doc.page.width - doc.page.margins.right - cursor - leading / 2;
+            drawVerticalText(line.text, centerX, doc.page.margins.top + start, size, gap > 0 && gap < size * 0.5 ? gap : 0);
+          } else {
+            doc.text(line.text, doc.page.margins.left + start, doc.page.margins.top + cursor + (leading - size) / 2, {
+              lineBreak: false,
+              characterSpacing: align === 'justify' ? justifySpacing(line, available, size) : 0
+            });
+          }
+          cursor += leading;
+        });
+      };
+
+      // 目录条目先占位，正文排完后按实际页码回填
+      const tocLines: Array<{ page: number; position: number; title: string; indent: number; bold: boolean; target: string }> = [];
+      const targetPages = new Map<string, number>();
+      const reserveTocLine = (title: string, target: string, indent = 0, bold = false) => {
+        ensureSpace(lineHeight);
+        tocLines.push({ page: currentPage(), position: cursor, title, indent, bold, target });
+        cursor += lineHeight;
+      };
+
+      const writeSectionTitle = (title: string, size: number) => {
+        writeText(title, { font: boldFont, size, align: 'center', leading: size * 1.6 });
+        cursor += lineHeight;
+      };
+
+      // 封面
+      cursor = blockExtent() * 0.3;
+      writeText(options.title, { font: boldFont, size: fontSize * 2.4, align: 'center', leading: fontSize * 3.6 });
+      cursor += lineHeight;
+
+      if (options.author) {
+        writeText(`作者：${options.author}`, { size: fontSize * 1.2, align: 'center' });
       }
 
-      // 章节目录
-      doc.fontSize(fontSize * 1.2)
-        .text(`章节内容`, { continued: true })
-        .fontSize(fontSize)
-        .text(`.....${currentPage}`, { align: 'right' });
+      cursor = blockExtent() - lineHeight * 2;
+      writeText(`由My Novel App生成`, { size: fontSize * 0.9, align: 'center' });
 
-      currentPage += 1;
-      options.chapters.forEach(chapter => {
-        doc.fontSize(fontSize)
-          .text(`${chapter.title}`, { continued: true })
-          .text(`.....${currentPage}`, { align: 'right' });
+      // 目录
+      startSection('目录');
+      writeSectionTitle('目录', fontSize * 1.5);
 
-        // 估算每章需要的页数（假设每页大约1500个字符）
-        currentPage += Math.ceil(chapter.content.length / 1500) + 1;
-      });
+      const includeCharacters = Boolean(options.includeCharacters && options.characters && options.characters.length > 0);
+      const includeOutline = Boolean(options.includeOutline && options.outline);
+      const hasVolumes = Boolean(options.volumes && options.volumes.length > 0);
+
+      if (includeCharacters) reserveTocLine('角色介绍', 'characters', 0, true);
+      if (includeOutline) reserveTocLine('故事大纲', 'outline', 0, true);
+
+      if (hasVolumes) {
+        options.volumes!.forEach((volume, volumeIndex) => {
+          reserveTocLine(volume.title, `volume-${volumeIndex}`, 0, true);
+          volume.chapters.forEach((chapter, chapterIndex) => {
+            reserveTocLine(chapter.title, `chapter-${volumeIndex}-${chapterIndex}`, fontSize * 2);
+          });
+        });
+      } else {
+        options.chapters.forEach((chapter, chapterIndex) => {
+          reserveTocLine(chapter.title, `chapter-${chapterIndex}`);
+        });
+      }
 
       // 添加角色介绍（如果选择包含）
-      if (options.includeCharacters && options.characters && options.characters.length > 0) {
-        doc.addPage()
-          .fontSize(fontSize * 1.5)
-          .text("角色介绍", { align: 'center' })
-          .moveDown(1);
+      if (includeCharacters) {
+        startSection('角色介绍');
+        targetPages.set('characters', currentPage());
+        doc.outline.addItem('角色介绍');
+        writeSectionTitle('角色介绍', fontSize * 1.5);
 
-        options.characters.forEach(character => {
-          doc.fontSize(fontSize * 1.2)
-            .text(character.name)
-            .moveDown(0.5);
+        options.characters!.forEach(character => {
+          writeText(character.name, { font: boldFont, size: fontSize * 1.2, align: 'left' });
 
           if (character.description) {
-            doc.fontSize(fontSize)
-              .text(character.description, { align: 'justify' })
-              .moveDown(0.5);
+            writeText(character.description, { indent: fontSize * 2 });
           }
 
           if (character.attributes) {
-            doc.fontSize(fontSize);
             Object.entries(character.attributes).forEach(([key, value]) => {
-              doc.text(`${key}: ${value}`);
+              writeText(`${key}：${value}`, { align: 'left' });
             });
           }
 
-          doc.moveDown(1);
+          cursor += lineHeight / 2;
         });
       }
 
       // 添加故事大纲（如果选择包含）
-      if (options.includeOutline && options.outline) {
-        doc.addPage()
-          .fontSize(fontSize * 1.5)
-          .text("故事大纲", { align: 'center' })
-          .moveDown(1);
-
-        doc.fontSize(fontSize)
-          .text(options.outline, { align: 'justify' });
-      }
+      if (includeOutline) {
+        startSection('故事大纲');
+        targetPages.set('outline', currentPage());
+        doc.outline.addItem('故事大纲');
+        writeSectionTitle('故事大纲', fontSize * 1.5);
 
-      // 添加章节内容
-      doc.addPage()
-        .fontSize(fontSize * 1.5)
-        .text("章节内容", { align: 'center' })
-        .moveDown(2);
+        options.outline!.split('\n').filter(line => line.trim()).forEach(line => {
+          writeText(line.trim(), { indent: fontSize * 2 });
+        });
+      }
 
-      options.chapters.forEach((chapter, index) => {
-        // 每章节开始新的一页
-        if (index > 0) {
-          doc.addPage();
-        }
+      // 章节：每章另起一页，横排时标题下移约六分之一页，竖排时标题前留出两列
+      const writeChapter = (chapter: { title: string; content: string }, target: string) => {
+        startSection(chapter.title);
+        targetPages.set(target, currentPage());
 
-        doc.fontSize(fontSize * 1.3)
-          .text(chapter.title, { align: 'center' })
-          .moveDown(1);
+        cursor += vertical ? lineHeight * 2 : blockExtent() / 6;
+        writeSectionTitle(chapter.title, fontSize * 1.5);
 
-        // 分段落处理内容
-        const paragraphs = chapter.content.split('\n\n');
-        paragraphs.forEach(paragraph => {
-          doc.fontSize(fontSize)
-            .text(paragraph, { align: 'justify' })
-            .moveDown(0.5);
+        contentToPdfBlocks(chapter.content).forEach(block => {
+          switch (block.kind) {
+            case 'heading':
+              cursor += lineHeight / 2;
+              writeText(block.text, { font: boldFont, size: fontSize * 1.1, align: block.align || 'left' });
+              break;
+            case 'item':
+              writeText(block.text, { left: fontSize * 2, align: 'left' });
+              break;
+            case 'quote':
+              writeText(block.text, { left: fontSize * 2, indent: fontSize * 2 });
+              break;
+            case 'plain':
+              writeText(block.text, { align: 'left' });
+              break;
+            default:
+              writeText(block.text, block.align ? { align: block.align } : { indent: fontSize * 2 });
+          }
         });
-      });
+      };
 
-      // 添加页码
-      const pageCount = doc.bufferedPageRange().count;
-      for (let i = 0; i < pageCount; i++) {
-        doc.switchToPage(i);
-
-        // 跳过封面的页码
-        if (i > 0) {
-          // 在页面底部居中添加页码
-          doc.fontSize(fontSize * 0.8)
-            .text(
-              `${i + 1} / ${pageCount}`,
-              doc.page.width / 2 - 40,
-              doc.page.height - 50,
-              { width: 80, align: 'center' }
-            );
+      const reportChapter = chapterProgress(options);
+      if (hasVolumes) {
+        for (const [volumeIndex, volume] of options.volumes!.entries()) {
+          // 分卷页：卷标题、摘要和本卷目录
+          startSection(volume.title);
+          targetPages.set(`volume-${volumeIndex}`, currentPage());
+          const volumeOutline = doc.outline.addItem(volume.title);
+
+          cursor += vertical ? lineHeight * 2 : blockExtent() / 4;
+          writeSectionTitle(volume.title, fontSize * 1.8);
+
+          if (volume.summary) {
+            writeText(volume.summary, { indent: fontSize * 2 });
+            cursor += lineHeight;
+          }
+
+          if (volume.chapters.length > 0) {
+            writeText("本卷目录", { font: boldFont, size: fontSize * 1.1, align: 'center' });
+            volume.chapters.forEach((chapter, chapterIndex) => {
+              reserveTocLine(chapter.title, `chapter-${volumeIndex}-${chapterIndex}`);
+            });
+          }
+
+          for (const [chapterIndex, chapter] of volume.chapters.entries()) {
+            writeChapter(chapter, `chapter-${volumeIndex}-${chapterIndex}`);
+            volumeOutline.addItem(chapter.title);
+            await reportChapter();
+          }
+        }
+      } else {
+        for (const [chapterIndex, chapter] of options.chapters.entries()) {
+          writeChapter(chapter, `chapter-${chapterIndex}`);
+          doc.outline.addItem(chapter.title);
+          await reportChapter();
         }
       }
 
-      // 完成PDF生成
-      doc.end();
+      // 回填目录页码：标题、点线和页码，标题过长时截断；竖排时页码位于列的下端
+      tocLines.forEach(line => {
+        const page = targetPages.get(line.target);
+        if (page === undefined) return;
 
-      writeStream.on('finish', async () => {
-        // 读取生成的PDF文件
-        const pdfBuffer = fs.readFileSync(tempFile);
+        doc.switchToPage(line.page);
+        doc.font(line.bold ? boldFont : regularFont).fontSize(fontSize);
+        const measure = vertical
+          ? (value: string) => measureVertical(value, fontSize, item => doc.widthOfString(item))
+          : (value: string) => doc.widthOfString(value);
 
-        // 删除临时文件和目录
-        await unlink(tempFile);
-        fs.rmdir(tempDir, err => {
-          if (err) console.error("清理临时目录失败:", err);
-        });
+        const pageNumber = String(page + 1);
+        const numberLength = measure(pageNumber);
+        const length = lineLength() - line.indent;
+        const maxTitleLength = length - numberLength - fontSize * 2;
+
+        let title = line.title;
+        while (title.length > 1 && measure(title) > maxTitleLength) {
+          title = title.slice(0, -2) + '…';
+        }
+        const titleLength = measure(title);
+        const leaderLength = length - numberLength - titleLength - fontSize;
+
+        if (vertical) {
+          const centerX = doc.page.width - doc.page.margins.right - line.position - lineHeight / 2;
+          const top = doc.page.margins.top + line.indent;
+          drawVerticalText(title, centerX, top, fontSize);
+          doc.font(regularFont);
+          const dotCount = Math.floor(leaderLength / fontSize);
+          if (dotCount > 0) {
+            drawVerticalText('·'.repeat(dotCount), centerX, top + length - numberLength - fontSize / 2 - dotCount * fontSize, fontSize);
+          }
+          drawVerticalText(pageNumber, centerX, top + length - numberLength, fontSize);
+          return;
+        }
 
-        resolve(pdfBuffer);
+        const left = doc.page.margins.left + line.indent;
+        const right = doc.page.width - doc.page.margins.right;
+        const y = doc.page.margins.top + line.position + (lineHeight - fontSize) / 2;
+        doc.text(title, left, y, { lineBreak: false });
+
+        doc.font(regularFont);
+        const dotWidth = doc.widthOfString('.');
+        const dotCount = Math.floor(leaderLength / dotWidth);
+        if (dotCount > 0) {
+          doc.text('.'.repeat(dotCount), right - numberLength - fontSize / 2 - dotCount * dotWidth, y, { lineBreak: false });
+        }
+        doc.text(pageNumber, right - numberLength, y, { lineBreak: false });
       });
 
-      writeStream.on('error', (error) => {
-        reject(error);
+      // 页眉和页码：封面和补位的空白页不显示页码，每章首页不显示页眉
+      pages.forEach((page, index) => {
+        doc.switchToPage(index);
+        const { margins } = doc.page;
+        const bottomMargin = margins.bottom;
+        // 页眉页脚位于页边距内，临时取消下边距以免触发自动分页
+        margins.bottom = 0;
+        doc.font(regularFont).fontSize(fontSize * 0.75);
+
+        if (page.header) {
+          const headerY = margins.top / 2 - fontSize * 0.375;
+          doc.text(page.header, margins.left, headerY, { width: contentWidth(), align: 'center', lineBreak: false });
+          doc.moveTo(margins.left, margins.top - 12)
+            .lineTo(doc.page.width - margins.right, margins.top - 12)
+            .lineWidth(0.5)
+            .stroke();
+        }
+
+        if (page.numbered) {
+          doc.text(String(index + 1), margins.left, doc.page.height - bottomMargin / 2 - fontSize * 0.375, { width: contentWidth(), align: 'center', lineBreak: false });
+        }
+
+        margins.bottom = bottomMargin;
       });
+
+      // 完成PDF生成
+      doc.end();
     } catch (error) {
       reject(error);
     }
   });
 }
 
+// EPUB 3 可以使用的封面图片格式及扩展名
+const EPUB_COVER_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg"
+};
+
+// 自动生成封面的配色：背景、装饰和文字颜色
+const GENERATED_COVER_PALETTES = [
+  ["#1f3a5f", "#c9a86a", "#f5efe0"],
+  ["#5b1e23", "#d9b779", "#f7eee3"],
+  ["#24433a", "#b9c7a5", "#f1f4ec"],
+  ["#2f2a3d", "#b8a1d9", "#f2eef8"]
+];
+
+// XHTML 只认识 XML 的五个预定义实体，编辑器内容中常见的其他命名实体换成字符
+const XHTML_NAMED_ENTITIES: Record<string, string> = {
+  nbsp: "&#160;",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  ldquo: "“",
+  rdquo: "”",
+  lsquo: "‘",
+  rsquo: "’",
+  middot: "·",
+  times: "×",
+  copy: "©"
+};
+
+interface EpubTocEntry {
+  title: string;
+  href: string;
+  children: EpubTocEntry[];
+}
+
+/**
+ * 转义 XML 文本和属性值
+ */
+function escapeXml(text: string): string {
+  return String(text)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * 由作品标识生成固定的 UUID（SHA-1，版本 5 格式），同一作品多次导出的标识不变
+ */
+function stableUuid(seed: string): string {
+  const hex = createHash("sha1").update(`novel-app:${seed}`).digest("hex");
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * 读取封面图片：data URI 或 Buffer，不支持的格式返回 null
+ */
+function readEpubCover(cover: Buffer | string | undefined): { data: Buffer; mediaType: string } | null {
+  if (typeof cover === "string") {
+    const match = cover.match(/^data:(image\/[\w.+-]+);base64,([\s\S]+)$/i);
+    const mediaType = match ? match[1].toLowerCase() : "";
+    return match && EPUB_COVER_TYPES[mediaType] ? { data: Buffer.from(match[2], "base64"), mediaType } : null;
+  }
+
+  if (Buffer.isBuffer(cover)) {
+    const signature = cover.slice(0, 12).toString("latin1");
+    const mediaType = signature.startsWith("\x89PNG") ? "image/png"
+      : signature.startsWith("\xff\xd8") ? "image/jpeg"
+      : signature.startsWith("GIF8") ? "image/gif"
+      : signature.startsWith("RIFF") && signature.slice(8) === "WEBP" ? "image/webp"
+      : null;
+    return mediaType ? { data: cover, mediaType } : null;
+  }
+
+  return null;
+}
+
+/**
+ * 没有封面图片时生成 SVG 封面：书名居中，系列名在上、作者在下，配色由书名决定
+ */
+function generateCoverSvg(title: string, author: string, series: string | null): string {
+  const seed = Array.from(title).reduce((sum, char) => sum + char.codePointAt(0)!, 0);
+  const [background, accent, foreground] = GENERATED_COVER_PALETTES[seed % GENERATED_COVER_PALETTES.length];
+  const fontFamily = "'Noto Serif SC', 'Source Han Serif SC', 'Songti SC', serif";
+
+  // 书名按字数均分为最多四行
+  const chars = Array.from(title);
+  const perLine = chars.length <= 8 ? 8 : Math.ceil(chars.length / Math.ceil(chars.length / 10));
+  const lines: string[] = [];
+  for (let index = 0; index < chars.length && lines.length < 4; index += perLine) {
+    lines.push(chars.slice(index, index + perLine).join(""));
+  }
+  if (chars.length > perLine * 4) lines[3] = `${Array.from(lines[3]).slice(0, perLine - 1).join("")}…`;
+
+  const fontSize = Math.min(160, Math.floor(1240 / perLine));
+  const lineHeight = fontSize * 1.35;
+  const firstBaseline = 1050 - ((lines.length - 1) * lineHeight) / 2;
+  const dividerY = firstBaseline + (lines.length - 1) * lineHeight + 140;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<svg xmlns="http://www.w3.org/2000/svg" version="1.1" width="1600" height="2400" viewBox="0 0 1600 2400">',
+    `<rect width="1600" height="2400" fill="${background}"/>`,
+    `<rect x="80" y="80" width="1440" height="2240" fill="none" stroke="${accent}" stroke-width="6"/>`,
+    `<rect x="110" y="110" width="1380" height="2180" fill="none" stroke="${accent}" stroke-width="2"/>`,
+    series ? `<text x="800" y="380" font-family="${fontFamily}" font-size="60" fill="${accent}" text-anchor="middle">${escapeXml(series)}</text>` : "",
+    ...lines.map((line, index) =>
+      `<text x="800" y="${Math.round(firstBaseline + index * lineHeight)}" font-family="${fontFamily}" font-size="${fontSize}" font-weight="bold" fill="${foreground}" text-anchor="middle">${escapeXml(line)}</text>`),
+    `<line x1="620" y1="${Math.round(dividerY)}" x2="980" y2="${Math.round(dividerY)}" stroke="${accent}" stroke-width="4"/>`,
+    `<text x="800" y="2020" font-family="${fontFamily}" font-size="72" fill="${foreground}" text-anchor="middle">${escapeXml(author)}</text>`,
+    "</svg>"
+  ].filter(Boolean).join("\n");
+}
+
+/**
+ * 将章节内容（编辑器 HTML 或纯文本）转换为 XHTML 片段
+ * 编辑器 HTML 先经过与 EPUB 导入相同的清理，只保留段落、标题、列表、引用和文字格式；旧的纯文本内容按空行分段
+ */
+function contentToXhtml(content: string): string {
+  if (!/<\/?[a-z][\s\S]*>/i.test(content || "")) {
+    return (content || "")
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.trim())
+      .filter(paragraph => paragraph)
+      .map(paragraph => `<p>${paragraph.split("\n").map(escapeXml).join("<br/>")}</p>`)
+      .join("\n");
+  }
+
+  return xhtmlToEditorHtml(content)
+    .replace(/<(br|hr)>/g, "<$1/>")
+    .replace(/&(#\d+;|#x[0-9a-fA-F]+;|[A-Za-z][A-Za-z0-9]*;)?/g, (match, reference?: string) => {
+      if (!reference) return "&amp;";
+      const name = reference.slice(0, -1);
+      if (reference[0] === "#" || ["amp", "lt", "gt", "quot", "apos"].includes(name)) return match;
+      return XHTML_NAMED_ENTITIES[name] || `&amp;${reference}`;
+    })
+    .replace(/(<\/(?:p|h[1-6]|li|ul|ol|blockquote|pre)>|<hr\/>)/g, "$1\n")
+    .trim();
+}
+
+/**
+ * 纯文本按行分段
+ */
+function linesToXhtml(text: string): string {
+  return text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line)
+    .map(line => `<p>${escapeXml(line)}</p>`)
+    .join("\n");
+}
+
 /**
  * 生成EPUB电子书
+ * 输出 EPUB 3：OPF 中包含语言、标识、作者和系列元数据，导航文档按分卷和章节嵌套，
+ * 同时提供 NCX 目录兼容只支持 EPUB 2 的阅读器。生成后按 epubcheck 的规则校验，不通过时抛出错误
  * @param options 导出选项
  * @returns 生成的EPUB文件Buffer
  */
 export async function generateEPUB(options: ExportOptions): Promise<Buffer> {
-  return new Promise(async (resolve, reject) => {
-    try {
-      // 创建一个临时目录存储临时文件
-      const tempDir = await mkdtemp(path.join(os.tmpdir(), 'novel-app-epub-'));
-      const tempFile = path.join(tempDir, `${options.title}.epub`);
-
-      // 准备EPUB选项
-      const epubOptions = {
-        title: options.title,
-        author: options.author || "My Novel App",
-        publisher: "My Novel App",
-        content: [] as Array<{
-          title: string,
-          data: string,
-          beforeToc?: boolean
-        }>,
-      };
+  const language = options.language || "zh-CN";
+  const author = options.author || "My Novel App";
+  const theme = resolveEpubTheme(options.epubTheme);
+  const identifier = `urn:uuid:${options.identifier ? stableUuid(options.identifier) : randomUUID()}`;
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+  const seriesName = options.series?.name?.trim() || null;
+  const seriesNumber = seriesName && options.series?.number && options.series.number > 0 ? options.series.number : null;
+  const seriesLabel = seriesName ? (seriesNumber ? `${seriesName} · 第${seriesNumber}部` : seriesName) : null;
 
-      // 添加角色介绍（如果包含）
-      if (options.includeCharacters && options.characters && options.characters.length > 0) {
-        let charactersHTML = "<h1>角色介绍</h1>";
+  const zip = new JSZip();
+  const manifest: Array<{ id: string; href: string; mediaType: string; properties?: string }> = [];
+  const spine: string[] = [];
+  const toc: EpubTocEntry[] = [];
 
-        options.characters.forEach(character => {
-          charactersHTML += `<h2>${character.name}</h2>`;
+  // mimetype 必须是压缩包中的第一个文件，且不压缩
+  zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
+  zip.file("META-INF/container.xml", [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">',
+    "  <rootfiles>",
+    '    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>',
+    "  </rootfiles>",
+    "</container>"
+  ].join("\n"));
 
-          if (character.description) {
-            charactersHTML += `<p>${character.description}</p>`;
-          }
+  // 正文页面放在 text 目录，样式和图片分别放在 styles 和 images 目录
+  const page = (title: string, body: string) => [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "<!DOCTYPE html>",
+    `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">`,
+    "<head>",
+    '<meta charset="UTF-8"/>',
+    `<title>${escapeXml(title)}</title>`,
+    '<link rel="stylesheet" type="text/css" href="../styles/book.css"/>',
+    "</head>",
+    body,
+    "</html>"
+  ].join("\n");
 
-          if (character.attributes) {
-            charactersHTML += "<ul>";
-            Object.entries(character.attributes).forEach(([key, value]) => {
-              charactersHTML += `<li><strong>${key}:</strong> ${value}</li>`;
-            });
-            charactersHTML += "</ul>";
-          }
-        });
+  const addPage = (id: string, title: string, body: string, properties?: string) => {
+    const href = `text/${id}.xhtml`;
+    zip.file(`OEBPS/${href}`, page(title, body));
+    manifest.push({ id, href, mediaType: "application/xhtml+xml", properties });
+    spine.push(id);
+    return `${id}.xhtml`;
+  };
 
-        epubOptions.content.push({
-          title: "角色介绍",
-          data: charactersHTML,
-        });
+  zip.file("OEBPS/styles/book.css", buildEpubStylesheet(theme, options.customCss));
+  manifest.push({ id: "css", href: "styles/book.css", mediaType: "text/css" });
+
+  // 封面：上传的图片，否则根据书名生成
+  const cover = readEpubCover(options.cover);
+  const coverType = cover ? cover.mediaType : "image/svg+xml";
+  const coverHref = `images/cover.${EPUB_COVER_TYPES[coverType]}`;
+  zip.file(`OEBPS/${coverHref}`, cover ? cover.data : generateCoverSvg(options.title, author, seriesLabel));
+  manifest.push({ id: "cover-image", href: coverHref, mediaType: coverType, properties: "cover-image" });
+  addPage("cover", options.title, [
+    '<body class="cover" epub:type="cover">',
+    `<div class="cover"><img src="../${coverHref}" alt="${escapeXml(options.title)}"/></div>`,
+    "</body>"
+  ].join("\n"));
+
+  // 书名页
+  addPage("title-page", options.title, [
+    "<body>",
+    '<section class="title-page" epub:type="titlepage">',
+    `<h1 class="book-title">${escapeXml(options.title)}</h1>`,
+    `<p class="book-author">${escapeXml(author)}</p>`,
+    seriesLabel ? `<p class="book-series">${escapeXml(seriesLabel)}</p>` : "",
+    "</section>",
+    "</body>"
+  ].filter(Boolean).join("\n"));
+
+  // 目录页（导航文档）排在书名页之后，内容在所有页面生成后写入
+  const navId = "nav";
+  manifest.push({ id: navId, href: "text/nav.xhtml", mediaType: "application/xhtml+xml", properties: "nav" });
+  spine.push(navId);
+
+  // 正文：每章一个文件，分卷时先插入分卷页
+  let chapterIndex = 0;
+  const reportChapter = chapterProgress(options);
+  const addChapter = async (chapter: { title: string; content: string }) => {
+    chapterIndex++;
+    const id = `chapter-${String(chapterIndex).padStart(4, "0")}`;
+    const href = addPage(id, chapter.title, [
+      "<body>",
+      '<section class="chapter" epub:type="chapter">',
+      `<h2>${escapeXml(chapter.title)}</h2>`,
+      contentToXhtml(chapter.content),
+      "</section>",
+      "</body>"
+    ].join("\n"));
+    await reportChapter();
+    return { title: chapter.title, href, children: [] };
+  };
+
+  if (options.volumes && options.volumes.length > 0) {
+    for (const [volumeIndex, volume] of options.volumes.entries()) {
+      const id = `volume-${String(volumeIndex + 1).padStart(2, "0")}`;
+      const volumeHref = `${id}.xhtml`;
+      const firstChapter = chapterIndex + 1;
+      const chapterLinks = volume.chapters.map((chapter, index) =>
+        `<li><a href="chapter-${String(firstChapter + index).padStart(4, "0")}.xhtml">${escapeXml(chapter.title)}</a></li>`);
+
+      addPage(id, volume.title, [
+        "<body>",
+        '<section class="volume-page" epub:type="part">',
+        `<h1>${escapeXml(volume.title)}</h1>`,
+        volume.summary ? `<p class="volume-summary">${escapeXml(volume.summary)}</p>` : "",
+        chapterLinks.length > 0 ? `<ol>\n${chapterLinks.join("\n")}\n</ol>` : "",
+        "</section>",
+        "</body>"
+      ].filter(Boolean).join("\n"));
+
+      const children: EpubTocEntry[] = [];
+      for (const chapter of volume.chapters) {
+        children.push(await addChapter(chapter));
       }
+      toc.push({ title: volume.title, href: volumeHref, children });
+    }
+  } else {
+    for (const chapter of options.chapters) {
+      toc.push(await addChapter(chapter));
+    }
+  }
 
-      // 添加故事大纲（如果包含）
-      if (options.includeOutline && options.outline) {
-        const outlineHTML = `<h1>故事大纲</h1>${options.outline.split('\n').map(line => `<p>${line}</p>`).join('')}`;
+  // 附录：角色介绍和故事大纲
+  if (options.includeCharacters && options.characters && options.characters.length > 0) {
+    const characters = options.characters.map(character => {
+      const attributes = Object.entries(character.attributes || {}).filter(([, value]) => value !== null && value !== undefined && value !== "");
+      return [
+        `<h2>${escapeXml(character.name)}</h2>`,
+        character.description ? linesToXhtml(character.description) : "",
+        attributes.length > 0
+          ? `<dl>\n${attributes.map(([key, value]) => `<dt>${escapeXml(key)}：</dt><dd>${escapeXml(String(value))}</dd>`).join("\n")}\n</dl>`
+          : ""
+      ].filter(Boolean).join("\n");
+    });
 
-        epubOptions.content.push({
-          title: "故事大纲",
-          data: outlineHTML,
-        });
+    const href = addPage("characters", "角色介绍", [
+      "<body>",
+      '<section class="appendix" epub:type="appendix">',
+      "<h1>角色介绍</h1>",
+      ...characters,
+      "</section>",
+      "</body>"
+    ].join("\n"));
+    toc.push({ title: "角色介绍", href, children: [] });
+  }
+
+  if (options.includeOutline && options.outline) {
+    const href = addPage("outline", "故事大纲", [
+      "<body>",
+      '<section class="appendix" epub:type="appendix">',
+      "<h1>故事大纲</h1>",
+      linesToXhtml(options.outline),
+      "</section>",
+      "</body>"
+    ].join("\n"));
+    toc.push({ title: "故事大纲", href, children: [] });
+  }
+
+  // 没有任何正文时目录指向书名页，导航文档中的列表不能为空
+  if (toc.length === 0) {
+    toc.push({ title: options.title, href: "title-page.xhtml", children: [] });
+  }
+
+  // 导航文档：目录按分卷嵌套，地标指向封面、目录和正文开头
+  const navList = (entries: EpubTocEntry[]): string =>
+    `<ol>\n${entries.map(entry => `<li><a href="${entry.href}">${escapeXml(entry.title)}</a>${entry.children.length > 0 ? `\n${navList(entry.children)}\n` : ""}</li>`).join("\n")}\n</ol>`;
+
+  zip.file("OEBPS/text/nav.xhtml", page("目录", [
+    "<body>",
+    '<nav epub:type="toc" id="toc">',
+    "<h1>目录</h1>",
+    navList(toc),
+    "</nav>",
+    '<nav epub:type="landmarks" hidden="">',
+    "<h2>导览</h2>",
+    "<ol>",
+    '<li><a epub:type="cover" href="cover.xhtml">封面</a></li>',
+    '<li><a epub:type="toc" href="nav.xhtml#toc">目录</a></li>',
+    `<li><a epub:type="bodymatter" href="${toc[0].href}">正文</a></li>`,
+    "</ol>",
+    "</nav>",
+    "</body>"
+  ].join("\n")));
+
+  // NCX 目录，playOrder 按阅读顺序编号
+  let playOrder = 0;
+  const navPoints = (entries: EpubTocEntry[], depth: number): string => entries.map(entry => {
+    playOrder++;
+    const indent = "  ".repeat(depth + 1);
+    return [
+      `${indent}<navPoint id="navpoint-${playOrder}" playOrder="${playOrder}">`,
+      `${indent}  <navLabel><text>${escapeXml(entry.title)}</text></navLabel>`,
+      `${indent}  <content src="text/${entry.href}"/>`,
+      entry.children.length > 0 ? navPoints(entry.children, depth + 1) : "",
+      `${indent}</navPoint>`
+    ].filter(Boolean).join("\n");
+  }).join("\n");
+  const ncxDepth = toc.some(entry => entry.children.length > 0) ? 2 : 1;
+
+  zip.file("OEBPS/toc.ncx", [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1" xml:lang="${language}">`,
+    "<head>",
+    `  <meta name="dtb:uid" content="${identifier}"/>`,
+    `  <meta name="dtb:depth" content="${ncxDepth}"/>`,
+    '  <meta name="dtb:totalPageCount" content="0"/>',
+    '  <meta name="dtb:maxPageNumber" content="0"/>',
+    "</head>",
+    `<docTitle><text>${escapeXml(options.title)}</text></docTitle>`,
+    `<docAuthor><text>${escapeXml(author)}</text></docAuthor>`,
+    "<navMap>",
+    navPoints(toc, 0),
+    "</navMap>",
+    "</ncx>"
+  ].join("\n"));
+  manifest.push({ id: "ncx", href: "toc.ncx", mediaType: "application/x-dtbncx+xml" });
+
+  // 内容描述文件（OPF）
+  zip.file("OEBPS/content.opf", [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">`,
+    '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    `  <dc:identifier id="book-id">${identifier}</dc:identifier>`,
+    `  <dc:title id="title">${escapeXml(options.title)}</dc:title>`,
+    `  <dc:creator id="creator">${escapeXml(author)}</dc:creator>`,
+    '  <meta refines="#creator" property="role" scheme="marc:relators">aut</meta>',
+    `  <dc:language>${language}</dc:language>`,
+    "  <dc:publisher>My Novel App</dc:publisher>",
+    `  <meta property="dcterms:modified">${modified}</meta>`,
+    ...(seriesName ? [
+      `  <meta property="belongs-to-collection" id="series">${escapeXml(seriesName)}</meta>`,
+      '  <meta refines="#series" property="collection-type">series</meta>',
+      seriesNumber ? `  <meta refines="#series" property="group-position">${seriesNumber}</meta>` : "",
+      // Calibre 等阅读器读取的系列元数据
+      `  <meta name="calibre:series" content="${escapeXml(seriesName)}"/>`,
+      seriesNumber ? `  <meta name="calibre:series_index" content="${seriesNumber}"/>` : ""
+    ] : []),
+    '  <meta name="cover" content="cover-image"/>',
+    "</metadata>",
+    "<manifest>",
+    ...manifest.map(item =>
+      `  <item id="${item.id}" href="${item.href}" media-type="${item.mediaType}"${item.properties ? ` properties="${item.properties}"` : ""}/>`),
+    "</manifest>",
+    `<spine toc="ncx"${theme.direction === "rtl" ? ' page-progression-direction="rtl"' : ""}>`,
+    ...spine.map(id => `  <itemref idref="${id}"/>`),
+    "</spine>",
+    "</package>"
+  ].filter(Boolean).join("\n"));
+
+  const buffer = await zip.generateAsync({
+    type: "nodebuffer",
+    compression: "DEFLATE",
+    compressionOptions: { level: 9 },
+    mimeType: "application/epub+zip"
+  });
+
+  const problems = await validateEpub(buffer);
+  if (problems.length > 0) {
+    throw new Error(`生成的 EPUB 未通过校验：${problems.join("；")}`);
+  }
+
+  return buffer;
+}
+
+// DOCX 段落对齐方式，对应编辑器的 text-align
+const DOCX_ALIGNMENTS: Record<string, (typeof AlignmentType)[keyof typeof AlignmentType]> = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+  justify: AlignmentType.JUSTIFIED
+};
+
+// 章节正文中的标题从三级开始，一二级留给分卷和章节标题
+const DOCX_CONTENT_HEADINGS = [HeadingLevel.HEADING_3, HeadingLevel.HEADING_4, HeadingLevel.HEADING_5, HeadingLevel.HEADING_6];
+
+// 块级元素，开始和结束时各自成段
+const DOCX_BLOCK_TAGS = new Set(["p", "h1", "h2", "h3", "h4", "h5", "h6", "li", "pre", "div"]);
+
+/**
+ * 解码 HTML 实体
+ */
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * 将编辑器内容转换为 DOCX 段落
+ * 保留粗体、斜体、下划线、删除线和段落对齐；列表转为项目符号，引用转为缩进段落。旧的纯文本内容按空行分段
+ */
+function contentToDocxParagraphs(content: string): Paragraph[] {
+  if (!/<\/?[a-z][\s\S]*>/i.test(content)) {
+    return content
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.trim())
+      .filter(paragraph => paragraph)
+      .map(paragraph => new Paragraph({
+        children: paragraph.split("\n").map((line, index) => new TextRun({ text: line, break: index > 0 ? 1 : undefined }))
+      }));
+  }
+
+  const paragraphs: Paragraph[] = [];
+  const marks = { bold: 0, italics: 0, underline: 0, strike: 0 };
+  const lists: Array<"ul" | "ol"> = [];
+  const listCounters: number[] = [];
+  let quoteDepth = 0;
+  let block: { tag: string; alignment?: string; runs: TextRun[] } | null = null;
+
+  const openBlock = (tag: string, attrs: string) => {
+    const align = attrs.match(/text-align:\s*(left|center|right|justify)/i);
+    block = { tag, alignment: align ? align[1].toLowerCase() : undefined, runs: [] };
+  };
+
+  const closeBlock = () => {
+    if (!block) return;
+    const current = block;
+    block = null;
+    if (current.runs.length === 0 && current.tag !== "p") return;
+
+    const level = current.tag.match(/^h([1-6])$/);
+    const listType = lists[lists.length - 1];
+    const isListItem = current.tag === "li" || (lists.length > 0 && current.tag === "p");
+    const isOrdered = isListItem && listType === "ol";
+    // 有序列表以编号前缀和缩进表示，无序列表使用项目符号
+    const orderedPrefix = isOrdered ? [new TextRun({ text: `${listCounters[listCounters.length - 1]}. ` })] : [];
+    const indentLevel = quoteDepth + (isOrdered ? lists.length : 0);
+
+    paragraphs.push(new Paragraph({
+      heading: level ? DOCX_CONTENT_HEADINGS[Math.min(3, Math.max(0, Number(level[1]) - 1))] : undefined,
+      alignment: current.alignment ? DOCX_ALIGNMENTS[current.alignment] : undefined,
+      bullet: isListItem && listType === "ul" ? { level: Math.min(8, lists.length - 1) } : undefined,
+      indent: indentLevel > 0 ? { left: 720 * indentLevel } : undefined,
+      children: [...orderedPrefix, ...current.runs]
+    }));
+  };
+
+  const addRun = (options: { text?: string; break?: number }) => {
+    if (!block) openBlock("p", "");
+    block!.runs.push(new TextRun({
+      ...options,
+      bold: marks.bold > 0 || undefined,
+      italics: marks.italics > 0 || undefined,
+      underline: marks.underline > 0 ? {} : undefined,
+      strike: marks.strike > 0 || undefined
+    }));
+  };
+
+  const tokens = content.match(/<[^>]*>|[^<]+/g) || [];
+  for (const token of tokens) {
+    const tag = token.match(/^<(\/?)([a-z0-9]+)([^>]*)>$/i);
+    if (!tag) {
+      // 块级元素之间的空白不单独成段
+      if (!block && !token.trim()) continue;
+      addRun({ text: decodeHtmlEntities(token) });
+      continue;
+    }
+
+    const [, closing, rawName, attrs] = tag;
+    const name = rawName.toLowerCase();
+    const delta = closing ? -1 : 1;
+
+    if (DOCX_BLOCK_TAGS.has(name)) {
+      // 列表项中的段落与列表项合为一段
+      if (name === "p" && (block as { tag: string } | null)?.tag === "li") continue;
+      if (closing) {
+        closeBlock();
+      } else {
+        closeBlock();
+        if (name === "li" && listCounters.length > 0) listCounters[listCounters.length - 1]++;
+        openBlock(name, attrs);
       }
+    } else if (name === "ul" || name === "ol") {
+      closeBlock();
+      if (closing) {
+        lists.pop();
+        listCounters.pop();
+      } else {
+        lists.push(name);
+        listCounters.push(0);
+      }
+    } else if (name === "blockquote") {
+      closeBlock();
+      quoteDepth = Math.max(0, quoteDepth + delta);
+    } else if (name === "hr") {
+      closeBlock();
+      paragraphs.push(new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun("* * *")] }));
+    } else if (name === "br") {
+      addRun({ break: 1 });
+    } else if (name === "strong" || name === "b") {
+      marks.bold = Math.max(0, marks.bold + delta);
+    } else if (name === "em" || name === "i") {
+      marks.italics = Math.max(0, marks.italics + delta);
+    } else if (name === "u") {
+      marks.underline = Math.max(0, marks.underline + delta);
+    } else if (name === "s" || name === "strike" || name === "del") {
+      marks.strike = Math.max(0, marks.strike + delta);
+    }
+  }
+  closeBlock();
 
-      // 添加章节
-      options.chapters.forEach(chapter => {
-        // 将章节内容转换为HTML格式
-        const chapterHTML = `<h1>${chapter.title}</h1>${chapter.content.split('\n\n').map(para => `<p>${para}</p>`).join('')}`;
+  return paragraphs;
+}
 
-        epubOptions.content.push({
-          title: chapter.title,
-          data: chapterHTML,
-        });
-      });
+/**
+ * 生成Word文档（DOCX）
+ * 有分卷时分卷为一级标题、章节为二级标题，否则章节为一级标题，便于在 Word 中生成目录和导航；章节正文保留编辑器中的格式
+ * @param options 导出选项
+ * @returns 生成的DOCX文件Buffer
+ */
+export async function generateDOCX(options: ExportOptions): Promise<Buffer> {
+  const fontSize = options.fontSize || 12;
+  const hasVolumes = Boolean(options.volumes && options.volumes.length > 0);
+  const chapterHeading = hasVolumes ? HeadingLevel.HEADING_2 : HeadingLevel.HEADING_1;
+  const children: Array<Paragraph | TableOfContents> = [];
+
+  // 封面
+  children.push(new Paragraph({ heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER, children: [new TextRun(options.title)] }));
+  if (options.author) {
+    children.push(new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun(`作者: ${options.author}`)] }));
+  }
+
+  // 目录：预先写入条目，Word 打开时更新页码
+  const tocEntries: Array<{ title: string; level: number }> = [];
+  if (options.includeCharacters && options.characters && options.characters.length > 0) {
+    tocEntries.push({ title: "角色介绍", level: 1 });
+  }
+  if (options.includeOutline && options.outline) {
+    tocEntries.push({ title: "故事大纲", level: 1 });
+  }
+  if (hasVolumes) {
+    options.volumes!.forEach(volume => {
+      tocEntries.push({ title: volume.title, level: 1 });
+      volume.chapters.forEach(chapter => tocEntries.push({ title: chapter.title, level: 2 }));
+    });
+  } else {
+    options.chapters.forEach(chapter => tocEntries.push({ title: chapter.title, level: 1 }));
+  }
 
-      // 生成EPUB
-      const epub = new EPub(epubOptions, tempFile);
+  children.push(new Paragraph({ pageBreakBefore: true, alignment: AlignmentType.CENTER, children: [new TextRun({ text: "目录", bold: true })] }));
+  children.push(new TableOfContents("目录", { hyperlink: true, headingStyleRange: "1-2", cachedEntries: tocEntries }));
 
-      epub.on('end', async () => {
-        // 读取生成的EPUB文件
-        const epubBuffer = fs.readFileSync(tempFile);
+  // 角色介绍（如果包含）
+  if (options.includeCharacters && options.characters && options.characters.length > 0) {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_1, pageBreakBefore: true, children: [new TextRun("角色介绍")] }));
+
+    options.characters.forEach(character => {
+      children.push(new Paragraph({ heading: HeadingLevel.HEADING_3, children: [new TextRun(character.name)] }));
+
+      if (character.description) {
+        children.push(new Paragraph({ children: [new TextRun(character.description)] }));
+      }
 
-        // 删除临时文件和目录
-        await unlink(tempFile);
-        fs.rmdir(tempDir, err => {
-          if (err) console.error("清理临时目录失败:", err);
+      if (character.attributes) {
+        Object.entries(character.attributes).forEach(([key, value]) => {
+          children.push(new Paragraph({ bullet: { level: 0 }, children: [new TextRun({ text: `${key}: `, bold: true }), new TextRun(String(value))] }));
         });
+      }
+    });
+  }
 
-        resolve(epubBuffer);
-      });
+  // 故事大纲（如果包含）
+  if (options.includeOutline && options.outline) {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_1, pageBreakBefore: true, children: [new TextRun("故事大纲")] }));
+    options.outline
+      .split("\n")
+      .filter(line => line.trim())
+      .forEach(line => children.push(new Paragraph({ children: [new TextRun(line)] })));
+  }
 
-      epub.on('error', (error: any) => {
-        reject(error);
-      });
+  // 每章节开始新的一页
+  const writeChapter = (chapter: { title: string; content: string }, pageBreakBefore: boolean) => {
+    children.push(new Paragraph({ heading: chapterHeading, pageBreakBefore, children: [new TextRun(chapter.title)] }));
+    children.push(...contentToDocxParagraphs(chapter.content));
+  };
 
-      // 生成EPUB
-      epub.render();
-    } catch (error) {
-      reject(error);
+  const reportChapter = chapterProgress(options);
+  if (hasVolumes) {
+    for (const volume of options.volumes!) {
+      children.push(new Paragraph({ heading: HeadingLevel.HEADING_1, pageBreakBefore: true, alignment: AlignmentType.CENTER, children: [new TextRun(volume.title)] }));
+      if (volume.summary) {
+        children.push(new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: volume.summary, italics: true })] }));
+      }
+      for (const chapter of volume.chapters) {
+        writeChapter(chapter, true);
+        await reportChapter();
+      }
+    }
+  } else {
+    for (const chapter of options.chapters) {
+      writeChapter(chapter, true);
+      await reportChapter();
     }
+  }
+
+  const doc = new Document({
+    creator: options.author || "My Novel App",
+    title: options.title,
+    description: "由My Novel App生成",
+    features: { updateFields: true },
+    styles: {
+      default: {
+        document: {
+          run: { size: fontSize * 2, font: { ascii: "Times New Roman", hAnsi: "Times New Roman", eastAsia: "宋体" } },
+          paragraph: { spacing: { after: 120, line: 360 } }
+        }
+      }
+    },
+    sections: [{
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ children: [PageNumber.CURRENT, " / ", PageNumber.TOTAL_PAGES] })] })]
+        })
+      },
+      children
+    }]
   });
+
+  return Packer.toBuffer(doc);
 }
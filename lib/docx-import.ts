@@ -0,0 +1,24 @@
+/**
+ * DOCX 书稿转换
+ * 使用 mammoth 在浏览器中将 Word 文档转换为 HTML，标题样式转换为 h1-h6，之后按书稿导入的规则拆分章节
+ */
+
+import mammoth from 'mammoth';
+
+// 在默认样式映射之外，补充中文 Word / WPS 的标题样式名称，并保留下划线
+const STYLE_MAP = [
+  'u => u',
+  ...[1, 2, 3, 4, 5, 6].map(level => `p[style-name='标题 ${level}'] => h${level}:fresh`)
+];
+
+/**
+ * 将 DOCX 文件转换为 HTML，返回转换中的警告（如无法识别的样式）
+ */
+export async function convertDocxToHtml(arrayBuffer: ArrayBuffer): Promise<{ html: string; warnings: string[] }> {
+  const result = await mammoth.convertToHtml({ arrayBuffer }, { styleMap: STYLE_MAP });
+
+  return {
+    html: result.value,
+    warnings: result.messages.map(message => message.message)
+  };
+}
@@ -0,0 +1,447 @@
+/**
+ * EPUB 导入：解析 EPUB 文件为分卷和章节
+ * 按 OPF 的 spine 顺序读取正文文档，章节标题取自目录（EPUB3 nav 或 EPUB2 NCX），
+ * 书名、作者和封面取自 OPF 元数据；XHTML 转换为编辑器使用的 HTML
+ * 每个正文文档导入为一章，目录中包含下级条目的顶层条目作为分卷
+ */
+
+import JSZip from 'jszip';
+import { toPlainText } from '@/lib/text-diff';
+import { createZipReader, getUncompressedSize } from '@/lib/zip-limits';
+
+export interface ParsedEpub {
+  title: string;
+  author: string | null;
+  coverImage: string | null; // 封面图片 data URI
+  volumes: string[];
+  chapters: Array<{
+    title: string;
+    content: string;
+    wordCount: number;
+    volumeTitle: string | null;
+  }>;
+}
+
+interface ManifestItem {
+  id: string;
+  path: string; // 压缩包内的完整路径
+  mediaType: string;
+  properties: string[];
+}
+
+interface TocEntry {
+  title: string;
+  path: string; // 不含锚点的文档路径
+  depth: number;
+  volumeTitle: string | null; // 顶层条目包含下级条目时，下级条目所属的分卷
+  hasChildren: boolean;
+}
+
+// 超过此大小的封面不导入
+const MAX_COVER_SIZE = 2 * 1024 * 1024;
+// 单个文件和整本书解压后的上限，防止解压炸弹占满内存
+const MAX_ENTRY_UNPACKED_SIZE = 50 * 1024 * 1024;
+const MAX_EPUB_UNPACKED_SIZE = 200 * 1024 * 1024;
+
+const XHTML_TYPES = new Set(['application/xhtml+xml', 'text/html']);
+
+// 转换时保留的块级元素和行内元素，其余元素只保留文字
+const BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'ul', 'ol', 'li', 'pre']);
+const INLINE_TAGS = new Map([['strong', 'strong'], ['b', 'strong'], ['em', 'em'], ['i', 'em'], ['u', 'u'], ['s', 's'], ['strike', 's'], ['del', 's'], ['code', 'code']]);
+// 内容整体丢弃的元素
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'svg', 'math', 'rt', 'rp']);
+// 可直接包含文字、需要单独成段的元素
+const TEXT_BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'pre']);
+
+/**
+ * 解码 XML 实体
+ */
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * 将正文中的数字字符引用还原为字符，保留 HTML 必须转义的字符
+ */
+function decodeCharacterReferences(text: string): string {
+  return text.replace(/&#(x[0-9a-f]+|\d+);/gi, (_, code: string) => {
+    const char = String.fromCodePoint(code[0].toLowerCase() === 'x' ? parseInt(code.slice(1), 16) : Number(code));
+    return char === '&' ? '&amp;' : char === '<' ? '&lt;' : char === '>' ? '&gt;' : char;
+  });
+}
+
+/**
+ * 读取标签的属性值
+ */
+export function getAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeXml(match[2] ?? match[3]) : null;
+}
+
+/**
+ * 读取第一个匹配元素的文字内容，元素名可带命名空间前缀
+ */
+function getElementText(xml: string, name: string): string | null {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${name}>`, 'i'));
+  return match ? decodeXml(match[1].replace(/<[^>]+>/g, '')).trim() || null : null;
+}
+
+/**
+ * 将相对路径解析为压缩包内的完整路径，去掉锚点
+ */
+export function resolvePath(baseDir: string, href: string): string {
+  const parts = (baseDir ? `${baseDir}/` : '').concat(safeDecodeUri(href.split('#')[0])).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+}
+
+function safeDecodeUri(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export function dirname(path: string): string {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+/**
+ * 解析 EPUB3 导航文档中的目录
+ */
+function parseNavToc(xhtml: string, baseDir: string): Array<{ title: string; path: string; depth: number }> {
+  const nav = xhtml.match(/<nav\b[^>]*epub:type\s*=\s*["'][^"']*\btoc\b[^"']*["'][^>]*>([\s\S]*?)<\/nav>/i)
+    || xhtml.match(/<nav\b[^>]*>([\s\S]*?)<\/nav>/i);
+  if (!nav) return [];
+
+  const entries: Array<{ title: string; path: string; depth: number }> = [];
+  let depth = -1;
+  const tokens = nav[1].match(/<a\b[^>]*>[\s\S]*?<\/a>|<span\b[^>]*>[\s\S]*?<\/span>|<\/?ol\b[^>]*>/gi) || [];
+  for (const token of tokens) {
+    if (/^<ol/i.test(token)) depth++;
+    else if (/^<\/ol/i.test(token)) depth--;
+    else {
+      const href = getAttribute(token.match(/^<[^>]*>/)![0], 'href');
+      const title = decodeXml(token.replace(/<[^>]+>/g, '')).trim();
+      if (title) entries.push({ title, path: href ? resolvePath(baseDir, href) : '', depth: Math.max(0, depth) });
+    }
+  }
+  return entries;
+}
+
+/**
+ * 解析 EPUB2 NCX 目录
+ */
+function parseNcxToc(ncx: string, baseDir: string): Array<{ title: string; path: string; depth: number }> {
+  const entries: Array<{ title: string; path: string; depth: number }> = [];
+  let depth = -1;
+  let current: { title: string; path: string; depth: number } | null = null;
+  const tokens = ncx.match(/<navPoint\b[^>]*>|<\/navPoint>|<text\b[^>]*>[\s\S]*?<\/text>|<content\b[^>]*>/gi) || [];
+
+  for (const token of tokens) {
+    if (/^<navPoint/i.test(token)) {
+      depth++;
+      current = { title: '', path: '', depth };
+      entries.push(current);
+    } else if (/^<\/navPoint/i.test(token)) {
+      depth--;
+      current = null;
+    } else if (current && /^<text/i.test(token) && !current.title) {
+      current.title = decodeXml(token.replace(/<[^>]+>/g, '')).trim();
+    } else if (current && /^<content/i.test(token) && !current.path) {
+      const src = getAttribute(token, 'src');
+      current.path = src ? resolvePath(baseDir, src) : '';
+    }
+  }
+  return entries.filter(entry => entry.title);
+}
+
+/**
+ * 标记目录条目是否包含下级条目，并为下级条目记录所属分卷
+ */
+function annotateToc(entries: Array<{ title: string; path: string; depth: number }>): TocEntry[] {
+  let volumeTitle: string | null = null;
+  return entries.map((entry, index) => {
+    const hasChildren = index + 1 < entries.length && entries[index + 1].depth > entry.depth;
+    if (entry.depth === 0) volumeTitle = hasChildren ? entry.title : null;
+    return { ...entry, hasChildren, volumeTitle: entry.depth > 0 ? volumeTitle : null };
+  });
+}
+
+/**
+ * 章节内的一二级标题降为三级，章节标题由章节本身表示
+ */
+function outputTag(name: string): string {
+  return name === 'h1' || name === 'h2' ? 'h3' : name;
+}
+
+/**
+ * 将 XHTML 正文转换为编辑器使用的 HTML
+ * 只保留段落、标题、列表、引用、预格式文本和粗体、斜体、下划线、删除线；容器元素中的文字补全为段落，图片和脚本等内容丢弃
+ */
+export function xhtmlToEditorHtml(xhtml: string): string {
+  const body = xhtml.match(/<body\b[^>]*>([\s\S]*)<\/body>/i);
+  const source = body ? body[1] : xhtml;
+  const output: string[] = [];
+  const blocks: string[] = []; // 已打开的块级元素
+  const inlines: string[] = []; // 当前段落中已打开的行内元素
+  let implicitParagraph = false;
+  let skipDepth = 0;
+  let skippedTag = '';
+
+  const inTextBlock = () => implicitParagraph || blocks.some(tag => TEXT_BLOCK_TAGS.has(tag));
+
+  const closeInlines = () => {
+    while (inlines.length > 0) output.push(`</${inlines.pop()}>`);
+  };
+
+  const closeImplicitParagraph = () => {
+    if (!implicitParagraph) return;
+    closeInlines();
+    output.push('</p>');
+    implicitParagraph = false;
+  };
+
+  const ensureTextBlock = () => {
+    if (inTextBlock()) return;
+    output.push('<p>');
+    implicitParagraph = true;
+  };
+
+  const tokens = source.match(/<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<[^>]*>|[^<]+/g) || [];
+  for (const token of tokens) {
+    if (token.startsWith('<!')) continue;
+
+    const tag = token.match(/^<(\/?)([a-zA-Z][\w:-]*)([^>]*?)(\/?)>$/);
+    if (!tag) {
+      if (skipDepth > 0) continue;
+      if (!token.trim()) {
+        if (inTextBlock()) output.push(' ');
+        continue;
+      }
+      ensureTextBlock();
+      output.push(decodeCharacterReferences(token.replace(/\s+/g, ' ')));
+      continue;
+    }
+
+    const [, closing, rawName, attrs, selfClosing] = tag;
+    const name = rawName.toLowerCase().replace(/^\w+:/, '');
+
+    // 跳过整段丢弃的元素
+    if (skipDepth > 0) {
+      if (name === skippedTag && !selfClosing) skipDepth += closing ? -1 : 1;
+      continue;
+    }
+    if (SKIPPED_TAGS.has(name)) {
+      if (!closing && !selfClosing) {
+        skipDepth = 1;
+        skippedTag = name;
+      }
+      continue;
+    }
+
+    if (BLOCK_TAGS.has(name)) {
+      closeImplicitParagraph();
+      if (closing) {
+        const index = blocks.lastIndexOf(name);
+        if (index === -1) continue;
+        closeInlines();
+        while (blocks.length > index) output.push(`</${outputTag(blocks.pop()!)}>`);
+      } else if (!selfClosing) {
+        // 列表项中的段落并入列表项
+        if (name === 'p' && blocks[blocks.length - 1] === 'li') continue;
+        closeInlines();
+        const align = attrs.match(/text-align\s*:\s*(left|center|right|justify)/i);
+        blocks.push(name);
+        output.push(align && TEXT_BLOCK_TAGS.has(name) ? `<${outputTag(name)} style="text-align: ${align[1].toLowerCase()}">` : `<${outputTag(name)}>`);
+      }
+    } else if (INLINE_TAGS.has(name)) {
+      const mapped = INLINE_TAGS.get(name)!;
+      if (closing) {
+        const index = inlines.lastIndexOf(mapped);
+        if (index === -1) continue;
+        while (inlines.length > index) output.push(`</${inlines.pop()}>`);
+      } else if (!selfClosing) {
+        ensureTextBlock();
+        inlines.push(mapped);
+        output.push(`<${mapped}>`);
+      }
+    } else if (name === 'br') {
+      if (inTextBlock()) output.push('<br>');
+    } else if (name === 'hr') {
+      closeImplicitParagraph();
+      output.push('<hr>');
+    } else if (!['a', 'span', 'font', 'small', 'big', 'sup', 'sub', 'ruby', 'rb', 'img', 'image'].includes(name)) {
+      // 其他容器元素（div、section 等）作为段落边界
+      closeImplicitParagraph();
+    }
+  }
+
+  closeImplicitParagraph();
+  closeInlines();
+  while (blocks.length > 0) output.push(`</${outputTag(blocks.pop()!)}>`);
+
+  return output
+    .join('')
+    .replace(/<p>\s*<\/p>/g, '')
+    .replace(/<(p|h[1-6]|li)([^>]*)>\s+/g, '<$1$2>')
+    .replace(/\s+<\/(p|h[1-6]|li)>/g, '</$1>')
+    .replace(/<p[^>]*>(?:\s|&nbsp;|&#160;|<br>)*<\/p>/g, '');
+}
+
+/**
+ * 去掉正文开头与章节标题相同的标题段落
+ */
+function removeLeadingTitle(html: string, title: string): string {
+  const match = html.match(/^<(h[1-6]|p)[^>]*>([\s\S]*?)<\/\1>/);
+  if (!match) return html;
+  const normalize = (text: string) => text.replace(/\s+/g, '');
+  return normalize(toPlainText(match[2])) === normalize(title) ? html.slice(match[0].length) : html;
+}
+
+/**
+ * 正文开头的标题文字，目录中没有对应条目时作为章节标题
+ */
+function leadingHeading(html: string): string | null {
+  const match = html.match(/^<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/);
+  return match ? toPlainText(match[1]) || null : null;
+}
+
+function countWords(html: string): number {
+  return toPlainText(html.replace(/<\/(p|h[1-6]|li)>/g, '\n')).replace(/\s/g, '').length;
+}
+
+/**
+ * 解析 EPUB 文件
+ */
+export async function parseEpub(data: ArrayBuffer | Buffer): Promise<ParsedEpub> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error('文件不是有效的 EPUB（ZIP）压缩包');
+  }
+  const readEntry = createZipReader({ maxEntrySize: MAX_ENTRY_UNPACKED_SIZE, maxTotalSize: MAX_EPUB_UNPACKED_SIZE });
+  const readText = async (path: string) => {
+    const file = zip.file(path);
+    return file ? (await readEntry(file)).toString('utf8') : null;
+  };
+
+  const container = await readText('META-INF/container.xml');
+  const opfPath = container?.match(/<rootfile\b[^>]*full-path\s*=\s*["']([^"']+)["']/i)?.[1];
+  const opf = opfPath ? await readText(opfPath) : null;
+  if (!opfPath || !opf) {
+    throw new Error('无法读取 EPUB 的内容描述文件（OPF），文件可能已损坏');
+  }
+
+  const baseDir = dirname(opfPath);
+
+  // 清单
+  const manifest = new Map<string, ManifestItem>();
+  for (const tag of opf.match(/<(?:\w+:)?item\b[^>]*>/gi) || []) {
+    const id = getAttribute(tag, 'id');
+    const href = getAttribute(tag, 'href');
+    if (!id || !href) continue;
+    manifest.set(id, {
+      id,
+      path: resolvePath(baseDir, href),
+      mediaType: (getAttribute(tag, 'media-type') || '').toLowerCase(),
+      properties: (getAttribute(tag, 'properties') || '').split(/\s+/).filter(Boolean)
+    });
+  }
+
+  // 目录：优先使用 EPUB3 导航文档，否则使用 NCX
+  const items = Array.from(manifest.values());
+  const navItem = items.find(item => item.properties.includes('nav'));
+  const spineTag = opf.match(/<(?:\w+:)?spine\b[^>]*>/i)?.[0] || '';
+  const ncxItem = manifest.get(getAttribute(spineTag, 'toc') || '') || items.find(item => item.mediaType === 'application/x-dtbncx+xml');
+
+  let rawToc: Array<{ title: string; path: string; depth: number }> = [];
+  if (navItem) {
+    const nav = await readText(navItem.path);
+    if (nav) rawToc = parseNavToc(nav, dirname(navItem.path));
+  }
+  if (rawToc.length === 0 && ncxItem) {
+    const ncx = await readText(ncxItem.path);
+    if (ncx) rawToc = parseNcxToc(ncx, dirname(ncxItem.path));
+  }
+  const toc = annotateToc(rawToc);
+  const tocByPath = new Map<string, TocEntry>();
+  toc.forEach(entry => {
+    if (entry.path && !tocByPath.has(entry.path)) tocByPath.set(entry.path, entry);
+  });
+
+  // 按 spine 顺序读取正文，跳过非线性内容和导航文档
+  const volumes: string[] = [];
+  const chapters: ParsedEpub['chapters'] = [];
+  let currentVolume: string | null = null;
+
+  for (const itemref of opf.match(/<(?:\w+:)?itemref\b[^>]*>/gi) || []) {
+    if (getAttribute(itemref, 'linear') === 'no') continue;
+    const item = manifest.get(getAttribute(itemref, 'idref') || '');
+    if (!item || !XHTML_TYPES.has(item.mediaType) || item === navItem) continue;
+
+    const xhtml = await readText(item.path);
+    if (!xhtml) continue;
+
+    const entry = tocByPath.get(item.path);
+    let content = xhtmlToEditorHtml(xhtml);
+    const title = entry?.title || leadingHeading(content) || getElementText(xhtml, 'title') || `第${chapters.length + 1}章`;
+    content = removeLeadingTitle(content, title);
+
+    if (entry) {
+      if (entry.depth === 0 && entry.hasChildren) {
+        currentVolume = entry.title;
+        volumes.push(entry.title);
+      } else {
+        currentVolume = entry.volumeTitle;
+      }
+    }
+
+    // 封面页、目录页等没有文字的文档不导入
+    const wordCount = countWords(content);
+    if (wordCount === 0) continue;
+
+    chapters.push({
+      title: entry?.depth === 0 && entry.hasChildren ? `${title}·卷首` : title,
+      content,
+      wordCount,
+      volumeTitle: currentVolume
+    });
+  }
+
+  // 封面：EPUB3 的 cover-image 属性，或 EPUB2 的 <meta name="cover">
+  const coverMeta = (opf.match(/<meta\b[^>]*>/gi) || []).find(tag => getAttribute(tag, 'name') === 'cover');
+  const coverItem = items.find(item => item.properties.includes('cover-image'))
+    || manifest.get(coverMeta ? getAttribute(coverMeta, 'content') || '' : '');
+  let coverImage: string | null = null;
+  if (coverItem && coverItem.mediaType.startsWith('image/')) {
+    const file = zip.file(coverItem.path);
+    if (file && getUncompressedSize(file) <= MAX_COVER_SIZE) {
+      const cover = await readEntry(file, MAX_COVER_SIZE);
+      if (cover.length > 0) {
+        coverImage = `data:${coverItem.mediaType};base64,${cover.toString('base64')}`;
+      }
+    }
+  }
+
+  return {
+    title: getElementText(opf, 'title') || '未命名作品',
+    author: getElementText(opf, 'creator'),
+    coverImage,
+    volumes,
+    chapters
+  };
+}
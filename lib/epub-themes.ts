@@ -0,0 +1,97 @@
+/**
+ * EPUB 样式主题
+ * 主题决定正文字体、段落缩进和排版方向；导出时可在主题之后追加自定义 CSS 覆盖其中的规则
+ */
+
+export type EpubThemeId = 'classic' | 'modern' | 'vertical';
+
+export interface EpubTheme {
+  id: EpubThemeId;
+  label: string;
+  description: string;
+  direction: 'ltr' | 'rtl'; // 翻页方向，竖排时从右向左
+  css: string;
+}
+
+// 各主题共用的样式：封面、书名页、目录和附录
+const BASE_CSS = `
+html, body { margin: 0; padding: 0; }
+body { widows: 2; orphans: 2; }
+h1, h2 { text-align: center; page-break-after: avoid; break-after: avoid; }
+h3, h4, h5, h6 { page-break-after: avoid; break-after: avoid; }
+hr { border: none; text-align: center; margin: 1.5em 0; }
+hr::after { content: "* * *"; }
+blockquote { margin: 1em 2em; }
+.cover { margin: 0; padding: 0; text-align: center; }
+.cover img { max-width: 100%; max-height: 100%; height: 100%; }
+.title-page { text-align: center; padding-top: 30%; }
+.title-page .book-title { font-size: 2em; margin-bottom: 1em; }
+.title-page .book-author { text-indent: 0; margin-bottom: 0.5em; }
+.title-page .book-series { text-indent: 0; color: #666666; }
+nav ol { list-style-type: none; padding-left: 0; }
+nav ol ol { padding-left: 2em; }
+nav li { margin: 0.4em 0; }
+nav a { text-decoration: none; color: inherit; }
+.volume-page .volume-summary { text-indent: 0; margin: 2em 1em; }
+.volume-page ol { list-style-type: none; padding-left: 0; text-align: center; }
+.appendix dl { margin: 0.5em 0 1.5em 0; }
+.appendix dt { font-weight: bold; float: left; margin-right: 0.5em; }
+.appendix dd { margin: 0 0 0.3em 0; }
+`;
+
+export const EPUB_THEMES: EpubTheme[] = [
+  {
+    id: 'classic',
+    label: '经典',
+    description: '宋体，首行缩进两字，两端对齐，适合长篇小说',
+    direction: 'ltr',
+    css: `
+body { font-family: "Noto Serif SC", "Source Han Serif SC", "Songti SC", STSong, SimSun, serif; line-height: 1.8; }
+p { text-indent: 2em; margin: 0; text-align: justify; }
+h1 { font-size: 1.6em; margin: 3em 0 2em 0; }
+h2 { font-size: 1.4em; margin: 2em 0 1.5em 0; }
+`
+  },
+  {
+    id: 'modern',
+    label: '现代',
+    description: '黑体，段落之间留空，不缩进，适合屏幕阅读',
+    direction: 'ltr',
+    css: `
+body { font-family: "Noto Sans SC", "Source Han Sans SC", "PingFang SC", "Microsoft YaHei", sans-serif; line-height: 1.7; }
+p { text-indent: 0; margin: 0 0 1em 0; }
+h1 { font-size: 1.5em; margin: 2em 0 1.5em 0; }
+h2 { font-size: 1.3em; margin: 1.5em 0 1em 0; font-weight: 600; }
+`
+  },
+  {
+    id: 'vertical',
+    label: '竖排',
+    description: '宋体竖排，自上而下、从右向左翻页',
+    direction: 'rtl',
+    css: `
+html { -epub-writing-mode: vertical-rl; -webkit-writing-mode: vertical-rl; writing-mode: vertical-rl; }
+body { font-family: "Noto Serif SC", "Source Han Serif SC", "Songti SC", STSong, SimSun, serif; line-height: 1.8; }
+p { text-indent: 2em; margin: 0; text-align: justify; }
+h1 { font-size: 1.6em; margin: 0 2em 0 3em; }
+h2 { font-size: 1.4em; margin: 0 1.5em 0 2em; }
+.title-page { padding-top: 0; padding-right: 30%; }
+nav ol ol { padding-left: 0; padding-top: 2em; }
+`
+  }
+];
+
+/**
+ * 按 ID 查找主题，未知的 ID 使用经典主题
+ */
+export function resolveEpubTheme(id?: string): EpubTheme {
+  return EPUB_THEMES.find(theme => theme.id === id) || EPUB_THEMES[0];
+}
+
+/**
+ * 生成电子书样式表：公共样式、主题样式，最后是自定义 CSS
+ */
+export function buildEpubStylesheet(theme: EpubTheme, customCss?: string): string {
+  const custom = customCss && customCss.trim() ? `\n/* 自定义样式 */\n${customCss.trim()}\n` : '';
+  return `@charset "UTF-8";\n${BASE_CSS}${theme.css}${custom}`;
+}
@@ -0,0 +1,306 @@
+/**
+ * EPUB 校验
+ * 参照 epubcheck 的主要规则检查电子书：mimetype 文件、容器和 OPF 的必需元数据、清单与压缩包内的文件一致、
+ * spine、导航文档和 NCX 的引用有效，以及各 XML 文档格式良好。返回发现的问题，空数组表示通过
+ */
+
+import JSZip from 'jszip';
+import { dirname, getAttribute, resolvePath } from '@/lib/epub-import';
+
+interface ManifestItem {
+  id: string;
+  path: string;
+  mediaType: string;
+  properties: string[];
+}
+
+// XML 文档的词法单位：注释、CDATA、处理指令、文档类型声明、标签、文字，最后一项匹配孤立的 <
+const XML_TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<[^>]*>|[^<]+|</g;
+
+// 合法的开始或结束标签，属性值必须加引号
+const XML_TAG = /^<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[A-Za-z_][\w:.-]*\s*=\s*(?:"[^"<]*"|'[^'<]*'))*)\s*(\/?)>$/;
+
+// 未转义的 & 或 XML 未定义的实体
+const INVALID_REFERENCE = /&(?!(?:amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);)/;
+
+// 可以直接放入 spine 的内容文档类型
+const CONTENT_DOCUMENT_TYPES = new Set(['application/xhtml+xml', 'image/svg+xml']);
+
+// 扩展名对应的媒体类型
+const MEDIA_TYPES_BY_EXTENSION: Record<string, string> = {
+  xhtml: 'application/xhtml+xml',
+  css: 'text/css',
+  ncx: 'application/x-dtbncx+xml',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+};
+
+// 图片文件头，用于检查声明的媒体类型与实际内容一致
+const IMAGE_SIGNATURES: Record<string, (bytes: Buffer) => boolean> = {
+  'image/jpeg': bytes => bytes[0] === 0xff && bytes[1] === 0xd8,
+  'image/png': bytes => bytes.toString('latin1', 0, 4) === '\x89PNG',
+  'image/gif': bytes => bytes.toString('latin1', 0, 4) === 'GIF8',
+  'image/webp': bytes => bytes.toString('latin1', 0, 4) === 'RIFF' && bytes.toString('latin1', 8, 12) === 'WEBP'
+};
+
+/**
+ * 检查 XML 是否格式良好，返回第一个问题
+ */
+function checkWellFormed(xml: string): string | null {
+  const stack: string[] = [];
+  let hasRoot = false;
+
+  for (const token of xml.match(XML_TOKEN) || []) {
+    if (token.startsWith('<!--') || token.startsWith('<![CDATA[') || token.startsWith('<?') || /^<!DOCTYPE/i.test(token)) continue;
+
+    if (token[0] !== '<') {
+      if (stack.length === 0 && token.trim()) return `根元素之外有文字“${token.trim().slice(0, 20)}”`;
+      if (INVALID_REFERENCE.test(token)) return `文字中有未转义的 & 或未定义的实体：“${token.trim().slice(0, 30)}”`;
+      continue;
+    }
+
+    const tag = token.match(XML_TAG);
+    if (!tag) return `无效的标签：${token.slice(0, 40)}`;
+    const [, closing, name, attrs, selfClosing] = tag;
+
+    if (closing) {
+      if (attrs || selfClosing) return `无效的结束标签：${token.slice(0, 40)}`;
+      const open = stack.pop();
+      if (open !== name) return open ? `结束标签 </${name}> 与 <${open}> 不匹配` : `多余的结束标签 </${name}>`;
+      continue;
+    }
+
+    if (stack.length === 0 && hasRoot) return '文档有多个根元素';
+    hasRoot = true;
+
+    const names = new Set<string>();
+    let attributeProblem: string | null = null;
+    attrs.replace(/([A-Za-z_][\w:.-]*)\s*=\s*("[^"]*"|'[^']*')/g, (_, attribute: string, value: string) => {
+      if (names.has(attribute)) attributeProblem = `<${name}> 的属性 ${attribute} 重复`;
+      else if (INVALID_REFERENCE.test(value)) attributeProblem = `<${name}> 的属性 ${attribute} 中有未转义的 &`;
+      names.add(attribute);
+      return '';
+    });
+    if (attributeProblem) return attributeProblem;
+
+    if (!selfClosing) stack.push(name);
+  }
+
+  if (stack.length > 0) return `元素 <${stack[stack.length - 1]}> 没有结束`;
+  return hasRoot ? null : '没有根元素';
+}
+
+/**
+ * 读取文档中所有元素的 id
+ */
+function collectIds(xml: string): string[] {
+  const ids: string[] = [];
+  xml.replace(/<[A-Za-z][^>]*?\sid\s*=\s*["']([^"']*)["']/g, (_, id: string) => {
+    ids.push(id);
+    return '';
+  });
+  return ids;
+}
+
+/**
+ * 校验 EPUB 文件
+ */
+export async function validateEpub(data: Buffer | ArrayBuffer): Promise<string[]> {
+  const problems: string[] = [];
+  const bytes = Buffer.isBuffer(data) ? data : Buffer.from(data);
+
+  // mimetype：压缩包的第一个文件，不压缩，没有扩展字段
+  if (bytes.length < 58 || bytes.readUInt32LE(0) !== 0x04034b50) {
+    return ['文件不是 ZIP 压缩包'];
+  }
+  if (bytes.readUInt16LE(26) !== 8 || bytes.toString('latin1', 30, 38) !== 'mimetype') {
+    problems.push('压缩包的第一个文件必须是 mimetype');
+  } else {
+    if (bytes.readUInt16LE(8) !== 0) problems.push('mimetype 文件不能压缩');
+    if (bytes.readUInt16LE(28) !== 0) problems.push('mimetype 文件不能带扩展字段');
+    else if (bytes.toString('latin1', 38, 58) !== 'application/epub+zip') problems.push('mimetype 的内容必须是 application/epub+zip');
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch {
+    return [...problems, '无法读取 ZIP 压缩包'];
+  }
+  const files = Object.keys(zip.files).filter(name => !zip.files[name].dir);
+  const readText = async (path: string) => {
+    const file = zip.file(path);
+    return file ? file.async('string') : null;
+  };
+
+  // 容器
+  const container = await readText('META-INF/container.xml');
+  if (!container) return [...problems, '缺少 META-INF/container.xml'];
+  const containerProblem = checkWellFormed(container);
+  if (containerProblem) problems.push(`META-INF/container.xml：${containerProblem}`);
+
+  const rootfile = (container.match(/<rootfile\b[^>]*>/i) || [])[0];
+  const opfPath = rootfile ? getAttribute(rootfile, 'full-path') : null;
+  const opf = opfPath ? await readText(opfPath) : null;
+  if (!opfPath || !opf) return [...problems, '容器中指定的 OPF 文件不存在'];
+  const opfProblem = checkWellFormed(opf);
+  if (opfProblem) return [...problems, `${opfPath}：${opfProblem}`];
+
+  // 元数据：标识、书名、语言和修改时间是 EPUB 3 的必需项
+  const packageTag = (opf.match(/<package\b[^>]*>/i) || [])[0] || '';
+  if (getAttribute(packageTag, 'version') !== '3.0') problems.push('OPF 的 version 必须是 3.0');
+
+  const metadata = (opf.match(/<metadata\b[\s\S]*?<\/metadata>/i) || [])[0] || '';
+  const uniqueIdentifier = getAttribute(packageTag, 'unique-identifier');
+  const identifierTag = (metadata.match(/<dc:identifier\b[^>]*>[\s\S]*?<\/dc:identifier>/gi) || [])
+    .find(tag => getAttribute(tag, 'id') === uniqueIdentifier);
+  if (!uniqueIdentifier || !identifierTag || !identifierTag.replace(/<[^>]+>/g, '').trim()) {
+    problems.push('unique-identifier 没有指向非空的 dc:identifier');
+  }
+  ['title', 'language'].forEach(name => {
+    const match = metadata.match(new RegExp(`<dc:${name}\\b[^>]*>([\\s\\S]*?)</dc:${name}>`, 'i'));
+    if (!match || !match[1].trim()) problems.push(`缺少 dc:${name}`);
+  });
+
+  const modified = (metadata.match(/<meta\b[^>]*property\s*=\s*["']dcterms:modified["'][^>]*>([\s\S]*?)<\/meta>/gi) || []);
+  if (modified.length !== 1) {
+    problems.push('必须有且只有一个 dcterms:modified');
+  } else if (!/>\s*\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z\s*</.test(modified[0])) {
+    problems.push('dcterms:modified 的格式必须是 CCYY-MM-DDThh:mm:ssZ');
+  }
+
+  const metadataIds = new Set(collectIds(metadata));
+  for (const tag of metadata.match(/<meta\b[^>]*>/gi) || []) {
+    const refines = getAttribute(tag, 'refines');
+    if (refines && !metadataIds.has(refines.replace(/^#/, ''))) problems.push(`meta 的 refines 指向不存在的元素 ${refines}`);
+  }
+  metadata.replace(/<meta\b[^>]*property\s*=\s*["']group-position["'][^>]*>([\s\S]*?)<\/meta>/gi, (_, value: string) => {
+    if (!/^\s*\d+(\.\d+)?\s*$/.test(value)) problems.push('group-position 必须是数字');
+    return '';
+  });
+
+  // 清单
+  const baseDir = dirname(opfPath);
+  const manifest = new Map<string, ManifestItem>();
+  const manifestPaths = new Map<string, ManifestItem>();
+  for (const tag of opf.match(/<item\b[^>]*>/gi) || []) {
+    const id = getAttribute(tag, 'id');
+    const href = getAttribute(tag, 'href');
+    const mediaType = getAttribute(tag, 'media-type');
+    if (!id || !href || !mediaType) {
+      problems.push(`清单项缺少 id、href 或 media-type：${tag}`);
+      continue;
+    }
+    const item = { id, path: resolvePath(baseDir, href), mediaType, properties: (getAttribute(tag, 'properties') || '').split(/\s+/).filter(Boolean) };
+    if (manifest.has(id)) problems.push(`清单项 id 重复：${id}`);
+    if (manifestPaths.has(item.path)) problems.push(`清单中重复声明了文件 ${item.path}`);
+    manifest.set(id, item);
+    manifestPaths.set(item.path, item);
+
+    const file = zip.file(item.path);
+    if (!file) {
+      problems.push(`清单中的文件不存在：${item.path}`);
+      continue;
+    }
+    const extension = item.path.split('.').pop()!.toLowerCase();
+    if (MEDIA_TYPES_BY_EXTENSION[extension] && MEDIA_TYPES_BY_EXTENSION[extension] !== mediaType) {
+      problems.push(`${item.path} 的媒体类型 ${mediaType} 与扩展名不符`);
+    }
+    const signature = IMAGE_SIGNATURES[mediaType];
+    if (signature && !signature(await file.async('nodebuffer'))) {
+      problems.push(`${item.path} 的内容不是 ${mediaType} 图片`);
+    }
+  }
+
+  files
+    .filter(name => name !== 'mimetype' && !name.startsWith('META-INF/') && name !== opfPath && !manifestPaths.has(name))
+    .forEach(name => problems.push(`文件没有在清单中声明：${name}`));
+
+  const items = Array.from(manifest.values());
+  const navItems = items.filter(item => item.properties.includes('nav'));
+  if (navItems.length !== 1) problems.push('清单中必须有且只有一个导航文档（properties="nav"）');
+  const coverItems = items.filter(item => item.properties.includes('cover-image'));
+  if (coverItems.length > 1) problems.push('清单中只能有一个封面图片（cover-image）');
+  coverItems.forEach(item => {
+    if (!item.mediaType.startsWith('image/')) problems.push(`封面 ${item.path} 不是图片`);
+  });
+
+  // spine
+  const spineTag = (opf.match(/<spine\b[^>]*>/i) || [])[0];
+  const itemrefs = opf.match(/<itemref\b[^>]*>/gi) || [];
+  if (!spineTag || itemrefs.length === 0) problems.push('spine 为空');
+  const spineIds = new Set<string>();
+  itemrefs.forEach(tag => {
+    const idref = getAttribute(tag, 'idref') || '';
+    const item = manifest.get(idref);
+    if (!item) problems.push(`spine 引用了不存在的清单项 ${idref}`);
+    else if (!CONTENT_DOCUMENT_TYPES.has(item.mediaType)) problems.push(`spine 中的 ${item.path} 不是内容文档`);
+    if (spineIds.has(idref)) problems.push(`spine 中重复引用了 ${idref}`);
+    spineIds.add(idref);
+  });
+  const tocId = spineTag ? getAttribute(spineTag, 'toc') : null;
+  if (tocId && manifest.get(tocId)?.mediaType !== 'application/x-dtbncx+xml') problems.push('spine 的 toc 属性没有指向 NCX 文件');
+
+  // 内容文档和 NCX：格式良好，引用的资源在清单中，锚点存在
+  const documents = new Map<string, string>();
+  for (const item of items) {
+    if (item.mediaType !== 'application/xhtml+xml' && item.mediaType !== 'application/x-dtbncx+xml') continue;
+    const text = await readText(item.path);
+    if (text === null) continue;
+    const problem = checkWellFormed(text);
+    if (problem) {
+      problems.push(`${item.path}：${problem}`);
+      continue;
+    }
+    documents.set(item.path, text);
+  }
+
+  const idsByPath = new Map<string, Set<string>>();
+  documents.forEach((text, path) => {
+    const ids = collectIds(text);
+    const unique = new Set(ids);
+    if (unique.size !== ids.length) problems.push(`${path}：元素 id 重复`);
+    idsByPath.set(path, unique);
+  });
+
+  documents.forEach((text, path) => {
+    const item = manifestPaths.get(path)!;
+    if (item.mediaType === 'application/xhtml+xml') {
+      const htmlTag = (text.match(/<html\b[^>]*>/i) || [])[0] || '';
+      if (getAttribute(htmlTag, 'xmlns') !== 'http://www.w3.org/1999/xhtml') problems.push(`${path}：html 元素缺少 XHTML 命名空间`);
+      if (/\sepub:type\s*=/.test(text) && getAttribute(htmlTag, 'xmlns:epub') !== 'http://www.idpf.org/2007/ops') {
+        problems.push(`${path}：使用了 epub:type 但没有声明 epub 命名空间`);
+      }
+    }
+
+    const references: string[] = [];
+    text.replace(/<[A-Za-z][^>]*?\s(?:href|src)\s*=\s*["']([^"']*)["']/g, (_, reference: string) => {
+      references.push(reference);
+      return '';
+    });
+    references.forEach(reference => {
+      if (/^[a-z][a-z0-9+.-]*:/i.test(reference)) return; // 外部链接和 data URI
+      const [file, fragment] = reference.split('#');
+      const target = file ? resolvePath(dirname(path), file) : path;
+      if (!manifestPaths.has(target)) {
+        problems.push(`${path} 引用的 ${reference} 不在清单中`);
+      } else if (fragment && idsByPath.has(target) && !idsByPath.get(target)!.has(fragment)) {
+        problems.push(`${path} 引用的锚点 ${reference} 不存在`);
+      }
+    });
+  });
+
+  // 导航文档：必须有 toc 导航，列表不能为空
+  const nav = navItems.length === 1 ? documents.get(navItems[0].path) : undefined;
+  if (navItems.length === 1 && nav !== undefined) {
+    const tocNav = nav.match(/<nav\b[^>]*epub:type\s*=\s*["'][^"']*\btoc\b[^"']*["'][^>]*>([\s\S]*?)<\/nav>/i);
+    if (!tocNav || !/<ol\b/i.test(tocNav[1])) problems.push('导航文档缺少 epub:type="toc" 的目录列表');
+    if (/<ol\b[^>]*>\s*<\/ol>/i.test(nav)) problems.push('导航文档中有空的列表');
+  }
+
+  return problems;
+}
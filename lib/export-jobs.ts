@@ -0,0 +1,179 @@
+/**
+ * 后台导出任务
+ * 创建任务后立即返回，文件在服务端进程中按顺序逐个生成，进度（已渲染章节数 / 章节总数）和生成的文件保存在 ExportJob 中
+ * 文件保留 EXPORT_RETENTION_DAYS 天，过期的任务由 /api/jobs/cleanup-exports 定时删除
+ * 队列只在进程内存中，服务重启后第一次使用时把数据库中仍在排队的任务重新加入队列
+ */
+
+import prisma from '@/lib/prisma';
+import { renderStoryExport, StoryExportRequest } from '@/lib/story-export';
+
+export type ExportJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// 任务列表和状态查询返回的字段，不包含文件内容和导出选项
+export const EXPORT_JOB_SUMMARY_SELECT = {
+  id: true,
+  format: true,
+  status: true,
+  progress: true,
+  total: true,
+  error: true,
+  fileName: true,
+  fileSize: true,
+  createdAt: true,
+  completedAt: true,
+  expiresAt: true
+} as const;
+
+// 导出文件的保留天数
+const EXPORT_RETENTION_DAYS = Math.max(1, Number(process.env.EXPORT_RETENTION_DAYS) || 7);
+
+// 超过这个时间没有更新进度的进行中任务视为已中断（如服务重启）
+const STALLED_JOB_MS = 30 * 60 * 1000;
+
+// 排队超过这个时间仍未开始的任务视为无法执行，清理时标记为失败
+const QUEUED_JOB_TIMEOUT_MS = 6 * 60 * 60 * 1000;
+
+// 进度写入数据库的最小间隔
+const PROGRESS_UPDATE_INTERVAL_MS = 1000;
+
+// 每个用户同时进行中的任务上限
+export const MAX_ACTIVE_EXPORT_JOBS = 3;
+
+// 任务按创建顺序逐个执行，避免多个大文件同时生成占满内存
+let exportQueue: Promise<void> = Promise.resolve();
+
+// 本进程是否已接管之前进程遗留的排队任务
+let queueResumed = false;
+
+/**
+ * 服务重启后内存中的队列为空，将数据库中仍在排队的任务按创建顺序重新加入队列；每个进程只执行一次
+ */
+export async function resumeQueuedJobs() {
+  if (queueResumed) return;
+  queueResumed = true;
+
+  try {
+    const jobs = await prisma.exportJob.findMany({
+      where: { status: 'pending' },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true }
+    });
+
+    for (const job of jobs) {
+      exportQueue = exportQueue.then(() => runExportJob(job.id));
+    }
+  } catch (error) {
+    console.error('恢复排队的导出任务失败:', error);
+    queueResumed = false;
+  }
+}
+
+/**
+ * 创建导出任务并加入队列，返回任务概要
+ * @param request 已通过 validateStoryExportRequest 校验的导出请求
+ */
+export async function createExportJob(storyId: string, userId: string, request: StoryExportRequest) {
+  await resumeQueuedJobs();
+
+  const total = await prisma.chapter.count({ where: { storyId } });
+
+  const job = await prisma.exportJob.create({
+    data: {
+      storyId,
+      userId,
+      format: request.format,
+      options: JSON.stringify(request),
+      total,
+      expiresAt: new Date(Date.now() + EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+    },
+    select: EXPORT_JOB_SUMMARY_SELECT
+  });
+
+  exportQueue = exportQueue.then(() => runExportJob(job.id));
+  return job;
+}
+
+/**
+ * 执行导出任务：生成文件并保存，失败时记录原因
+ */
+async function runExportJob(jobId: string): Promise<void> {
+  try {
+    // 只执行仍在排队的任务；多个进程恢复队列时，只有认领成功的进程执行
+    const claimed = await prisma.exportJob.updateMany({
+      where: { id: jobId, status: 'pending' },
+      data: { status: 'processing' }
+    });
+    if (claimed.count === 0) return;
+
+    const job = await prisma.exportJob.findUnique({ where: { id: jobId } });
+    if (!job) return;
+
+    let lastUpdate = 0;
+    let chapterCount = job.total;
+    const file = await renderStoryExport(job.storyId, JSON.parse(job.options), async (rendered, total) => {
+      chapterCount = total;
+      const now = Date.now();
+      if (rendered < total && now - lastUpdate < PROGRESS_UPDATE_INTERVAL_MS) return;
+      lastUpdate = now;
+      await prisma.exportJob.update({
+        where: { id: jobId },
+        data: { progress: rendered, total }
+      });
+    });
+
+    await prisma.exportJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'completed',
+        progress: chapterCount,
+        total: chapterCount,
+        fileName: file.fileName,
+        mimeType: file.mimeType,
+        fileSize: file.data.length,
+        data: file.data,
+        completedAt: new Date()
+      }
+    });
+  } catch (error) {
+    console.error(`导出任务 ${jobId} 失败:`, error);
+    // 任务可能已被删除（如用户删除了故事），更新失败时忽略
+    await prisma.exportJob.updateMany({
+      where: { id: jobId },
+      data: {
+        status: 'failed',
+        error: error instanceof Error ? error.message : '生成导出文件时发生错误',
+        completedAt: new Date()
+      }
+    }).catch(() => undefined);
+  }
+}
+
+/**
+ * 清理导出任务：删除过期的任务及文件，将长时间没有进展的进行中任务和排队过久的任务标记为失败
+ * 同时接管服务重启前遗留的排队任务
+ */
+export async function cleanupExportJobs(): Promise<{ deletedCount: number; stalledCount: number }> {
+  const now = new Date();
+  await resumeQueuedJobs();
+
+  const deleted = await prisma.exportJob.deleteMany({
+    where: { expiresAt: { lt: now } }
+  });
+
+  const stalled = await prisma.exportJob.updateMany({
+    where: {
+      OR: [
+        { status: 'processing', updatedAt: { lt: new Date(now.getTime() - STALLED_JOB_MS) } },
+        { status: 'pending', createdAt: { lt: new Date(now.getTime() - QUEUED_JOB_TIMEOUT_MS) } }
+      ]
+    },
+    data: {
+      status: 'failed',
+      error: '导出任务已中断，请重新导出',
+      completedAt: now
+    }
+  });
+
+  return { deletedCount: deleted.count, stalledCount: stalled.count };
+}
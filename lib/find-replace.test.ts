@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildFindPattern, FindReplaceOptions } from "@/lib/find-replace";
+
+const options = (query: string): FindReplaceOptions => ({
+  query,
+  replacement: "",
+  regex: true,
+  wholeWord: false,
+  caseSensitive: false
+});
+
+test("拒绝被重复的分组中包含量词或 | 的正则", () => {
+  for (const query of ["(a+)+$", "(a|a)+$", "(a|aa)+$", "(a?)+", "(\\w*\\s)*x", "((a|b)c)+", "(?:x+y)*", "(a{2,})*", "(a+){3}"]) {
+    assert.throws(() => buildFindPattern(options(query)), /被重复的分组/, query);
+  }
+});
+
+test("接受不会回溯失控的正则", () => {
+  for (const query of ["a+b*", "(ab)+", "陈平安|平安", "(a|b)?", "(a+)?", "第[一二三]+章", "[(a+)]+", "\\(a+\\)+", "(?:ab)+"]) {
+    assert.doesNotThrow(() => buildFindPattern(options(query)), query);
+  }
+});
+
+test("拒绝过长的正则", () => {
+  assert.throws(() => buildFindPattern(options("a".repeat(501))), /不能超过/);
+});
+
+test("非正则模式不做限制", () => {
+  assert.doesNotThrow(() => buildFindPattern({ ...options("(a+)+"), regex: false }));
+});
@@ -0,0 +1,300 @@
+/**
+ * 查找替换工具函数
+ * 支持正则、全词匹配和区分大小写；章节正文为 HTML，只在标签之间的文字中查找，跨越格式标签的文字不会被匹配
+ * 纯函数实现，预览和应用替换时使用同一套匹配逻辑，按匹配序号确认用户接受的替换
+ */
+
+export type FindReplaceField = 'title' | 'content' | 'summary' | 'notes';
+
+export interface FindReplaceOptions {
+  query: string;
+  replacement: string;
+  regex: boolean; // 按正则表达式查找，替换文本支持 $1、$<name> 等引用
+  wholeWord: boolean; // 全词匹配，仅对英文数字生效，中日韩文字不受影响
+  caseSensitive: boolean;
+  replacements?: Record<string, string>; // 按匹配到的文字分别指定替换文本，用于同时替换多个词（如角色名和别名）
+}
+
+export interface TextMatch {
+  index: number; // 在字段内的匹配序号（从 0 开始）
+  start: number; // 在纯文本中的位置
+  end: number;
+  text: string;
+  replacement: string;
+  before: string; // 匹配前的上下文
+  after: string; // 匹配后的上下文
+}
+
+// 全词匹配时视为单词组成部分的字符
+const WORD_CHAR = 'A-Za-z0-9_\\u00c0-\\u024f';
+// 预览上下文的字符数
+const CONTEXT_LENGTH = 30;
+// 换行的块级标签
+const BLOCK_BREAK_TAG = /^<(?:br\s*\/?|\/(?:p|h[1-6]|li|blockquote|pre|div))>$/i;
+// 正则表达式的最大长度，过长的表达式匹配开销难以预估
+const MAX_REGEX_LENGTH = 500;
+
+/**
+ * 转义正则特殊字符
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 读取指定位置的量词，返回长度以及是否允许重复多次；不是量词时返回 null
+ */
+function readQuantifier(source: string, position: number): { length: number; repeats: boolean } | null {
+  const char = source[position];
+  if (char === '*' || char === '+') return { length: 1, repeats: true };
+  if (char === '?') return { length: 1, repeats: false };
+
+  const range = char === '{' ? source.slice(position).match(/^\{(\d+)(?:,(\d*))?\}/) : null;
+  if (!range) return null;
+
+  const max = range[2] === undefined ? Number(range[1]) : range[2] === '' ? Infinity : Number(range[2]);
+  return { length: range[0].length, repeats: max > 1 };
+}
+
+/**
+ * 检查正则中被重复的分组是否包含量词或 |（如 (a+)+、(a|aa)+、(\w?\s)*）
+ * 这类分组可以用多种方式匹配同一段文字，匹配失败时回溯次数随文字长度指数增长
+ */
+function hasAmbiguousRepetition(source: string): boolean {
+  const groups: boolean[] = []; // 每层分组内是否有量词或 |
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+    let ambiguous = false;
+
+    if (char === '(') {
+      groups.push(false);
+      position++;
+      continue;
+    }
+
+    if (char === '|') {
+      if (groups.length > 0) groups[groups.length - 1] = true;
+      position++;
+      continue;
+    }
+
+    if (char === '\\') {
+      position += 2;
+    } else if (char === '[') {
+      // 跳过字符类，类中的符号没有特殊含义
+      position++;
+      while (position < source.length && source[position] !== ']') {
+        position += source[position] === '\\' ? 2 : 1;
+      }
+      position++;
+    } else if (char === ')') {
+      ambiguous = groups.pop() || false;
+      position++;
+    } else {
+      position++;
+    }
+
+    const quantifier = readQuantifier(source, position);
+    if (quantifier) {
+      position += quantifier.length;
+      // 非贪婪量词
+      if (source[position] === '?') position++;
+      if (quantifier.repeats && ambiguous) return true;
+    }
+
+    if (groups.length > 0 && (ambiguous || quantifier)) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * 检查用户输入的正则能否安全地在服务端执行：限制长度，拒绝可能导致回溯失控的写法，不安全时抛出错误
+ */
+export function assertSafeRegex(source: string) {
+  if (source.length > MAX_REGEX_LENGTH) {
+    throw new Error(`正则表达式不能超过 ${MAX_REGEX_LENGTH} 个字符`);
+  }
+  if (hasAmbiguousRepetition(source)) {
+    throw new Error('正则表达式中被重复的分组不能包含量词或 |（如 (a+)+、(a|b)+），否则查找可能无法结束，请改用字符类（如 [ab]+）等写法');
+  }
+}
+
+/**
+ * 按选项构建查找用的正则表达式，正则无效或可能导致回溯失控时抛出错误
+ */
+export function buildFindPattern(options: FindReplaceOptions): RegExp {
+  if (options.regex) {
+    assertSafeRegex(options.query);
+  }
+
+  let source = options.regex ? options.query : escapeRegExp(options.query);
+
+  if (options.wholeWord) {
+    source = `(?<![${WORD_CHAR}])(?:${source})(?![${WORD_CHAR}])`;
+  }
+
+  try {
+    return new RegExp(source, options.caseSensitive ? 'gu' : 'giu');
+  } catch (error) {
+    throw new Error(`正则表达式无效：${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * 展开替换文本中的 $$、$&、$1、$<name> 引用；非正则模式下按原样替换
+ */
+function expandReplacement(match: RegExpExecArray, options: FindReplaceOptions): string {
+  if (options.replacements) return options.replacements[match[0]] ?? match[0];
+  if (!options.regex) return options.replacement;
+
+  return options.replacement.replace(/\$(\$|&|\d{1,2}|<[^>]+>)/g, (token, ref: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    if (ref.startsWith('<')) return match.groups?.[ref.slice(1, -1)] ?? '';
+    const group = parseInt(ref, 10);
+    return group > 0 && group < match.length ? match[group] ?? '' : token;
+  });
+}
+
+/**
+ * 在一段文字中查找所有非空匹配
+ */
+function execAll(pattern: RegExp, text: string): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    matches.push(match);
+  }
+
+  return matches;
+}
+
+/**
+ * 解码 HTML 文字中的常见实体，查找时按用户看到的文字匹配
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, '\u00a0')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * 将替换后的文字重新编码为 HTML
+ */
+function encodeEntities(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\u00a0/g, '&nbsp;');
+}
+
+/**
+ * 判断字段内容是否为 HTML（编辑器保存的章节正文），早期的纯文本内容按纯文本处理
+ */
+export function isHtmlValue(value: string): boolean {
+  return /<\/?[a-z][^>]*>/i.test(value);
+}
+
+/**
+ * 将字段拆分为文字片段：HTML 按标签拆分，标签原样保留；纯文本整体作为一个片段
+ */
+function splitSegments(value: string, isHtml: boolean): Array<{ text: string; isTag: boolean }> {
+  if (!isHtml) return [{ text: value, isTag: false }];
+
+  return value
+    .split(/(<[^>]+>)/)
+    .filter(piece => piece)
+    .map(piece => (piece.startsWith('<') && piece.endsWith('>') ? { text: piece, isTag: true } : { text: decodeEntities(piece), isTag: false }));
+}
+
+/**
+ * 查找字段中的所有匹配，并附带前后文
+ */
+export function findMatches(value: string, isHtml: boolean, pattern: RegExp, options: FindReplaceOptions): TextMatch[] {
+  const segments = splitSegments(value || '', isHtml);
+  const found: Array<{ start: number; match: RegExpExecArray }> = [];
+  let plain = '';
+
+  for (const segment of segments) {
+    if (segment.isTag) {
+      if (BLOCK_BREAK_TAG.test(segment.text)) plain += '\n';
+      continue;
+    }
+    for (const match of execAll(pattern, segment.text)) {
+      found.push({ start: plain.length + match.index, match });
+    }
+    plain += segment.text;
+  }
+
+  const context = (text: string) => text.replace(/\s+/g, ' ');
+
+  return found.map(({ start, match }, index) => {
+    const end = start + match[0].length;
+    return {
+      index,
+      start,
+      end,
+      text: match[0],
+      replacement: expandReplacement(match, options),
+      before: context(plain.slice(Math.max(0, start - CONTEXT_LENGTH), start)),
+      after: context(plain.slice(end, end + CONTEXT_LENGTH))
+    };
+  });
+}
+
+/**
+ * 只替换序号在 accepted 中的匹配，返回替换后的字段和实际替换数量
+ * 未修改的 HTML 片段保持原样，避免改变原有的实体写法
+ */
+export function replaceMatches(
+  value: string,
+  isHtml: boolean,
+  pattern: RegExp,
+  options: FindReplaceOptions,
+  accepted: Set<number>
+): { value: string; replaced: number } {
+  const segments = splitSegments(value || '', isHtml);
+  const rawSegments = isHtml ? (value || '').split(/(<[^>]+>)/).filter(piece => piece) : [value || ''];
+  let matchIndex = 0;
+  let replaced = 0;
+
+  const output = segments.map((segment, segmentIndex) => {
+    if (segment.isTag) return segment.text;
+
+    let result = '';
+    let cursor = 0;
+    let changed = false;
+
+    for (const match of execAll(pattern, segment.text)) {
+      if (accepted.has(matchIndex)) {
+        result += segment.text.slice(cursor, match.index) + expandReplacement(match, options);
+        cursor = match.index + match[0].length;
+        changed = true;
+        replaced++;
+      }
+      matchIndex++;
+    }
+
+    if (!changed) return rawSegments[segmentIndex];
+    result += segment.text.slice(cursor);
+    return isHtml ? encodeEntities(result) : result;
+  });
+
+  return { value: output.join(''), replaced };
+}
@@ -0,0 +1,401 @@
+/**
+ * 书稿导入：按章节标题拆分 TXT / Markdown / DOCX 书稿
+ * 支持“第X章”、“Chapter N”、标题样式（Markdown 标题或 Word 标题）和自定义正则；识别结果可在预览中调整后再按调整后的分界拆分
+ * DOCX 先转换为 HTML，按块级元素作为“行”处理
+ * 纯函数实现，客户端预览和服务端导入使用同一套规则
+ */
+
+import { splitParagraphs, toPlainText } from '@/lib/text-diff';
+import { assertSafeRegex } from '@/lib/find-replace';
+
+export type ManuscriptFormat = 'text' | 'markdown' | 'html';
+export type HeadingPatternId = 'chinese' | 'english' | 'heading';
+
+export interface HeadingPatternOptions {
+  patterns: HeadingPatternId[];
+  customPattern?: string; // 自定义正则，逐行匹配
+  headingLevel?: number; // 作为章节的标题级别，为空时自动选择
+}
+
+// 章节或分卷的分界
+export interface HeadingBoundary {
+  line: number; // 标题所在行（从 0 开始）
+  title: string;
+  kind: 'chapter' | 'volume';
+}
+
+export interface ImportedChapter {
+  title: string;
+  content: string; // 编辑器使用的 HTML
+  wordCount: number;
+  volumeTitle: string | null;
+  startLine: number;
+}
+
+export interface ParsedManuscript {
+  preface: string; // 第一个标题之前的内容（纯文本，段落以空行分隔）
+  prefaceHtml: string; // 前言转换后的 HTML，作为章节导入时使用
+  chapters: ImportedChapter[];
+  volumes: string[];
+}
+
+export const HEADING_PATTERNS: Array<{ id: HeadingPatternId; label: string; example: string }> = [
+  { id: 'chinese', label: '中文章回', example: '第一章 初入江湖、第12回、第三卷' },
+  { id: 'english', label: '英文章节', example: 'Chapter 1、CHAPTER ONE、Prologue' },
+  { id: 'heading', label: '标题样式', example: 'Markdown 的 # 标题、Word 的“标题 1”样式' }
+];
+
+// 标题行的最大长度，避免把以“第X章”开头的正文误判为标题
+const MAX_HEADING_LENGTH = 50;
+// 候选标题的最大长度
+const MAX_CANDIDATE_LENGTH = 30;
+const MAX_CANDIDATES = 200;
+
+const CHINESE_NUMBER = '[零〇一二三四五六七八九十百千万两\\d０-９]+';
+const CHINESE_CHAPTER = new RegExp(`^第${CHINESE_NUMBER}[章回节](?:[\\s　:：、.．\\-—]|$)`);
+const CHINESE_VOLUME = new RegExp(`^第${CHINESE_NUMBER}[卷部](?:[\\s　:：、.．\\-—]|$)`);
+const CHINESE_SPECIAL = /^(序章|序言|楔子|引子|前言|尾声|后记|终章|番外)(?:[\s　:：、.．\-—]|$)/;
+const ENGLISH_NUMBER = '(\\d+|[IVXLCDM]+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty[\\w-]*|thirty[\\w-]*|forty[\\w-]*|fifty[\\w-]*)';
+const ENGLISH_CHAPTER = new RegExp(`^chapter\\s+${ENGLISH_NUMBER}\\b`, 'i');
+const ENGLISH_VOLUME = new RegExp(`^(book|part|volume)\\s+${ENGLISH_NUMBER}\\b`, 'i');
+const ENGLISH_SPECIAL = /^(prologue|epilogue|interlude|afterword)\b/i;
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/;
+const HTML_HEADING = /^\s*<h([1-6])[\s>]/i;
+// 整段加粗的 HTML 段落，DOCX 中常用作未设置标题样式的标题
+const HTML_BOLD_PARAGRAPH = /^\s*<p[^>]*>\s*<strong>((?:(?!<\/?strong>)[\s\S])*)<\/strong>\s*<\/p>\s*$/i;
+// 句末标点，以此结尾的行不作为候选标题
+const SENTENCE_END = /[。！？!?…」』”，,；;：:]$/;
+const CJK_CHAR = /[぀-ヿ㐀-䶿一-鿿豈-﫿가-힯]/;
+
+/**
+ * 按行拆分书稿，统一换行符并去除 BOM；HTML 按块级元素拆分，拼接结果与原文一致
+ */
+export function splitManuscriptLines(text: string, format: ManuscriptFormat = 'text'): string[] {
+  const normalized = text.replace(/^﻿/, '');
+  return format === 'html' ? splitParagraphs(normalized) : normalized.replace(/\r\n?/g, '\n').split('\n');
+}
+
+/**
+ * 去除行首尾空白，包括中文排版常用的全角空格缩进
+ */
+function trimLine(line: string): string {
+  return line.replace(/^[\s　]+|[\s　]+$/g, '');
+}
+
+/**
+ * 行的纯文本：去除 Markdown 标题标记或 HTML 标签
+ */
+function lineText(line: string, format: ManuscriptFormat): string {
+  if (format === 'html') return trimLine(toPlainText(line));
+  const text = trimLine(line);
+  const heading = format === 'markdown' ? text.match(MARKDOWN_HEADING) : null;
+  return heading ? heading[2] : text;
+}
+
+/**
+ * 行的标题级别，不是标题时返回 0
+ */
+function headingLevelOf(line: string, format: ManuscriptFormat): number {
+  const match = format === 'markdown' ? line.match(MARKDOWN_HEADING) : format === 'html' ? line.match(HTML_HEADING) : null;
+  if (!match) return 0;
+  return format === 'markdown' ? match[1].length : Number(match[1]);
+}
+
+/**
+ * 标记 Markdown 代码块内的行，代码块中的内容不参与标题识别
+ */
+function codeBlockLines(lines: string[], format: ManuscriptFormat): Set<number> {
+  const inside = new Set<number>();
+  if (format !== 'markdown') return inside;
+
+  let inCodeBlock = false;
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      inside.add(index);
+    } else if (inCodeBlock) {
+      inside.add(index);
+    }
+  });
+  return inside;
+}
+
+/**
+ * 自动选择章节标题级别：出现两次以上的最高级标题；更高级的标题作为分卷
+ */
+function detectHeadingLevel(lines: string[], format: ManuscriptFormat, skipped: Set<number>): number {
+  const counts = new Map<number, number>();
+  lines.forEach((line, index) => {
+    const level = skipped.has(index) ? 0 : headingLevelOf(line, format);
+    if (level > 0) counts.set(level, (counts.get(level) || 0) + 1);
+  });
+
+  const levels = Array.from(counts.keys()).sort((a, b) => a - b);
+  return levels.find(level => (counts.get(level) || 0) >= 2) ?? levels[0] ?? 1;
+}
+
+/**
+ * 构建自定义标题正则，无效或可能导致回溯失控时抛出错误（与查找替换使用同样的限制，正则会在服务端逐行执行）
+ */
+export function buildCustomHeadingPattern(source: string): RegExp {
+  assertSafeRegex(source);
+
+  try {
+    return new RegExp(source, 'u');
+  } catch (error) {
+    throw new Error(`标题正则无效：${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * 识别书稿中的章节和分卷标题
+ */
+export function detectHeadings(lines: string[], format: ManuscriptFormat, options: HeadingPatternOptions): HeadingBoundary[] {
+  const patterns = new Set(options.patterns);
+  const custom = options.customPattern ? buildCustomHeadingPattern(options.customPattern) : null;
+  const skipped = codeBlockLines(lines, format);
+  const chapterLevel = format !== 'text' && patterns.has('heading')
+    ? options.headingLevel || detectHeadingLevel(lines, format, skipped)
+    : 0;
+  const boundaries: HeadingBoundary[] = [];
+
+  lines.forEach((line, index) => {
+    if (skipped.has(index)) return;
+
+    const text = lineText(line, format);
+    if (!text) return;
+
+    const level = chapterLevel > 0 ? headingLevelOf(line, format) : 0;
+    if (level > 0 && level <= chapterLevel) {
+      boundaries.push({ line: index, title: text, kind: level === chapterLevel ? 'chapter' : 'volume' });
+      return;
+    }
+
+    // 标题样式之外的行按纯文本规则识别
+    if (text.length > MAX_HEADING_LENGTH) return;
+
+    if (custom && custom.test(text)) {
+      boundaries.push({ line: index, title: text, kind: 'chapter' });
+    } else if (patterns.has('chinese') && CHINESE_VOLUME.test(text)) {
+      boundaries.push({ line: index, title: text, kind: 'volume' });
+    } else if (patterns.has('chinese') && (CHINESE_CHAPTER.test(text) || CHINESE_SPECIAL.test(text))) {
+      boundaries.push({ line: index, title: text, kind: 'chapter' });
+    } else if (patterns.has('english') && ENGLISH_VOLUME.test(text)) {
+      boundaries.push({ line: index, title: text, kind: 'volume' });
+    } else if (patterns.has('english') && (ENGLISH_CHAPTER.test(text) || ENGLISH_SPECIAL.test(text))) {
+      boundaries.push({ line: index, title: text, kind: 'chapter' });
+    }
+  });
+
+  return boundaries;
+}
+
+/**
+ * 行是否独立成段：纯文本和 Markdown 要求前一行为空，HTML 要求是标题或整段加粗的段落
+ */
+function isStandaloneLine(lines: string[], index: number, format: ManuscriptFormat): boolean {
+  if (format === 'html') return HTML_HEADING.test(lines[index]) || HTML_BOLD_PARAGRAPH.test(lines[index]);
+  return index === 0 || !trimLine(lines[index - 1]);
+}
+
+/**
+ * 列出可能是标题但未被识别的短行，供预览时手动设为章节
+ * 候选行需独立成段且不以句末标点结尾
+ */
+export function findHeadingCandidates(lines: string[], boundaries: HeadingBoundary[], format: ManuscriptFormat = 'text'): Array<{ line: number; text: string }> {
+  const detected = new Set(boundaries.map(boundary => boundary.line));
+  const skipped = codeBlockLines(lines, format);
+  const candidates: Array<{ line: number; text: string }> = [];
+
+  for (let index = 0; index < lines.length && candidates.length < MAX_CANDIDATES; index++) {
+    if (detected.has(index) || skipped.has(index)) continue;
+    const text = lineText(lines[index], format);
+    if (!text || text.length > MAX_CANDIDATE_LENGTH || SENTENCE_END.test(text)) continue;
+    if (!isStandaloneLine(lines, index, format)) continue;
+    candidates.push({ line: index, text });
+  }
+
+  return candidates;
+}
+
+/**
+ * 转义 HTML 特殊字符
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * 转换 Markdown 行内格式：粗体、斜体、删除线和行内代码
+ */
+function markdownInlineToHtml(text: string): string {
+  return escapeHtml(text)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '<strong>$2</strong>')
+    .replace(/(\*|_)(?=\S)(.+?)(?<=\S)\1/g, '<em>$2</em>')
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, '<s>$1</s>');
+}
+
+/**
+ * 纯文本书稿转换为 HTML：每个非空行为一个段落
+ */
+function textToHtml(lines: string[]): string {
+  return lines
+    .map(trimLine)
+    .filter(line => line)
+    .map(line => `<p>${escapeHtml(line)}</p>`)
+    .join('');
+}
+
+/**
+ * 拼接同一段落中的多行：中日韩文字之间不加空格
+ */
+function joinParagraphLines(lines: string[]): string {
+  return lines.reduce((result, line) => {
+    if (!result) return line;
+    return CJK_CHAR.test(result[result.length - 1]) && CJK_CHAR.test(line[0]) ? result + line : `${result} ${line}`;
+  }, '');
+}
+
+/**
+ * Markdown 书稿转换为 HTML：支持段落、标题、列表、引用、分隔线和代码块
+ */
+function markdownToHtml(lines: string[]): string {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+  let quote: string[] = [];
+  let code: string[] | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${markdownInlineToHtml(joinParagraphLines(paragraph))}</p>`);
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push(`<${list.tag}>${list.items.map(item => `<li><p>${markdownInlineToHtml(item)}</p></li>`).join('')}</${list.tag}>`);
+      list = null;
+    }
+    if (quote.length > 0) {
+      blocks.push(`<blockquote><p>${markdownInlineToHtml(joinParagraphLines(quote))}</p></blockquote>`);
+      quote = [];
+    }
+  };
+
+  for (const rawLine of lines) {
+    if (code) {
+      if (/^\s*(```|~~~)/.test(rawLine)) {
+        blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+        code = null;
+      } else {
+        code.push(rawLine);
+      }
+      continue;
+    }
+
+    const line = trimLine(rawLine);
+    let match: RegExpMatchArray | null;
+
+    if (!line) {
+      flush();
+    } else if (/^(```|~~~)/.test(line)) {
+      flush();
+      code = [];
+    } else if ((match = line.match(MARKDOWN_HEADING))) {
+      flush();
+      // 章节内的小标题降为三级以下，章节标题由章节本身表示
+      const level = Math.min(6, Math.max(3, match[1].length));
+      blocks.push(`<h${level}>${markdownInlineToHtml(match[2])}</h${level}>`);
+    } else if (/^([-*_])(\s*\1){2,}$/.test(line)) {
+      flush();
+      blocks.push('<hr>');
+    } else if ((match = line.match(/^([-*+]|\d+[.)])\s+(.+)$/))) {
+      const tag = /^\d/.test(match[1]) ? 'ol' : 'ul';
+      if (paragraph.length > 0 || quote.length > 0 || (list && list.tag !== tag)) flush();
+      list = list || { tag, items: [] };
+      list.items.push(match[2]);
+    } else if ((match = line.match(/^>\s?(.*)$/))) {
+      if (paragraph.length > 0 || list) flush();
+      if (match[1]) quote.push(match[1]);
+    } else {
+      if (list || quote.length > 0) flush();
+      paragraph.push(line);
+    }
+  }
+
+  if (code) blocks.push(`<pre><code>${escapeHtml((code as string[]).join('\n'))}</code></pre>`);
+  flush();
+
+  return blocks.join('');
+}
+
+/**
+ * HTML 书稿片段：去除空段落，章节内的一二级标题降为三级
+ */
+function htmlToEditorHtml(lines: string[]): string {
+  return lines
+    .filter(line => toPlainText(line) || /<(img|hr|table)[\s>]/i.test(line))
+    .join('')
+    .replace(/<(\/?)h[12](?=[\s>])/gi, '<$1h3')
+    .trim();
+}
+
+/**
+ * 将书稿片段转换为编辑器使用的 HTML
+ */
+export function manuscriptToHtml(lines: string[], format: ManuscriptFormat): string {
+  if (format === 'html') return htmlToEditorHtml(lines);
+  return format === 'markdown' ? markdownToHtml(lines) : textToHtml(lines);
+}
+
+/**
+ * 统计字数：不计空白的字符数，与章节统计一致
+ */
+function countWords(lines: string[], format: ManuscriptFormat): number {
+  return lines.reduce((sum, line) => sum + lineText(line, format).replace(/[\s　]/g, '').length, 0);
+}
+
+/**
+ * 按分界拆分书稿；分卷标题之后的章节归入该卷，第一个标题之前的内容作为前言返回
+ */
+export function splitManuscript(lines: string[], boundaries: HeadingBoundary[], format: ManuscriptFormat): ParsedManuscript {
+  const sorted = boundaries
+    .filter(boundary => boundary.line >= 0 && boundary.line < lines.length)
+    .sort((a, b) => a.line - b.line)
+    .filter((boundary, index, all) => index === 0 || boundary.line !== all[index - 1].line);
+
+  const prefaceLines = lines.slice(0, sorted.length > 0 ? sorted[0].line : lines.length);
+  const chapters: ImportedChapter[] = [];
+  const volumes: string[] = [];
+  let volumeTitle: string | null = null;
+
+  sorted.forEach((boundary, index) => {
+    const end = index + 1 < sorted.length ? sorted[index + 1].line : lines.length;
+    const body = lines.slice(boundary.line + 1, end);
+
+    if (boundary.kind === 'volume') {
+      volumeTitle = boundary.title.trim() || `第${volumes.length + 1}卷`;
+      volumes.push(volumeTitle);
+      // 卷首到第一章之间的文字作为卷首语保留为单独章节
+      if (countWords(body, format) === 0) return;
+    }
+
+    chapters.push({
+      title: boundary.kind === 'volume' ? `${volumeTitle}·卷首` : boundary.title.trim() || `第${chapters.length + 1}章`,
+      content: manuscriptToHtml(body, format),
+      wordCount: countWords(body, format),
+      volumeTitle,
+      startLine: boundary.line
+    });
+  });
+
+  return {
+    preface: prefaceLines
+      .map(line => lineText(line, format))
+      .filter(line => line)
+      .join('\n\n'),
+    prefaceHtml: manuscriptToHtml(prefaceLines, format),
+    chapters,
+    volumes
+  };
+}
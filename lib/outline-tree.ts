@@ -0,0 +1,162 @@
+/**
+ * 结构化大纲树工具函数
+ * 大纲以 幕 → 章 → 节拍 三层树形结构持久化，每个节点有稳定ID、顺序、状态、目标字数和关联章节
+ */
+
+export type OutlineNodeType = 'act' | 'chapter' | 'beat';
+export type OutlineNodeStatus = 'planned' | 'drafting' | 'done';
+
+// 各层级对应的节点类型
+export const OUTLINE_NODE_TYPES: OutlineNodeType[] = ['act', 'chapter', 'beat'];
+
+export const OUTLINE_NODE_TYPE_LABELS: Record<OutlineNodeType, string> = {
+  act: '幕',
+  chapter: '章',
+  beat: '节拍',
+};
+
+export const OUTLINE_NODE_STATUSES: { value: OutlineNodeStatus; label: string }[] = [
+  { value: 'planned', label: '计划中' },
+  { value: 'drafting', label: '写作中' },
+  { value: 'done', label: '已完成' },
+];
+
+// 数据库中的扁平大纲节点
+export interface OutlineNodeRecord {
+  id: string;
+  parentId: string | null;
+  type: string;
+  title: string;
+  description?: string | null;
+  order: number;
+  status: string;
+  targetWordCount?: number | null;
+  chapterId?: string | null;
+}
+
+// 嵌套的大纲树节点
+export interface OutlineTreeNode {
+  id: string;
+  type: OutlineNodeType;
+  title: string;
+  description: string;
+  order: number;
+  status: OutlineNodeStatus;
+  targetWordCount: number | null;
+  chapterId: string | null;
+  children: OutlineTreeNode[];
+}
+
+/**
+ * 判断是否为受支持的节点状态
+ */
+export function isOutlineNodeStatus(status: unknown): status is OutlineNodeStatus {
+  return OUTLINE_NODE_STATUSES.some(item => item.value === status);
+}
+
+/**
+ * 将扁平节点组装为按顺序排列的树
+ */
+export function buildOutlineTree(nodes: OutlineNodeRecord[]): OutlineTreeNode[] {
+  const toTreeNode = (node: OutlineNodeRecord): OutlineTreeNode => ({
+    id: node.id,
+    type: OUTLINE_NODE_TYPES.includes(node.type as OutlineNodeType) ? node.type as OutlineNodeType : 'beat',
+    title: node.title,
+    description: node.description || '',
+    order: node.order,
+    status: isOutlineNodeStatus(node.status) ? node.status : 'planned',
+    targetWordCount: node.targetWordCount ?? null,
+    chapterId: node.chapterId || null,
+    children: [],
+  });
+
+  const byId = new Map(nodes.map(node => [node.id, toTreeNode(node)]));
+  const roots: OutlineTreeNode[] = [];
+
+  nodes.forEach(node => {
+    const treeNode = byId.get(node.id)!;
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(treeNode);
+    } else {
+      roots.push(treeNode);
+    }
+  });
+
+  const sortTree = (items: OutlineTreeNode[]): OutlineTreeNode[] => {
+    items.sort((a, b) => a.order - b.order);
+    items.forEach(item => sortTree(item.children));
+    return items;
+  };
+
+  return sortTree(roots);
+}
+
+/**
+ * 深度优先遍历大纲树
+ */
+export function flattenOutlineTree(tree: OutlineTreeNode[]): OutlineTreeNode[] {
+  return tree.flatMap(node => [node, ...flattenOutlineTree(node.children)]);
+}
+
+/**
+ * 将大纲树中的章节节点转换为 { title, content } 列表，兼容原有的大纲章节展示和AI提示
+ */
+export function outlineTreeToSections(tree: OutlineTreeNode[]): { title: string; content: string }[] {
+  return flattenOutlineTree(tree)
+    .filter(node => node.type === 'chapter')
+    .map(node => ({
+      title: node.title,
+      content: [node.description, ...node.children.map(beat => `- ${beat.title}${beat.description ? `：${beat.description}` : ''}`)]
+        .filter(Boolean)
+        .join('\n'),
+    }));
+}
+
+/**
+ * 将大纲树转换为 Markdown 文本
+ */
+export function outlineTreeToText(tree: OutlineTreeNode[]): string {
+  const lines: string[] = [];
+
+  const walk = (nodes: OutlineTreeNode[], depth: number) => {
+    nodes.forEach(node => {
+      if (node.type === 'beat') {
+        lines.push(`${'  '.repeat(Math.max(0, depth - 2))}- ${node.title}${node.description ? `：${node.description}` : ''}`);
+      } else {
+        lines.push(`${'#'.repeat(depth + 1)} ${node.title}`);
+        if (node.description) lines.push(node.description);
+      }
+      walk(node.children, depth + 1);
+    });
+  };
+
+  walk(tree, 0);
+  return lines.join('\n');
+}
+
+/**
+ * 根据实际数据判断故事的创作阶段
+ * 存在结构化大纲时，以章节节点与章节的关联为准：有章节节点尚未关联到有内容的章节，则仍处于写作阶段
+ */
+export function detectStoryStage(data: {
+  characterCount: number;
+  hasOutline: boolean;
+  chapters: Array<{ id: string; content?: string | null }>;
+  outlineNodes: Array<{ type: string; chapterId?: string | null }>;
+}): 'planning' | 'characters' | 'outline' | 'writing' | 'editing' {
+  if (data.characterCount === 0) return 'planning';
+  if (!data.hasOutline && data.outlineNodes.length === 0) return 'characters';
+  if (data.chapters.length === 0) return 'outline';
+
+  const chapterNodes = data.outlineNodes.filter(node => node.type === 'chapter');
+  if (chapterNodes.length > 0) {
+    const writtenChapterIds = new Set(
+      data.chapters.filter(chapter => chapter.content && chapter.content.length > 0).map(chapter => chapter.id)
+    );
+    const unfulfilled = chapterNodes.some(node => !node.chapterId || !writtenChapterIds.has(node.chapterId));
+    return unfulfilled ? 'writing' : 'editing';
+  }
+
+  return data.chapters.some(chapter => !chapter.content) ? 'writing' : 'editing';
+}
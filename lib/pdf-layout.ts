@@ -0,0 +1,141 @@
+/**
+ * PDF 版式预设
+ * 预设包含开本、排版方向、页边距和装订线，以及是否左右页镜像、章节是否从奇数页（正面）开始；
+ * 导出时可在预设基础上覆盖页边距等设置。尺寸均以毫米表示，生成 PDF 时换算为点
+ */
+
+export type PdfLayoutPresetId = 'standard' | 'book-32k' | 'book-16k' | 'vertical-32k';
+
+export type PdfTextDirection = 'horizontal' | 'vertical';
+
+export interface PdfMargins {
+  top: number;
+  bottom: number;
+  inner: number; // 订口一侧（装订侧）
+  outer: number; // 翻口一侧
+}
+
+export interface PdfLayout {
+  preset: PdfLayoutPresetId;
+  pageSize: string | [number, number]; // pdfkit 的纸张名称，或以毫米表示的宽高
+  direction: PdfTextDirection; // 竖排时从右向左排列，右侧装订
+  margins: PdfMargins;
+  gutter: number; // 装订线，加在订口一侧
+  mirrorMargins: boolean; // 左右页镜像，订口交替位于左右两侧
+  chapterStartsOnRecto: boolean; // 章节从奇数页（正面）开始，必要时插入空白页
+}
+
+// 导出请求中的版式设置：选择预设，并可覆盖其中的各项
+export interface PdfLayoutOptions {
+  preset?: PdfLayoutPresetId;
+  margins?: Partial<PdfMargins>;
+  gutter?: number;
+  mirrorMargins?: boolean;
+  chapterStartsOnRecto?: boolean;
+}
+
+export interface PdfLayoutPreset extends Omit<PdfLayout, 'preset'> {
+  id: PdfLayoutPresetId;
+  label: string;
+  description: string;
+}
+
+export const PDF_LAYOUT_PRESETS: PdfLayoutPreset[] = [
+  {
+    id: 'standard',
+    label: '标准横排',
+    description: '按所选页面大小横排，单面打印或屏幕阅读',
+    pageSize: 'A4',
+    direction: 'horizontal',
+    margins: { top: 25, bottom: 25, inner: 22, outer: 22 },
+    gutter: 0,
+    mirrorMargins: false,
+    chapterStartsOnRecto: false
+  },
+  {
+    id: 'book-32k',
+    label: '32开横排',
+    description: '130×184mm，双面印刷左右页镜像，章节从奇数页开始',
+    pageSize: [130, 184],
+    direction: 'horizontal',
+    margins: { top: 18, bottom: 20, inner: 16, outer: 14 },
+    gutter: 4,
+    mirrorMargins: true,
+    chapterStartsOnRecto: true
+  },
+  {
+    id: 'book-16k',
+    label: '16开横排',
+    description: '185×260mm，双面印刷左右页镜像，章节从奇数页开始',
+    pageSize: [185, 260],
+    direction: 'horizontal',
+    margins: { top: 22, bottom: 24, inner: 20, outer: 18 },
+    gutter: 5,
+    mirrorMargins: true,
+    chapterStartsOnRecto: true
+  },
+  {
+    id: 'vertical-32k',
+    label: '32开竖排',
+    description: '130×184mm，文字自上而下、从右向左排列，右侧装订',
+    pageSize: [130, 184],
+    direction: 'vertical',
+    margins: { top: 20, bottom: 20, inner: 16, outer: 14 },
+    gutter: 4,
+    mirrorMargins: true,
+    chapterStartsOnRecto: true
+  }
+];
+
+const MM_TO_PT = 72 / 25.4;
+
+/**
+ * 毫米换算为点
+ */
+export function mmToPt(value: number): number {
+  return value * MM_TO_PT;
+}
+
+/**
+ * 合并预设和覆盖项；标准预设使用导出选项中的页面大小
+ */
+export function resolvePdfLayout(options: PdfLayoutOptions = {}, pageSize?: string): PdfLayout {
+  const preset = PDF_LAYOUT_PRESETS.find(item => item.id === options.preset) || PDF_LAYOUT_PRESETS[0];
+  const valid = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+  const margins = { ...preset.margins };
+  (Object.keys(margins) as Array<keyof PdfMargins>).forEach(side => {
+    const value = options.margins?.[side];
+    if (valid(value)) margins[side] = value;
+  });
+
+  return {
+    preset: preset.id,
+    pageSize: preset.id === 'standard' && pageSize ? pageSize : preset.pageSize,
+    direction: preset.direction,
+    margins,
+    gutter: valid(options.gutter) ? options.gutter : preset.gutter,
+    mirrorMargins: typeof options.mirrorMargins === 'boolean' ? options.mirrorMargins : preset.mirrorMargins,
+    chapterStartsOnRecto: typeof options.chapterStartsOnRecto === 'boolean' ? options.chapterStartsOnRecto : preset.chapterStartsOnRecto
+  };
+}
+
+/**
+ * 第 pageIndex 页（从 0 开始，第 1 页为奇数页）的订口是否在左侧
+ * 横排在左侧装订，竖排在右侧装订；不镜像时订口固定在装订侧
+ */
+export function isInnerOnLeft(layout: PdfLayout, pageIndex: number): boolean {
+  const bindLeft = layout.direction === 'horizontal';
+  const isRecto = pageIndex % 2 === 0;
+  return layout.mirrorMargins && !isRecto ? !bindLeft : bindLeft;
+}
+
+/**
+ * 第 pageIndex 页左右两侧的页边距（毫米），装订线计入订口一侧
+ */
+export function pageSideMargins(layout: PdfLayout, pageIndex: number): { left: number; right: number } {
+  const inner = layout.margins.inner + layout.gutter;
+  const outer = layout.margins.outer;
+
+  return isInnerOnLeft(layout, pageIndex) ? { left: inner, right: outer } : { left: outer, right: inner };
+}
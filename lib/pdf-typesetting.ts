@@ -0,0 +1,233 @@
+/**
+ * PDF 中文排版
+ * 查找可嵌入的中文字体（Noto / 思源），并按中文排版规则断行：汉字之间可断行，西文单词不拆开，
+ * 句末标点不出现在行首、开括号不出现在行尾（禁则），两端对齐时把剩余宽度平均分配到字符间距
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type PdfFontStyle = 'serif' | 'sans';
+
+export interface PdfFontFile {
+  path: string;
+  family?: string; // 字体集（.ttc）中的 PostScript 名称
+}
+
+export interface PdfFonts {
+  regular: PdfFontFile;
+  bold: PdfFontFile | null;
+}
+
+export interface TypesetLine {
+  text: string;
+  width: number;
+  last: boolean; // 段落最后一行，两端对齐时不拉伸
+}
+
+// 项目内的字体目录，可放入 Noto Serif SC / Noto Sans SC 或思源宋体 / 思源黑体的 OTF 文件
+const FONT_DIR = path.join(process.cwd(), 'fonts');
+
+// 随依赖安装的 Noto Serif SC / Noto Sans SC（@expo-google-fonts 的完整 TTF 文件）
+const BUNDLED_FONT_DIR = path.join(process.cwd(), 'node_modules', '@expo-google-fonts');
+
+// 按顺序查找的字体文件：项目字体目录、随依赖安装的 Noto 字体、Linux 的 Noto CJK 字体包、macOS 和 Windows 的系统字体
+const FONT_CANDIDATES: Record<PdfFontStyle, PdfFonts[]> = {
+  serif: [
+    { regular: { path: path.join(FONT_DIR, 'NotoSerifSC-Regular.otf') }, bold: { path: path.join(FONT_DIR, 'NotoSerifSC-Bold.otf') } },
+    { regular: { path: path.join(FONT_DIR, 'SourceHanSerifSC-Regular.otf') }, bold: { path: path.join(FONT_DIR, 'SourceHanSerifSC-Bold.otf') } },
+    {
+      regular: { path: path.join(BUNDLED_FONT_DIR, 'noto-serif-sc', '400Regular', 'NotoSerifSC_400Regular.ttf') },
+      bold: { path: path.join(BUNDLED_FONT_DIR, 'noto-serif-sc', '700Bold', 'NotoSerifSC_700Bold.ttf') }
+    },
+    {
+      regular: { path: '/usr/share/fonts/opentype/noto/NotoSerifCJK-Regular.ttc', family: 'NotoSerifCJKsc-Regular' },
+      bold: { path: '/usr/share/fonts/opentype/noto/NotoSerifCJK-Bold.ttc', family: 'NotoSerifCJKsc-Bold' }
+    },
+    {
+      regular: { path: '/usr/share/fonts/noto-cjk/NotoSerifCJK-Regular.ttc', family: 'NotoSerifCJKsc-Regular' },
+      bold: { path: '/usr/share/fonts/noto-cjk/NotoSerifCJK-Bold.ttc', family: 'NotoSerifCJKsc-Bold' }
+    },
+    {
+      regular: { path: '/System/Library/Fonts/Supplemental/Songti.ttc', family: 'STSongti-SC-Regular' },
+      bold: { path: '/System/Library/Fonts/Supplemental/Songti.ttc', family: 'STSongti-SC-Bold' }
+    },
+    { regular: { path: 'C:\\Windows\\Fonts\\simsun.ttc', family: 'SimSun' }, bold: null }
+  ],
+  sans: [
+    { regular: { path: path.join(FONT_DIR, 'NotoSansSC-Regular.otf') }, bold: { path: path.join(FONT_DIR, 'NotoSansSC-Bold.otf') } },
+    { regular: { path: path.join(FONT_DIR, 'SourceHanSansSC-Regular.otf') }, bold: { path: path.join(FONT_DIR, 'SourceHanSansSC-Bold.otf') } },
+    {
+      regular: { path: path.join(BUNDLED_FONT_DIR, 'noto-sans-sc', '400Regular', 'NotoSansSC_400Regular.ttf') },
+      bold: { path: path.join(BUNDLED_FONT_DIR, 'noto-sans-sc', '700Bold', 'NotoSansSC_700Bold.ttf') }
+    },
+    {
+      regular: { path: '/usr/share/fonts/opentype/noto/NotoSansCJK-Regular.ttc', family: 'NotoSansCJKsc-Regular' },
+      bold: { path: '/usr/share/fonts/opentype/noto/NotoSansCJK-Bold.ttc', family: 'NotoSansCJKsc-Bold' }
+    },
+    {
+      regular: { path: '/usr/share/fonts/noto-cjk/NotoSansCJK-Regular.ttc', family: 'NotoSansCJKsc-Regular' },
+      bold: { path: '/usr/share/fonts/noto-cjk/NotoSansCJK-Bold.ttc', family: 'NotoSansCJKsc-Bold' }
+    },
+    {
+      regular: { path: '/System/Library/Fonts/STHeiti Light.ttc', family: 'STHeitiSC-Light' },
+      bold: { path: '/System/Library/Fonts/STHeiti Medium.ttc', family: 'STHeitiSC-Medium' }
+    },
+    {
+      regular: { path: 'C:\\Windows\\Fonts\\msyh.ttc', family: 'MicrosoftYaHei' },
+      bold: { path: 'C:\\Windows\\Fonts\\msyhbd.ttc', family: 'MicrosoftYaHei-Bold' }
+    }
+  ]
+};
+
+// 不能出现在行首的标点
+const NO_LINE_START = new Set('，。、；：？！）」』】》〉〕”’…—～·%,.;:?!)]}'.split(''));
+// 不能出现在行尾的标点
+const NO_LINE_END = new Set('（「『【《〈〔“‘([{'.split(''));
+
+// 断行单位：连续的西文单词（含其后的空格）、成对使用的破折号和省略号、单个字符
+const BREAK_UNIT = /[A-Za-z0-9\u00C0-\u024F'’\-_.,;:!?%/@#&+]+\s*|——|……|\s+|[\s\S]/g;
+
+const CJK_CHAR = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/;
+
+const fontCache = new Map<PdfFontStyle, PdfFonts | null>();
+
+/**
+ * 解析环境变量中的字体路径，格式为“文件路径”或“文件路径#PostScript名称”（用于 .ttc 字体集）
+ */
+function parseFontSetting(value: string | undefined): PdfFontFile | null {
+  if (!value) return null;
+  const [filePath, family] = value.split('#');
+  return { path: filePath, family: family || undefined };
+}
+
+/**
+ * 查找可用的中文字体；环境变量 PDF_CJK_FONT / PDF_CJK_BOLD_FONT 优先，未找到时返回 null
+ */
+export function resolveCjkFonts(style: PdfFontStyle): PdfFonts | null {
+  if (fontCache.has(style)) return fontCache.get(style)!;
+
+  const configured = parseFontSetting(process.env.PDF_CJK_FONT);
+  const candidates: PdfFonts[] = configured
+    ? [{ regular: configured, bold: parseFontSetting(process.env.PDF_CJK_BOLD_FONT) }, ...FONT_CANDIDATES[style]]
+    : FONT_CANDIDATES[style];
+
+  const fonts = candidates.find(candidate => fs.existsSync(candidate.regular.path)) || null;
+  const resolved = fonts && {
+    regular: fonts.regular,
+    bold: fonts.bold && fs.existsSync(fonts.bold.path) ? fonts.bold : null
+  };
+
+  fontCache.set(style, resolved);
+  return resolved;
+}
+
+/**
+ * 文本是否包含中日韩字符
+ */
+export function containsCjk(text: string): boolean {
+  return CJK_CHAR.test(text);
+}
+
+/**
+ * 按宽度断行
+ * @param measure 计算字符串宽度，按当前字体和字号
+ * @param firstLineIndent 首行缩进宽度
+ */
+export function breakLines(text: string, maxWidth: number, measure: (text: string) => number, firstLineIndent = 0): TypesetLine[] {
+  const lines: TypesetLine[] = [];
+  const widths = new Map<string, number>();
+  const widthOf = (unit: string) => {
+    let width = widths.get(unit);
+    if (width === undefined) {
+      width = measure(unit);
+      widths.set(unit, width);
+    }
+    return width;
+  };
+
+  for (const rawLine of text.split('\n')) {
+    let units: string[] = [];
+    let width = 0;
+    const available = () => maxWidth - (lines.length === 0 ? firstLineIndent : 0);
+
+    const flush = (last: boolean) => {
+      const lineText = units.join('').replace(/\s+$/, '');
+      lines.push({ text: lineText, width: measure(lineText), last });
+      units = [];
+      width = 0;
+    };
+
+    for (const unit of rawLine.match(BREAK_UNIT) || []) {
+      // 行首的空白直接丢弃
+      if (units.length === 0 && /^\s+$/.test(unit)) continue;
+
+      const unitWidth = widthOf(unit);
+      if (units.length === 0 || width + widthOf(unit.replace(/\s+$/, '')) <= available()) {
+        units.push(unit);
+        width += unitWidth;
+        continue;
+      }
+
+      // 放不下时换行：行首禁则标点连同上一个字符一起移到下一行，行尾的开括号也移到下一行
+      const carried: string[] = [];
+      if (NO_LINE_START.has(unit[0]) && units.length > 1) {
+        carried.unshift(units.pop()!);
+      }
+      while (units.length > 1 && NO_LINE_END.has(units[units.length - 1])) {
+        carried.unshift(units.pop()!);
+      }
+      flush(false);
+      units = [...carried, unit];
+      width = units.reduce((sum, item) => sum + widthOf(item), 0);
+    }
+
+    flush(true);
+  }
+
+  return lines;
+}
+
+/**
+ * 两端对齐时每个字符间增加的间距；间距过大（如行内只有一个长单词）时不拉伸
+ */
+export function justifySpacing(line: TypesetLine, maxWidth: number, fontSize: number): number {
+  const gaps = Array.from(line.text).length - 1;
+  if (line.last || gaps <= 0) return 0;
+
+  const spacing = (maxWidth - line.width) / gaps;
+  return spacing > 0 && spacing < fontSize * 0.5 ? spacing : 0;
+}
+
+// 竖排时改用竖排字形的标点（Unicode 竖排标点）
+const VERTICAL_FORMS: Record<string, string> = {
+  '，': '︐', '、': '︑', '。': '︒', '：': '︓', '；': '︔', '！': '︕', '？': '︖',
+  '「': '﹁', '」': '﹂', '『': '﹃', '』': '﹄', '“': '﹁', '”': '﹂', '‘': '﹃', '’': '﹄',
+  '（': '︵', '）': '︶', '《': '︽', '》': '︾', '〈': '︿', '〉': '﹀',
+  '【': '︻', '】': '︼', '〔': '︹', '〕': '︺', '…': '︙', '—': '︱', '～': '≀'
+};
+
+// 竖排时整体旋转 90 度排列的西文和数字
+const ROTATED_RUN = /^[A-Za-z0-9À-ɏ'\-_.,;:!?%/@#&+ ]+$/;
+
+/**
+ * 将一行文字拆分为竖排绘制单位：连续的西文和数字作为一个旋转单位，其余每个字符单独直排
+ */
+export function splitVerticalUnits(text: string): Array<{ text: string; rotated: boolean }> {
+  const units: Array<{ text: string; rotated: boolean }> = [];
+  for (const unit of text.match(/[A-Za-z0-9À-ɏ'\-_.,;:!?%/@#&+ ]+|[\s\S]/g) || []) {
+    if (ROTATED_RUN.test(unit) && !/^ +$/.test(unit)) {
+      units.push({ text: unit, rotated: true });
+    } else {
+      units.push({ text: VERTICAL_FORMS[unit] || unit, rotated: false });
+    }
+  }
+  return units;
+}
+
+/**
+ * 竖排时文字占用的高度：直排字符每字占一个字高，旋转的西文按其宽度计算
+ */
+export function measureVertical(text: string, fontSize: number, measure: (text: string) => number): number {
+  return splitVerticalUnits(text).reduce((sum, unit) => sum + (unit.rotated ? measure(unit.text) : fontSize), 0);
+}
@@ -0,0 +1,920 @@
+/**
+ * 项目存档
+ * 将故事完整导出为 ZIP：manifest.json 描述存档结构，故事正文和每个章节、场景、草稿各为一个带前置元数据（front matter）的 Markdown 文件，
+ * 角色、大纲、世界设定、时间线和版本历史保存为 JSON。导入时读取存档还原为故事快照，按快照重建与原故事相同的新故事
+ * 正文能无损转换为 Markdown 时保存为 Markdown，否则保存原始 HTML，前置元数据的 format 记录保存方式
+ */
+
+import JSZip from 'jszip';
+import { manuscriptToHtml, splitManuscriptLines } from '@/lib/manuscript-import';
+import { StorySnapshot } from '@/lib/story-fork';
+import { createZipReader } from '@/lib/zip-limits';
+
+export const PROJECT_ARCHIVE_FORMAT = 'novel-app-project';
+export const PROJECT_ARCHIVE_VERSION = 1;
+
+// 导入时单个文件和整个存档解压后的上限，防止解压炸弹占满内存
+const MAX_ENTRY_UNPACKED_SIZE = 256 * 1024 * 1024;
+const MAX_ARCHIVE_UNPACKED_SIZE = 512 * 1024 * 1024;
+
+// 正文保存方式：Markdown、原始 HTML、纯文本；null 表示正文为空值
+type BodyFormat = 'markdown' | 'html' | 'text';
+
+interface ArchivedDocument {
+  meta: Record<string, unknown>;
+  body: string | null;
+}
+
+export interface ProjectArchiveManifest {
+  format: typeof PROJECT_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  title: string;
+  story: string; // 故事正文文件
+  cover: { file: string; mediaType: string } | null;
+  volumes: StorySnapshot['volumes'];
+  chapters: Array<{ id: string; file: string; scenes: string[]; drafts: string[] }>;
+  characters: string;
+  outline: string;
+  codex: string;
+  timeline: string;
+  versions: { story: string; chapters: string } | null;
+  stats: {
+    chapters: number;
+    scenes: number;
+    characters: number;
+    outlineNodes: number;
+    codexEntries: number;
+    timelineEvents: number;
+    storyVersions: number;
+    chapterVersions: number;
+  };
+}
+
+// 存档中各 JSON 文件的结构，记录之间通过原ID相互引用；以 JSON 字符串保存的字段（别名、属性等）原样写入
+interface ArchivedCharacters {
+  characters: Array<{ id: string; name: string; aliases: string | null; description: string | null; attributes: string | null }>;
+  relationships: Array<{
+    type: string;
+    direction: string;
+    description: string | null;
+    source: string;
+    target: string;
+    chapter: string | null;
+  }>;
+}
+
+interface ArchivedOutline {
+  text: string | null;
+  nodes: Array<{
+    id: string;
+    parent: string | null;
+    type: string;
+    title: string;
+    description: string | null;
+    order: number;
+    status: string;
+    targetWordCount: number | null;
+    chapter: string | null;
+  }>;
+}
+
+interface ArchivedCodexEntry {
+  id: string;
+  type: string;
+  name: string;
+  description: string | null;
+  fields: string | null;
+  aliases: string | null;
+  links: string[];
+}
+
+interface ArchivedTimelineEvent {
+  title: string;
+  description: string | null;
+  type: string;
+  storyDate: string | null;
+  order: number;
+  location: string | null;
+  locationEntry: string | null;
+  characters: string[];
+  chapters: string[];
+  scenes: string[];
+}
+
+interface ArchivedStoryVersion {
+  id: string;
+  versionId: string;
+  content: string | null;
+  delta: string | null;
+  baseVersion: string | null;
+  label: string | null;
+  description: string | null;
+  changeType: string;
+  createdAt: string;
+  createdBy: string;
+  size: number | null;
+  storedSize: number | null;
+  editSnapshot: string | null;
+}
+
+interface ArchivedChapterVersion {
+  chapter: string;
+  versionId: string;
+  title: string;
+  content: string;
+  summary: string | null;
+  notes: string | null;
+  description: string | null;
+  changeType: string;
+  createdAt: string;
+  createdBy: string;
+  size: number | null;
+}
+
+// 封面图片的扩展名
+const COVER_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+/**
+ * 生成前置元数据：每行一个键，值为 JSON（JSON 是 YAML 的子集，Markdown 编辑器可以正常识别）
+ */
+function writeDocument(meta: Record<string, unknown>, body: string): string {
+  const lines = Object.entries(meta).map(([key, value]) => `${key}: ${JSON.stringify(value === undefined ? null : value)}`);
+  return `---\n${lines.join('\n')}\n---\n${body}\n`;
+}
+
+/**
+ * 解析带前置元数据的 Markdown 文件
+ */
+function readDocument(text: string, file: string): ArchivedDocument {
+  const source = text.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  const match = source.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+  if (!match) {
+    throw new Error(`${file} 缺少前置元数据`);
+  }
+
+  const meta: Record<string, unknown> = {};
+  for (const line of match[1].split('\n')) {
+    if (!line.trim()) continue;
+    const field = line.match(/^([A-Za-z][\w-]*):\s*(.*)$/);
+    if (!field) {
+      throw new Error(`${file} 的前置元数据格式不正确：${line}`);
+    }
+    try {
+      meta[field[1]] = JSON.parse(field[2]);
+    } catch {
+      // 手工编辑时未加引号的字符串
+      meta[field[1]] = field[2].trim();
+    }
+  }
+
+  // 去掉写入时在文件末尾添加的换行
+  const body = match[2].endsWith('\n') ? match[2].slice(0, -1) : match[2];
+  const format = meta.format ?? null;
+  if (format !== null && format !== 'markdown' && format !== 'html' && format !== 'text') {
+    throw new Error(`${file} 的正文格式不正确：${String(format)}`);
+  }
+  return { meta, body: decodeBody(format, body) };
+}
+
+/**
+ * 将编辑器 HTML 转换为 Markdown，遇到 Markdown 无法表示的内容（对齐、下划线、换行等）时返回 null
+ */
+function htmlToMarkdown(html: string): string | null {
+  const inline = (fragment: string): string | null => {
+    const converted = fragment
+      .replace(/<\/?strong>/g, '**')
+      .replace(/<\/?em>/g, '*')
+      .replace(/<\/?s>/g, '~~')
+      .replace(/<\/?code>/g, '`');
+    if (/<[^>]*>/.test(converted)) return null;
+    return converted
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&amp;/g, '&');
+  };
+
+  const blocks: string[] = [];
+  const pattern = /<(p|h[3-6])>([\s\S]*?)<\/\1>|<(ul|ol)>((?:<li><p>[\s\S]*?<\/p><\/li>)+)<\/\3>|<blockquote><p>([\s\S]*?)<\/p><\/blockquote>|<hr>|<pre><code>([\s\S]*?)<\/code><\/pre>/g;
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html))) {
+    if (html.slice(position, match.index).trim()) return null;
+    position = pattern.lastIndex;
+
+    const [token, tag, text, listTag, items, quote, code] = match;
+    let block: string | null;
+    if (tag) {
+      const content = inline(text);
+      block = content === null ? null : tag === 'p' ? content : `${'#'.repeat(Number(tag[1]))} ${content}`;
+    } else if (listTag) {
+      const lines = (items.match(/<li><p>[\s\S]*?<\/p><\/li>/g) || []).map((item, index) => {
+        const content = inline(item.replace(/^<li><p>|<\/p><\/li>$/g, ''));
+        return content === null ? null : `${listTag === 'ol' ? `${index + 1}.` : '-'} ${content}`;
+      });
+      block = lines.includes(null) ? null : lines.join('\n');
+    } else if (quote !== undefined) {
+      const content = inline(quote);
+      block = content === null ? null : `> ${content}`;
+    } else if (code !== undefined) {
+      const content = inline(code);
+      block = content === null ? null : `\`\`\`\n${content}\n\`\`\``;
+    } else {
+      block = token === '<hr>' ? '---' : null;
+    }
+
+    if (block === null) return null;
+    blocks.push(block);
+  }
+
+  if (html.slice(position).trim()) return null;
+  return blocks.join('\n\n');
+}
+
+/**
+ * 选择正文的保存方式：纯文本原样保存；HTML 转换为 Markdown 后能还原为相同的 HTML 时保存 Markdown，否则保存原始 HTML
+ */
+function encodeBody(content: string | null): { format: BodyFormat | null; body: string } {
+  if (content === null) return { format: null, body: '' };
+  if (!/<\/?[a-z][\s\S]*>/i.test(content)) return { format: 'text', body: content };
+
+  const markdown = htmlToMarkdown(content);
+  if (markdown !== null && manuscriptToHtml(splitManuscriptLines(markdown, 'markdown'), 'markdown') === content) {
+    return { format: 'markdown', body: markdown };
+  }
+  return { format: 'html', body: content };
+}
+
+/**
+ * 按保存方式还原正文
+ */
+function decodeBody(format: BodyFormat | null, body: string): string | null {
+  if (format === null) return null;
+  return format === 'markdown' ? manuscriptToHtml(splitManuscriptLines(body, 'markdown'), 'markdown') : body;
+}
+
+/**
+ * 文件名中使用的标题：去掉路径和系统保留字符，限制长度
+ */
+function fileSlug(title: string): string {
+  const slug = Array.from(title.replace(/[\\/:*?"<>|#%\x00-\x1f]/g, '').replace(/\s+/g, '-')).slice(0, 30).join('');
+  return slug ? `-${slug}` : '';
+}
+
+/**
+ * 统计快照中各类记录的数量
+ */
+function archiveStats(story: StorySnapshot): ProjectArchiveManifest['stats'] {
+  return {
+    chapters: story.chapters.length,
+    scenes: story.chapters.reduce((sum, chapter) => sum + chapter.scenes.length, 0),
+    characters: story.characters.length,
+    outlineNodes: story.outlineNodes.length,
+    codexEntries: story.codexEntries.length,
+    timelineEvents: story.timelineEvents.length,
+    storyVersions: story.versions ? story.versions.length : 0,
+    chapterVersions: story.chapters.reduce((sum, chapter) => sum + (chapter.versions ? chapter.versions.length : 0), 0)
+  };
+}
+
+/**
+ * 生成项目存档
+ */
+export async function buildProjectArchive(story: StorySnapshot): Promise<Buffer> {
+  const zip = new JSZip();
+  const includeVersions = Boolean(story.versions);
+  const pad = (value: number, length: number) => String(value).padStart(length, '0');
+
+  const storyBody = encodeBody(story.content);
+  zip.file('story.md', writeDocument({
+    title: story.title,
+    author: story.author,
+    summary: story.summary,
+    worldSetting: story.worldSetting,
+    storyStatus: story.storyStatus,
+    aiProvider: story.aiProvider,
+    versionRetention: story.versionRetention,
+    format: storyBody.format
+  }, storyBody.body));
+
+  // 封面保存为图片文件
+  let cover: ProjectArchiveManifest['cover'] = null;
+  const coverMatch = story.coverImage?.match(/^data:(image\/[\w.+-]+);base64,([\s\S]+)$/);
+  if (coverMatch && COVER_EXTENSIONS[coverMatch[1]]) {
+    cover = { file: `cover.${COVER_EXTENSIONS[coverMatch[1]]}`, mediaType: coverMatch[1] };
+    zip.file(cover.file, coverMatch[2], { base64: true });
+  } else if (story.coverImage) {
+    cover = { file: 'cover.txt', mediaType: 'text/plain' };
+    zip.file(cover.file, story.coverImage);
+  }
+
+  const chapters = [...story.chapters].sort((a, b) => a.order - b.order);
+  const manifestChapters = chapters.map((chapter, index) => {
+    const base = `chapters/${pad(index + 1, 4)}${fileSlug(chapter.title)}`;
+    const body = encodeBody(chapter.content);
+    zip.file(`${base}.md`, writeDocument({
+      id: chapter.id,
+      title: chapter.title,
+      order: chapter.order,
+      volume: chapter.volumeId,
+      summary: chapter.summary,
+      notes: chapter.notes,
+      activeDraft: chapter.activeDraftId,
+      format: body.format
+    }, body.body));
+
+    const scenes = [...chapter.scenes].sort((a, b) => a.order - b.order).map((scene, sceneIndex) => {
+      const file = `${base}/scenes/${pad(sceneIndex + 1, 2)}${fileSlug(scene.title || '')}.md`;
+      const sceneBody = encodeBody(scene.content);
+      zip.file(file, writeDocument({
+        id: scene.id,
+        title: scene.title,
+        order: scene.order,
+        summary: scene.summary,
+        location: scene.location,
+        goal: scene.goal,
+        conflict: scene.conflict,
+        outcome: scene.outcome,
+        povCharacter: scene.povCharacterId,
+        format: sceneBody.format
+      }, sceneBody.body));
+      return file;
+    });
+
+    const drafts = chapter.drafts.map((draft, draftIndex) => {
+      const file = `${base}/drafts/${pad(draftIndex + 1, 2)}${fileSlug(draft.name)}.md`;
+      const draftBody = encodeBody(draft.content);
+      zip.file(file, writeDocument({ id: draft.id, name: draft.name, format: draftBody.format }, draftBody.body));
+      return file;
+    });
+
+    return { id: chapter.id, file: `${base}.md`, scenes, drafts };
+  });
+
+  const characters: ArchivedCharacters = {
+    characters: story.characters.map(character => ({
+      id: character.id,
+      name: character.name,
+      aliases: character.aliases,
+      description: character.description,
+      attributes: character.attributes
+    })),
+    relationships: story.characterRelationships.map(relationship => ({
+      type: relationship.type,
+      direction: relationship.direction,
+      description: relationship.description,
+      source: relationship.sourceCharacterId,
+      target: relationship.targetCharacterId,
+      chapter: relationship.chapterId
+    }))
+  };
+  zip.file('characters.json', JSON.stringify(characters, null, 2));
+
+  const outline: ArchivedOutline = {
+    text: story.outline,
+    nodes: story.outlineNodes.map(node => ({
+      id: node.id,
+      parent: node.parentId,
+      type: node.type,
+      title: node.title,
+      description: node.description,
+      order: node.order,
+      status: node.status,
+      targetWordCount: node.targetWordCount,
+      chapter: node.chapterId
+    }))
+  };
+  zip.file('outline.json', JSON.stringify(outline, null, 2));
+
+  const codex: ArchivedCodexEntry[] = story.codexEntries.map(entry => ({
+    id: entry.id,
+    type: entry.type,
+    name: entry.name,
+    description: entry.description,
+    fields: entry.fields,
+    aliases: entry.aliases,
+    links: entry.links.map(link => link.id)
+  }));
+  zip.file('codex.json', JSON.stringify(codex, null, 2));
+
+  const timeline: ArchivedTimelineEvent[] = story.timelineEvents.map(event => ({
+    title: event.title,
+    description: event.description,
+    type: event.type,
+    storyDate: event.storyDate,
+    order: event.order,
+    location: event.location,
+    locationEntry: event.locationEntryId,
+    characters: event.characters.map(item => item.id),
+    chapters: event.chapters.map(item => item.id),
+    scenes: event.scenes.map(item => item.id)
+  }));
+  zip.file('timeline.json', JSON.stringify(timeline, null, 2));
+
+  // 版本历史：故事版本之间通过 baseVersion 引用基准快照
+  const chapterVersions: ArchivedChapterVersion[] = chapters.flatMap(chapter => (chapter.versions || []).map(version => ({
+    chapter: chapter.id,
+    versionId: version.versionId,
+    title: version.title,
+    content: version.content,
+    summary: version.summary,
+    notes: version.notes,
+    description: version.description,
+    changeType: version.changeType,
+    createdAt: version.createdAt.toISOString(),
+    createdBy: version.createdBy,
+    size: version.size
+  })));
+  if (includeVersions) {
+    const storyVersions: ArchivedStoryVersion[] = (story.versions || []).map(version => ({
+      id: version.id,
+      versionId: version.versionId,
+      content: version.content,
+      delta: version.delta,
+      baseVersion: version.baseVersionId,
+      label: version.label,
+      description: version.description,
+      changeType: version.changeType,
+      createdAt: version.createdAt.toISOString(),
+      createdBy: version.createdBy,
+      size: version.size,
+      storedSize: version.storedSize,
+      editSnapshot: version.editSnapshot
+    }));
+    zip.file('versions/story.json', JSON.stringify(storyVersions, null, 2));
+    zip.file('versions/chapters.json', JSON.stringify(chapterVersions, null, 2));
+  }
+
+  const manifest: ProjectArchiveManifest = {
+    format: PROJECT_ARCHIVE_FORMAT,
+    version: PROJECT_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    title: story.title,
+    story: 'story.md',
+    cover,
+    volumes: [...story.volumes].sort((a, b) => a.order - b.order).map(volume => ({
+      id: volume.id,
+      title: volume.title,
+      summary: volume.summary,
+      order: volume.order
+    })),
+    chapters: manifestChapters,
+    characters: 'characters.json',
+    outline: 'outline.json',
+    codex: 'codex.json',
+    timeline: 'timeline.json',
+    versions: includeVersions ? { story: 'versions/story.json', chapters: 'versions/chapters.json' } : null,
+    stats: archiveStats(story)
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE', compressionOptions: { level: 6 } });
+}
+
+/**
+ * 存档来自用户上传，读取时逐个检查字段类型，不符合时抛出错误，避免缺失或类型错误的值写入数据库
+ * @param path 字段在存档中的位置，用于错误提示
+ */
+function invalid(path: string): never {
+  throw new Error(`存档中的 ${path} 格式不正确`);
+}
+
+function readObject(value: unknown, path: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) invalid(path);
+  return value as Record<string, unknown>;
+}
+
+function readArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) invalid(path);
+  return value;
+}
+
+function readString(value: unknown, path: string): string {
+  if (typeof value !== 'string') invalid(path);
+  return value;
+}
+
+function readOptionalString(value: unknown, path: string): string | null {
+  return value === null || value === undefined ? null : readString(value, path);
+}
+
+function readInteger(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value)) invalid(path);
+  return value;
+}
+
+function readOptionalInteger(value: unknown, path: string): number | null {
+  return value === null || value === undefined ? null : readInteger(value, path);
+}
+
+function readDate(value: unknown, path: string): Date {
+  const date = new Date(readString(value, path));
+  if (Number.isNaN(date.getTime())) invalid(path);
+  return date;
+}
+
+function readStringList(value: unknown, path: string): string[] {
+  return value === undefined ? [] : readArray(value, path).map((item, index) => readString(item, `${path}[${index}]`));
+}
+
+/**
+ * 检查记录ID不重复，返回ID集合
+ */
+function collectIds(items: Array<{ id: string }>, label: string): Set<string> {
+  const ids = new Set<string>();
+  for (const item of items) {
+    if (ids.has(item.id)) {
+      throw new Error(`存档中的${label}ID重复：${item.id}`);
+    }
+    ids.add(item.id);
+  }
+  return ids;
+}
+
+/**
+ * 检查快照内记录之间的引用都指向存档中存在的记录
+ */
+function validateReferences(snapshot: StorySnapshot) {
+  const volumeIds = collectIds(snapshot.volumes, '分卷');
+  const chapterIds = collectIds(snapshot.chapters, '章节');
+  const sceneIds = collectIds(snapshot.chapters.flatMap(chapter => chapter.scenes), '场景');
+  collectIds(snapshot.chapters.flatMap(chapter => chapter.drafts), '草稿');
+  const characterIds = collectIds(snapshot.characters, '角色');
+  const codexIds = collectIds(snapshot.codexEntries, '世界设定条目');
+  const outlineIds = collectIds(snapshot.outlineNodes, '大纲节点');
+
+  const check = (id: string | null, ids: Set<string>, message: string) => {
+    if (id !== null && !ids.has(id)) {
+      throw new Error(`${message}不存在：${id}`);
+    }
+  };
+
+  for (const chapter of snapshot.chapters) {
+    check(chapter.volumeId, volumeIds, `章节“${chapter.title}”所属的分卷`);
+    check(chapter.activeDraftId, new Set(chapter.drafts.map(draft => draft.id)), `章节“${chapter.title}”正在编辑的草稿`);
+    for (const scene of chapter.scenes) {
+      check(scene.povCharacterId, characterIds, `场景“${scene.title || scene.id}”的视角角色`);
+    }
+  }
+
+  for (const relationship of snapshot.characterRelationships) {
+    check(relationship.sourceCharacterId, characterIds, '角色关系引用的角色');
+    check(relationship.targetCharacterId, characterIds, '角色关系引用的角色');
+    check(relationship.chapterId, chapterIds, '角色关系引用的章节');
+  }
+
+  for (const entry of snapshot.codexEntries) {
+    entry.links.forEach(link => check(link.id, codexIds, `世界设定条目“${entry.name}”链接的条目`));
+  }
+
+  for (const event of snapshot.timelineEvents) {
+    check(event.locationEntryId, codexIds, `时间线事件“${event.title}”的地点条目`);
+    event.characters.forEach(item => check(item.id, characterIds, `时间线事件“${event.title}”的角色`));
+    event.chapters.forEach(item => check(item.id, chapterIds, `时间线事件“${event.title}”的章节`));
+    event.scenes.forEach(item => check(item.id, sceneIds, `时间线事件“${event.title}”的场景`));
+  }
+
+  for (const node of snapshot.outlineNodes) {
+    check(node.parentId, outlineIds, `大纲节点“${node.title}”的父节点`);
+    check(node.chapterId, chapterIds, `大纲节点“${node.title}”关联的章节`);
+  }
+
+  // 增量版本只能依赖完整快照
+  if (snapshot.versions) {
+    const fullSnapshots = new Set(snapshot.versions.filter(version => version.content !== null && !version.baseVersionId).map(version => version.id));
+    collectIds(snapshot.versions, '故事版本');
+    for (const version of snapshot.versions) {
+      if (version.content === null && (version.delta === null || !version.baseVersionId)) {
+        throw new Error(`故事版本 ${version.versionId} 缺少内容`);
+      }
+      check(version.baseVersionId, fullSnapshots, `故事版本 ${version.versionId} 依赖的快照`);
+    }
+  }
+}
+
+/**
+ * 读取项目存档，还原为故事快照；存档无效或记录之间的引用不完整时抛出错误
+ */
+export async function readProjectArchive(data: ArrayBuffer | Buffer): Promise<{ manifest: ProjectArchiveManifest; snapshot: StorySnapshot }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error('文件不是有效的 ZIP 压缩包');
+  }
+
+  const readEntry = createZipReader({ maxEntrySize: MAX_ENTRY_UNPACKED_SIZE, maxTotalSize: MAX_ARCHIVE_UNPACKED_SIZE });
+  const readText = async (path: string) => {
+    const file = zip.file(path);
+    if (!file) throw new Error(`存档中缺少文件 ${path}`);
+    return (await readEntry(file)).toString('utf8');
+  };
+  const readJson = async (path: string): Promise<unknown> => {
+    const text = await readText(path);
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`${path} 不是有效的 JSON`);
+    }
+  };
+  const readMarkdown = async (path: string) => readDocument(await readText(path), path);
+
+  if (!zip.file('manifest.json')) {
+    throw new Error('压缩包中没有 manifest.json，不是项目存档');
+  }
+  const rawManifest = readObject(await readJson('manifest.json'), 'manifest.json');
+  if (rawManifest.format !== PROJECT_ARCHIVE_FORMAT) {
+    throw new Error('manifest.json 中的格式标识不正确，不是项目存档');
+  }
+  if (typeof rawManifest.version !== 'number' || rawManifest.version > PROJECT_ARCHIVE_VERSION) {
+    throw new Error('存档由更新版本的应用导出，请升级后再导入');
+  }
+
+  const storyFile = readString(rawManifest.story, 'manifest.json 的 story');
+  const story = await readMarkdown(storyFile);
+  const storyMeta = (key: string) => readOptionalString(story.meta[key], `${storyFile} 的 ${key}`);
+
+  let cover: ProjectArchiveManifest['cover'] = null;
+  let coverImage: string | null = null;
+  if (rawManifest.cover !== null && rawManifest.cover !== undefined) {
+    const rawCover = readObject(rawManifest.cover, 'manifest.json 的 cover');
+    cover = {
+      file: readString(rawCover.file, 'manifest.json 的 cover.file'),
+      mediaType: readString(rawCover.mediaType, 'manifest.json 的 cover.mediaType')
+    };
+    if (cover.mediaType !== 'text/plain' && !COVER_EXTENSIONS[cover.mediaType]) {
+      invalid('manifest.json 的 cover.mediaType');
+    }
+
+    const file = zip.file(cover.file);
+    if (!file) throw new Error(`存档中缺少文件 ${cover.file}`);
+    const coverData = await readEntry(file);
+    coverImage = cover.mediaType === 'text/plain'
+      ? coverData.toString('utf8')
+      : `data:${cover.mediaType};base64,${coverData.toString('base64')}`;
+  }
+
+  const volumes: StorySnapshot['volumes'] = readArray(rawManifest.volumes, 'manifest.json 的 volumes').map((item, index) => {
+    const path = `manifest.json 的 volumes[${index}]`;
+    const volume = readObject(item, path);
+    return {
+      id: readString(volume.id, `${path}.id`),
+      title: readString(volume.title, `${path}.title`),
+      summary: readOptionalString(volume.summary, `${path}.summary`),
+      order: readInteger(volume.order, `${path}.order`)
+    };
+  });
+
+  let versionFiles: ProjectArchiveManifest['versions'] = null;
+  if (rawManifest.versions !== null && rawManifest.versions !== undefined) {
+    const rawVersions = readObject(rawManifest.versions, 'manifest.json 的 versions');
+    versionFiles = {
+      story: readString(rawVersions.story, 'manifest.json 的 versions.story'),
+      chapters: readString(rawVersions.chapters, 'manifest.json 的 versions.chapters')
+    };
+  }
+
+  const chapterVersions: ArchivedChapterVersion[] = versionFiles
+    ? readArray(await readJson(versionFiles.chapters), versionFiles.chapters).map((item, index) => {
+      const path = `${versionFiles!.chapters}[${index}]`;
+      const version = readObject(item, path);
+      return {
+        chapter: readString(version.chapter, `${path}.chapter`),
+        versionId: readString(version.versionId, `${path}.versionId`),
+        title: readString(version.title, `${path}.title`),
+        content: readString(version.content, `${path}.content`),
+        summary: readOptionalString(version.summary, `${path}.summary`),
+        notes: readOptionalString(version.notes, `${path}.notes`),
+        description: readOptionalString(version.description, `${path}.description`),
+        changeType: readString(version.changeType, `${path}.changeType`),
+        createdAt: readString(version.createdAt, `${path}.createdAt`),
+        createdBy: readString(version.createdBy, `${path}.createdBy`),
+        size: readOptionalInteger(version.size, `${path}.size`)
+      };
+    })
+    : [];
+
+  const manifestChapters: ProjectArchiveManifest['chapters'] = readArray(rawManifest.chapters, 'manifest.json 的 chapters').map((item, index) => {
+    const path = `manifest.json 的 chapters[${index}]`;
+    const entry = readObject(item, path);
+    return {
+      id: readString(entry.id, `${path}.id`),
+      file: readString(entry.file, `${path}.file`),
+      scenes: readStringList(entry.scenes, `${path}.scenes`),
+      drafts: readStringList(entry.drafts, `${path}.drafts`)
+    };
+  });
+
+  const chapters: StorySnapshot['chapters'] = [];
+  for (const entry of manifestChapters) {
+    const chapter = await readMarkdown(entry.file);
+    const scenes: StorySnapshot['chapters'][number]['scenes'] = [];
+    for (const file of entry.scenes) {
+      const scene = await readMarkdown(file);
+      const meta = (key: string) => readOptionalString(scene.meta[key], `${file} 的 ${key}`);
+      scenes.push({
+        id: readString(scene.meta.id, `${file} 的 id`),
+        title: meta('title'),
+        content: scene.body || '',
+        order: readInteger(scene.meta.order, `${file} 的 order`),
+        summary: meta('summary'),
+        location: meta('location'),
+        goal: meta('goal'),
+        conflict: meta('conflict'),
+        outcome: meta('outcome'),
+        povCharacterId: meta('povCharacter')
+      });
+    }
+
+    const drafts: StorySnapshot['chapters'][number]['drafts'] = [];
+    for (const file of entry.drafts) {
+      const draft = await readMarkdown(file);
+      drafts.push({
+        id: readString(draft.meta.id, `${file} 的 id`),
+        name: readString(draft.meta.name, `${file} 的 name`),
+        content: draft.body || ''
+      });
+    }
+
+    const meta = (key: string) => readOptionalString(chapter.meta[key], `${entry.file} 的 ${key}`);
+    chapters.push({
+      id: entry.id,
+      title: readString(chapter.meta.title, `${entry.file} 的 title`),
+      content: chapter.body || '',
+      order: readInteger(chapter.meta.order, `${entry.file} 的 order`),
+      summary: meta('summary'),
+      notes: meta('notes'),
+      volumeId: meta('volume'),
+      activeDraftId: meta('activeDraft'),
+      scenes,
+      drafts,
+      versions: versionFiles
+        ? chapterVersions
+          .filter(version => version.chapter === entry.id)
+          .map(version => ({
+            versionId: version.versionId,
+            title: version.title,
+            content: version.content,
+            summary: version.summary,
+            notes: version.notes,
+            description: version.description,
+            changeType: version.changeType,
+            createdAt: readDate(version.createdAt, `${versionFiles!.chapters} 中版本 ${version.versionId} 的 createdAt`),
+            createdBy: version.createdBy,
+            size: version.size
+          }))
+        : undefined
+    });
+  }
+
+  const characterFile = readString(rawManifest.characters, 'manifest.json 的 characters');
+  const rawCharacters = readObject(await readJson(characterFile), characterFile);
+  const characters: StorySnapshot['characters'] = readArray(rawCharacters.characters, `${characterFile} 的 characters`).map((item, index) => {
+    const path = `${characterFile} 的 characters[${index}]`;
+    const character = readObject(item, path);
+    return {
+      id: readString(character.id, `${path}.id`),
+      name: readString(character.name, `${path}.name`),
+      aliases: readOptionalString(character.aliases, `${path}.aliases`),
+      description: readOptionalString(character.description, `${path}.description`),
+      attributes: readOptionalString(character.attributes, `${path}.attributes`)
+    };
+  });
+  const characterRelationships: StorySnapshot['characterRelationships'] = readArray(rawCharacters.relationships, `${characterFile} 的 relationships`).map((item, index) => {
+    const path = `${characterFile} 的 relationships[${index}]`;
+    const relationship = readObject(item, path);
+    return {
+      type: readString(relationship.type, `${path}.type`),
+      direction: readString(relationship.direction, `${path}.direction`),
+      description: readOptionalString(relationship.description, `${path}.description`),
+      sourceCharacterId: readString(relationship.source, `${path}.source`),
+      targetCharacterId: readString(relationship.target, `${path}.target`),
+      chapterId: readOptionalString(relationship.chapter, `${path}.chapter`)
+    };
+  });
+
+  const outlineFile = readString(rawManifest.outline, 'manifest.json 的 outline');
+  const rawOutline = readObject(await readJson(outlineFile), outlineFile);
+  const outlineNodes: StorySnapshot['outlineNodes'] = readArray(rawOutline.nodes ?? [], `${outlineFile} 的 nodes`).map((item, index) => {
+    const path = `${outlineFile} 的 nodes[${index}]`;
+    const node = readObject(item, path);
+    return {
+      id: readString(node.id, `${path}.id`),
+      type: readString(node.type, `${path}.type`),
+      title: readString(node.title, `${path}.title`),
+      description: readOptionalString(node.description, `${path}.description`),
+      order: readInteger(node.order, `${path}.order`),
+      status: readString(node.status, `${path}.status`),
+      targetWordCount: readOptionalInteger(node.targetWordCount, `${path}.targetWordCount`),
+      parentId: readOptionalString(node.parent, `${path}.parent`),
+      chapterId: readOptionalString(node.chapter, `${path}.chapter`)
+    };
+  });
+
+  const codexFile = readString(rawManifest.codex, 'manifest.json 的 codex');
+  const codexEntries: StorySnapshot['codexEntries'] = readArray(await readJson(codexFile), codexFile).map((item, index) => {
+    const path = `${codexFile}[${index}]`;
+    const entry = readObject(item, path);
+    return {
+      id: readString(entry.id, `${path}.id`),
+      type: readString(entry.type, `${path}.type`),
+      name: readString(entry.name, `${path}.name`),
+      description: readOptionalString(entry.description, `${path}.description`),
+      fields: readOptionalString(entry.fields, `${path}.fields`),
+      aliases: readOptionalString(entry.aliases, `${path}.aliases`),
+      links: readStringList(entry.links, `${path}.links`).map(id => ({ id }))
+    };
+  });
+
+  const timelineFile = readString(rawManifest.timeline, 'manifest.json 的 timeline');
+  const timelineEvents: StorySnapshot['timelineEvents'] = readArray(await readJson(timelineFile), timelineFile).map((item, index) => {
+    const path = `${timelineFile}[${index}]`;
+    const event = readObject(item, path);
+    return {
+      title: readString(event.title, `${path}.title`),
+      description: readOptionalString(event.description, `${path}.description`),
+      type: readString(event.type, `${path}.type`),
+      storyDate: readOptionalString(event.storyDate, `${path}.storyDate`),
+      order: readInteger(event.order, `${path}.order`),
+      location: readOptionalString(event.location, `${path}.location`),
+      locationEntryId: readOptionalString(event.locationEntry, `${path}.locationEntry`),
+      characters: readStringList(event.characters, `${path}.characters`).map(id => ({ id })),
+      chapters: readStringList(event.chapters, `${path}.chapters`).map(id => ({ id })),
+      scenes: readStringList(event.scenes, `${path}.scenes`).map(id => ({ id }))
+    };
+  });
+
+  const versions: StorySnapshot['versions'] = versionFiles
+    ? readArray(await readJson(versionFiles.story), versionFiles.story).map((item, index) => {
+      const path = `${versionFiles!.story}[${index}]`;
+      const version = readObject(item, path);
+      return {
+        id: readString(version.id, `${path}.id`),
+        versionId: readString(version.versionId, `${path}.versionId`),
+        content: readOptionalString(version.content, `${path}.content`),
+        delta: readOptionalString(version.delta, `${path}.delta`),
+        baseVersionId: readOptionalString(version.baseVersion, `${path}.baseVersion`),
+        label: readOptionalString(version.label, `${path}.label`),
+        description: readOptionalString(version.description, `${path}.description`),
+        changeType: readString(version.changeType, `${path}.changeType`),
+        createdAt: readDate(version.createdAt, `${path}.createdAt`),
+        createdBy: readString(version.createdBy, `${path}.createdBy`),
+        size: readOptionalInteger(version.size, `${path}.size`),
+        storedSize: readOptionalInteger(version.storedSize, `${path}.storedSize`),
+        editSnapshot: readOptionalString(version.editSnapshot, `${path}.editSnapshot`)
+      };
+    })
+    : undefined;
+
+  const snapshot: StorySnapshot = {
+    id: '',
+    title: storyMeta('title') || readString(rawManifest.title, 'manifest.json 的 title'),
+    content: story.body,
+    summary: storyMeta('summary'),
+    worldSetting: storyMeta('worldSetting'),
+    author: storyMeta('author'),
+    coverImage,
+    versionRetention: storyMeta('versionRetention'),
+    outline: readOptionalString(rawOutline.text, `${outlineFile} 的 text`),
+    storyStatus: storyMeta('storyStatus') || 'in_progress',
+    aiProvider: storyMeta('aiProvider'),
+    volumes,
+    chapters,
+    characters,
+    characterRelationships,
+    codexEntries,
+    timelineEvents,
+    outlineNodes,
+    versions
+  };
+
+  validateReferences(snapshot);
+
+  // 概要按实际读取的内容重新统计，不信任存档中的记录
+  const manifest: ProjectArchiveManifest = {
+    format: PROJECT_ARCHIVE_FORMAT,
+    version: rawManifest.version,
+    exportedAt: readOptionalString(rawManifest.exportedAt, 'manifest.json 的 exportedAt') || '',
+    title: snapshot.title,
+    story: storyFile,
+    cover,
+    volumes,
+    chapters: manifestChapters,
+    characters: characterFile,
+    outline: outlineFile,
+    codex: codexFile,
+    timeline: timelineFile,
+    versions: versionFiles,
+    stats: archiveStats(snapshot)
+  };
+
+  return { manifest, snapshot };
+}
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { composeChapterContent, splitChapterContent } from "@/lib/scene-utils";
+
+/**
+ * 模拟 TipTap 载入并保存 HTML：块级元素之外的文字包成段落，块之间的空白去掉
+ */
+function saveInEditor(content: string): string {
+  return content
+    .split(/(<p(?:\s[^>]*)?>[\s\S]*?<\/p>)/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => (part.startsWith("<p") ? part : part.split(/\n{2,}/).map(text => `<p>${text}</p>`).join("")))
+    .join("");
+}
+
+test("HTML 场景经编辑器保存后按场景拆回", () => {
+  const scenes = [
+    { content: "<p>一</p><p>第二段</p>", order: 1 },
+    { content: "", order: 2 },
+    { content: "<p>二</p>", order: 3 }
+  ];
+
+  const saved = saveInEditor(composeChapterContent(scenes));
+  assert.equal(saved, "<p>一</p><p>第二段</p><p>* * *⁠</p><p>* * *⁠</p><p>二</p>");
+  assert.deepEqual(splitChapterContent(saved), ["<p>一</p><p>第二段</p>", "", "<p>二</p>"]);
+});
+
+test("纯文本场景经编辑器保存后按场景拆回", () => {
+  const saved = saveInEditor(composeChapterContent([{ content: "一", order: 1 }, { content: "二", order: 2 }]));
+  assert.deepEqual(splitChapterContent(saved), ["<p>一</p>", "<p>二</p>"]);
+});
+
+test("设置了对齐的分隔段落也能识别", () => {
+  const saved = '<p>一</p><p style="text-align: center">* * *⁠</p><p>二</p>';
+  assert.deepEqual(splitChapterContent(saved), ["<p>一</p>", "<p>二</p>"]);
+});
+
+test("未经编辑器的纯文本正文按分隔符拆分", () => {
+  const content = composeChapterContent([{ content: "一", order: 2 }, { content: "二", order: 1 }]);
+  assert.deepEqual(splitChapterContent(content), ["二", "一"]);
+});
+
+test("正文中手写的 * * * 不拆分", () => {
+  const content = composeChapterContent([{ content: "<p>一</p><p>* * *</p><p>仍是一</p>", order: 1 }, { content: "<p>二</p>", order: 2 }]);
+  assert.deepEqual(splitChapterContent(saveInEditor(content)), ["<p>一</p><p>* * *</p><p>仍是一</p>", "<p>二</p>"]);
+});
+
+test("早期分隔符仍可拆分", () => {
+  assert.deepEqual(splitChapterContent("一\n\n* * *\n\n二"), ["一", "二"]);
+});
@@ -0,0 +1,52 @@
+/**
+ * 场景工具函数
+ * 场景按顺序拼接为章节正文，供场景接口同步章节内容和导出使用
+ * 章节正文中每个场景占一段（包括空场景），整章内容写回场景时按位置一一对应
+ */
+
+// 场景之间的分隔符：分隔线后带一个不可见的连接符（U+2060），与正文中手写的 * * * 区分
+export const SCENE_SEPARATOR = "\n\n* * *\u2060\n\n";
+
+// 拆分时容忍编辑器改动分隔符两侧的空白；章节编辑器保存 HTML 时分隔符成为独立段落（可能带对齐等属性），整段匹配
+const SCENE_SEPARATOR_PATTERN = /\s*(?:<p(?:\s[^>]*)?>\s*\* \* \*\u2060\s*<\/p>|\* \* \*\u2060)\s*/;
+
+// 早期版本的分隔符，只在正文中没有新分隔符时用于拆分
+const LEGACY_SCENE_SEPARATOR = "\n\n* * *\n\n";
+
+// 导出时场景之间显示的分隔线
+const EXPORT_SCENE_SEPARATOR = "\n\n* * *\n\n";
+
+/**
+ * 按场景顺序拼接章节正文，空场景也保留位置，以便写回时与场景一一对应
+ */
+export function composeChapterContent(scenes: Array<{ content: string | null; order: number }>): string {
+  return [...scenes]
+    .sort((a, b) => a.order - b.order)
+    .map(scene => (scene.content || '').trim())
+    .join(SCENE_SEPARATOR);
+}
+
+/**
+ * 拼接导出用的章节正文：忽略空场景，场景之间使用普通分隔线
+ */
+export function composeExportContent(scenes: Array<{ content: string | null; order: number }>): string {
+  return [...scenes]
+    .sort((a, b) => a.order - b.order)
+    .map(scene => (scene.content || '').trim())
+    .filter(content => content.length > 0)
+    .join(EXPORT_SCENE_SEPARATOR);
+}
+
+/**
+ * 按场景分隔符拆分章节正文，用于将整章内容写回各场景，第 i 段对应第 i 个场景
+ */
+export function splitChapterContent(content: string | null): string[] {
+  const text = (content || '').trim();
+  if (!text) return [];
+
+  const parts = SCENE_SEPARATOR_PATTERN.test(text)
+    ? text.split(SCENE_SEPARATOR_PATTERN)
+    : text.split(LEGACY_SCENE_SEPARATOR);
+
+  return parts.map(part => part.trim());
+}
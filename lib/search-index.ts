@@ -0,0 +1,280 @@
+/**
+ * 全文搜索的倒排索引
+ * 中日韩文字按单字和相邻二字切分建立索引，英文数字按单词切分；召回后再按原文子串校验，避免二字组合造成的误命中
+ * 纯函数实现，服务端建立索引并搜索，客户端复用归一化规则在编辑器中定位命中位置
+ */
+
+export type SearchDocumentType = 'chapter' | 'character' | 'outline' | 'story';
+export type SearchField = 'content' | 'summary' | 'notes' | 'description' | 'outline';
+
+export interface SearchDocument {
+  type: SearchDocumentType;
+  field: SearchField;
+  entityId: string; // 章节、角色、大纲节点或故事ID
+  storyId: string;
+  storyTitle: string;
+  title: string; // 章节标题、角色名称、大纲节点标题或故事标题
+  chapterId?: string | null; // 大纲节点关联的章节
+  text: string; // 纯文本
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  normalizedTexts: string[];
+  normalizedTitles: string[];
+  // 词 → 文档序号 → 词频
+  postings: Map<string, Map<number, number>>;
+}
+
+export interface SearchHit extends Omit<SearchDocument, 'text'> {
+  score: number;
+  snippet: string;
+  highlights: Array<{ start: number; end: number }>; // 片段中的高亮区间
+  term: string; // 定位用的搜索词
+  occurrence: number; // 定位位置是该搜索词在正文中的第几次出现（从 0 开始），仅标题命中时为 -1
+}
+
+// 中日韩文字
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
+// 英文单词或数字
+const WORD_PATTERN = /[a-z0-9_\u00c0-\u024f]+/g;
+
+// 不同字段的权重，摘要和描述比正文更能代表主题
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  content: 1,
+  summary: 1.5,
+  notes: 1,
+  description: 1.5,
+  outline: 1.2
+};
+const TITLE_MATCH_BONUS = 5;
+
+// 片段在命中位置前后保留的字符数
+const SNIPPET_BEFORE = 30;
+const SNIPPET_AFTER = 70;
+
+/**
+ * 归一化文本：全角字母数字转半角、英文转小写，逐字替换以保证与原文位置一一对应
+ */
+export function normalizeForSearch(text: string): string {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    let ch = text[i];
+    if (code >= 0xff01 && code <= 0xff5e) {
+      ch = String.fromCharCode(code - 0xfee0);
+    } else if (code === 0x3000) {
+      ch = ' ';
+    }
+    const lower = ch.toLowerCase();
+    result += lower.length === 1 ? lower : ch;
+  }
+  return result;
+}
+
+/**
+ * 将归一化后的文本切分为索引词：中日韩文字生成单字和二字组合，英文数字按单词
+ */
+export function tokenizeForSearch(normalized: string): string[] {
+  const tokens: string[] = [];
+
+  for (let i = 0; i < normalized.length; i++) {
+    if (CJK_CHAR.test(normalized[i])) {
+      tokens.push(normalized[i]);
+      if (i + 1 < normalized.length && CJK_CHAR.test(normalized[i + 1])) {
+        tokens.push(normalized.slice(i, i + 2));
+      }
+    }
+  }
+
+  for (const match of normalized.matchAll(WORD_PATTERN)) {
+    tokens.push(match[0]);
+  }
+
+  return tokens;
+}
+
+/**
+ * 将查询切分为搜索词，支持用英文双引号包裹含空格的短语；所有搜索词都需命中
+ */
+export function parseSearchQuery(query: string): string[] {
+  const terms: string[] = [];
+  const pattern = /"([^"]+)"|(\S+)/g;
+  for (const match of normalizeForSearch(query).matchAll(pattern)) {
+    const term = (match[1] || match[2]).trim();
+    if (term && !terms.includes(term)) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+/**
+ * 为文档建立倒排索引，标题中的词同样计入索引
+ */
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const postings = new Map<string, Map<number, number>>();
+  const normalizedTexts = documents.map(document => normalizeForSearch(document.text));
+  const normalizedTitles = documents.map(document => normalizeForSearch(document.title));
+
+  documents.forEach((_, index) => {
+    for (const token of [...tokenizeForSearch(normalizedTexts[index]), ...tokenizeForSearch(normalizedTitles[index])]) {
+      let posting = postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        postings.set(token, posting);
+      }
+      posting.set(index, (posting.get(index) || 0) + 1);
+    }
+  });
+
+  return { documents, normalizedTexts, normalizedTitles, postings };
+}
+
+/**
+ * 查找包含某个词的文档；英文词也匹配以其为前缀的索引词，以支持输入单词的一部分
+ */
+function findDocumentsWithToken(index: SearchIndex, token: string): Set<number> {
+  const result = new Set<number>();
+  const exact = index.postings.get(token);
+  exact?.forEach((_, documentIndex) => result.add(documentIndex));
+
+  if (!CJK_CHAR.test(token)) {
+    index.postings.forEach((posting, key) => {
+      if (key !== token && key.startsWith(token)) {
+        posting.forEach((_, documentIndex) => result.add(documentIndex));
+      }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * 统计子串出现次数
+ */
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  let position = text.indexOf(term);
+  while (position !== -1) {
+    count++;
+    position = text.indexOf(term, position + term.length);
+  }
+  return count;
+}
+
+/**
+ * 生成命中位置附近的片段，并标出片段中所有搜索词的位置
+ */
+function buildSnippet(text: string, normalized: string, terms: string[], position: number) {
+  const start = Math.max(0, position - SNIPPET_BEFORE);
+  const end = Math.min(text.length, position + SNIPPET_AFTER);
+  const prefix = start > 0 ? '…' : '';
+  const snippet = prefix + text.slice(start, end).replace(/\s+/g, ' ') + (end < text.length ? '…' : '');
+  const window = normalized.slice(start, end).replace(/\s+/g, ' ');
+  const highlights: Array<{ start: number; end: number }> = [];
+
+  for (const term of terms) {
+    let found = window.indexOf(term);
+    while (found !== -1) {
+      highlights.push({ start: prefix.length + found, end: prefix.length + found + term.length });
+      found = window.indexOf(term, found + term.length);
+    }
+  }
+
+  // 合并重叠的高亮区间
+  highlights.sort((a, b) => a.start - b.start);
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const range of highlights) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return { snippet, highlights: merged };
+}
+
+/**
+ * 在索引中搜索，所有搜索词都需出现在正文或标题中；按词频、字段权重和标题命中排序
+ */
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  options: { limit?: number; filter?: (document: SearchDocument) => boolean } = {}
+): SearchHit[] {
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) return [];
+
+  // 召回：同时包含所有搜索词的全部索引词的文档；查询中没有可索引的词（例如只有标点）时逐一扫描
+  let candidateIndexes: number[] | null = null;
+  for (const term of terms) {
+    for (const token of tokenizeForSearch(term)) {
+      const documents = findDocumentsWithToken(index, token);
+      candidateIndexes = candidateIndexes
+        ? candidateIndexes.filter(documentIndex => documents.has(documentIndex))
+        : Array.from(documents);
+    }
+  }
+  candidateIndexes = candidateIndexes || index.documents.map((_, documentIndex) => documentIndex);
+
+  const hits: SearchHit[] = [];
+
+  // 逆文档频率：越少见的词权重越高
+  const idfs = terms.map(term => {
+    const token = tokenizeForSearch(term)[0];
+    const documentFrequency = token ? findDocumentsWithToken(index, token).size : index.documents.length;
+    return Math.log(1 + index.documents.length / Math.max(1, documentFrequency));
+  });
+
+  for (const documentIndex of candidateIndexes) {
+    const document = index.documents[documentIndex];
+    if (options.filter && !options.filter(document)) continue;
+
+    const text = index.normalizedTexts[documentIndex];
+    const title = index.normalizedTitles[documentIndex];
+
+    // 校验：每个搜索词都需作为子串出现
+    if (!terms.every(term => text.includes(term) || title.includes(term))) continue;
+
+    let score = 0;
+    terms.forEach((term, termIndex) => {
+      const count = countOccurrences(text, term);
+      if (count > 0) score += (1 + Math.log(count)) * idfs[termIndex] * FIELD_WEIGHTS[document.field];
+      if (title.includes(term)) score += TITLE_MATCH_BONUS;
+    });
+
+    // 以正文中最早出现的搜索词作为定位位置
+    let term = terms[0];
+    let position = -1;
+    for (const candidate of terms) {
+      const found = text.indexOf(candidate);
+      if (found !== -1 && (position === -1 || found < position)) {
+        position = found;
+        term = candidate;
+      }
+    }
+
+    const { snippet, highlights } = buildSnippet(document.text, text, terms, Math.max(position, 0));
+    const occurrence = position === -1 ? -1 : countOccurrences(text.slice(0, position), term);
+    hits.push({
+      type: document.type,
+      field: document.field,
+      entityId: document.entityId,
+      storyId: document.storyId,
+      storyTitle: document.storyTitle,
+      title: document.title,
+      chapterId: document.chapterId,
+      score,
+      snippet,
+      highlights,
+      term,
+      occurrence
+    });
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+  return hits.slice(0, options.limit || hits.length);
+}
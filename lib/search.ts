@@ -0,0 +1,132 @@
+/**
+ * 用户内容的全文搜索
+ * 为每个用户的故事、章节、角色和大纲建立倒排索引并缓存在内存中；数据的数量或最近更新时间变化时重建索引
+ */
+
+import prisma from '@/lib/prisma';
+import { splitParagraphs, toPlainText } from '@/lib/text-diff';
+import { buildSearchIndex, searchIndex, SearchDocument, SearchDocumentType, SearchHit, SearchIndex } from '@/lib/search-index';
+
+// 最多缓存的用户索引数，超出时淘汰最早建立的索引
+const MAX_CACHED_INDEXES = 20;
+
+const indexCache = new Map<string, { signature: string; index: SearchIndex }>();
+
+export interface SearchOptions {
+  storyId?: string; // 只搜索指定故事
+  types?: SearchDocumentType[]; // 只搜索指定类型
+  limit?: number;
+}
+
+/**
+ * 将章节等 HTML 内容转换为纯文本，段落之间以换行分隔
+ */
+function htmlToSearchText(content: string | null): string {
+  if (!content) return '';
+  return splitParagraphs(content)
+    .map(toPlainText)
+    .filter(paragraph => paragraph)
+    .join('\n');
+}
+
+/**
+ * 计算用户数据的版本标识：各表的记录数和最近更新时间
+ */
+async function getIndexSignature(userId: string): Promise<string> {
+  const aggregate = { _count: { _all: true as const }, _max: { updatedAt: true as const } };
+  const results = await Promise.all([
+    prisma.story.aggregate({ where: { userId }, ...aggregate }),
+    prisma.chapter.aggregate({ where: { story: { userId } }, ...aggregate }),
+    prisma.character.aggregate({ where: { story: { userId } }, ...aggregate }),
+    prisma.outlineNode.aggregate({ where: { story: { userId } }, ...aggregate })
+  ]);
+
+  return results
+    .map(result => `${result._count._all}:${result._max.updatedAt ? new Date(result._max.updatedAt).getTime() : 0}`)
+    .join('|');
+}
+
+/**
+ * 读取用户的全部可搜索内容，转换为搜索文档
+ */
+async function loadSearchDocuments(userId: string): Promise<SearchDocument[]> {
+  const stories = await prisma.story.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      title: true,
+      summary: true,
+      outline: true,
+      chapters: { select: { id: true, title: true, content: true, summary: true, notes: true } },
+      characters: { select: { id: true, name: true, description: true } },
+      outlineNodes: { select: { id: true, title: true, description: true, chapterId: true } }
+    }
+  });
+
+  const documents: SearchDocument[] = [];
+
+  for (const story of stories) {
+    const base = { storyId: story.id, storyTitle: story.title };
+
+    if (story.summary) {
+      documents.push({ ...base, type: 'story', field: 'summary', entityId: story.id, title: story.title, text: story.summary });
+    }
+    if (story.outline) {
+      documents.push({ ...base, type: 'story', field: 'outline', entityId: story.id, title: story.title, text: htmlToSearchText(story.outline) });
+    }
+
+    for (const chapter of story.chapters) {
+      const chapterBase = { ...base, type: 'chapter' as const, entityId: chapter.id, title: chapter.title };
+      documents.push({ ...chapterBase, field: 'content', text: htmlToSearchText(chapter.content) });
+      if (chapter.summary) documents.push({ ...chapterBase, field: 'summary', text: chapter.summary });
+      if (chapter.notes) documents.push({ ...chapterBase, field: 'notes', text: chapter.notes });
+    }
+
+    for (const character of story.characters) {
+      documents.push({ ...base, type: 'character', field: 'description', entityId: character.id, title: character.name, text: character.description || '' });
+    }
+
+    for (const node of story.outlineNodes) {
+      documents.push({ ...base, type: 'outline', field: 'outline', entityId: node.id, title: node.title, chapterId: node.chapterId, text: node.description || '' });
+    }
+  }
+
+  return documents;
+}
+
+/**
+ * 获取用户的搜索索引，数据未变化时复用缓存
+ */
+async function getUserSearchIndex(userId: string): Promise<SearchIndex> {
+  const signature = await getIndexSignature(userId);
+  const cached = indexCache.get(userId);
+
+  if (cached && cached.signature === signature) {
+    return cached.index;
+  }
+
+  const index = buildSearchIndex(await loadSearchDocuments(userId));
+
+  indexCache.delete(userId);
+  indexCache.set(userId, { signature, index });
+  if (indexCache.size > MAX_CACHED_INDEXES) {
+    const oldest = indexCache.keys().next().value;
+    if (oldest) indexCache.delete(oldest);
+  }
+
+  return index;
+}
+
+/**
+ * 搜索用户的故事、章节正文/摘要/笔记、角色描述和大纲
+ */
+export async function searchUserContent(userId: string, query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+  const index = await getUserSearchIndex(userId);
+
+  return searchIndex(index, query, {
+    limit: options.limit,
+    filter: document =>
+      (!options.storyId || document.storyId === options.storyId) &&
+      (!options.types || options.types.length === 0 || options.types.includes(document.type))
+  });
+}
@@ -0,0 +1,306 @@
+/**
+ * 故事导出：校验导出请求并按格式生成文件
+ * 同步导出接口和后台导出任务共用，任务通过 onProgress 报告已渲染的章节数
+ */
+
+import prisma from '@/lib/prisma';
+import { generatePDF, generateEPUB, generateDOCX, ExportOptions } from '@/lib/document-generator';
+import { groupChaptersByVolume } from '@/lib/volume-utils';
+import { composeExportContent } from '@/lib/scene-utils';
+import { resolveEpubTheme } from '@/lib/epub-themes';
+import { resolveCjkFonts } from '@/lib/pdf-typesetting';
+import { loadStorySnapshot } from '@/lib/story-fork';
+import { buildProjectArchive } from '@/lib/project-archive';
+
+export type StoryExportFormat = 'pdf' | 'epub' | 'docx' | 'txt' | 'html' | 'project';
+
+// 各导出格式的文件扩展名和 MIME 类型
+export const STORY_EXPORT_FORMATS: Record<StoryExportFormat, { extension: string; mimeType: string }> = {
+  pdf: { extension: 'pdf', mimeType: 'application/pdf' },
+  epub: { extension: 'epub', mimeType: 'application/epub+zip' },
+  docx: { extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  txt: { extension: 'txt', mimeType: 'text/plain; charset=utf-8' },
+  html: { extension: 'html', mimeType: 'text/html; charset=utf-8' },
+  project: { extension: 'zip', mimeType: 'application/zip' }
+};
+
+export interface StoryExportRequest {
+  format: StoryExportFormat;
+  includeCharacters?: boolean;
+  includeOutline?: boolean;
+  fontSize?: number;
+  fontFamily?: string;
+  pageSize?: string;
+  layout?: ExportOptions['layout'];
+  cover?: string | null; // 上传的 EPUB 封面（data URI）
+  series?: { name?: string; number?: number | string | null } | null;
+  epubTheme?: string;
+  customCss?: string;
+  includeVersions?: boolean; // 项目存档是否包含版本历史，默认包含
+}
+
+export interface StoryExportFile {
+  data: Buffer;
+  fileName: string;
+  mimeType: string;
+}
+
+// 导出时上传的 EPUB 封面：格式和大小上限（data URI 长度约为图片大小的 4/3）
+const EPUB_COVER_PATTERN = /^data:image\/(jpeg|png|gif|webp|svg\+xml);base64,/i;
+const MAX_COVER_DATA_URI_LENGTH = Math.ceil(5 * 1024 * 1024 * 4 / 3);
+
+export function isStoryExportFormat(format: unknown): format is StoryExportFormat {
+  return typeof format === 'string' && Object.prototype.hasOwnProperty.call(STORY_EXPORT_FORMATS, format);
+}
+
+/**
+ * 解析系列序号，未填写时返回 undefined，无效时返回 NaN
+ */
+function parseSeriesNumber(series: StoryExportRequest['series']): number | undefined {
+  if (!series || series.number === undefined || series.number === null || series.number === '') return undefined;
+  const value = Number(series.number);
+  return Number.isFinite(value) && value > 0 ? value : NaN;
+}
+
+/**
+ * 校验导出请求，返回错误信息，通过时返回 null
+ */
+export function validateStoryExportRequest(request: StoryExportRequest): string | null {
+  if (!isStoryExportFormat(request.format)) {
+    return `不支持的导出格式: ${request.format}`;
+  }
+
+  const { cover } = request;
+  if (cover !== undefined && cover !== null && (typeof cover !== 'string' || !EPUB_COVER_PATTERN.test(cover))) {
+    return '封面只支持 JPEG、PNG、GIF、WebP 或 SVG 图片';
+  }
+
+  if (typeof cover === 'string' && cover.length > MAX_COVER_DATA_URI_LENGTH) {
+    return '封面图片不能超过 5MB';
+  }
+
+  if (Number.isNaN(parseSeriesNumber(request.series))) {
+    return '系列序号必须是正数';
+  }
+
+  // 在创建任务前检查中文字体，避免排版到一半才失败
+  if (request.format === 'pdf' && !resolveCjkFonts(request.fontFamily === 'sans' ? 'sans' : 'serif')) {
+    return '服务器缺少可嵌入的中文字体，暂时无法导出 PDF，请选择其他格式或联系管理员';
+  }
+
+  return null;
+}
+
+/**
+ * 导出文件名：故事标题加格式扩展名
+ */
+export function storyExportFileName(title: string, format: StoryExportFormat): string {
+  return `${title}.${STORY_EXPORT_FORMATS[format].extension}`;
+}
+
+/**
+ * 生成纯文本导出内容
+ */
+function renderText(options: ExportOptions): string {
+  let content = `# ${options.title}\n\n`;
+
+  // 添加角色信息
+  if (options.includeCharacters && options.characters && options.characters.length > 0) {
+    content += `## 角色介绍\n\n`;
+    options.characters.forEach(character => {
+      content += `### ${character.name}\n`;
+      if (character.description) {
+        content += `${character.description}\n\n`;
+      }
+      if (character.attributes) {
+        Object.entries(character.attributes).forEach(([key, value]) => {
+          content += `- ${key}: ${value}\n`;
+        });
+        content += `\n`;
+      }
+    });
+  }
+
+  // 添加大纲
+  if (options.includeOutline && options.outline) {
+    content += `## 故事大纲\n\n${options.outline}\n\n`;
+  }
+
+  // 添加章节内容
+  content += `## 正文\n\n`;
+  options.chapters.forEach(chapter => {
+    content += `### ${chapter.title}\n\n${chapter.content}\n\n`;
+  });
+
+  return content;
+}
+
+/**
+ * 生成 HTML 网页导出内容
+ */
+function renderHtml(options: ExportOptions): string {
+  return `<!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <title>${options.title}</title>
+          <style>
+            body { font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; }
+            h1 { text-align: center; }
+            h2 { margin-top: 2em; border-bottom: 1px solid #eee; padding-bottom: 0.5em; }
+            h3 { margin-top: 1.5em; }
+            .character { margin-bottom: 1.5em; }
+            .chapter { margin-bottom: 3em; }
+          </style>
+        </head>
+        <body>
+          <h1>${options.title}</h1>
+
+          ${options.includeCharacters && options.characters && options.characters.length > 0 ? `
+          <h2>角色介绍</h2>
+          ${options.characters.map(char => `
+            <div class="character">
+              <h3>${char.name}</h3>
+              <p>${char.description || ''}</p>
+              ${char.attributes ? `
+                <ul>
+                  ${Object.entries(char.attributes).map(([key, value]) => `<li><strong>${key}:</strong> ${value}</li>`).join('')}
+                </ul>
+              ` : ''}
+            </div>
+          `).join('')}
+          ` : ''}
+
+          ${options.includeOutline && options.outline ? `
+          <h2>故事大纲</h2>
+          <div class="outline">
+            ${options.outline.split('\n').map(line => `<p>${line}</p>`).join('')}
+          </div>
+          ` : ''}
+
+          <h2>正文</h2>
+          ${options.chapters.map(chapter => `
+            <div class="chapter">
+              <h3>${chapter.title}</h3>
+              ${chapter.content.split('\n\n').map(para => `<p>${para}</p>`).join('')}
+            </div>
+          `).join('')}
+        </body>
+        </html>`;
+}
+
+/**
+ * 按导出请求生成故事文件
+ * @param storyId 故事ID，调用方需先验证故事归属
+ * @param request 已通过 validateStoryExportRequest 校验的导出请求
+ * @param onProgress 每渲染完一章调用，参数为已渲染章节数和章节总数
+ */
+export async function renderStoryExport(
+  storyId: string,
+  request: StoryExportRequest,
+  onProgress?: ExportOptions['onProgress']
+): Promise<StoryExportFile> {
+  const { format, includeCharacters = false, includeOutline = false } = request;
+
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    include: {
+      user: { select: { name: true } },
+      volumes: { orderBy: { order: 'asc' } },
+      chapters: {
+        orderBy: { order: 'asc' },
+        include: { scenes: true }
+      },
+    }
+  });
+
+  if (!story) {
+    throw new Error('要导出的故事不存在');
+  }
+
+  const file = (data: Buffer | string): StoryExportFile => ({
+    data: typeof data === 'string' ? Buffer.from(data, 'utf-8') : data,
+    fileName: storyExportFileName(story.title, format),
+    mimeType: STORY_EXPORT_FORMATS[format].mimeType
+  });
+
+  // 项目存档包含故事的全部数据，不使用下面的导出选项
+  if (format === 'project') {
+    const snapshot = await loadStorySnapshot(story.id, request.includeVersions !== false);
+    if (!snapshot) {
+      throw new Error('要导出的故事不存在');
+    }
+    return file(await buildProjectArchive(snapshot));
+  }
+
+  // 存在场景的章节按场景顺序拼接正文
+  const chapters = story.chapters.map(ch => ({
+    ...ch,
+    content: ch.scenes.length > 0 ? composeExportContent(ch.scenes) : (ch.content || '')
+  }));
+
+  const seriesName = request.series && typeof request.series.name === 'string' ? request.series.name.trim() : '';
+
+  // 准备导出选项
+  const exportOptions: ExportOptions = {
+    title: story.title,
+    author: story.author || story.user.name || undefined,
+    cover: request.cover || story.coverImage || undefined,
+    chapters: chapters.map(ch => ({
+      title: ch.title,
+      content: ch.content
+    })),
+    includeCharacters,
+    includeOutline,
+    fontSize: request.fontSize,
+    fontFamily: request.fontFamily,
+    pageSize: request.pageSize,
+    layout: request.layout && typeof request.layout === 'object' ? request.layout : undefined,
+    identifier: story.id,
+    series: seriesName ? { name: seriesName, number: parseSeriesNumber(request.series) } : undefined,
+    epubTheme: resolveEpubTheme(request.epubTheme).id,
+    customCss: typeof request.customCss === 'string' ? request.customCss : undefined,
+    onProgress
+  };
+
+  // 按分卷组织章节
+  if (story.volumes.length > 0) {
+    exportOptions.volumes = groupChaptersByVolume(story.volumes, chapters).map(group => ({
+      title: group.title,
+      summary: group.summary || undefined,
+      chapters: group.chapters.map(ch => ({
+        title: ch.title,
+        content: ch.content
+      }))
+    }));
+  }
+
+  // 根据需要获取角色和大纲信息
+  if (includeCharacters) {
+    const characters = await prisma.character.findMany({
+      where: { storyId: story.id }
+    });
+    exportOptions.characters = characters.map(char => ({
+      name: char.name,
+      description: char.description || undefined,
+      attributes: char.attributes ? JSON.parse(char.attributes) : undefined
+    }));
+  }
+
+  if (includeOutline && story.outline) {
+    exportOptions.outline = story.outline;
+  }
+
+  switch (format) {
+    case 'pdf':
+      return file(await generatePDF(exportOptions));
+    case 'epub':
+      return file(await generateEPUB(exportOptions));
+    case 'docx':
+      return file(await generateDOCX(exportOptions));
+    case 'txt':
+      return file(renderText(exportOptions));
+    case 'html':
+      return file(renderHtml(exportOptions));
+  }
+}
@@ -0,0 +1,430 @@
+/**
+ * 故事派生（复制）
+ * 将故事及其分卷、章节、场景、草稿、角色、角色关系、世界设定、时间线和大纲完整复制为同一用户的新故事，
+ * 可选同时复制故事和章节的版本历史。新故事通过 forkedFromId 记录来源
+ * 复制分为读取快照和按快照创建两步，项目存档导入也按快照重建故事
+ */
+
+import prisma from '@/lib/prisma';
+import { remapEditSnapshot } from '@/lib/story-versions';
+
+export interface ForkStoryOptions {
+  title: string; // 新故事标题
+  includeVersions: boolean; // 是否复制版本历史
+}
+
+/**
+ * 故事快照：故事及其全部子记录，记录之间通过原ID相互引用
+ */
+export interface StorySnapshot {
+  id: string;
+  title: string;
+  content: string | null;
+  summary: string | null;
+  worldSetting: string | null;
+  author: string | null;
+  coverImage: string | null;
+  versionRetention: string | null;
+  outline: string | null;
+  storyStatus: string;
+  aiProvider: string | null;
+  volumes: Array<{ id: string; title: string; summary: string | null; order: number }>;
+  chapters: Array<{
+    id: string;
+    title: string;
+    content: string;
+    order: number;
+    summary: string | null;
+    notes: string | null;
+    volumeId: string | null;
+    activeDraftId: string | null;
+    scenes: Array<{
+      id: string;
+      title: string | null;
+      content: string;
+      order: number;
+      summary: string | null;
+      location: string | null;
+      goal: string | null;
+      conflict: string | null;
+      outcome: string | null;
+      povCharacterId: string | null;
+    }>;
+    drafts: Array<{ id: string; name: string; content: string }>;
+    versions?: Array<{
+      versionId: string;
+      title: string;
+      content: string;
+      summary: string | null;
+      notes: string | null;
+      description: string | null;
+      changeType: string;
+      createdAt: Date;
+      createdBy: string;
+      size: number | null;
+    }>;
+  }>;
+  characters: Array<{ id: string; name: string; aliases: string | null; description: string | null; attributes: string | null }>;
+  characterRelationships: Array<{
+    type: string;
+    direction: string;
+    description: string | null;
+    sourceCharacterId: string;
+    targetCharacterId: string;
+    chapterId: string | null;
+  }>;
+  codexEntries: Array<{
+    id: string;
+    type: string;
+    name: string;
+    description: string | null;
+    fields: string | null;
+    aliases: string | null;
+    links: Array<{ id: string }>;
+  }>;
+  timelineEvents: Array<{
+    title: string;
+    description: string | null;
+    type: string;
+    storyDate: string | null;
+    order: number;
+    location: string | null;
+    locationEntryId: string | null;
+    characters: Array<{ id: string }>;
+    chapters: Array<{ id: string }>;
+    scenes: Array<{ id: string }>;
+  }>;
+  outlineNodes: Array<{
+    id: string;
+    type: string;
+    title: string;
+    description: string | null;
+    order: number;
+    status: string;
+    targetWordCount: number | null;
+    parentId: string | null;
+    chapterId: string | null;
+  }>;
+  versions?: Array<{
+    id: string;
+    versionId: string;
+    content: string | null;
+    delta: string | null;
+    baseVersionId: string | null;
+    label: string | null;
+    description: string | null;
+    changeType: string;
+    createdAt: Date;
+    createdBy: string;
+    size: number | null;
+    storedSize: number | null;
+    editSnapshot: string | null; // 批量修改前的快照（JSON），其中的章节、大纲节点和角色ID指向本快照内的记录
+  }>;
+}
+
+// 复制的记录较多，放宽交互式事务的超时时间
+const FORK_TRANSACTION_TIMEOUT = 120000;
+
+/**
+ * 读取故事快照，故事不存在时返回 null
+ * @param includeVersions 是否包含故事和章节的版本历史
+ */
+export async function loadStorySnapshot(storyId: string, includeVersions: boolean): Promise<StorySnapshot | null> {
+  return prisma.story.findUnique({
+    where: { id: storyId },
+    include: {
+      volumes: true,
+      chapters: {
+        include: {
+          scenes: true,
+          drafts: true,
+          versions: includeVersions
+        }
+      },
+      characters: true,
+      characterRelationships: true,
+      codexEntries: { include: { links: { select: { id: true } } } },
+      timelineEvents: {
+        include: {
+          characters: { select: { id: true } },
+          chapters: { select: { id: true } },
+          scenes: { select: { id: true } }
+        }
+      },
+      outlineNodes: true,
+      versions: includeVersions
+    }
+  });
+}
+
+/**
+ * 深拷贝故事，返回新故事
+ * 所有关联都按新旧ID映射改写到副本内部，副本与原故事之间不共享任何子记录
+ */
+export async function forkStory(sourceStoryId: string, userId: string, options: ForkStoryOptions) {
+  const source = await loadStorySnapshot(sourceStoryId, options.includeVersions);
+
+  if (!source) {
+    throw new Error('要派生的故事不存在');
+  }
+
+  return createStoryFromSnapshot(source, userId, {
+    title: options.title,
+    storyStatus: 'in_progress',
+    forkedFromId: source.id
+  });
+}
+
+/**
+ * 按快照为用户创建新故事，快照中包含版本历史时一并创建
+ * 快照内的记录通过原ID相互引用，创建时按新旧ID映射改写
+ */
+export async function createStoryFromSnapshot(
+  source: StorySnapshot,
+  userId: string,
+  overrides: { title: string; storyStatus: string; forkedFromId?: string | null }
+) {
+  return prisma.$transaction(async (tx) => {
+    const story = await tx.story.create({
+      data: {
+        title: overrides.title,
+        content: source.content,
+        summary: source.summary,
+        worldSetting: source.worldSetting,
+        author: source.author,
+        coverImage: source.coverImage,
+        versionRetention: source.versionRetention,
+        outline: source.outline,
+        storyStatus: overrides.storyStatus,
+        aiProvider: source.aiProvider,
+        userId,
+        forkedFromId: overrides.forkedFromId || null
+      }
+    });
+
+    const storyId = story.id;
+    const volumeIds = new Map<string, string>();
+    const chapterIds = new Map<string, string>();
+    const sceneIds = new Map<string, string>();
+    const characterIds = new Map<string, string>();
+    const codexIds = new Map<string, string>();
+    const outlineIds = new Map<string, string>();
+    const mapId = (ids: Map<string, string>, id: string | null) => (id ? ids.get(id) || null : null);
+
+    for (const volume of source.volumes) {
+      const created = await tx.volume.create({
+        data: { storyId, title: volume.title, summary: volume.summary, order: volume.order }
+      });
+      volumeIds.set(volume.id, created.id);
+    }
+
+    // 角色需先于场景创建，场景的视角角色要指向副本中的角色
+    for (const character of source.characters) {
+      const created = await tx.character.create({
+        data: {
+          storyId,
+          userId,
+          name: character.name,
+          aliases: character.aliases,
+          description: character.description,
+          attributes: character.attributes
+        }
+      });
+      characterIds.set(character.id, created.id);
+    }
+
+    for (const chapter of source.chapters) {
+      const created = await tx.chapter.create({
+        data: {
+          storyId,
+          volumeId: mapId(volumeIds, chapter.volumeId),
+          title: chapter.title,
+          content: chapter.content,
+          order: chapter.order,
+          summary: chapter.summary,
+          notes: chapter.notes
+        }
+      });
+      chapterIds.set(chapter.id, created.id);
+
+      for (const scene of chapter.scenes) {
+        const createdScene = await tx.scene.create({
+          data: {
+            chapterId: created.id,
+            povCharacterId: mapId(characterIds, scene.povCharacterId),
+            title: scene.title,
+            content: scene.content,
+            order: scene.order,
+            summary: scene.summary,
+            location: scene.location,
+            goal: scene.goal,
+            conflict: scene.conflict,
+            outcome: scene.outcome
+          }
+        });
+        sceneIds.set(scene.id, createdScene.id);
+      }
+
+      // 复制草稿，并保持正在编辑的草稿
+      let activeDraftId: string | null = null;
+      for (const draft of chapter.drafts) {
+        const createdDraft = await tx.chapterDraft.create({
+          data: { chapterId: created.id, name: draft.name, content: draft.content }
+        });
+        if (draft.id === chapter.activeDraftId) {
+          activeDraftId = createdDraft.id;
+        }
+      }
+
+      if (activeDraftId) {
+        await tx.chapter.update({ where: { id: created.id }, data: { activeDraftId } });
+      }
+
+      if (chapter.versions) {
+        await tx.chapterVersion.createMany({
+          data: chapter.versions.map((version) => ({
+            chapterId: created.id,
+            versionId: version.versionId,
+            title: version.title,
+            content: version.content,
+            summary: version.summary,
+            notes: version.notes,
+            description: version.description,
+            changeType: version.changeType,
+            createdAt: version.createdAt,
+            createdBy: version.createdBy,
+            size: version.size
+          }))
+        });
+      }
+    }
+
+    for (const relationship of source.characterRelationships) {
+      const sourceCharacterId = mapId(characterIds, relationship.sourceCharacterId);
+      const targetCharacterId = mapId(characterIds, relationship.targetCharacterId);
+      // 关系两端的角色必须都在快照中
+      if (!sourceCharacterId || !targetCharacterId) continue;
+
+      await tx.characterRelationship.create({
+        data: {
+          storyId,
+          type: relationship.type,
+          direction: relationship.direction,
+          description: relationship.description,
+          sourceCharacterId,
+          targetCharacterId,
+          chapterId: mapId(chapterIds, relationship.chapterId)
+        }
+      });
+    }
+
+    // 世界设定条目先全部创建，再补上条目间的交叉引用
+    for (const entry of source.codexEntries) {
+      const created = await tx.codexEntry.create({
+        data: {
+          storyId,
+          type: entry.type,
+          name: entry.name,
+          description: entry.description,
+          fields: entry.fields,
+          aliases: entry.aliases
+        }
+      });
+      codexIds.set(entry.id, created.id);
+    }
+
+    for (const entry of source.codexEntries) {
+      const links = entry.links
+        .map((link) => codexIds.get(link.id))
+        .filter((id): id is string => Boolean(id));
+
+      if (links.length > 0) {
+        await tx.codexEntry.update({
+          where: { id: codexIds.get(entry.id) as string },
+          data: { links: { connect: links.map((id) => ({ id })) } }
+        });
+      }
+    }
+
+    const connectIds = (ids: Map<string, string>, items: { id: string }[]) =>
+      items
+        .map((item) => ids.get(item.id))
+        .filter((id): id is string => Boolean(id))
+        .map((id) => ({ id }));
+
+    for (const event of source.timelineEvents) {
+      await tx.timelineEvent.create({
+        data: {
+          storyId,
+          title: event.title,
+          description: event.description,
+          type: event.type,
+          storyDate: event.storyDate,
+          order: event.order,
+          location: event.location,
+          locationEntryId: mapId(codexIds, event.locationEntryId),
+          characters: { connect: connectIds(characterIds, event.characters) },
+          chapters: { connect: connectIds(chapterIds, event.chapters) },
+          scenes: { connect: connectIds(sceneIds, event.scenes) }
+        }
+      });
+    }
+
+    // 大纲节点按层级创建，保证父节点先于子节点
+    let pending = source.outlineNodes;
+    while (pending.length > 0) {
+      const ready = pending.filter((node) => !node.parentId || outlineIds.has(node.parentId));
+      // 父节点不在本故事中的节点作为根节点复制
+      const batch = ready.length > 0 ? ready : pending.slice(0, 1);
+
+      for (const node of batch) {
+        const created = await tx.outlineNode.create({
+          data: {
+            storyId,
+            type: node.type,
+            title: node.title,
+            description: node.description,
+            order: node.order,
+            status: node.status,
+            targetWordCount: node.targetWordCount,
+            parentId: mapId(outlineIds, node.parentId),
+            chapterId: mapId(chapterIds, node.chapterId)
+          }
+        });
+        outlineIds.set(node.id, created.id);
+      }
+
+      pending = pending.filter((node) => !outlineIds.has(node.id));
+    }
+
+    // 版本历史：先复制基准快照，再复制依赖快照的增量版本；批量修改快照中的ID改写为副本中的记录
+    if (source.versions) {
+      const editSnapshotIds = { chapters: chapterIds, outlineNodes: outlineIds, characters: characterIds };
+      const versionIds = new Map<string, string>();
+      const versions = [...source.versions].sort((a, b) => Number(Boolean(a.baseVersionId)) - Number(Boolean(b.baseVersionId)));
+
+      for (const version of versions) {
+        const created = await tx.storyVersion.create({
+          data: {
+            storyId,
+            versionId: version.versionId,
+            content: version.content,
+            delta: version.delta,
+            baseVersionId: mapId(versionIds, version.baseVersionId),
+            label: version.label,
+            description: version.description,
+            changeType: version.changeType,
+            createdAt: version.createdAt,
+            createdBy: version.createdBy,
+            size: version.size,
+            storedSize: version.storedSize,
+            editSnapshot: remapEditSnapshot(version.editSnapshot, editSnapshotIds)
+          }
+        });
+        versionIds.set(version.id, created.id);
+      }
+    }
+
+    return story;
+  }, { timeout: FORK_TRANSACTION_TIMEOUT });
+}
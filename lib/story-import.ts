@@ -0,0 +1,119 @@
+/**
+ * 导入内容写入数据库
+ * 将解析好的分卷和章节创建为新故事，或追加到已有故事末尾，并记录版本历史；各格式的导入共用此流程
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { createStoryVersion } from '@/lib/story-versions';
+
+export interface ImportedStoryData {
+  title: string;
+  content: string; // 故事正文（章节之外的内容，如前言）
+  summary?: string | null;
+  author?: string | null;
+  coverImage?: string | null;
+  volumes: string[]; // 按顺序排列的分卷标题
+  chapters: Array<{
+    title: string;
+    content: string;
+    volumeTitle: string | null; // 所属分卷标题，为空时不归入分卷
+  }>;
+}
+
+// 章节较多时放宽交互式事务的超时时间
+const IMPORT_TRANSACTION_TIMEOUT = 120000;
+
+/**
+ * 在事务中创建分卷和章节，顺序接在故事现有分卷和章节之后
+ */
+async function createVolumesAndChapters(tx: Prisma.TransactionClient, storyId: string, data: ImportedStoryData) {
+  const [lastVolume, lastChapter] = await Promise.all([
+    tx.volume.findFirst({ where: { storyId }, orderBy: { order: 'desc' }, select: { order: true } }),
+    tx.chapter.findFirst({ where: { storyId }, orderBy: { order: 'desc' }, select: { order: true } })
+  ]);
+
+  const volumeIds = new Map<string, string>();
+  let volumeOrder = lastVolume ? lastVolume.order : 0;
+  for (const title of data.volumes) {
+    if (volumeIds.has(title)) continue;
+    const volume = await tx.volume.create({
+      data: { storyId, title, order: ++volumeOrder }
+    });
+    volumeIds.set(title, volume.id);
+  }
+
+  const chapterOrder = lastChapter ? lastChapter.order : 0;
+  await tx.chapter.createMany({
+    data: data.chapters.map((chapter, index) => ({
+      storyId,
+      title: chapter.title,
+      content: chapter.content,
+      order: chapterOrder + index + 1,
+      volumeId: chapter.volumeTitle ? volumeIds.get(chapter.volumeTitle) || null : null
+    }))
+  });
+}
+
+/**
+ * 创建导入的新故事及其分卷和章节，并记录导入的初始版本
+ */
+export async function createImportedStory(userId: string, data: ImportedStoryData, createdBy: string) {
+  const story = await prisma.$transaction(async (tx) => {
+    const created = await tx.story.create({
+      data: {
+        title: data.title,
+        content: data.content,
+        summary: data.summary || null,
+        author: data.author || null,
+        coverImage: data.coverImage || null,
+        userId
+      }
+    });
+
+    await createVolumesAndChapters(tx, created.id, data);
+    return created;
+  }, { timeout: IMPORT_TRANSACTION_TIMEOUT });
+
+  await createStoryVersion(story.id, data.content, {
+    versionId: `import-${Date.now()}`,
+    description: data.chapters.length > 0 ? `导入的初始版本（${data.chapters.length} 章）` : '导入的初始版本',
+    changeType: 'import',
+    createdBy
+  });
+
+  return story;
+}
+
+/**
+ * 将导入的分卷和章节追加到已有故事末尾
+ * 导入前备份故事正文；导入内容包含正文时替换故事正文，否则保留原正文
+ */
+export async function appendImportedChapters(storyId: string, data: ImportedStoryData, createdBy: string) {
+  const existing = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { content: true }
+  });
+
+  if (existing?.content) {
+    await createStoryVersion(storyId, existing.content, {
+      versionId: `backup-${Date.now()}`,
+      description: '导入前自动备份',
+      changeType: 'auto-backup',
+      createdBy
+    });
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const story = await tx.story.update({
+      where: { id: storyId },
+      data: {
+        title: data.title,
+        ...(data.content ? { content: data.content } : {})
+      }
+    });
+
+    await createVolumesAndChapters(tx, storyId, data);
+    return story;
+  }, { timeout: IMPORT_TRANSACTION_TIMEOUT });
+}
@@ -0,0 +1,167 @@
+/**
+ * 故事模板的应用与提取
+ * 应用模板时按模板创建大纲节点、章节占位和角色；也可以从已有故事提取结构，保存为自定义模板
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { buildOutlineTree } from '@/lib/outline-tree';
+import { CHARACTER_ROLE_ATTRIBUTE, StoryTemplateStructure } from '@/lib/story-templates';
+
+// 模板的章节和节拍较多时放宽交互式事务的超时时间
+const TEMPLATE_SEED_TRANSACTION_TIMEOUT = 60000;
+
+/**
+ * 创建新故事，选择了模板时在同一事务中按模板创建大纲、章节占位和建议角色，任何一步失败都不会留下半成品故事
+ */
+export async function createStoryFromTemplate(
+  userId: string,
+  data: { title: string; content: string },
+  structure: StoryTemplateStructure | null
+) {
+  return prisma.$transaction(async (tx) => {
+    const story = await tx.story.create({
+      data: { title: data.title, content: data.content, userId }
+    });
+
+    if (structure) {
+      await seedStoryFromTemplate(tx, story.id, userId, structure);
+    }
+
+    return story;
+  }, { timeout: TEMPLATE_SEED_TRANSACTION_TIMEOUT });
+}
+
+/**
+ * 按模板为新故事创建大纲、章节占位和建议角色
+ * 每个模板章节对应一个空章节，并由大纲中的章节节点关联
+ */
+async function seedStoryFromTemplate(tx: Prisma.TransactionClient, storyId: string, userId: string, structure: StoryTemplateStructure) {
+  let chapterOrder = 0;
+
+  for (let actIndex = 0; actIndex < structure.acts.length; actIndex++) {
+    const act = structure.acts[actIndex];
+    const actNode = await tx.outlineNode.create({
+      data: {
+        storyId,
+        type: 'act',
+        title: act.title,
+        description: act.description || null,
+        order: actIndex + 1
+      }
+    });
+
+    for (let chapterIndex = 0; chapterIndex < act.chapters.length; chapterIndex++) {
+      const templateChapter = act.chapters[chapterIndex];
+      chapterOrder++;
+
+      const chapter = await tx.chapter.create({
+        data: {
+          storyId,
+          title: templateChapter.title,
+          content: '',
+          summary: templateChapter.summary || null,
+          order: chapterOrder
+        }
+      });
+
+      const chapterNode = await tx.outlineNode.create({
+        data: {
+          storyId,
+          type: 'chapter',
+          title: templateChapter.title,
+          description: templateChapter.summary || null,
+          order: chapterIndex + 1,
+          parentId: actNode.id,
+          chapterId: chapter.id
+        }
+      });
+
+      for (let beatIndex = 0; beatIndex < templateChapter.beats.length; beatIndex++) {
+        const beat = templateChapter.beats[beatIndex];
+        await tx.outlineNode.create({
+          data: {
+            storyId,
+            type: 'beat',
+            title: beat.title,
+            description: beat.description || null,
+            order: beatIndex + 1,
+            parentId: chapterNode.id
+          }
+        });
+      }
+    }
+  }
+
+  // 建议角色以定位作为暂定名称，创作时再改为真实姓名
+  for (const role of structure.characterRoles) {
+    await tx.character.create({
+      data: {
+        storyId,
+        userId,
+        name: role.role,
+        description: role.description || null,
+        attributes: JSON.stringify({ [CHARACTER_ROLE_ATTRIBUTE]: role.role })
+      }
+    });
+  }
+}
+
+/**
+ * 从已有故事提取模板结构：大纲的幕、章节点和节拍，以及角色定位
+ * 故事没有结构化大纲时，按章节顺序生成单幕结构
+ */
+export async function extractTemplateStructure(storyId: string): Promise<StoryTemplateStructure> {
+  const [outlineNodes, chapters, characters] = await Promise.all([
+    prisma.outlineNode.findMany({ where: { storyId }, orderBy: { order: 'asc' } }),
+    prisma.chapter.findMany({
+      where: { storyId },
+      select: { title: true, summary: true },
+      orderBy: { order: 'asc' }
+    }),
+    prisma.character.findMany({
+      where: { storyId },
+      select: { description: true, attributes: true },
+      orderBy: { createdAt: 'asc' }
+    })
+  ]);
+
+  const tree = buildOutlineTree(outlineNodes);
+  const acts = tree.length > 0
+    ? tree.map(act => ({
+        title: act.title,
+        description: act.description || undefined,
+        chapters: act.children.map(chapterNode => ({
+          title: chapterNode.title,
+          summary: chapterNode.description || undefined,
+          beats: chapterNode.children.map(beat => ({
+            title: beat.title,
+            description: beat.description || undefined
+          }))
+        }))
+      }))
+    : [{
+        title: '正文',
+        chapters: chapters.map((chapter: { title: string; summary: string | null }) => ({
+          title: chapter.title,
+          summary: chapter.summary || undefined,
+          beats: []
+        }))
+      }];
+
+  // 模板只保留角色定位，不带入具体人物；未设置定位的角色不会提取
+  const characterRoles = characters.flatMap((character: { description: string | null; attributes: string | null }) => {
+    try {
+      const attributes = character.attributes ? JSON.parse(character.attributes) : {};
+      const role = attributes[CHARACTER_ROLE_ATTRIBUTE];
+      return typeof role === 'string' && role.trim()
+        ? [{ role: role.trim(), description: character.description || undefined }]
+        : [];
+    } catch (e) {
+      console.error('解析角色属性失败:', e);
+      return [];
+    }
+  });
+
+  return { acts, characterRoles };
+}
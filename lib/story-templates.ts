@@ -0,0 +1,362 @@
+/**
+ * 故事模板
+ * 模板描述新故事的初始结构：幕 → 章 → 节拍 的大纲骨架、建议的角色定位和章节占位
+ * 内置模板以 builtin: 为ID前缀，用户自定义模板保存在 StoryTemplate 表中
+ */
+
+export interface TemplateBeat {
+  title: string;
+  description?: string;
+}
+
+export interface TemplateChapter {
+  title: string;
+  summary?: string;
+  beats: TemplateBeat[];
+}
+
+export interface TemplateAct {
+  title: string;
+  description?: string;
+  chapters: TemplateChapter[];
+}
+
+export interface TemplateCharacterRole {
+  // 角色定位，如主角、导师、反派
+  role: string;
+  description?: string;
+}
+
+export interface StoryTemplateStructure {
+  acts: TemplateAct[];
+  characterRoles: TemplateCharacterRole[];
+}
+
+export interface StoryTemplate {
+  id: string;
+  name: string;
+  description: string;
+  builtIn: boolean;
+  structure: StoryTemplateStructure;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export const BUILT_IN_TEMPLATE_PREFIX = 'builtin:';
+
+// 创建空白故事时使用的模板ID
+export const BLANK_TEMPLATE_ID = 'blank';
+
+// 角色属性中记录角色定位的键
+export const CHARACTER_ROLE_ATTRIBUTE = '角色定位';
+
+const chapter = (title: string, summary: string, beats: string[] = []): TemplateChapter => ({
+  title,
+  summary,
+  beats: beats.map(beat => ({ title: beat })),
+});
+
+export const BUILT_IN_STORY_TEMPLATES: StoryTemplate[] = [
+  {
+    id: `${BUILT_IN_TEMPLATE_PREFIX}three-act`,
+    name: '三幕结构',
+    description: '建置、对抗、结局的经典三段式结构，适合大多数类型的长篇故事。',
+    builtIn: true,
+    structure: {
+      acts: [
+        {
+          title: '第一幕：建置',
+          description: '介绍主角和日常世界，以激励事件打破平衡。',
+          chapters: [
+            chapter('日常世界', '展示主角的生活、欲望和缺陷。', ['开场画面', '主角的缺陷']),
+            chapter('激励事件', '打破主角生活平衡的事件发生。', ['事件发生', '主角的第一反应']),
+            chapter('第一个转折点', '主角做出决定，踏入新的局面。', ['犹豫与抉择', '跨越门槛']),
+          ],
+        },
+        {
+          title: '第二幕：对抗',
+          description: '主角在新局面中遭遇不断升级的阻碍。',
+          chapters: [
+            chapter('新的世界', '主角适应新环境，结识盟友与敌人。', ['试炼', '盟友与敌人']),
+            chapter('中点', '局势逆转，主角从被动转为主动或认清真相。', ['重大发现', '目标转变']),
+            chapter('危机', '反派力量逼近，主角失去重要的东西。', ['一切皆失', '灵魂暗夜']),
+          ],
+        },
+        {
+          title: '第三幕：结局',
+          description: '主角直面最终冲突，完成转变。',
+          chapters: [
+            chapter('高潮', '主角与对手正面交锋。', ['最终对决', '主角的选择']),
+            chapter('结局', '展示新的平衡和主角的变化。', ['余波', '结尾画面']),
+          ],
+        },
+      ],
+      characterRoles: [
+        { role: '主角', description: '推动故事的核心人物，有明确的欲望和内在缺陷' },
+        { role: '反派', description: '与主角目标冲突的对手' },
+        { role: '盟友', description: '在对抗中支持主角的人' },
+        { role: '导师', description: '为主角提供指引或关键帮助' },
+      ],
+    },
+  },
+  {
+    id: `${BUILT_IN_TEMPLATE_PREFIX}heros-journey`,
+    name: '英雄之旅',
+    description: '坎贝尔单一神话的十二阶段，适合冒险、奇幻和成长题材。',
+    builtIn: true,
+    structure: {
+      acts: [
+        {
+          title: '启程',
+          description: '英雄离开平凡世界。',
+          chapters: [
+            chapter('平凡世界', '英雄在日常生活中的样子。'),
+            chapter('冒险的召唤', '问题或挑战出现。'),
+            chapter('拒绝召唤', '英雄因恐惧或责任而犹豫。'),
+            chapter('遇见导师', '导师给予建议、训练或宝物。'),
+            chapter('跨越第一道门槛', '英雄决定踏上旅程。'),
+          ],
+        },
+        {
+          title: '启蒙',
+          description: '英雄在非常世界中接受考验。',
+          chapters: [
+            chapter('考验、盟友与敌人', '英雄学习新世界的规则。'),
+            chapter('接近最深的洞穴', '为最大的挑战做准备。'),
+            chapter('磨难', '英雄面对死亡般的危机。'),
+            chapter('获得奖赏', '英雄赢得宝物、知识或和解。'),
+          ],
+        },
+        {
+          title: '归来',
+          description: '英雄带着改变回到平凡世界。',
+          chapters: [
+            chapter('回归之路', '反派反扑，英雄必须离开非常世界。'),
+            chapter('复活', '最终考验，英雄完成蜕变。'),
+            chapter('携万能药归来', '英雄带着收获回到家园。'),
+          ],
+        },
+      ],
+      characterRoles: [
+        { role: '英雄', description: '踏上旅程并完成蜕变的主角' },
+        { role: '导师', description: '给予英雄指引和礼物的智者' },
+        { role: '门槛守卫', description: '考验英雄决心的阻碍者' },
+        { role: '使者', description: '带来冒险召唤的人物' },
+        { role: '变形者', description: '立场模糊、令人难以捉摸的角色' },
+        { role: '阴影', description: '英雄的最终对手或黑暗面' },
+        { role: '伙伴', description: '与英雄同行、提供支持或笑料的角色' },
+      ],
+    },
+  },
+  {
+    id: `${BUILT_IN_TEMPLATE_PREFIX}save-the-cat`,
+    name: '救猫咪',
+    description: '布莱克·斯奈德的十五个节拍，节奏清晰，适合商业类型小说。',
+    builtIn: true,
+    structure: {
+      acts: [
+        {
+          title: '第一幕',
+          chapters: [
+            chapter('开场画面', '故事开始前主角的状态快照。', ['开场画面', '主题呈现']),
+            chapter('铺垫', '主角的生活、缺陷和需要改变的地方。', ['铺垫']),
+            chapter('催化剂', '改变主角生活的事件。', ['催化剂', '争论']),
+          ],
+        },
+        {
+          title: '第二幕',
+          chapters: [
+            chapter('进入第二幕', '主角主动选择进入新世界。', ['进入第二幕', 'B故事']),
+            chapter('游戏时间', '兑现故事前提的精彩部分。', ['游戏时间']),
+            chapter('中点', '虚假的胜利或虚假的失败。', ['中点']),
+            chapter('坏人逼近', '内忧外患一起压向主角。', ['坏人逼近']),
+            chapter('一无所有', '主角跌入谷底。', ['一无所有', '灵魂黑夜']),
+          ],
+        },
+        {
+          title: '第三幕',
+          chapters: [
+            chapter('进入第三幕', '主角找到解决办法。', ['进入第三幕']),
+            chapter('终局', '主角运用所学战胜困难。', ['终局']),
+            chapter('终场画面', '与开场画面呼应，展示改变。', ['终场画面']),
+          ],
+        },
+      ],
+      characterRoles: [
+        { role: '主角', description: '有明显缺陷、需要改变的人物' },
+        { role: '反派', description: '让主角陷入困境的力量' },
+        { role: 'B故事角色', description: '承载主题的副线人物，常为爱人或导师' },
+      ],
+    },
+  },
+  {
+    id: `${BUILT_IN_TEMPLATE_PREFIX}qi-cheng-zhuan-he`,
+    name: '起承转合',
+    description: '中国传统的四段式结构，讲究铺垫、承接、转折与收束。',
+    builtIn: true,
+    structure: {
+      acts: [
+        {
+          title: '起',
+          description: '交代人物、环境与缘起。',
+          chapters: [chapter('缘起', '人物登场，事件的起因。', ['人物登场', '引出事件'])],
+        },
+        {
+          title: '承',
+          description: '承接开端，情节顺势发展。',
+          chapters: [
+            chapter('发展', '矛盾逐步展开。', ['矛盾展开']),
+            chapter('蓄势', '各方力量积累，为转折做铺垫。', ['伏笔']),
+          ],
+        },
+        {
+          title: '转',
+          description: '情节出现关键转折。',
+          chapters: [chapter('转折', '意料之外的变化打破原有走向。', ['突变', '高潮'])],
+        },
+        {
+          title: '合',
+          description: '收束全篇，回应开端。',
+          chapters: [chapter('收束', '矛盾解决，首尾呼应。', ['结局', '余韵'])],
+        },
+      ],
+      characterRoles: [
+        { role: '主角', description: '贯穿起承转合的核心人物' },
+        { role: '对手', description: '制造矛盾与转折的人物' },
+        { role: '配角', description: '推动情节承接的人物' },
+      ],
+    },
+  },
+  {
+    id: `${BUILT_IN_TEMPLATE_PREFIX}web-novel-leveling`,
+    name: '网文升级流',
+    description: '以主角实力阶梯为主线，地图逐级扩展，爽点循环推进。',
+    builtIn: true,
+    structure: {
+      acts: [
+        {
+          title: '第一卷：崛起',
+          description: '主角获得金手指，在新手地图站稳脚跟。',
+          chapters: [
+            chapter('废柴开局', '主角身处低谷，受人轻视。', ['受辱', '立志']),
+            chapter('获得金手指', '奇遇降临，主角获得成长的依仗。', ['奇遇', '初试身手']),
+            chapter('初露锋芒', '主角首次打脸，赢得第一波认可。', ['挑衅', '打脸', '收获']),
+          ],
+        },
+        {
+          title: '第二卷：扬名',
+          description: '进入更大的舞台，与同辈天骄竞争。',
+          chapters: [
+            chapter('进入新地图', '宗门、学院或城市等更大的舞台。', ['新规则', '新势力']),
+            chapter('大比夺魁', '比赛或试炼中力压群雄。', ['对手登场', '越级战斗', '夺魁']),
+            chapter('结仇强敌', '引来更强势力的敌视。', ['冲突升级', '暂避锋芒']),
+          ],
+        },
+        {
+          title: '第三卷：争锋',
+          description: '实力突破，解决本阶段的大反派，开启下一张地图。',
+          chapters: [
+            chapter('闭关突破', '主角实力跨越大境界。', ['瓶颈', '突破']),
+            chapter('决战', '与本阶段大反派的最终对决。', ['决战', '真相揭露']),
+            chapter('更大的世界', '揭示更高层次的世界，引出下一阶段目标。', ['新目标']),
+          ],
+        },
+      ],
+      characterRoles: [
+        { role: '主角', description: '起点低、成长快，拥有金手指' },
+        { role: '金手指', description: '系统、老爷爷或神秘传承' },
+        { role: '红颜', description: '与主角并肩的女性角色' },
+        { role: '兄弟', description: '忠诚的伙伴' },
+        { role: '阶段反派', description: '每张地图的主要对手' },
+        { role: '幕后黑手', description: '贯穿全书的终极对手' },
+      ],
+    },
+  },
+];
+
+/**
+ * 判断是否为内置模板ID
+ */
+export function isBuiltInTemplateId(templateId: string): boolean {
+  return templateId.startsWith(BUILT_IN_TEMPLATE_PREFIX);
+}
+
+/**
+ * 按ID查找内置模板
+ */
+export function findBuiltInTemplate(templateId: string): StoryTemplate | undefined {
+  return BUILT_IN_STORY_TEMPLATES.find(template => template.id === templateId);
+}
+
+/**
+ * 规范化模板结构：去除空标题的条目，缺失的数组视为空
+ */
+export function normalizeTemplateStructure(input: unknown): StoryTemplateStructure {
+  const source = (input && typeof input === 'object' ? input : {}) as Partial<StoryTemplateStructure>;
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const list = <T>(value: unknown): T[] => (Array.isArray(value) ? value : []);
+
+  return {
+    acts: list<TemplateAct>(source.acts)
+      .filter(act => text(act?.title))
+      .map(act => ({
+        title: text(act.title),
+        description: text(act.description) || undefined,
+        chapters: list<TemplateChapter>(act.chapters)
+          .filter(item => text(item?.title))
+          .map(item => ({
+            title: text(item.title),
+            summary: text(item.summary) || undefined,
+            beats: list<TemplateBeat>(item.beats)
+              .filter(beat => text(beat?.title))
+              .map(beat => ({ title: text(beat.title), description: text(beat.description) || undefined })),
+          })),
+      })),
+    characterRoles: list<TemplateCharacterRole>(source.characterRoles)
+      .filter(role => text(role?.role))
+      .map(role => ({ role: text(role.role), description: text(role.description) || undefined })),
+  };
+}
+
+/**
+ * 解析数据库中保存的模板结构
+ */
+export function parseTemplateStructure(value: string | null | undefined): StoryTemplateStructure {
+  if (!value) return { acts: [], characterRoles: [] };
+
+  try {
+    return normalizeTemplateStructure(JSON.parse(value));
+  } catch (e) {
+    console.error('解析故事模板失败:', e);
+    return { acts: [], characterRoles: [] };
+  }
+}
+
+/**
+ * 统计模板中的章节占位数量
+ */
+export function countTemplateChapters(structure: StoryTemplateStructure): number {
+  return structure.acts.reduce((total, act) => total + act.chapters.length, 0);
+}
+
+/**
+ * 将数据库中的自定义模板转换为模板对象
+ */
+export function toStoryTemplate(record: {
+  id: string;
+  name: string;
+  description: string | null;
+  structure: string;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}): StoryTemplate {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description || '',
+    builtIn: false,
+    structure: parseTemplateStructure(record.structure),
+    createdAt: new Date(record.createdAt).toISOString(),
+    updatedAt: new Date(record.updatedAt).toISOString(),
+  };
+}
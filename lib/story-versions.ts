@@ -0,0 +1,498 @@
+/**
+ * 故事版本工具函数
+ * 版本以“基准快照 + 段落增量”的形式保存：每个增量版本只依赖一个完整快照，读取时最多多查一次
+ * 所有创建、读取和清理故事版本的地方都应通过这里，不要直接读写 content 字段
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { generateVersionId } from '@/lib/auto-save';
+import { getContentSizeInKB, writeContentToScenes } from '@/lib/chapter-versions';
+import { applyDelta, createDelta, isDeltaWorthwhile } from '@/lib/version-delta';
+import { RetentionPolicy, parseRetentionPolicy, selectVersionsToPrune } from '@/lib/version-retention';
+
+// 解析内容所需的版本字段
+interface StoredStoryVersion {
+  id: string;
+  content: string | null;
+  delta: string | null;
+  baseVersionId: string | null;
+}
+
+// 批量修改章节前保存的章节字段
+export interface ChapterSnapshot {
+  id: string;
+  title: string;
+  content: string;
+  summary: string | null;
+  notes: string | null;
+}
+
+// 批量修改大纲节点前保存的字段
+export interface OutlineNodeSnapshot {
+  id: string;
+  title: string;
+  description: string | null;
+}
+
+// 批量修改角色前保存的字段
+export interface CharacterSnapshot {
+  id: string;
+  name: string;
+  description: string | null;
+  aliases: string | null;
+}
+
+// 批量修改前受影响内容的快照，恢复版本时一并写回
+export interface EditSnapshot {
+  chapters: ChapterSnapshot[];
+  outlineNodes: OutlineNodeSnapshot[];
+  characters: CharacterSnapshot[];
+  storyOutline?: string | null; // 故事大纲文本，未修改时不保存
+}
+
+/**
+ * 计算字符串的存储字节数
+ */
+function getByteLength(value: string | null | undefined): number {
+  return new TextEncoder().encode(value || '').length;
+}
+
+/**
+ * 为内容选择存储形式：与基准快照的增量足够小时存增量，否则存完整快照
+ */
+function encodeVersionContent(content: string, base: { id: string; content: string | null } | null) {
+  if (base && base.content !== null) {
+    const delta = createDelta(base.content, content);
+
+    if (isDeltaWorthwhile(delta, content)) {
+      return { content: null, delta, baseVersionId: base.id, storedSize: getByteLength(delta) };
+    }
+  }
+
+  return { content, delta: null, baseVersionId: null, storedSize: getByteLength(content) };
+}
+
+// 删除版本时迁移依赖版本需要逐条重写，放宽交互式事务的超时时间
+const VERSION_DELETE_TRANSACTION_TIMEOUT = 60000;
+
+/**
+ * 查找故事最新的基准快照，新版本总是相对它保存增量，因此它不会被删除或清理
+ */
+async function findLatestSnapshot(storyId: string, client: Prisma.TransactionClient = prisma) {
+  return client.storyVersion.findFirst({
+    where: { storyId, baseVersionId: null, content: { not: null } },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, content: true }
+  });
+}
+
+/**
+ * 创建故事版本，内容相对最近的基准快照保存为增量
+ */
+export async function createStoryVersion(
+  storyId: string,
+  content: string,
+  options: {
+    versionId?: string;
+    description?: string;
+    changeType: string;
+    createdBy: string;
+    label?: string | null;
+    editSnapshot?: EditSnapshot; // 批量修改前受影响内容的快照
+  }
+) {
+  const latestSnapshot = await findLatestSnapshot(storyId);
+
+  const encoded = encodeVersionContent(content, latestSnapshot);
+  const editSnapshot = options.editSnapshot ? JSON.stringify(options.editSnapshot) : null;
+
+  return prisma.storyVersion.create({
+    data: {
+      storyId,
+      versionId: options.versionId || generateVersionId(),
+      description: options.description || '版本更新',
+      changeType: options.changeType,
+      createdBy: options.createdBy,
+      label: options.label || null,
+      size: getContentSizeInKB(content),
+      ...encoded,
+      editSnapshot,
+      storedSize: encoded.storedSize + getByteLength(editSnapshot)
+    }
+  });
+}
+
+/**
+ * 读取受影响的章节、大纲节点和角色的当前字段作为快照
+ */
+export async function captureEditSnapshot(targets: {
+  chapterIds?: string[];
+  outlineNodeIds?: string[];
+  characterIds?: string[];
+  storyOutlineOf?: string; // 需要同时保存故事大纲文本时传入故事ID
+}): Promise<EditSnapshot> {
+  const [chapters, outlineNodes, characters, story] = await Promise.all([
+    targets.chapterIds && targets.chapterIds.length > 0
+      ? prisma.chapter.findMany({
+          where: { id: { in: targets.chapterIds } },
+          select: { id: true, title: true, content: true, summary: true, notes: true },
+          orderBy: { order: 'asc' }
+        })
+      : [],
+    targets.outlineNodeIds && targets.outlineNodeIds.length > 0
+      ? prisma.outlineNode.findMany({
+          where: { id: { in: targets.outlineNodeIds } },
+          select: { id: true, title: true, description: true }
+        })
+      : [],
+    targets.characterIds && targets.characterIds.length > 0
+      ? prisma.character.findMany({
+          where: { id: { in: targets.characterIds } },
+          select: { id: true, name: true, description: true, aliases: true }
+        })
+      : [],
+    targets.storyOutlineOf
+      ? prisma.story.findUnique({ where: { id: targets.storyOutlineOf }, select: { outline: true } })
+      : null
+  ]);
+
+  return {
+    chapters,
+    outlineNodes,
+    characters,
+    ...(story && { storyOutline: story.outline })
+  };
+}
+
+/**
+ * 解析版本中保存的快照，格式无效时返回空快照
+ */
+export function parseEditSnapshot(raw: string | null | undefined): EditSnapshot {
+  const empty: EditSnapshot = { chapters: [], outlineNodes: [], characters: [] };
+  if (!raw) return empty;
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') return empty;
+
+    const valid = (items: unknown, key: string) =>
+      Array.isArray(items) ? items.filter(item => item && typeof item.id === 'string' && typeof item[key] === 'string') : [];
+
+    return {
+      chapters: valid(parsed.chapters, 'content'),
+      outlineNodes: valid(parsed.outlineNodes, 'title'),
+      characters: valid(parsed.characters, 'name'),
+      ...(parsed.storyOutline !== undefined && { storyOutline: parsed.storyOutline })
+    };
+  } catch {
+    return empty;
+  }
+}
+
+/**
+ * 快照是否包含需要写回的内容
+ */
+export function isEditSnapshotEmpty(snapshot: EditSnapshot): boolean {
+  return (
+    snapshot.chapters.length === 0 &&
+    snapshot.outlineNodes.length === 0 &&
+    snapshot.characters.length === 0 &&
+    snapshot.storyOutline === undefined
+  );
+}
+
+/**
+ * 按新旧ID映射改写快照中的章节、大纲节点和角色，用于复制或导入版本历史
+ * 映射中没有的记录在原故事中已删除，恢复时本来就会跳过，直接去掉；改写后为空时返回 null
+ */
+export function remapEditSnapshot(
+  raw: string | null,
+  ids: { chapters: Map<string, string>; outlineNodes: Map<string, string>; characters: Map<string, string> }
+): string | null {
+  if (!raw) return null;
+
+  const snapshot = parseEditSnapshot(raw);
+  const remap = <T extends { id: string }>(items: T[], map: Map<string, string>): T[] =>
+    items.flatMap(item => {
+      const id = map.get(item.id);
+      return id ? [{ ...item, id }] : [];
+    });
+
+  const remapped: EditSnapshot = {
+    chapters: remap(snapshot.chapters, ids.chapters),
+    outlineNodes: remap(snapshot.outlineNodes, ids.outlineNodes),
+    characters: remap(snapshot.characters, ids.characters),
+    ...(snapshot.storyOutline !== undefined && { storyOutline: snapshot.storyOutline })
+  };
+
+  return isEditSnapshotEmpty(remapped) ? null : JSON.stringify(remapped);
+}
+
+/**
+ * 再次读取快照涉及内容的当前状态，用于恢复前备份
+ */
+export function captureEditSnapshotFor(storyId: string, snapshot: EditSnapshot): Promise<EditSnapshot> {
+  return captureEditSnapshot({
+    chapterIds: snapshot.chapters.map(chapter => chapter.id),
+    outlineNodeIds: snapshot.outlineNodes.map(node => node.id),
+    characterIds: snapshot.characters.map(character => character.id),
+    storyOutlineOf: snapshot.storyOutline !== undefined ? storyId : undefined
+  });
+}
+
+/**
+ * 将快照写回仍属于该故事的章节、大纲节点和角色，已删除的跳过；返回恢复的章节数
+ */
+export async function restoreEditSnapshot(storyId: string, snapshot: EditSnapshot): Promise<number> {
+  const [existingChapters, existingNodes, existingCharacters] = await Promise.all([
+    prisma.chapter.findMany({
+      where: { storyId, id: { in: snapshot.chapters.map(chapter => chapter.id) } },
+      select: { id: true }
+    }),
+    prisma.outlineNode.findMany({
+      where: { storyId, id: { in: snapshot.outlineNodes.map(node => node.id) } },
+      select: { id: true }
+    }),
+    prisma.character.findMany({
+      where: { storyId, id: { in: snapshot.characters.map(character => character.id) } },
+      select: { id: true }
+    })
+  ]);
+  const toIdSet = (items: Array<{ id: string }>) => new Set(items.map(item => item.id));
+  const chapterIds = toIdSet(existingChapters);
+  const nodeIds = toIdSet(existingNodes);
+  const characterIds = toIdSet(existingCharacters);
+  const chapters = snapshot.chapters.filter(chapter => chapterIds.has(chapter.id));
+
+  await prisma.$transaction([
+    ...chapters.map(chapter =>
+      prisma.chapter.update({
+        where: { id: chapter.id },
+        data: {
+          title: chapter.title,
+          content: chapter.content,
+          summary: chapter.summary,
+          notes: chapter.notes,
+          updatedAt: new Date()
+        }
+      })
+    ),
+    ...snapshot.outlineNodes
+      .filter(node => nodeIds.has(node.id))
+      .map(node =>
+        prisma.outlineNode.update({
+          where: { id: node.id },
+          data: { title: node.title, description: node.description }
+        })
+      ),
+    ...snapshot.characters
+      .filter(character => characterIds.has(character.id))
+      .map(character =>
+        prisma.character.update({
+          where: { id: character.id },
+          data: { name: character.name, description: character.description, aliases: character.aliases }
+        })
+      ),
+    ...(snapshot.storyOutline !== undefined
+      ? [prisma.story.update({ where: { id: storyId }, data: { outline: snapshot.storyOutline } })]
+      : [])
+  ]);
+
+  // 已拆分为场景的章节同步写回场景
+  for (const chapter of chapters) {
+    await writeContentToScenes(chapter.id, chapter.content);
+  }
+
+  return chapters.length;
+}
+
+/**
+ * 还原版本的完整内容
+ */
+export async function resolveStoryVersionContent(version: StoredStoryVersion): Promise<string> {
+  if (version.content !== null && !version.baseVersionId) {
+    return version.content;
+  }
+
+  const base = await prisma.storyVersion.findUnique({
+    where: { id: version.baseVersionId || '' },
+    select: { content: true }
+  });
+
+  if (!base || base.content === null || version.delta === null) {
+    throw new Error(`版本 ${version.id} 的基准快照缺失，无法还原内容`);
+  }
+
+  return applyDelta(base.content, version.delta);
+}
+
+/**
+ * 快照即将被删除时，将仍保留的增量版本改为依赖新的快照
+ * 最早的依赖版本成为新快照，其余版本改为相对它的增量；须与删除快照在同一事务中执行
+ */
+async function detachDependents(tx: Prisma.TransactionClient, snapshotId: string, removedIds: Set<string>) {
+  const [snapshot, dependents] = await Promise.all([
+    tx.storyVersion.findUnique({
+      where: { id: snapshotId },
+      select: { content: true }
+    }),
+    tx.storyVersion.findMany({
+      where: { baseVersionId: snapshotId, id: { notIn: Array.from(removedIds) } },
+      select: { id: true, delta: true, editSnapshot: true },
+      orderBy: { createdAt: 'asc' }
+    })
+  ]);
+
+  let newBase: { id: string; content: string | null } | null = null;
+
+  for (const dependent of dependents) {
+    const content = applyDelta(snapshot?.content || '', dependent.delta || '[]');
+    const encoded = encodeVersionContent(content, newBase);
+
+    await tx.storyVersion.update({
+      where: { id: dependent.id },
+      data: { ...encoded, storedSize: encoded.storedSize + getByteLength(dependent.editSnapshot) }
+    });
+
+    if (!encoded.baseVersionId) {
+      newBase = { id: dependent.id, content };
+    }
+  }
+}
+
+/**
+ * 删除故事的指定版本，返回删除数量
+ * 最新的基准快照正被新版本引用，不能删除，此时返回 null
+ */
+export async function deleteStoryVersion(storyId: string, versionId: string): Promise<number | null> {
+  return prisma.$transaction(async (tx) => {
+    const versions = await tx.storyVersion.findMany({
+      where: { storyId, versionId },
+      select: { id: true, baseVersionId: true }
+    });
+
+    const latestSnapshot = await findLatestSnapshot(storyId, tx);
+    if (latestSnapshot && versions.some((version: { id: string }) => version.id === latestSnapshot.id)) {
+      return null;
+    }
+
+    const removedIds = new Set<string>(versions.map((version: { id: string }) => version.id));
+
+    for (const version of versions) {
+      if (!version.baseVersionId) {
+        await detachDependents(tx, version.id, removedIds);
+      }
+    }
+
+    const deleteResult = await tx.storyVersion.deleteMany({
+      where: { id: { in: Array.from(removedIds) } }
+    });
+
+    return deleteResult.count;
+  }, { timeout: VERSION_DELETE_TRANSACTION_TIMEOUT });
+}
+
+/**
+ * 按故事的保留策略清理版本；被删除的快照如仍有保留的增量依赖它，先将这些增量改为依赖新的快照
+ * 最新的基准快照始终保留
+ * dryRun 为 true 时只返回将被清理的版本，不做修改
+ */
+export async function compactStoryVersions(storyId: string, options: { policy?: RetentionPolicy; dryRun?: boolean } = {}) {
+  let policy = options.policy;
+
+  if (!policy) {
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { versionRetention: true }
+    });
+    policy = parseRetentionPolicy(story?.versionRetention);
+  }
+
+  const versions = await prisma.storyVersion.findMany({
+    where: { storyId },
+    select: { id: true, versionId: true, createdAt: true, changeType: true, label: true, baseVersionId: true, size: true, storedSize: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  type VersionSummary = (typeof versions)[number];
+  const latestSnapshot = await findLatestSnapshot(storyId);
+  const pruneIds = new Set(selectVersionsToPrune(versions, policy));
+  if (latestSnapshot) {
+    pruneIds.delete(latestSnapshot.id);
+  }
+  const pruned = versions.filter((version: VersionSummary) => pruneIds.has(version.id));
+  const result = {
+    deletedCount: pruned.length,
+    keptCount: versions.length - pruned.length,
+    freedBytes: pruned.reduce(
+      (total: number, version: VersionSummary) => total + (version.storedSize ?? (version.size || 0) * 1024),
+      0
+    ),
+    deletedVersionIds: pruned.map((version: VersionSummary) => version.versionId)
+  };
+
+  if (options.dryRun || pruned.length === 0) {
+    return result;
+  }
+
+  // 删除快照前，把仍保留的增量版本迁移到新的快照上，迁移和删除在同一事务中完成
+  await prisma.$transaction(async (tx) => {
+    for (const snapshot of pruned.filter((version: VersionSummary) => !version.baseVersionId)) {
+      await detachDependents(tx, snapshot.id, pruneIds);
+    }
+
+    await tx.storyVersion.deleteMany({
+      where: { id: { in: Array.from(pruneIds) } }
+    });
+  }, { timeout: VERSION_DELETE_TRANSACTION_TIMEOUT });
+
+  return result;
+}
+
+/**
+ * 统计故事版本占用的存储空间
+ */
+export async function getVersionStorageSummary(storyId: string) {
+  const [snapshotStats, legacyStats, deltaStats, chapterVersionStats] = await Promise.all([
+    prisma.storyVersion.aggregate({
+      where: { storyId, baseVersionId: null },
+      _count: { _all: true },
+      _sum: { storedSize: true, size: true }
+    }),
+    // 早期版本未记录实际存储大小，按内容大小估算
+    prisma.storyVersion.aggregate({
+      where: { storyId, storedSize: null },
+      _sum: { size: true }
+    }),
+    prisma.storyVersion.aggregate({
+      where: { storyId, baseVersionId: { not: null } },
+      _count: { _all: true },
+      _sum: { storedSize: true, size: true }
+    }),
+    prisma.chapterVersion.aggregate({
+      where: { chapter: { storyId } },
+      _count: { _all: true },
+      _sum: { size: true }
+    })
+  ]);
+
+  const snapshotBytes = (snapshotStats._sum.storedSize || 0) + (legacyStats._sum.size || 0) * 1024;
+  const deltaBytes = deltaStats._sum.storedSize || 0;
+  // 若全部以完整内容保存所需的空间，用于展示增量存储节省的比例
+  const fullBytes = ((snapshotStats._sum.size || 0) + (deltaStats._sum.size || 0)) * 1024;
+
+  return {
+    storyVersions: {
+      count: snapshotStats._count._all + deltaStats._count._all,
+      snapshots: snapshotStats._count._all,
+      deltas: deltaStats._count._all,
+      storedBytes: snapshotBytes + deltaBytes,
+      fullBytes
+    },
+    chapterVersions: {
+      count: chapterVersionStats._count._all,
+      storedBytes: (chapterVersionStats._sum.size || 0) * 1024
+    }
+  };
+}
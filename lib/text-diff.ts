@@ -0,0 +1,272 @@
+/**
+ * 文本差异比较工具
+ * 先按段落比较找出变更块，再对变更块做词级比较；中日韩文字按单字切分，英文按单词切分
+ * 纯函数实现，服务端计算差异，客户端渲染差异并按块恢复
+ */
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffToken {
+  type: DiffOpType;
+  text: string;
+}
+
+// 差异块：equal 为未变更的段落，change 为有增删的段落
+export interface DiffHunk {
+  index: number;
+  type: 'equal' | 'change';
+  oldParagraphs: string[];
+  newParagraphs: string[];
+  // 仅变更块包含词级差异
+  tokens: DiffToken[];
+}
+
+export interface TextDiffResult {
+  hunks: DiffHunk[];
+  stats: {
+    added: number;
+    removed: number;
+    changedHunks: number;
+  };
+}
+
+// 段落级和词级比较允许的最大编辑步数，超过时整块视为替换
+const MAX_PARAGRAPH_EDITS = 4000;
+const MAX_TOKEN_EDITS = 2000;
+
+// 中日韩文字逐字切分，英文数字按单词切分，空白和标点单独成词
+const TOKEN_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]|[A-Za-z0-9_\u00c0-\u024f]+(?:['\u2019][A-Za-z]+)*|\s+|[\s\S]/gu;
+
+// 段落边界：换行或块级 HTML 标签结束处
+const PARAGRAPH_BOUNDARY = /(?<=\n)|(?<=<\/(?:p|h[1-6]|li|blockquote|pre|div)>)/i;
+
+/**
+ * 将文本切分为词，拼接结果与原文一致
+ */
+export function tokenize(text: string): string[] {
+  return text.match(TOKEN_PATTERN) || [];
+}
+
+/**
+ * 按段落切分内容，保留分隔符，拼接结果与原文一致；纯空白片段并入前一段
+ */
+export function splitParagraphs(content: string): string[] {
+  const paragraphs: string[] = [];
+
+  (content || '').split(PARAGRAPH_BOUNDARY).forEach(piece => {
+    if (!piece) return;
+    if (!piece.trim() && paragraphs.length > 0) {
+      paragraphs[paragraphs.length - 1] += piece;
+    } else {
+      paragraphs.push(piece);
+    }
+  });
+
+  return paragraphs;
+}
+
+/**
+ * 将段落（可能含 HTML）转换为用于展示和词级比较的纯文本
+ */
+export function toPlainText(paragraph: string): string {
+  return paragraph
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Myers 差异算法，编辑步数超过 maxEdits 时返回 null
+ */
+function myersDiff<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean, maxEdits: number): Array<{ type: DiffOpType; value: T }> | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] 保存第 d 步开始前 k ∈ [-d-1, d+1] 范围内的状态
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, maxEdits); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && equals(a[x], b[y])) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 根据 Myers 算法的中间状态回溯出编辑序列
+ */
+function backtrack<T>(a: T[], b: T[], trace: Int32Array[]): Array<{ type: DiffOpType; value: T }> {
+  const ops: Array<{ type: DiffOpType; value: T }> = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const state = trace[d];
+    const get = (k: number) => state[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+    const prevX = get(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', value: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', value: b[y - 1] });
+        y--;
+      } else {
+        ops.push({ type: 'delete', value: a[x - 1] });
+        x--;
+      }
+    }
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * 比较两个序列，先去掉公共前后缀再运行 Myers 算法，超出编辑上限时整体替换
+ */
+export function diffSequences<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean, maxEdits: number): Array<{ type: DiffOpType; value: T }> {
+  let start = 0;
+  while (start < a.length && start < b.length && equals(a[start], b[start])) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && equals(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = myersDiff(middleA, middleB, equals, maxEdits) || [
+    ...middleA.map(value => ({ type: 'delete' as DiffOpType, value })),
+    ...middleB.map(value => ({ type: 'insert' as DiffOpType, value }))
+  ];
+
+  return [
+    ...a.slice(0, start).map(value => ({ type: 'equal' as DiffOpType, value })),
+    ...middle,
+    ...a.slice(endA).map(value => ({ type: 'equal' as DiffOpType, value }))
+  ];
+}
+
+/**
+ * 词级比较两段纯文本，相邻同类词合并
+ */
+export function diffWords(oldText: string, newText: string): DiffToken[] {
+  const ops = diffSequences(tokenize(oldText), tokenize(newText), (x, y) => x === y, MAX_TOKEN_EDITS);
+  const tokens: DiffToken[] = [];
+
+  ops.forEach(op => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === op.type) {
+      last.text += op.value;
+    } else {
+      tokens.push({ type: op.type, text: op.value });
+    }
+  });
+
+  return tokens;
+}
+
+/**
+ * 比较新旧内容，返回按段落划分的差异块
+ */
+export function computeTextDiff(oldContent: string, newContent: string): TextDiffResult {
+  const oldParagraphs = splitParagraphs(oldContent);
+  const newParagraphs = splitParagraphs(newContent);
+  const ops = diffSequences(
+    oldParagraphs.map((paragraph, index) => ({ paragraph, index })),
+    newParagraphs.map((paragraph, index) => ({ paragraph, index })),
+    (x, y) => x.paragraph.trim() === y.paragraph.trim(),
+    MAX_PARAGRAPH_EDITS
+  );
+
+  const hunks: DiffHunk[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+
+  ops.forEach(op => {
+    const hunkType = op.type === 'equal' ? 'equal' : 'change';
+    let hunk = hunks[hunks.length - 1];
+
+    if (!hunk || hunk.type !== hunkType) {
+      hunk = { index: hunks.length, type: hunkType, oldParagraphs: [], newParagraphs: [], tokens: [] };
+      hunks.push(hunk);
+    }
+
+    if (op.type !== 'insert') {
+      hunk.oldParagraphs.push(oldParagraphs[oldIndex++]);
+    }
+    if (op.type !== 'delete') {
+      hunk.newParagraphs.push(newParagraphs[newIndex++]);
+    }
+  });
+
+  const stats = { added: 0, removed: 0, changedHunks: 0 };
+
+  hunks
+    .filter(hunk => hunk.type === 'change')
+    .forEach(hunk => {
+      hunk.tokens = diffWords(
+        hunk.oldParagraphs.map(toPlainText).join('\n'),
+        hunk.newParagraphs.map(toPlainText).join('\n')
+      );
+      stats.changedHunks++;
+
+      // 统计增删字数时忽略空白
+      hunk.tokens.forEach(token => {
+        const length = token.text.replace(/\s/g, '').length;
+        if (token.type === 'insert') stats.added += length;
+        if (token.type === 'delete') stats.removed += length;
+      });
+    });
+
+  return { hunks, stats };
+}
+
+/**
+ * 将指定差异块恢复为旧内容，其余部分保持新内容，返回恢复后的完整内容
+ */
+export function restoreHunk(hunks: DiffHunk[], hunkIndex: number): string {
+  const pieces = hunks.flatMap(hunk => (hunk.index === hunkIndex ? hunk.oldParagraphs : hunk.newParagraphs));
+
+  // 段落末尾缺少分隔符时补上换行，避免与下一段粘连
+  return pieces
+    .map((piece, index) => (index < pieces.length - 1 && !/(\n|<\/[a-z0-9]+>)\s*$/i.test(piece) ? `${piece}\n` : piece))
+    .join('');
+}
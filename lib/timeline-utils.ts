@@ -0,0 +1,172 @@
+/**
+ * 时间线工具函数
+ * 时间线事件按故事内时间顺序（order）排列，章节顺序代表读者的阅读顺序，
+ * 一致性检查对比两者，找出角色死亡后仍出场、出生前已出场以及章节叙事时间倒置等问题
+ */
+
+export type TimelineEventType = 'general' | 'birth' | 'death';
+
+export const TIMELINE_EVENT_TYPES: { value: TimelineEventType; label: string }[] = [
+  { value: 'general', label: '一般事件' },
+  { value: 'birth', label: '出生/登场' },
+  { value: 'death', label: '死亡/离场' },
+];
+
+// 一致性检查所需的事件数据
+export interface TimelineEventRecord {
+  id: string;
+  title: string;
+  type: string;
+  order: number;
+  storyDate?: string | null;
+  characters: Array<{ id: string; name: string }>;
+  chapters: Array<{ id: string }>;
+  scenes?: Array<{ id: string; chapterId: string }>;
+}
+
+export interface TimelineIssue {
+  severity: 'error' | 'warning';
+  kind: 'after_death' | 'before_birth' | 'out_of_order';
+  message: string;
+  eventId?: string;
+  chapterId?: string;
+  characterId?: string;
+}
+
+/**
+ * 判断是否为受支持的事件类型
+ */
+export function isTimelineEventType(type: unknown): type is TimelineEventType {
+  return TIMELINE_EVENT_TYPES.some(item => item.value === type);
+}
+
+/**
+ * 获取事件类型的中文名称
+ */
+export function getTimelineEventTypeLabel(type: string): string {
+  return TIMELINE_EVENT_TYPES.find(item => item.value === type)?.label || type;
+}
+
+/**
+ * 获取事件关联的所有章节ID（包括通过场景关联的章节）
+ */
+export function getEventChapterIds(event: TimelineEventRecord): string[] {
+  return Array.from(new Set([
+    ...event.chapters.map(chapter => chapter.id),
+    ...(event.scenes || []).map(scene => scene.chapterId),
+  ]));
+}
+
+/**
+ * 格式化事件的时间描述
+ */
+function describeEvent(event: TimelineEventRecord): string {
+  return `"${event.title}"${event.storyDate ? `（${event.storyDate}）` : ''}`;
+}
+
+/**
+ * 检查时间线与章节之间的一致性
+ */
+export function checkTimelineConsistency(
+  events: TimelineEventRecord[],
+  chapters: Array<{ id: string; title: string; order: number; content?: string | null }>
+): TimelineIssue[] {
+  const issues: TimelineIssue[] = [];
+  const sortedEvents = [...events].sort((a, b) => a.order - b.order);
+  const sortedChapters = [...chapters].sort((a, b) => a.order - b.order);
+  const chapterLabel = (chapter: { title: string; order: number }) => `第${chapter.order}章《${chapter.title}》`;
+
+  // 每个角色最早的死亡事件和最晚的出生事件
+  const deathEvents = new Map<string, TimelineEventRecord>();
+  const birthEvents = new Map<string, TimelineEventRecord>();
+  sortedEvents.forEach(event => {
+    event.characters.forEach(character => {
+      if (event.type === 'death' && !deathEvents.has(character.id)) {
+        deathEvents.set(character.id, event);
+      }
+      if (event.type === 'birth') {
+        birthEvents.set(character.id, event);
+      }
+    });
+  });
+
+  // 1. 事件层面：角色参与了其死亡之后或出生之前的事件
+  sortedEvents.forEach(event => {
+    event.characters.forEach(character => {
+      const death = deathEvents.get(character.id);
+      if (death && death.id !== event.id && event.order > death.order) {
+        issues.push({
+          severity: 'error',
+          kind: 'after_death',
+          message: `${character.name}在死亡事件${describeEvent(death)}之后仍参与了事件${describeEvent(event)}`,
+          eventId: event.id,
+          characterId: character.id,
+        });
+      }
+
+      const birth = birthEvents.get(character.id);
+      if (birth && birth.id !== event.id && event.order < birth.order) {
+        issues.push({
+          severity: 'error',
+          kind: 'before_birth',
+          message: `${character.name}在出生事件${describeEvent(birth)}之前就参与了事件${describeEvent(event)}`,
+          eventId: event.id,
+          characterId: character.id,
+        });
+      }
+    });
+  });
+
+  // 章节在故事内的时间范围由其关联的事件决定
+  const chapterEvents = new Map<string, TimelineEventRecord[]>();
+  sortedEvents.forEach(event => {
+    getEventChapterIds(event).forEach(chapterId => {
+      chapterEvents.set(chapterId, [...(chapterEvents.get(chapterId) || []), event]);
+    });
+  });
+
+  let latestEvent: TimelineEventRecord | undefined;
+  let latestChapter: (typeof sortedChapters)[number] | undefined;
+
+  sortedChapters.forEach(chapter => {
+    const linkedEvents = chapterEvents.get(chapter.id);
+    if (!linkedEvents || linkedEvents.length === 0) return;
+
+    const earliest = linkedEvents[0];
+    const latest = linkedEvents[linkedEvents.length - 1];
+
+    // 2. 章节层面：章节设定在角色死亡之后，正文中却出现了该角色
+    deathEvents.forEach((death, characterId) => {
+      if (latest.order <= death.order || linkedEvents.some(event => event.id === death.id)) return;
+
+      const character = death.characters.find(item => item.id === characterId);
+      if (character && chapter.content && chapter.content.includes(character.name)) {
+        issues.push({
+          severity: 'warning',
+          kind: 'after_death',
+          message: `${chapterLabel(chapter)}发生在${character.name}的死亡事件${describeEvent(death)}之后，但正文中仍出现了该角色（如为回忆可忽略）`,
+          chapterId: chapter.id,
+          characterId,
+        });
+      }
+    });
+
+    // 3. 叙事顺序：章节引用的事件早于前面章节已经叙述过的事件
+    if (latestEvent && latestChapter && earliest.order < latestEvent.order) {
+      issues.push({
+        severity: 'warning',
+        kind: 'out_of_order',
+        message: `${chapterLabel(chapter)}引用的事件${describeEvent(earliest)}在时间上早于${chapterLabel(latestChapter)}中的事件${describeEvent(latestEvent)}（如为倒叙可忽略）`,
+        eventId: earliest.id,
+        chapterId: chapter.id,
+      });
+    }
+
+    if (!latestEvent || latest.order > latestEvent.order) {
+      latestEvent = latest;
+      latestChapter = chapter;
+    }
+  });
+
+  return issues;
+}
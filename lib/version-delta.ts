@@ -0,0 +1,75 @@
+/**
+ * 版本增量编码
+ * 版本内容按段落与基准快照比较，只保存增量；增量为 JSON 数组：
+ * [0, n] 保留基准中的 n 段，[1, text] 插入文本，[2, n] 跳过基准中的 n 段
+ */
+
+import { diffSequences, splitParagraphs } from '@/lib/text-diff';
+
+type DeltaOp = [0, number] | [1, string] | [2, number];
+
+// 增量超过完整内容的该比例时改存完整快照
+export const MAX_DELTA_RATIO = 0.5;
+
+// 增量编码时段落比较的编辑上限，超出时整体替换（增量不划算，改存完整快照）
+// 比较的内存和时间随编辑步数平方增长，且在保存请求中同步执行，上限不宜过大
+const MAX_DELTA_EDITS = 1000;
+
+/**
+ * 计算 content 相对 base 的增量
+ */
+export function createDelta(base: string, content: string): string {
+  const ops: DeltaOp[] = [];
+
+  diffSequences(splitParagraphs(base), splitParagraphs(content), (x, y) => x === y, MAX_DELTA_EDITS).forEach(op => {
+    const last = ops[ops.length - 1];
+
+    if (op.type === 'insert') {
+      if (last && last[0] === 1) {
+        last[1] += op.value;
+      } else {
+        ops.push([1, op.value]);
+      }
+      return;
+    }
+
+    const code = op.type === 'equal' ? 0 : 2;
+    if (last && last[0] === code) {
+      (last as [0 | 2, number])[1]++;
+    } else {
+      ops.push([code, 1]);
+    }
+  });
+
+  return JSON.stringify(ops);
+}
+
+/**
+ * 将增量应用到基准内容上，还原出完整内容
+ */
+export function applyDelta(base: string, delta: string): string {
+  const paragraphs = splitParagraphs(base);
+  const ops: DeltaOp[] = JSON.parse(delta);
+  let index = 0;
+  let result = '';
+
+  ops.forEach(op => {
+    if (op[0] === 0) {
+      result += paragraphs.slice(index, index + op[1]).join('');
+      index += op[1];
+    } else if (op[0] === 2) {
+      index += op[1];
+    } else {
+      result += op[1];
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 判断增量是否足够小，值得以增量形式保存
+ */
+export function isDeltaWorthwhile(delta: string, content: string): boolean {
+  return delta.length < content.length * MAX_DELTA_RATIO;
+}
@@ -0,0 +1,115 @@
+/**
+ * 故事版本保留策略
+ * 近期版本全部保留，之后每小时、每天只保留最新的一个；手动保存、导入和命名版本始终保留
+ */
+
+export interface RetentionPolicy {
+  // 全部保留的时长（小时）
+  keepAllHours: number;
+  // 每小时保留一个版本的时长（天）
+  hourlyForDays: number;
+  // 每天保留一个版本的时长（天），null 表示永久按天保留
+  dailyForDays: number | null;
+  // 始终保留的变更类型
+  protectedChangeTypes: string[];
+}
+
+// 参与保留判断的版本字段
+export interface RetentionCandidate {
+  id: string;
+  createdAt: Date | string;
+  changeType: string;
+  label?: string | null;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  keepAllHours: 24,
+  hourlyForDays: 7,
+  dailyForDays: null,
+  protectedChangeTypes: ['manual', 'import', 'bulk-edit']
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * 解析故事保存的保留策略，缺失或非法的字段使用默认值
+ */
+export function parseRetentionPolicy(value: string | null | undefined): RetentionPolicy {
+  if (!value) return DEFAULT_RETENTION_POLICY;
+
+  try {
+    return normalizeRetentionPolicy(JSON.parse(value));
+  } catch (e) {
+    console.error('解析版本保留策略失败:', e);
+    return DEFAULT_RETENTION_POLICY;
+  }
+}
+
+/**
+ * 规范化保留策略：时长取非负整数，每小时保留期不短于全部保留期
+ */
+export function normalizeRetentionPolicy(input: Partial<RetentionPolicy>): RetentionPolicy {
+  const toNonNegativeInt = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+
+  const keepAllHours = toNonNegativeInt(input.keepAllHours, DEFAULT_RETENTION_POLICY.keepAllHours);
+  const hourlyForDays = Math.max(
+    toNonNegativeInt(input.hourlyForDays, DEFAULT_RETENTION_POLICY.hourlyForDays),
+    Math.ceil(keepAllHours / 24)
+  );
+  const dailyForDays = input.dailyForDays === null
+    ? null
+    : Math.max(toNonNegativeInt(input.dailyForDays, hourlyForDays), hourlyForDays);
+  const protectedChangeTypes = Array.isArray(input.protectedChangeTypes)
+    ? input.protectedChangeTypes.filter((type): type is string => typeof type === 'string')
+    : DEFAULT_RETENTION_POLICY.protectedChangeTypes;
+
+  return { keepAllHours, hourlyForDays, dailyForDays, protectedChangeTypes };
+}
+
+/**
+ * 判断版本是否始终保留
+ */
+export function isProtectedVersion(version: RetentionCandidate, policy: RetentionPolicy): boolean {
+  return policy.protectedChangeTypes.includes(version.changeType) || !!version.label?.trim();
+}
+
+/**
+ * 按保留策略选出应清理的版本ID；最新的版本始终保留
+ */
+export function selectVersionsToPrune(
+  versions: RetentionCandidate[],
+  policy: RetentionPolicy,
+  now: Date = new Date()
+): string[] {
+  const sorted = [...versions].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const keptHours = new Set<number>();
+  const keptDays = new Set<number>();
+  const toPrune: string[] = [];
+
+  sorted.forEach((version, index) => {
+    const time = new Date(version.createdAt).getTime();
+    const age = now.getTime() - time;
+    const hour = Math.floor(time / HOUR_MS);
+    const day = Math.floor(time / DAY_MS);
+
+    let keep = index === 0 || isProtectedVersion(version, policy) || age < policy.keepAllHours * HOUR_MS;
+
+    if (!keep && age < policy.hourlyForDays * DAY_MS) {
+      keep = !keptHours.has(hour);
+    } else if (!keep && (policy.dailyForDays === null || age < policy.dailyForDays * DAY_MS)) {
+      keep = !keptDays.has(day);
+    }
+
+    // 保留的版本占用所在的小时和日期，同一时段内更早的版本会被清理
+    if (keep) {
+      keptHours.add(hour);
+      keptDays.add(day);
+    } else {
+      toPrune.push(version.id);
+    }
+  });
+
+  return toPrune;
+}
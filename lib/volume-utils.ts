@@ -0,0 +1,76 @@
+/**
+ * 分卷工具函数
+ * 将按全局顺序排列的章节归入所属分卷，供故事页、导航和导出共用
+ */
+
+// 未分卷章节所在分组的标题
+export const UNASSIGNED_VOLUME_TITLE = "未分卷";
+
+export interface VolumeGroup<C> {
+  id: string | null; // 未分卷分组为 null
+  title: string;
+  summary?: string | null;
+  order: number;
+  chapters: C[];
+}
+
+/**
+ * 按分卷顺序对章节分组，分卷内保持章节顺序
+ * 没有所属分卷（或所属分卷不存在）的章节归入末尾的“未分卷”分组，仅在存在此类章节时返回该分组
+ */
+export function groupChaptersByVolume<C extends { volumeId?: string | null; order: number }>(
+  volumes: Array<{ id: string; title: string; summary?: string | null; order: number }>,
+  chapters: C[]
+): VolumeGroup<C>[] {
+  const sortedChapters = [...chapters].sort((a, b) => a.order - b.order);
+  const groups: VolumeGroup<C>[] = [...volumes]
+    .sort((a, b) => a.order - b.order)
+    .map(volume => ({
+      id: volume.id,
+      title: volume.title,
+      summary: volume.summary,
+      order: volume.order,
+      chapters: sortedChapters.filter(chapter => chapter.volumeId === volume.id)
+    }));
+
+  const volumeIds = new Set(volumes.map(volume => volume.id));
+  const unassigned = sortedChapters.filter(chapter => !chapter.volumeId || !volumeIds.has(chapter.volumeId));
+
+  if (unassigned.length > 0) {
+    groups.push({
+      id: null,
+      title: UNASSIGNED_VOLUME_TITLE,
+      order: groups.length + 1,
+      chapters: unassigned
+    });
+  }
+
+  return groups;
+}
+
+/**
+ * 计算拖拽章节后的完整章节顺序
+ * 章节插入到目标分组中 beforeChapterId 之前（为 null 时追加到分组末尾），并归入该分组的分卷
+ * 返回按分组展开后的章节列表，分组之间不再交错
+ */
+export function reorderChaptersInGroups<C extends { id: string; volumeId?: string | null }>(
+  groups: VolumeGroup<C>[],
+  chapterId: string,
+  targetVolumeId: string | null,
+  beforeChapterId: string | null
+): Array<{ id: string; volumeId: string | null }> {
+  const result: Array<{ id: string; volumeId: string | null }> = [];
+
+  for (const group of groups) {
+    const ids = group.chapters.map(chapter => chapter.id).filter(id => id !== chapterId);
+
+    if (group.id === targetVolumeId) {
+      const index = beforeChapterId ? ids.indexOf(beforeChapterId) : -1;
+      ids.splice(index >= 0 ? index : ids.length, 0, chapterId);
+    }
+
+    result.push(...ids.map(id => ({ id, volumeId: group.id })));
+  }
+
+  return result;
+}
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import JSZip from "jszip";
+import { createZipReader } from "@/lib/zip-limits";
+
+const KB = 1024;
+
+async function buildZip(files: Record<string, Buffer>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, data] of Object.entries(files)) zip.file(name, data);
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+/**
+ * 把中央目录中记录的解压大小改小，模拟伪造的压缩包
+ */
+function forgeUncompressedSizes(data: Buffer, size: number): Buffer {
+  const forged = Buffer.from(data);
+  for (let offset = forged.indexOf("PK\x01\x02"); offset !== -1; offset = forged.indexOf("PK\x01\x02", offset + 4)) {
+    forged.writeUInt32LE(size, offset + 24);
+  }
+  return forged;
+}
+
+test("读取未超过上限的文件", async () => {
+  const zip = await JSZip.loadAsync(await buildZip({ "a.txt": Buffer.from("陈平安") }));
+  const readEntry = createZipReader({ maxEntrySize: KB, maxTotalSize: KB });
+  assert.equal((await readEntry(zip.file("a.txt")!)).toString("utf8"), "陈平安");
+});
+
+test("单个文件超过上限时拒绝", async () => {
+  const zip = await JSZip.loadAsync(await buildZip({ "a.txt": Buffer.alloc(64 * KB) }));
+  const readEntry = createZipReader({ maxEntrySize: 32 * KB, maxTotalSize: 128 * KB });
+  await assert.rejects(readEntry(zip.file("a.txt")!), /a\.txt 解压后超过 32 KB/);
+});
+
+test("累计解压超过整个压缩包的上限时拒绝", async () => {
+  const zip = await JSZip.loadAsync(await buildZip({ "a.txt": Buffer.alloc(40 * KB), "b.txt": Buffer.alloc(40 * KB) }));
+  const readEntry = createZipReader({ maxEntrySize: 64 * KB, maxTotalSize: 64 * KB });
+  await readEntry(zip.file("a.txt")!);
+  await assert.rejects(readEntry(zip.file("b.txt")!), /压缩包解压后超过 64 KB/);
+});
+
+test("记录的大小被伪造时按实际解压长度拒绝", async () => {
+  const zip = await JSZip.loadAsync(forgeUncompressedSizes(await buildZip({ "a.txt": Buffer.alloc(1024 * KB) }), 10));
+  const readEntry = createZipReader({ maxEntrySize: 64 * KB, maxTotalSize: 64 * KB });
+  await assert.rejects(readEntry(zip.file("a.txt")!), /a\.txt 解压后超过 64 KB/);
+});
@@ -0,0 +1,72 @@
+/**
+ * 读取上传的 ZIP（项目存档、EPUB）时限制解压后的大小
+ * 压缩率很高的文件（解压炸弹）解压后可能占满内存，因此读取每个文件前先检查压缩包记录的解压大小，
+ * 解压时再按实际长度计数，超过单个文件或整个压缩包的上限即停止解压并抛出错误
+ */
+
+import JSZip from 'jszip';
+
+export interface ZipReadLimits {
+  // 单个文件解压后的最大字节数
+  maxEntrySize: number;
+  // 整个压缩包累计解压的最大字节数
+  maxTotalSize: number;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / 1024 / 1024)} MB` : `${Math.round(bytes / 1024)} KB`;
+}
+
+/**
+ * 压缩包中记录的文件解压后大小（字节），记录可能被伪造，只用于提前拒绝
+ * JSZip 没有公开这个字段，读不到时返回 0，由解压时的计数兜底
+ */
+export function getUncompressedSize(file: JSZip.JSZipObject): number {
+  const size = (file as unknown as { _data?: { uncompressedSize?: unknown } })._data?.uncompressedSize;
+  return typeof size === 'number' ? size : 0;
+}
+
+/**
+ * 创建按上限读取压缩包文件的函数，同一个函数读取的所有文件共用整个压缩包的额度
+ * maxSize 可为单个文件指定更小的上限
+ */
+export function createZipReader(limits: ZipReadLimits) {
+  let remaining = limits.maxTotalSize;
+
+  return async function readEntry(file: JSZip.JSZipObject, maxSize = limits.maxEntrySize): Promise<Buffer> {
+    const check = (size: number) => {
+      if (size > maxSize) {
+        throw new Error(`${file.name} 解压后超过 ${formatSize(maxSize)}`);
+      }
+      if (size > remaining) {
+        throw new Error(`压缩包解压后超过 ${formatSize(limits.maxTotalSize)}`);
+      }
+    };
+
+    check(getUncompressedSize(file));
+
+    const data = await new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const stream = file.nodeStream('nodebuffer');
+      stream.on('data', (chunk: Buffer | string) => {
+        size += chunk.length;
+        try {
+          check(size);
+        } catch (error) {
+          // 暂停后 JSZip 停止解压，已解压的部分随流一起释放
+          stream.pause();
+          stream.removeAllListeners('data');
+          reject(error);
+          return;
+        }
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+      });
+      stream.on('error', reject);
+      stream.on('end', () => resolve(Buffer.concat(chunks)));
+    });
+
+    remaining -= data.length;
+    return data;
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * 一次性迁移：将旧版保存在 Chapter.versionHistory（JSON）中的章节历史版本写入 ChapterVersion 表
+ * 每个章节在一个事务中写入版本并清空 versionHistory，可重复执行，已迁移的章节不会重复写入
+ * 运行：npm run db:backfill-chapter-versions
+ */
+
+import prisma from '@/lib/prisma';
+import { generateVersionId } from '@/lib/auto-save';
+import { getContentSizeInKB } from '@/lib/chapter-versions';
+
+// 每批读取的章节数
+const BATCH_SIZE = 100;
+
+// 旧版历史记录的格式：每次保存章节前追加一条，最多保留 5 条
+interface LegacyChapterVersion {
+  timestamp?: string;
+  title?: string;
+  content?: string | null;
+  summary?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * 解析旧版历史记录，无法解析或不是数组时返回 null
+ */
+function parseLegacyHistory(raw: string): LegacyChapterVersion[] | null {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(item => item && typeof item === 'object') : null;
+  } catch {
+    return null;
+  }
+}
+
+async function main() {
+  let migratedChapters = 0;
+  let migratedVersions = 0;
+  let skipped = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const chapters = await prisma.chapter.findMany({
+      // 按ID顺序分批读取，跳过的章节不会被重复读取
+      where: { versionHistory: { not: null }, ...(cursor && { id: { gt: cursor } }) },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      select: {
+        id: true,
+        title: true,
+        updatedAt: true,
+        versionHistory: true,
+        story: { select: { user: { select: { name: true, email: true } } } }
+      }
+    });
+
+    if (chapters.length === 0) break;
+    cursor = chapters[chapters.length - 1].id;
+
+    for (const chapter of chapters) {
+      const history = parseLegacyHistory(chapter.versionHistory as string);
+      if (!history) {
+        // 保留无法解析的内容，便于人工检查
+        console.warn(`章节 ${chapter.id} 的版本历史无法解析，已跳过`);
+        skipped++;
+        continue;
+      }
+
+      const createdBy = chapter.story.user?.name || chapter.story.user?.email || '用户';
+      const versions = history.map(item => {
+        const createdAt = item.timestamp ? new Date(item.timestamp) : null;
+        return {
+          chapterId: chapter.id,
+          versionId: generateVersionId(),
+          title: typeof item.title === 'string' ? item.title : chapter.title,
+          content: typeof item.content === 'string' ? item.content : '',
+          summary: typeof item.summary === 'string' ? item.summary : null,
+          notes: typeof item.notes === 'string' ? item.notes : null,
+          description: '从旧版版本历史迁移',
+          changeType: 'auto',
+          createdBy,
+          size: getContentSizeInKB(typeof item.content === 'string' ? item.content : ''),
+          ...(createdAt && !Number.isNaN(createdAt.getTime()) && { createdAt })
+        };
+      });
+
+      await prisma.$transaction([
+        prisma.chapterVersion.createMany({ data: versions }),
+        prisma.chapter.update({
+          where: { id: chapter.id },
+          // 保持原来的修改时间，迁移不算作编辑
+          data: { versionHistory: null, updatedAt: chapter.updatedAt }
+        })
+      ]);
+
+      migratedChapters++;
+      migratedVersions += versions.length;
+    }
+  }
+
+  console.log(`迁移完成：${migratedChapters} 个章节，${migratedVersions} 个版本，跳过 ${skipped} 个章节`);
+}
+
+main()
+  .catch(error => {
+    console.error('迁移章节版本历史失败:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());